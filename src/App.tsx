@@ -15,6 +15,10 @@ import { useDraftHistoryStore } from './state/draftHistoryStore';
 import { useUserStore } from './state/userStore';
 import { usePackCatalogStore } from './state/packCatalogStore';
 import { usePrivateInventoryStore } from './state/privateInventoryStore';
+import { usePackOrderStore } from './state/packOrderStore';
+import { useEventStore } from './state/eventStore';
+import { useNotificationStore } from './state/notificationStore';
+import { useServerClockStore } from './state/serverClockStore';
 import Auth from './components/Auth';
 import Inventory from './pages/Inventory';
 import DraftHub from './pages/DraftHub';
@@ -87,12 +91,17 @@ export default function App() {
   const { profile, startListening, stopListening, loadPublicProfiles, isRegistering } = useUserStore();
   const loadPacks = useInventoryStore(s => s.loadPacks);
   const clearPacks = useInventoryStore(s => s.clearAll);
-  const loadDrafts = useDraftHistoryStore(s => s.loadDrafts);
+  const listenToDrafts = useDraftHistoryStore(s => s.startListening);
   const clearDrafts = useDraftHistoryStore(s => s.clearDrafts);
+  const resetClock = useServerClockStore(s => s.reset);
   const drafts = useDraftHistoryStore(s => s.drafts);
   const hasActiveTournament = drafts.some(d => d.tournament?.status === 'active');
   const loadCatalog = usePackCatalogStore(s => s.loadEntries);
   const loadMyInventory = usePrivateInventoryStore(s => s.loadMyInventory);
+  const loadAllocationPrefs = usePrivateInventoryStore(s => s.loadAllocationPrefs);
+  const loadOrders = usePackOrderStore(s => s.loadOrders);
+  const loadEvents = useEventStore(s => s.loadEvents);
+  const loadNotificationPrefs = useNotificationStore(s => s.loadMyPrefs);
 
   useEffect(() => {
     const unsub = onAuthStateChanged(auth, async (user) => {
@@ -104,6 +113,7 @@ export default function App() {
         stopListening();
         clearPacks();
         clearDrafts();
+        resetClock();
       }
     });
     return () => unsub();
@@ -123,9 +133,13 @@ export default function App() {
   useEffect(() => {
     if (profile?.status === 'approved') {
       loadPacks();
-      loadDrafts();
+      listenToDrafts();
       loadCatalog();
       loadMyInventory();
+      loadAllocationPrefs();
+      loadOrders();
+      loadEvents();
+      loadNotificationPrefs();
       loadPublicProfiles();
     }
   }, [profile?.status]);
@@ -16,6 +16,7 @@ export default function Auth({ currentUser }: AuthProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [name, setName] = useState('');
+  const [emailOnApproval, setEmailOnApproval] = useState(false);
   const [isSignUp, setIsSignUp] = useState(false);
   const [error, setError] = useState('');
   const [submitting, setSubmitting] = useState(false);
@@ -46,7 +47,7 @@ export default function Auth({ currentUser }: AuthProps) {
     let credential;
     try {
       credential = await createUserWithEmailAndPassword(auth, email, password);
-      await createProfile(credential.user.uid, name.trim(), email);
+      await createProfile(credential.user.uid, name.trim(), email, emailOnApproval);
       setEmail(''); setPassword(''); setName('');
     } catch (err: unknown) {
       const message = (err as Error).message.replace('Firebase: ', '');
@@ -117,6 +118,17 @@ export default function Auth({ currentUser }: AuthProps) {
           />
         </div>
 
+        {isSignUp && (
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={emailOnApproval}
+              onChange={e => setEmailOnApproval(e.target.checked)}
+            />
+            Email me when my account is approved
+          </label>
+        )}
+
         {error && <p className="text-sm text-red-400 text-center">{error}</p>}
 
         <button
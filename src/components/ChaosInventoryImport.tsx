@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react';
+import { useInventoryStore, type Pack } from '../state/inventoryStore';
+import { PartialCommitError } from '../state/batchedWrites';
+import { usePackCatalogStore } from '../state/packCatalogStore';
+import {
+  parseInventoryCsv,
+  planInventoryImport,
+  type ImportChange,
+  type ImportChangeKind,
+} from '../utils/inventoryImport';
+
+const KIND_LABEL: Record<ImportChangeKind, string> = {
+  add: 'New packs',
+  update: 'Count changes',
+  unchanged: 'Unchanged',
+  unknown: 'Not in catalog (skipped)',
+};
+
+const KIND_STYLE: Record<ImportChangeKind, string> = {
+  add: 'text-green-400',
+  update: 'text-blue-400',
+  unchanged: 'text-gray-500',
+  unknown: 'text-yellow-400',
+};
+
+export default function ChaosInventoryImport() {
+  const { packs, importPacks } = useInventoryStore();
+  const catalog = usePackCatalogStore(s => s.entries);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [plan, setPlan] = useState<ImportChange<Pack>[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [applying, setApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    const { rows, errors } = parseInventoryCsv(await file.text());
+    setFileName(file.name);
+    setErrors(errors);
+    setApplyError(null);
+    setPlan(planInventoryImport(rows, catalog, packs));
+  };
+
+  const close = () => {
+    setPlan(null);
+    setFileName(null);
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const pending = plan?.filter(c => c.kind === 'add' || c.kind === 'update') ?? [];
+
+  const handleApply = async () => {
+    setApplying(true);
+    setApplyError(null);
+    try {
+      await importPacks(pending);
+      close();
+    } catch (err) {
+      if (err instanceof PartialCommitError) {
+        // Plan again against the reloaded packs, so what was saved shows as unchanged
+        setPlan(planInventoryImport(plan!.flatMap(c => c.rows), catalog, useInventoryStore.getState().packs));
+        setApplyError(
+          `Import stopped partway — ${err.committed} of ${err.total} changes were saved. ` +
+          'Apply again to import the rest.'
+        );
+      } else {
+        setApplyError('Import failed — nothing was changed. Please try again.');
+      }
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])}
+      />
+      <button
+        onClick={() => fileRef.current?.click()}
+        className="py-3 px-6 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded-lg transition-all text-base"
+      >
+        Import from CSV
+      </button>
+
+      {plan && (
+        <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+          <div className="bg-gray-800 p-6 rounded-2xl shadow-2xl border border-gray-700 max-w-2xl w-full max-h-[85vh] flex flex-col">
+            <h3 className="text-2xl font-bold text-white">Import Preview</h3>
+            <p className="text-gray-400 text-sm mt-1">{fileName}</p>
+
+            <div className="mt-4 space-y-4 overflow-y-auto flex-1">
+              {errors.length > 0 && (
+                <div className="bg-red-900/20 border border-red-700/40 rounded-lg p-3 space-y-0.5">
+                  {errors.map(err => (
+                    <p key={err} className="text-xs text-red-300">{err}</p>
+                  ))}
+                </div>
+              )}
+              {(['add', 'update', 'unknown', 'unchanged'] as const).map(kind => {
+                const changes = plan.filter(c => c.kind === kind);
+                if (changes.length === 0) return null;
+                return (
+                  <div key={kind}>
+                    <p className={`text-[10px] font-bold uppercase tracking-widest mb-1 ${KIND_STYLE[kind]}`}>
+                      {KIND_LABEL[kind]} ({changes.length})
+                    </p>
+                    <div className="space-y-0.5">
+                      {changes.map(change => (
+                        <div
+                          key={change.rows.map(r => r.line).join('-')}
+                          className="flex items-center gap-3 text-sm"
+                        >
+                          <span className="flex-1 min-w-0 truncate text-gray-200">
+                            {change.match?.entry.name ?? change.rows[0].name}
+                            {change.match && change.match.score < 1 && (
+                              <span className="ml-2 text-xs text-yellow-400">
+                                ≈ “{change.rows[0].name}” ({Math.round(change.match.score * 100)}%)
+                              </span>
+                            )}
+                            {change.rows.length > 1 && (
+                              <span className="ml-2 text-xs text-gray-500">{change.rows.length} rows combined</span>
+                            )}
+                          </span>
+                          <span className="text-xs text-gray-400 whitespace-nowrap">
+                            {change.kind === 'update' && change.existing && (
+                              <span className="text-gray-500">
+                                {change.existing.inPerson} / {change.existing.inTransit} →{' '}
+                              </span>
+                            )}
+                            {change.inPerson} avail / {change.inTransit} transit
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {applyError && <p className="text-red-400 text-sm mt-3">{applyError}</p>}
+            <div className="flex gap-4 mt-6">
+              <button
+                onClick={close}
+                className="flex-1 py-3 px-4 bg-gray-600 hover:bg-gray-500 text-white font-bold rounded-lg transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleApply}
+                disabled={applying || pending.length === 0}
+                className="flex-1 py-3 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold rounded-lg shadow-lg"
+              >
+                {applying ? 'Importing…' : pending.length === 0 ? 'Nothing to import' : `Apply ${pending.length} change${pending.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
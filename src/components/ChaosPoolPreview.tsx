@@ -0,0 +1,68 @@
+import { useMemo, useState } from 'react';
+import type { Pack } from '../state/inventoryStore';
+import { pickProbabilities, toChaosPool } from '../utils/chaosDraw';
+
+interface ChaosPoolPreviewProps {
+  packs: Pack[];
+}
+
+// Collapsed view shows the most likely packs; the rest are one click away
+const PREVIEW_LIMIT = 8;
+
+export default function ChaosPoolPreview({ packs }: ChaosPoolPreviewProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const rows = useMemo(() => {
+    const byId = new Map(packs.map(p => [p.id, p]));
+    return pickProbabilities(toChaosPool(packs), [], () => 0)
+      .map(({ entry, probability }) => ({ pack: byId.get(entry.id)!, probability }))
+      .sort((a, b) => b.probability - a.probability);
+  }, [packs]);
+
+  const excluded = packs.filter(p => p.inPerson > 0 && p.excludeFromWheel);
+  const visible = showAll ? rows : rows.slice(0, PREVIEW_LIMIT);
+
+  if (rows.length === 0) {
+    return <p className="text-gray-500 text-sm">No packs are eligible for the wheel.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {visible.map(({ pack, probability }) => (
+        <div key={pack.id} className="flex items-center gap-3 text-sm">
+          <img src={pack.imageUrl} alt={pack.name} className="w-5 h-7 object-cover rounded" />
+          <span className="flex-1 truncate text-gray-200">{pack.name}</span>
+          {(pack.weightMultiplier ?? 1) !== 1 && (
+            <span className={`text-xs font-semibold ${(pack.weightMultiplier ?? 1) > 1 ? 'text-green-400' : 'text-yellow-400'}`}>
+              ×{pack.weightMultiplier}
+            </span>
+          )}
+          {pack.onePerPlayer && (
+            <span className="text-xs text-purple-300">1/player</span>
+          )}
+          <span className="text-xs text-gray-500 w-8 text-right">{pack.inPerson}</span>
+          <span className="text-white font-semibold w-14 text-right">
+            {(probability * 100).toFixed(1)}%
+          </span>
+        </div>
+      ))}
+      {rows.length > PREVIEW_LIMIT && (
+        <button
+          type="button"
+          onClick={() => setShowAll(v => !v)}
+          className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+        >
+          {showAll ? '▾ Show fewer' : `▸ Show all ${rows.length} packs`}
+        </button>
+      )}
+      {excluded.length > 0 && (
+        <p className="text-xs text-gray-500 pt-1">
+          Excluded from the wheel: {excluded.map(p => p.name).join(', ')}
+        </p>
+      )}
+      <p className="text-xs text-gray-500 pt-1">
+        Chance of each pack on the first spin. Later spins re-weight what is left.
+      </p>
+    </div>
+  );
+}
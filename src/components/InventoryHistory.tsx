@@ -0,0 +1,93 @@
+import { useEffect } from 'react';
+import { useInventoryLedgerStore } from '../state/inventoryLedgerStore';
+import { useUserStore } from '../state/userStore';
+import type { LedgerField } from '../types';
+import { LEDGER_REASON_LABELS, ledgerTimeline } from '../utils/inventoryLedger';
+
+interface Props {
+  itemId: string;
+  name: string;
+  fields: { field: LedgerField; label: string; current: number }[];
+  onClose: () => void;
+}
+
+const signed = (n: number) => (n > 0 ? `+${n}` : String(n));
+
+export default function InventoryHistory({ itemId, name, fields, onClose }: Props) {
+  const { entries, isLoading } = useInventoryLedgerStore();
+  const loadItemHistory = useInventoryLedgerStore(s => s.loadItemHistory);
+  const { publicProfiles } = useUserStore();
+
+  useEffect(() => {
+    loadItemHistory(itemId);
+  }, [itemId, loadItemHistory]);
+
+  const actorName = (uid: string) => publicProfiles.find(p => p.uid === uid)?.name ?? 'Unknown user';
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 p-6 rounded-2xl shadow-2xl border border-gray-700 max-w-2xl w-full max-h-[85vh] flex flex-col">
+        <h3 className="text-2xl font-bold text-white">Quantity History</h3>
+        <p className="text-gray-400 text-sm mt-1">{name}</p>
+
+        <div className="mt-4 space-y-5 overflow-y-auto flex-1">
+          {isLoading && <p className="text-gray-400 text-sm">Loading…</p>}
+          {!isLoading && fields.map(({ field, label, current }) => {
+            const { rows, untrackedAtEnd } = ledgerTimeline(entries, field, current);
+            return (
+              <div key={field}>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-1">
+                  {label} — now {current}
+                </p>
+                {rows.length === 0 && untrackedAtEnd === 0 && (
+                  <p className="text-xs text-gray-500">No recorded changes.</p>
+                )}
+                <div className="space-y-0.5">
+                  {rows.map(({ entry, untrackedBefore }) => (
+                    <div key={entry.id}>
+                      {untrackedBefore !== 0 && (
+                        <p className="text-xs text-yellow-400">
+                          {signed(untrackedBefore)} not recorded (change made before history tracking)
+                        </p>
+                      )}
+                      <div className="flex items-center gap-3 text-sm">
+                        <span className="text-xs text-gray-500 w-32 shrink-0">
+                          {entry.createdAt?.toDate().toLocaleString() ?? 'Pending…'}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate text-gray-200">
+                          {LEDGER_REASON_LABELS[entry.reason]}
+                          <span className="ml-2 text-xs text-gray-500">by {actorName(entry.actorId)}</span>
+                          {entry.draftId && (
+                            <span className="ml-2 text-xs text-gray-500">draft {entry.draftId.slice(0, 8)}</span>
+                          )}
+                        </span>
+                        <span className={`text-xs font-semibold w-10 text-right ${entry.delta > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {signed(entry.delta)}
+                        </span>
+                        <span className="text-xs text-gray-400 w-16 text-right whitespace-nowrap">
+                          {entry.before} → {entry.after}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                  {untrackedAtEnd !== 0 && (
+                    <p className="text-xs text-yellow-400">
+                      {signed(untrackedAtEnd)} not recorded since the last entry
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="mt-6 w-full py-3 px-4 bg-gray-600 hover:bg-gray-500 text-white font-bold rounded-lg transition-all"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
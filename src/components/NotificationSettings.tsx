@@ -0,0 +1,36 @@
+import { useNotificationStore } from '../state/notificationStore';
+import { NOTIFICATION_LABELS, wantsEmail } from '../utils/notifications';
+import type { NotificationKind } from '../types';
+
+const KINDS = Object.keys(NOTIFICATION_LABELS) as NotificationKind[];
+
+export default function NotificationSettings() {
+  const { myPrefs, setPref } = useNotificationStore();
+
+  const toggle = async (kind: NotificationKind, on: boolean) => {
+    try {
+      await setPref(kind, on);
+    } catch (err) {
+      console.error('Failed to update notification preference:', err);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-5 border border-gray-700 space-y-3">
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">Email Notifications</h3>
+      <div className="space-y-2">
+        {KINDS.map(kind => (
+          <label key={kind} className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={wantsEmail(myPrefs, kind)}
+              onChange={e => toggle(kind, e.target.checked)}
+            />
+            {NOTIFICATION_LABELS[kind]}
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">Emails go to the address you signed up with.</p>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import { useEffect, useState } from 'react';
+import { usePackOrderStore, type NewPackOrder } from '../state/packOrderStore';
+import PackCatalogSearch from './PackCatalogSearch';
+import type { PackOrder } from '../types';
+import { isOverdue, orderOutstanding, outstandingByPack, outstandingQuantity } from '../utils/packOrders';
+import { restockedDraftIds, type RestockPlan } from '../utils/restockPlanner';
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface NewOrderFormProps {
+  initialLines?: NewPackOrder['lines'];
+  restockPlan?: RestockPlan;   // the restock these lines were planned from
+  onDone: () => void;
+}
+
+export function NewOrderForm({ initialLines = [], restockPlan, onDone }: NewOrderFormProps) {
+  const { createOrder } = usePackOrderStore();
+  const [vendor, setVendor] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [cost, setCost] = useState('');
+  const [lines, setLines] = useState<NewPackOrder['lines']>(initialLines);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setQuantity = (catalogId: string, quantity: number) =>
+    setLines(prev => prev.map(l => (l.catalogId === catalogId ? { ...l, quantity } : l)));
+
+  // Only the drafts this order, as edited, actually covers
+  const restockDraftIds = restockPlan ? restockedDraftIds(restockPlan, lines) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const orderLines = lines.filter(l => l.quantity > 0);
+    if (!vendor.trim() || orderLines.length === 0) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await createOrder({
+        vendor: vendor.trim(),
+        ...(expectedDate ? { expectedDate } : {}),
+        ...(cost.trim() !== '' ? { cost: Math.max(0, Number(cost) || 0) } : {}),
+        ...(restockDraftIds.length ? { restockDraftIds } : {}),
+        lines: orderLines,
+      });
+      onDone();
+    } catch {
+      setError('Could not save the order. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-900/50 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input value={vendor} onChange={e => setVendor(e.target.value)} placeholder="Vendor" className={inputClass} />
+        <input type="date" value={expectedDate} onChange={e => setExpectedDate(e.target.value)} className={inputClass} />
+        <input
+          type="number"
+          min={0}
+          step="0.01"
+          value={cost}
+          onChange={e => setCost(e.target.value)}
+          placeholder="Total cost"
+          className={inputClass}
+        />
+      </div>
+      <PackCatalogSearch
+        placeholder="Add a pack to this order…"
+        onSelect={entry =>
+          setLines(prev =>
+            prev.some(l => l.catalogId === entry.id)
+              ? prev.map(l => (l.catalogId === entry.id ? { ...l, quantity: l.quantity + 1 } : l))
+              : [...prev, { catalogId: entry.id, name: entry.name, imageUrl: entry.imageUrl, quantity: 1 }]
+          )
+        }
+      />
+      {lines.map(line => (
+        <div key={line.catalogId} className="flex items-center gap-3 text-sm">
+          <img src={line.imageUrl} alt={line.name} className="w-6 h-8 object-cover rounded" />
+          <span className="flex-1 min-w-0 truncate text-gray-200">{line.name}</span>
+          <input
+            type="number"
+            min={1}
+            value={line.quantity}
+            onChange={e => setQuantity(line.catalogId, Math.max(0, Number(e.target.value) || 0))}
+            className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm text-center"
+          />
+          <button
+            type="button"
+            onClick={() => setLines(prev => prev.filter(l => l.catalogId !== line.catalogId))}
+            className="px-2 text-gray-400 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      {restockDraftIds.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Receiving this order in full marks {restockDraftIds.length} draft{restockDraftIds.length === 1 ? '' : 's'} as restocked.
+        </p>
+      )}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving || !vendor.trim() || !lines.some(l => l.quantity > 0)}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm font-bold rounded-lg"
+        >
+          {saving ? 'Saving…' : 'Place Order'}
+        </button>
+        <button type="button" onClick={onDone} className="px-4 py-2 text-gray-400 hover:text-white text-sm">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function OpenOrder({ order }: { order: PackOrder }) {
+  const { receiveOrder, cancelOrder } = usePackOrderStore();
+  const [quantities, setQuantities] = useState<Record<string, number>>(() => outstandingByPack(order));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setQuantities(outstandingByPack(order));
+  }, [order]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch {
+      setError('Update failed — nothing was changed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const receiving = Object.values(quantities).reduce((sum, n) => sum + n, 0);
+  const overdue = isOverdue(order);
+
+  return (
+    <div className="bg-gray-900/50 rounded-lg p-4 space-y-2">
+      <div className="flex items-baseline justify-between gap-3 flex-wrap">
+        <p className="text-white font-semibold">
+          {order.vendor}
+          {order.cost !== undefined && <span className="ml-2 text-xs text-gray-400">${order.cost.toFixed(2)}</span>}
+        </p>
+        <p className={`text-xs ${overdue ? 'text-red-400 font-semibold' : 'text-gray-400'}`}>
+          {order.expectedDate ? `${overdue ? 'Overdue — expected' : 'Expected'} ${order.expectedDate}` : 'No expected date'}
+          {' · '}placed {order.createdAt?.toDate().toLocaleDateString() ?? '…'}
+        </p>
+      </div>
+      {order.lines.map(line => {
+        const outstanding = outstandingQuantity(line);
+        return (
+          <div key={line.packId} className="flex items-center gap-3 text-sm">
+            <img src={line.imageUrl} alt={line.name} className="w-6 h-8 object-cover rounded" />
+            <span className="flex-1 min-w-0 truncate text-gray-200">{line.name}</span>
+            <span className="text-xs text-gray-400 whitespace-nowrap">
+              {line.received} / {line.quantity} received
+            </span>
+            {outstanding > 0 && (
+              <input
+                type="number"
+                min={0}
+                max={outstanding}
+                value={quantities[line.packId] ?? 0}
+                onChange={e =>
+                  setQuantities(prev => ({
+                    ...prev,
+                    [line.packId]: Math.min(outstanding, Math.max(0, Number(e.target.value) || 0)),
+                  }))
+                }
+                className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm text-center"
+              />
+            )}
+          </div>
+        );
+      })}
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={() => run(() => receiveOrder(order.id, quantities))}
+          disabled={busy || receiving === 0}
+          className="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-sm rounded-lg font-medium"
+        >
+          {receiving === orderOutstanding(order) ? 'Receive All' : `Receive ${receiving}`}
+        </button>
+        <button
+          onClick={() => {
+            if (window.confirm(`Cancel the ${orderOutstanding(order)} outstanding pack(s) on this order? They will be removed from In Transit.`)) {
+              run(() => cancelOrder(order.id));
+            }
+          }}
+          disabled={busy}
+          className="px-3 py-1.5 text-red-400 hover:text-red-300 disabled:opacity-50 text-sm"
+        >
+          Cancel Remaining
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function PackOrders() {
+  const { orders, isLoading } = usePackOrderStore();
+  const [showForm, setShowForm] = useState(false);
+  const [showClosed, setShowClosed] = useState(false);
+
+  const open = orders.filter(o => o.status === 'open');
+  const closed = orders.filter(o => o.status !== 'open');
+
+  return (
+    <div className="p-6 bg-gray-800 rounded-2xl shadow-lg border border-gray-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-white">Orders</h3>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-lg"
+          >
+            New Order
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Outstanding order quantities are counted as In Transit. Receiving a shipment moves those packs to Available.
+      </p>
+
+      {showForm && <NewOrderForm onDone={() => setShowForm(false)} />}
+
+      {isLoading && orders.length === 0 && <p className="text-gray-400 text-sm">Loading orders…</p>}
+      {!isLoading && open.length === 0 && !showForm && (
+        <p className="text-gray-500 text-sm">Nothing on order.</p>
+      )}
+      {open.map(order => <OpenOrder key={order.id} order={order} />)}
+
+      {closed.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowClosed(v => !v)}
+            className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-300 font-semibold uppercase tracking-wide"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className={`h-4 w-4 transition-transform duration-200 ${showClosed ? 'rotate-180' : ''}`}
+              fill="none" viewBox="0 0 24 24" stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+            Closed Orders ({closed.length})
+          </button>
+          {showClosed && (
+            <div className="mt-2 space-y-1">
+              {closed.map(order => (
+                <div key={order.id} className="flex items-center gap-3 text-sm">
+                  <span className="flex-1 min-w-0 truncate text-gray-300">{order.vendor}</span>
+                  <span className="text-xs text-gray-500">
+                    {order.lines.reduce((sum, l) => sum + l.received, 0)} of{' '}
+                    {order.lines.reduce((sum, l) => sum + l.quantity, 0)} received
+                  </span>
+                  <span className={`text-xs font-semibold ${order.status === 'received' ? 'text-green-400' : 'text-gray-500'}`}>
+                    {order.status === 'received' ? 'Received' : 'Cancelled'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
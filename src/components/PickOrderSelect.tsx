@@ -0,0 +1,29 @@
+import type { PickOrderMode } from '../types';
+import { PICK_ORDER_MODES } from '../utils/pickOrder';
+
+interface PickOrderSelectProps {
+  value: PickOrderMode;
+  onChange: (mode: PickOrderMode) => void;
+}
+
+export default function PickOrderSelect({ value, onChange }: PickOrderSelectProps) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {PICK_ORDER_MODES.map(({ mode, label, description }) => (
+        <button
+          key={mode}
+          type="button"
+          onClick={() => onChange(mode)}
+          className={`px-4 py-2 rounded-lg text-left transition-colors ${
+            value === mode ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          }`}
+        >
+          <span className="block text-sm font-medium">{label}</span>
+          <span className={`block text-xs ${value === mode ? 'text-blue-100' : 'text-gray-400'}`}>
+            {description}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
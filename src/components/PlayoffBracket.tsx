@@ -0,0 +1,105 @@
+import { useState, type ComponentProps } from 'react';
+import ScoreEntry from './ScoreEntry';
+import { pairingWinnerId, playoffChampionId, playoffRoundName } from '../utils/playoffBracket';
+import type { DraftPlayer, PairingResult, TournamentPairing, TournamentPlayoff } from '../types';
+
+interface PlayoffBracketProps {
+  playoff: TournamentPlayoff;
+  players: DraftPlayer[];
+  // Omitted once the tournament is finalized
+  onSubmit?: (roundNumber: number, pairingId: string, result: Omit<PairingResult, 'submittedBy' | 'submittedAt'>) => Promise<void>;
+  // Confirm, dispute and correct, as far as the viewer is allowed
+  resultActions?: (
+    roundNumber: number,
+    pairing: TournamentPairing
+  ) => Pick<ComponentProps<typeof ScoreEntry>, 'onConfirm' | 'onDispute' | 'onCorrect'>;
+}
+
+function playerName(id: string, players: DraftPlayer[]): string {
+  return players.find(p => p.id === id)?.name ?? id;
+}
+
+export default function PlayoffBracket({ playoff, players, onSubmit, resultActions }: PlayoffBracketProps) {
+  const [correctingId, setCorrectingId] = useState<string | null>(null);
+  const championId = playoffChampionId(playoff);
+  const seedOf = (id: string) => playoff.seeds.indexOf(id) + 1;
+  // Later rounds that aren't paired yet, drawn as empty slots
+  const totalRounds = Math.log2(playoff.size);
+  const placeholders = Array.from(
+    { length: totalRounds - playoff.rounds.length },
+    (_, i) => playoff.size / 2 ** (playoff.rounds.length + i + 1)
+  );
+
+  const side = (pairing: TournamentPairing, id: string, games: number | undefined) => {
+    const winner = pairingWinnerId(pairing);
+    const style = winner === null ? 'text-gray-200' : winner === id ? 'text-white font-semibold' : 'text-gray-500';
+    return (
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <span className="text-gray-600 text-[10px] font-bold w-3">{seedOf(id)}</span>
+        <span className={`flex-1 truncate text-sm ${style}`}>{playerName(id, players)}</span>
+        <span className={`text-xs font-mono ${style}`}>{games ?? ''}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-gray-400 text-xs font-semibold uppercase tracking-wide">Top {playoff.size} Playoff</p>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {playoff.rounds.map(round => (
+          <div key={round.roundNumber} className="flex flex-col justify-around gap-3 min-w-[200px] flex-1">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">{playoffRoundName(round)}</p>
+            {round.pairings.map(pairing => {
+              const actions = resultActions?.(round.roundNumber, pairing) ?? {};
+              // Unsettled results stay open for the players to confirm or dispute
+              const open = !pairing.result || pairing.status === 'reported' || pairing.status === 'disputed';
+              return (
+                <div key={pairing.id} className="space-y-1">
+                  <div className="bg-gray-800/60 border border-gray-700/40 rounded-lg divide-y divide-gray-700/40">
+                    {side(pairing, pairing.player1Id, pairing.result?.player1Wins)}
+                    {pairing.player2Id && side(pairing, pairing.player2Id, pairing.result?.player2Wins)}
+                  </div>
+                  {onSubmit && (open || correctingId === pairing.id) && (
+                    <ScoreEntry
+                      pairing={pairing}
+                      players={players}
+                      requireWinner
+                      onSubmit={result => onSubmit(round.roundNumber, pairing.id, result)}
+                      {...actions}
+                      startEditing={correctingId === pairing.id}
+                      onCancelEdit={() => setCorrectingId(null)}
+                    />
+                  )}
+                  {onSubmit && !open && correctingId !== pairing.id && actions.onCorrect && (
+                    <button onClick={() => setCorrectingId(pairing.id)} className="text-xs text-gray-600 hover:text-white">
+                      Correct
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        {placeholders.map(matches => (
+          <div key={matches} className="flex flex-col justify-around gap-3 min-w-[200px] flex-1">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">
+              {matches === 1 ? 'Final' : 'Semifinals'}
+            </p>
+            {Array.from({ length: matches }, (_, i) => (
+              <div key={i} className="border border-dashed border-gray-700 rounded-lg h-[62px]" />
+            ))}
+          </div>
+        ))}
+      </div>
+      {championId && (
+        <div className="bg-yellow-900/20 border border-yellow-700/40 rounded-lg px-4 py-3 flex items-center gap-3">
+          <span className="text-2xl">🏆</span>
+          <div>
+            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Champion</p>
+            <p className="text-sm font-bold text-yellow-300">{playerName(championId, players)}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
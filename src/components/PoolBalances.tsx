@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useDraftHistoryStore } from '../state/draftHistoryStore';
+import { usePoolBalanceStore } from '../state/poolBalanceStore';
+import { useUserStore } from '../state/userStore';
+import { poolBalances } from '../utils/poolBalance';
+
+const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+
+function AdjustmentForm() {
+  const { publicProfiles } = useUserStore();
+  const addAdjustment = usePoolBalanceStore(s => s.addAdjustment);
+  const [userId, setUserId] = useState('');
+  const [packs, setPacks] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const amount = Math.trunc(Number(packs));
+  const canSave = userId !== '' && Number.isFinite(amount) && amount !== 0 && note.trim() !== '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      await addAdjustment(userId, amount, note.trim());
+      setPacks('');
+      setNote('');
+    } catch (err) {
+      console.error('Failed to add pool adjustment:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+      <select
+        value={userId}
+        onChange={e => setUserId(e.target.value)}
+        className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+      >
+        <option value="">User…</option>
+        {[...publicProfiles].sort((a, b) => a.name.localeCompare(b.name)).map(p => (
+          <option key={p.uid} value={p.uid}>{p.name}</option>
+        ))}
+      </select>
+      <input
+        type="number"
+        step={1}
+        value={packs}
+        onChange={e => setPacks(e.target.value)}
+        placeholder="± packs"
+        className="w-24 px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white text-center focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+      <input
+        type="text"
+        value={note}
+        onChange={e => setNote(e.target.value)}
+        placeholder="Reason, e.g. traded 2 packs to Ben"
+        className="flex-1 min-w-40 px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+      <button
+        type="submit"
+        disabled={!canSave || saving}
+        className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white text-sm rounded-lg font-medium"
+      >
+        Add Adjustment
+      </button>
+    </form>
+  );
+}
+
+/**
+ * Who owes packs to the pool: packs each user has supplied to regular/sealed drafts
+ * against packs they've opened, with admin adjustments for off-app trades.
+ */
+export default function PoolBalances() {
+  const drafts = useDraftHistoryStore(s => s.drafts);
+  const { adjustments, loadAdjustments } = usePoolBalanceStore();
+  const { profile, publicProfiles } = useUserStore();
+  const isAdmin = profile?.role === 'admin';
+
+  useEffect(() => {
+    loadAdjustments();
+  }, [loadAdjustments]);
+
+  const names = useMemo(() => Object.fromEntries(publicProfiles.map(p => [p.uid, p.name])), [publicProfiles]);
+  const balances = useMemo(() => poolBalances(drafts, adjustments, names), [drafts, adjustments, names]);
+
+  return (
+    <div className="bg-gray-900 border border-gray-700/50 rounded-xl overflow-hidden">
+      <div className="px-4 py-3 bg-gray-800/80 border-b border-gray-700/50">
+        <h3 className="text-white font-semibold">Pack Pool Balances</h3>
+      </div>
+      <div className="grid grid-cols-[1fr_70px_60px_60px_60px] px-4 py-2 bg-gray-800/50 border-b border-gray-700/30 text-[10px] font-bold uppercase tracking-widest text-gray-500">
+        <span>Player</span>
+        <span className="text-right">Supplied</span>
+        <span className="text-right">Opened</span>
+        <span className="text-right">Adj.</span>
+        <span className="text-right">Balance</span>
+      </div>
+      {balances.length === 0 && (
+        <p className="px-4 py-8 text-gray-500 text-sm text-center">No finalized regular drafts yet.</p>
+      )}
+      {balances.map(b => (
+        <div
+          key={b.userId}
+          className="grid grid-cols-[1fr_70px_60px_60px_60px] px-4 py-3 text-sm border-b border-gray-700/30 last:border-0"
+        >
+          <span className="text-gray-200 font-semibold">{b.name}</span>
+          <span className="text-gray-400 text-right">{b.contributed}</span>
+          <span className="text-gray-400 text-right">{b.opened}</span>
+          <span className="text-gray-500 text-right">{b.adjusted !== 0 ? signed(b.adjusted) : '—'}</span>
+          <span className={`text-right font-semibold ${b.balance < 0 ? 'text-red-400' : b.balance > 0 ? 'text-green-400' : 'text-gray-400'}`}>
+            {signed(b.balance)}
+          </span>
+        </div>
+      ))}
+      {isAdmin && (
+        <div className="p-4 border-t border-gray-700/50 space-y-3">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Manual Adjustment</p>
+          <AdjustmentForm />
+          {adjustments.slice(0, 10).map(a => (
+            <p key={a.id} className="text-xs text-gray-500">
+              <span className="text-gray-300">{names[a.userId] ?? a.userId}</span> {signed(a.packs)} · {a.note}
+              {a.createdAt && <> · {a.createdAt.toDate().toLocaleDateString()}</>}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useMemo, useState } from 'react';
+import { useInventoryStore } from '../state/inventoryStore';
+import { useDraftHistoryStore } from '../state/draftHistoryStore';
+import { usePackOrderStore } from '../state/packOrderStore';
+import { NewOrderForm } from './PackOrders';
+import { planRestock, shoppingListText } from '../utils/restockPlanner';
+
+export default function RestockPlanner() {
+  const { packs } = useInventoryStore();
+  const { drafts } = useDraftHistoryStore();
+  const { orders } = usePackOrderStore();
+  const [ordering, setOrdering] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const plan = useMemo(() => planRestock(drafts, packs, orders), [drafts, packs, orders]);
+  const orderable = plan.lines.filter(l => l.catalogId);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(shoppingListText(plan.lines));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="p-6 bg-gray-800 rounded-2xl shadow-lg border border-gray-700 space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Restock Planner</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {plan.draftIds.length} chaos draft{plan.draftIds.length === 1 ? '' : 's'} waiting on restock
+          </p>
+        </div>
+        {plan.lines.length > 0 && !ordering && (
+          <div className="flex gap-2">
+            <button
+              onClick={handleCopy}
+              className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg font-medium"
+            >
+              {copied ? 'Copied!' : 'Copy List'}
+            </button>
+            <button
+              onClick={() => setOrdering(true)}
+              disabled={orderable.length === 0}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg font-medium"
+            >
+              Order These
+            </button>
+          </div>
+        )}
+      </div>
+
+      {plan.lines.length === 0 ? (
+        <p className="text-gray-500 text-sm">Nothing to buy — consumption is covered by what's in transit and every pack is at its target.</p>
+      ) : (
+        <div className="space-y-1">
+          {plan.lines.map(line => (
+            <div key={line.key} className="flex items-center gap-3 text-sm">
+              <img src={line.imageUrl} alt={line.name} className="w-6 h-8 object-cover rounded" />
+              <span className="flex-1 min-w-0 truncate text-gray-200">
+                {line.name}
+                {!line.catalogId && <span className="ml-2 text-xs text-yellow-400">no longer in inventory</span>}
+              </span>
+              <span className="text-xs text-gray-500 whitespace-nowrap">
+                {line.consumed > 0 && `${line.consumed} drafted · `}
+                {line.inPerson} avail · {line.inTransit} in transit
+                {line.target > 0 && ` · target ${line.target}`}
+              </span>
+              <span className="w-12 text-right text-white font-bold">{line.need}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {ordering && (
+        <NewOrderForm
+          initialLines={orderable.map(l => ({ catalogId: l.catalogId, name: l.name, imageUrl: l.imageUrl, quantity: l.need }))}
+          restockPlan={plan}
+          onDone={() => setOrdering(false)}
+        />
+      )}
+    </div>
+  );
+}
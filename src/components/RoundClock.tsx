@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import {
+  ADDITIONAL_TURNS,
+  DEFAULT_ROUND_MINUTES,
+  formatClock,
+  remainingMs,
+  type RoundTimerAction,
+} from '../utils/roundTimer';
+import { useServerClockStore } from '../state/serverClockStore';
+import type { TournamentRound } from '../types';
+
+interface RoundClockProps {
+  round: TournamentRound;
+  onAction?: (action: RoundTimerAction) => Promise<void>;  // admins only
+  compact?: boolean;
+}
+
+const formatStartTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const controlClass = 'px-2.5 py-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-200 text-xs rounded-lg';
+
+/**
+ * Countdown for a Swiss round. The timer is stamped in server time and each device
+ * counts down against its own clock corrected to server time, so screens agree to
+ * within a network round trip without polling.
+ */
+export default function RoundClock({ round, onAction, compact = false }: RoundClockProps) {
+  const [tick, setTick] = useState(() => Date.now());
+  const [minutes, setMinutes] = useState(DEFAULT_ROUND_MINUTES);
+  const [busy, setBusy] = useState(false);
+  const { offsetMs, sync } = useServerClockStore();
+  const now = tick + offsetMs;
+  const running = round.timer?.runningSince != null;
+
+  useEffect(() => {
+    sync();
+  }, [sync]);
+
+  useEffect(() => {
+    if (!running) return;
+    const id = setInterval(() => setTick(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [running]);
+
+  const run = async (action: RoundTimerAction) => {
+    if (!onAction) return;
+    setBusy(true);
+    try {
+      await onAction(action);
+      setTick(Date.now());
+    } catch (err) {
+      console.error('Failed to update round clock:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const timer = round.timer;
+  if (!timer) {
+    if (compact || !onAction) return null;
+    return (
+      <div className="flex items-center gap-2 p-3 bg-gray-800/60 border border-gray-700/40 rounded-xl">
+        <span className="text-sm text-gray-300 flex-1">Round clock</span>
+        <input
+          type="number"
+          min={1}
+          max={180}
+          value={minutes}
+          onChange={e => setMinutes(Math.min(180, Math.max(1, Number(e.target.value) || 1)))}
+          className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-white text-center focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <span className="text-xs text-gray-400">min</span>
+        <button
+          onClick={() => run({ type: 'start', minutes })}
+          disabled={busy}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-xs font-semibold rounded-lg"
+        >
+          Start Clock
+        </button>
+      </div>
+    );
+  }
+
+  const left = remainingMs(timer, now);
+  const timeUp = left <= 0;
+  const clockColor = timeUp ? 'text-red-400' : !running ? 'text-gray-400' : left < 5 * 60_000 ? 'text-amber-300' : 'text-white';
+
+  if (compact) {
+    return (
+      <span className={`text-sm font-mono font-semibold ${clockColor}`}>
+        · {timeUp ? 'Time' : formatClock(left)}{!running && !timeUp && ' (paused)'}
+      </span>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-3 p-3 rounded-xl border ${
+      timeUp ? 'bg-red-900/20 border-red-700/40' : 'bg-gray-800/60 border-gray-700/40'
+    }`}>
+      <span className={`text-2xl font-mono font-bold tabular-nums ${clockColor}`}>{formatClock(left)}</span>
+      <span className="text-xs text-gray-400 flex-1">
+        {timeUp
+          ? `Time — unfinished matches play ${ADDITIONAL_TURNS} additional turns`
+          : running ? `Started ${formatStartTime(timer.startedAt - offsetMs)}` : 'Paused'}
+      </span>
+      {onAction && (
+        <>
+          {!timeUp && (
+            running
+              ? <button onClick={() => run({ type: 'pause' })} disabled={busy} className={controlClass}>Pause</button>
+              : <button onClick={() => run({ type: 'resume' })} disabled={busy} className={controlClass}>Resume</button>
+          )}
+          <button onClick={() => run({ type: 'extend', minutes: 5 })} disabled={busy} className={controlClass}>+5 min</button>
+        </>
+      )}
+    </div>
+  );
+}
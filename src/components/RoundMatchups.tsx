@@ -1,16 +1,27 @@
-import type { DraftPlayer, TournamentPairing } from '../types';
+import { useState } from 'react';
+import { suggestedSwissRounds } from '../utils/swissPairings';
+import { roundRobinRounds } from '../utils/roundRobin';
+import { MAX_ROUND_ROBIN_PLAYERS } from '../utils/tournamentFormats';
+import type { DraftPlayer, TournamentFormat, TournamentPairing } from '../types';
 
 interface RoundMatchupsProps {
   players: DraftPlayer[];
   pairings: TournamentPairing[];
-  onStart: () => Promise<void>;
+  pods?: DraftPlayer[][];   // set when the field is split into pods
+  onStart: (format: TournamentFormat, totalRounds: number) => Promise<void>;
   disabled?: boolean;
 }
 
-export default function RoundMatchups({ players, pairings, onStart, disabled = false }: RoundMatchupsProps) {
+export default function RoundMatchups({ players, pairings, pods, onStart, disabled = false }: RoundMatchupsProps) {
+  const groups = pods && pods.length > 1 ? pods : [players];
+  const largest = Math.max(...groups.map(g => g.length));
+  // More rounds than opponents means rematches
+  const maxRounds = Math.max(1, largest - 1);
+  const [totalRounds, setTotalRounds] = useState(() => Math.min(maxRounds, suggestedSwissRounds(largest)));
+  const [format, setFormat] = useState<TournamentFormat>('swiss');
+  const canRoundRobin = largest <= MAX_ROUND_ROBIN_PLAYERS;
+  const roundRobinTotal = Math.max(...groups.map(g => roundRobinRounds(g.length)));
   const playerMap = new Map(players.map(p => [p.id, p.name]));
-  const matchPairings = pairings.filter(p => p.player2Id !== null);
-  const byePairing = pairings.find(p => p.player2Id === null);
 
   return (
     <div className="space-y-6 max-w-md mx-auto">
@@ -19,37 +30,85 @@ export default function RoundMatchups({ players, pairings, onStart, disabled = f
         <p className="text-gray-400 text-sm mt-1">First round matchups</p>
       </div>
 
-      <div className="space-y-3">
-        {matchPairings.map(pairing => (
-          <div
-            key={pairing.id}
-            className="flex items-center gap-3 rounded-xl px-5 py-4 border border-blue-900/40"
-            style={{ background: 'linear-gradient(135deg, #1e3a5f, #1a1f3e)' }}
-          >
-            <div className="flex-1 text-right">
-              <span className="text-white font-bold text-base">{playerMap.get(pairing.player1Id)}</span>
-            </div>
-            <div className="bg-purple-700 text-white text-xs font-extrabold px-2 py-1 rounded flex-shrink-0">
-              VS
-            </div>
-            <div className="flex-1 text-left">
-              <span className="text-white font-bold text-base">{playerMap.get(pairing.player2Id!)}</span>
-            </div>
-          </div>
-        ))}
-
-        {byePairing && (
-          <div className="flex items-center gap-3 rounded-xl px-5 py-3 bg-yellow-900/30 border border-dashed border-yellow-700">
-            <span className="text-lg">🎟️</span>
-            <span className="text-yellow-200 text-sm font-medium">
-              Bye — {playerMap.get(byePairing.player1Id)}
-            </span>
+      {groups.map((group, gi) => {
+        const ids = new Set(group.map(p => p.id));
+        const groupPairings = pairings.filter(p => ids.has(p.player1Id));
+        const byePairing = groupPairings.find(p => p.player2Id === null);
+        return (
+          <div key={gi} className="space-y-3">
+            {groups.length > 1 && (
+              <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Pod {gi + 1}</p>
+            )}
+            {groupPairings.filter(p => p.player2Id !== null).map(pairing => (
+              <div
+                key={pairing.id}
+                className="flex items-center gap-3 rounded-xl px-5 py-4 border border-blue-900/40"
+                style={{ background: 'linear-gradient(135deg, #1e3a5f, #1a1f3e)' }}
+              >
+                <div className="flex-1 text-right">
+                  <span className="text-white font-bold text-base">{playerMap.get(pairing.player1Id)}</span>
+                </div>
+                <div className="bg-purple-700 text-white text-xs font-extrabold px-2 py-1 rounded flex-shrink-0">
+                  VS
+                </div>
+                <div className="flex-1 text-left">
+                  <span className="text-white font-bold text-base">{playerMap.get(pairing.player2Id!)}</span>
+                </div>
+              </div>
+            ))}
+
+            {byePairing && (
+              <div className="flex items-center gap-3 rounded-xl px-5 py-3 bg-yellow-900/30 border border-dashed border-yellow-700">
+                <span className="text-lg">🎟️</span>
+                <span className="text-yellow-200 text-sm font-medium">
+                  Bye — {playerMap.get(byePairing.player1Id)}
+                </span>
+              </div>
+            )}
           </div>
-        )}
-      </div>
+        );
+      })}
+
+      {canRoundRobin && (
+        <div className="flex justify-center gap-2">
+          {(['swiss', 'round-robin'] as const).map(f => (
+            <button
+              key={f}
+              onClick={() => setFormat(f)}
+              disabled={disabled}
+              className={`px-3 py-1 rounded-lg text-xs font-semibold ${
+                format === f ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+              }`}
+            >
+              {f === 'swiss' ? 'Swiss' : 'Round-robin'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {format === 'round-robin' ? (
+        <p className="text-center text-sm text-gray-400">
+          Everyone plays everyone{groups.length > 1 && ' in their pod'}: {roundRobinTotal} rounds
+        </p>
+      ) : (
+        <div className="flex items-center justify-center gap-3">
+          <span className="text-sm text-gray-400">Swiss rounds</span>
+          <button
+            onClick={() => setTotalRounds(n => Math.max(1, n - 1))}
+            disabled={disabled || totalRounds <= 1}
+            className="w-7 h-7 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-white rounded text-sm font-bold"
+          >−</button>
+          <span className="w-6 text-center text-white font-bold">{totalRounds}</span>
+          <button
+            onClick={() => setTotalRounds(n => Math.min(maxRounds, n + 1))}
+            disabled={disabled || totalRounds >= maxRounds}
+            className="w-7 h-7 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-white rounded text-sm font-bold"
+          >+</button>
+        </div>
+      )}
 
       <button
-        onClick={onStart}
+        onClick={() => onStart(format, format === 'round-robin' ? roundRobinTotal : totalRounds)}
         disabled={disabled}
         className="w-full py-3 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-bold rounded-xl text-base"
       >
@@ -1,25 +1,77 @@
 import { useState } from 'react';
+import { ADDITIONAL_TURNS, scoreMatch } from '../utils/roundTimer';
 import type { TournamentPairing, DraftPlayer, PairingResult } from '../types';
 
+type ReportedResult = Omit<PairingResult, 'submittedBy' | 'submittedAt'>;
+
 interface ScoreEntryProps {
   pairing: TournamentPairing;
   players: DraftPlayer[];
-  onSubmit: (result: Omit<PairingResult, 'submittedBy' | 'submittedAt'>) => Promise<void>;
+  onSubmit: (result: ReportedResult) => Promise<void>;
+  requireWinner?: boolean;  // playoff matches can't end in a draw
+  onConfirm?: () => Promise<void>;            // given when the viewer may confirm a reported result
+  onDispute?: (note: string) => Promise<void>;
+  onCorrect?: (result: ReportedResult) => Promise<void>;  // admins only
+  startEditing?: boolean;
+  onCancelEdit?: () => void;
+  additionalTurns?: boolean;  // time has been called on this unfinished match
 }
 
 function playerName(id: string, players: DraftPlayer[]): string {
   return players.find(p => p.id === id)?.name ?? id;
 }
 
-export default function ScoreEntry({ pairing, players, onSubmit }: ScoreEntryProps) {
-  const [p1Wins, setP1Wins] = useState('');
-  const [p2Wins, setP2Wins] = useState('');
-  const [ties, setTies] = useState('');
+export default function ScoreEntry({
+  pairing,
+  players,
+  onSubmit,
+  requireWinner = false,
+  onConfirm,
+  onDispute,
+  onCorrect,
+  startEditing = false,
+  onCancelEdit,
+  additionalTurns = false,
+}: ScoreEntryProps) {
+  const editable = startEditing && pairing.result !== undefined;
+  const [p1Wins, setP1Wins] = useState(editable ? String(pairing.result!.player1Wins) : '');
+  const [p2Wins, setP2Wins] = useState(editable ? String(pairing.result!.player2Wins) : '');
+  const [ties, setTies] = useState(editable ? String(pairing.result!.ties) : '');
   const [submitting, setSubmitting] = useState(false);
+  const [editing, setEditing] = useState(editable);
+  const [disputing, setDisputing] = useState(false);
+  const [note, setNote] = useState('');
 
   if (pairing.player2Id === null) return null;
 
-  if (pairing.result) {
+  const run = async (action: () => Promise<void>) => {
+    setSubmitting(true);
+    try {
+      await action();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startCorrecting = () => {
+    const r = pairing.result!;
+    setP1Wins(String(r.player1Wins));
+    setP2Wins(String(r.player2Wins));
+    setTies(String(r.ties));
+    setEditing(true);
+  };
+
+  const handleDispute = () => run(async () => {
+    await onDispute!(note);
+    setDisputing(false);
+  });
+
+  const stopEditing = () => {
+    setEditing(false);
+    onCancelEdit?.();
+  };
+
+  if (pairing.result && !editing) {
     const r = pairing.result;
     const isTie = r.matchWinner === 'tie';
     const p1Style = r.matchWinner === 'player1'
@@ -39,29 +91,81 @@ export default function ScoreEntry({ pairing, players, onSubmit }: ScoreEntryPro
           <span className={`font-bold ${p2Style}`}>{r.player2Wins}</span>
         </div>
         {r.ties > 0 && <p className="text-gray-500 text-xs">Ties: {r.ties}</p>}
+        {r.endedOnTime && <p className="text-gray-500 text-xs">Ended on time</p>}
+        {pairing.status === 'reported' && (
+          <p className="text-amber-400 text-xs">Awaiting confirmation</p>
+        )}
+        {pairing.status === 'disputed' && (
+          <p className="text-red-400 text-xs">Disputed{r.disputeNote && ` — ${r.disputeNote}`}</p>
+        )}
+        {disputing ? (
+          <div className="flex items-center gap-1.5 pt-1">
+            <input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="What's wrong? (optional)"
+              className="flex-1 min-w-0 px-2 py-1 bg-gray-600 border border-gray-500 rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleDispute}
+              disabled={submitting}
+              className="px-2 py-1 bg-red-700 hover:bg-red-600 disabled:opacity-50 text-white text-xs rounded"
+            >
+              Dispute
+            </button>
+            <button onClick={() => setDisputing(false)} className="px-2 py-1 text-gray-400 hover:text-white text-xs">Cancel</button>
+          </div>
+        ) : (onConfirm || onDispute || onCorrect) && (
+          <div className="flex justify-end gap-2 pt-1">
+            {onCorrect && (
+              <button onClick={startCorrecting} className="px-2 py-1 text-gray-400 hover:text-white text-xs">Correct</button>
+            )}
+            {onDispute && (
+              <button onClick={() => setDisputing(true)} className="px-2 py-1 text-gray-400 hover:text-red-400 text-xs">Dispute</button>
+            )}
+            {onConfirm && (
+              <button
+                onClick={() => run(onConfirm)}
+                disabled={submitting}
+                className="px-3 py-1 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white text-xs font-semibold rounded"
+              >
+                {pairing.status === 'disputed' ? 'Confirm as Reported' : 'Confirm'}
+              </button>
+            )}
+          </div>
+        )}
       </div>
     );
   }
 
-  const handleSubmit = async () => {
-    const p1 = Math.max(0, parseInt(p1Wins) || 0);
-    const p2 = Math.max(0, parseInt(p2Wins) || 0);
-    const t = Math.max(0, parseInt(ties) || 0);
-    const matchWinner = p1 > p2 ? 'player1' : p2 > p1 ? 'player2' : 'tie';
-    setSubmitting(true);
-    try {
-      await onSubmit({ player1Wins: p1, player2Wins: p2, ties: t, matchWinner, isPartial: false });
-    } finally {
-      setSubmitting(false);
-    }
+  // Time called: the game in progress when additional turns end is a draw (MTR 2.5)
+  const handleSubmit = async (endedOnTime = false) => {
+    const result = scoreMatch(
+      Math.max(0, parseInt(p1Wins) || 0),
+      Math.max(0, parseInt(p2Wins) || 0),
+      Math.max(0, parseInt(ties) || 0),
+      endedOnTime
+    );
+    await run(async () => {
+      if (editing && onCorrect) {
+        await onCorrect(result);
+        stopEditing();
+      } else {
+        await onSubmit(result);
+      }
+    });
   };
 
+  const isDraw = (parseInt(p1Wins) || 0) === (parseInt(p2Wins) || 0);
   const p1Name = playerName(pairing.player1Id, players);
   const p2Name = playerName(pairing.player2Id!, players);
   const inputCls = 'w-full px-2 py-1 bg-gray-600 border border-gray-500 rounded text-white placeholder-gray-500 text-center focus:outline-none focus:ring-1 focus:ring-blue-500 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none';
 
   return (
-    <div className="bg-gray-700/50 rounded-lg p-3 space-y-3">
+    <div className={`rounded-lg p-3 space-y-3 ${additionalTurns ? 'bg-red-900/20 border border-red-700/40' : 'bg-gray-700/50'}`}>
+      {additionalTurns && (
+        <p className="text-red-300 text-xs font-semibold">Time — {ADDITIONAL_TURNS} additional turns</p>
+      )}
       <div className="grid grid-cols-3 gap-x-2 gap-y-1 text-sm">
         <p className="text-gray-300 truncate" title={p1Name}>{p1Name}</p>
         <p className="text-gray-300 text-sm text-center">Ties</p>
@@ -70,13 +174,27 @@ export default function ScoreEntry({ pairing, players, onSubmit }: ScoreEntryPro
         <input type="number" min="0" value={ties} placeholder="0" onChange={e => setTies(e.target.value.replace(/[^0-9]/g, ''))} className={inputCls} />
         <input type="number" min="0" value={p2Wins} placeholder="0" onChange={e => setP2Wins(e.target.value.replace(/[^0-9]/g, ''))} className={inputCls} />
       </div>
-      <div className="flex justify-end">
+      <div className="flex items-center justify-end gap-3">
+        {requireWinner && isDraw && <p className="text-gray-500 text-xs">Playoff matches need a winner</p>}
+        {editing && (
+          <button onClick={stopEditing} className="px-2 py-1 text-gray-400 hover:text-white text-xs">Cancel</button>
+        )}
+        {additionalTurns && !requireWinner && !editing && (
+          <button
+            onClick={() => handleSubmit(true)}
+            disabled={submitting}
+            title="Record the games won so far; the unfinished game counts as a drawn game and the match goes to whoever won more games"
+            className="px-3 py-1 bg-gray-600 hover:bg-gray-500 disabled:opacity-50 text-white text-xs font-semibold rounded"
+          >
+            Time Called
+          </button>
+        )}
         <button
-          onClick={handleSubmit}
-          disabled={submitting}
+          onClick={() => handleSubmit()}
+          disabled={submitting || (requireWinner && isDraw)}
           className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-xs font-semibold rounded"
         >
-          {submitting ? 'Saving…' : 'Submit'}
+          {submitting ? 'Saving…' : editing ? 'Save Correction' : 'Submit'}
         </button>
       </div>
     </div>
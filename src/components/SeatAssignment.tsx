@@ -1,17 +1,26 @@
 import { useState } from 'react';
 import { shufflePlayers } from '../utils/tournamentPairings';
-import type { DraftPlayer } from '../types';
+import { podCountOptions, splitIntoPods } from '../utils/tournamentFormats';
+import type { DraftPlayer, DraftTournament } from '../types';
+
+type PodStandings = NonNullable<DraftTournament['podStandings']>;
 
 interface SeatAssignmentProps {
   players: DraftPlayer[];
-  onConfirm: (orderedPlayers: DraftPlayer[]) => void;
+  // Whether the field may split into pods, each drafting at its own table
+  allowPods?: boolean;
+  onConfirm: (orderedPlayers: DraftPlayer[], pods: DraftPlayer[][], podStandings: PodStandings) => void;
   onBack: () => void;
 }
 
-export default function SeatAssignment({ players, onConfirm, onBack }: SeatAssignmentProps) {
+export default function SeatAssignment({ players, allowPods = false, onConfirm, onBack }: SeatAssignmentProps) {
   const [ordered, setOrdered] = useState<DraftPlayer[]>(() => shufflePlayers(players));
   const [dragOver, setDragOver] = useState<number | null>(null);
-  const isOdd = ordered.length % 2 !== 0;
+  const [podCount, setPodCount] = useState(1);
+  const [podStandings, setPodStandings] = useState<PodStandings>('shared');
+  const podOptions = allowPods ? podCountOptions(ordered.length) : [1];
+  const pods = splitIntoPods(ordered, podCount);
+  const anyOdd = pods.some(pod => pod.length % 2 !== 0);
 
   const swap = (from: number, to: number) => {
     setOrdered(prev => {
@@ -22,6 +31,38 @@ export default function SeatAssignment({ players, onConfirm, onBack }: SeatAssig
     setDragOver(null);
   };
 
+  const seatRow = (player: DraftPlayer, index: number, seat: number, isBye: boolean) => {
+    const isTarget = dragOver === index;
+    return (
+      <div
+        key={player.id}
+        draggable
+        onDragStart={e => { e.dataTransfer.setData('text/plain', String(index)); e.dataTransfer.effectAllowed = 'move'; }}
+        onDragOver={e => { e.preventDefault(); setDragOver(index); }}
+        onDragLeave={() => setDragOver(null)}
+        onDrop={e => { e.preventDefault(); swap(Number(e.dataTransfer.getData('text/plain')), index); }}
+        onDragEnd={() => setDragOver(null)}
+        className={`flex items-center gap-3 rounded-lg px-4 py-3 border cursor-grab active:cursor-grabbing select-none transition-colors ${
+          isTarget
+            ? 'bg-blue-900/40 border-blue-500'
+            : isBye
+            ? 'bg-yellow-900/30 border-dashed border-yellow-700'
+            : 'bg-gray-800 border-gray-700'
+        }`}
+      >
+        <span className={`w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0 ${
+          isBye ? 'bg-yellow-800 text-yellow-300' : 'bg-blue-600 text-white'
+        }`}>
+          {isBye ? 'B' : seat}
+        </span>
+        <span className={`flex-1 font-medium text-sm ${isBye ? 'text-yellow-200' : 'text-white'}`}>
+          {player.name}
+          {isBye && <span className="text-yellow-400 text-xs ml-2">(Bye)</span>}
+        </span>
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-6 max-w-md mx-auto">
       <div className="flex items-center gap-4">
@@ -29,45 +70,64 @@ export default function SeatAssignment({ players, onConfirm, onBack }: SeatAssig
         <h2 className="text-xl font-bold text-white">Seat Assignment</h2>
       </div>
 
+      {podOptions.length > 1 && (
+        <div className="bg-gray-800 rounded-xl p-4 border border-gray-700 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500 flex-1">Pods</span>
+            {podOptions.map(count => (
+              <button
+                key={count}
+                onClick={() => setPodCount(count)}
+                className={`px-3 py-1 rounded-lg text-xs font-semibold ${
+                  podCount === count ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                }`}
+              >
+                {count === 1 ? 'One table' : `${count} pods`}
+              </button>
+            ))}
+          </div>
+          {podCount > 1 && (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-400 flex-1">Pods are paired within themselves. Standings are</span>
+              <select
+                value={podStandings}
+                onChange={e => setPodStandings(e.target.value as PodStandings)}
+                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="shared">Shared</option>
+                <option value="per-pod">Per pod</option>
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
       <p className="text-gray-400 text-sm">
         Players are randomly seated. Drag to reorder.
-        {isOdd && <span className="text-yellow-400"> The player at the bottom receives a bye in round 1.</span>}
+        {anyOdd && (
+          <span className="text-yellow-400">
+            {pods.length > 1
+              ? ' The player at the bottom of an odd pod receives a bye in round 1.'
+              : ' The player at the bottom receives a bye in round 1.'}
+          </span>
+        )}
       </p>
 
-      <div className="space-y-2">
-        {ordered.map((player, i) => {
-          const isBye = isOdd && i === ordered.length - 1;
-          const isTarget = dragOver === i;
-          return (
-            <div
-              key={player.id}
-              draggable
-              onDragStart={e => { e.dataTransfer.setData('text/plain', String(i)); e.dataTransfer.effectAllowed = 'move'; }}
-              onDragOver={e => { e.preventDefault(); setDragOver(i); }}
-              onDragLeave={() => setDragOver(null)}
-              onDrop={e => { e.preventDefault(); swap(Number(e.dataTransfer.getData('text/plain')), i); }}
-              onDragEnd={() => setDragOver(null)}
-              className={`flex items-center gap-3 rounded-lg px-4 py-3 border cursor-grab active:cursor-grabbing select-none transition-colors ${
-                isTarget
-                  ? 'bg-blue-900/40 border-blue-500'
-                  : isBye
-                  ? 'bg-yellow-900/30 border-dashed border-yellow-700'
-                  : 'bg-gray-800 border-gray-700'
-              }`}
-            >
-              <span className={`w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold flex-shrink-0 ${
-                isBye ? 'bg-yellow-800 text-yellow-300' : 'bg-blue-600 text-white'
-              }`}>
-                {isBye ? 'B' : i + 1}
-              </span>
-              <span className={`flex-1 font-medium text-sm ${isBye ? 'text-yellow-200' : 'text-white'}`}>
-                {player.name}
-                {isBye && <span className="text-yellow-400 text-xs ml-2">(Bye)</span>}
-              </span>
-            </div>
-          );
-        })}
-      </div>
+      {pods.map((pod, pi) => {
+        const start = pods.slice(0, pi).reduce((n, p) => n + p.length, 0);
+        return (
+          <div key={pi} className="space-y-2">
+            {pods.length > 1 && (
+              <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">
+                Pod {pi + 1} · {pod.length} players
+              </p>
+            )}
+            {pod.map((player, i) =>
+              seatRow(player, start + i, i + 1, pod.length % 2 !== 0 && i === pod.length - 1)
+            )}
+          </div>
+        );
+      })}
 
       <div className="flex gap-3">
         <button
@@ -77,7 +137,7 @@ export default function SeatAssignment({ players, onConfirm, onBack }: SeatAssig
           🎲 Re-randomize
         </button>
         <button
-          onClick={() => onConfirm(ordered)}
+          onClick={() => onConfirm(ordered, pods, podStandings)}
           className="flex-1 py-2.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-xl"
         >
           Confirm Seats →
@@ -0,0 +1,55 @@
+import { draftTitle } from '../utils/draftTitle';
+import { downloadTextFile } from '../utils/privateInventoryTransfer';
+import {
+  tournamentReport,
+  tournamentToCsv,
+  tournamentToHtml,
+  tournamentToJson,
+} from '../utils/tournamentExport';
+import { tournamentPlayers } from '../utils/swissPairings';
+import type { Draft } from '../types';
+
+const buttonClass = 'px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded-lg font-medium';
+
+/** Standings and pairings downloads for a draft's tournament. */
+export default function TournamentExport({ draft }: { draft: Draft }) {
+  if (!draft.tournament) return null;
+  const tournament = draft.tournament;
+
+  const report = () => tournamentReport(
+    draftTitle(draft),
+    draft.createdAt?.toDate().toLocaleDateString() ?? 'Unknown date',
+    tournamentPlayers(draft),
+    tournament
+  );
+  const baseName = `tournament_${draft.id}`;
+
+  const openPrintable = () => {
+    const blob = new Blob([tournamentToHtml(report())], { type: 'text/html;charset=utf-8;' });
+    const url = window.URL.createObjectURL(blob);
+    window.open(url, '_blank');
+    // Give the new tab time to load before the URL is released
+    setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Export</span>
+      <button
+        onClick={() => downloadTextFile(tournamentToCsv(report()), `${baseName}.csv`, 'text/csv')}
+        className={buttonClass}
+      >
+        CSV
+      </button>
+      <button
+        onClick={() => downloadTextFile(tournamentToJson(report()), `${baseName}.json`, 'application/json')}
+        className={buttonClass}
+      >
+        JSON
+      </button>
+      <button onClick={openPrintable} className={buttonClass}>
+        Printable
+      </button>
+    </div>
+  );
+}
@@ -1,10 +1,18 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useDraftHistoryStore } from '../state/draftHistoryStore';
+import { serverNow, useServerClockStore } from '../state/serverClockStore';
 import ScoreEntry from './ScoreEntry';
-import { generateSwissPairings, computeStandings } from '../utils/swissPairings';
+import PlayoffBracket from './PlayoffBracket';
+import PlayerSearch from './PlayerSearch';
+import RoundClock from './RoundClock';
+import { tournamentPlayers } from '../utils/swissPairings';
+import { nextRoundPairings, podNumberOf, standingsTables } from '../utils/tournamentFormats';
 import { formatArchetype } from '../utils/archetypes';
-import type { Draft, DraftPlayer, TournamentPairing } from '../types';
+import { playoffChampionId, TOP_CUT_SIZES } from '../utils/playoffBracket';
+import { canConfirmResult, canCorrectPlayoffResult, canDisputeResult, correctionWarning } from '../utils/resultConfirmation';
+import { inAdditionalTurns, remainingMs } from '../utils/roundTimer';
+import type { Draft, DraftPlayer, PairingResult, TopCutSize, TournamentLateEntry, TournamentPairing } from '../types';
 
 interface TournamentViewProps {
   draft: Draft;
@@ -12,6 +20,11 @@ interface TournamentViewProps {
   currentUserId: string | undefined;
 }
 
+const STANDINGS_GRID = 'grid grid-cols-[24px_1fr_32px_60px_44px_44px_44px] gap-x-1';
+
+// Tiebreaker percentages; 0 only when a player hasn't played yet
+const formatPct = (fraction: number) => (fraction > 0 ? `${Math.round(fraction * 100)}%` : '—');
+
 function playerName(id: string, players: DraftPlayer[]): string {
   return players.find(p => p.id === id)?.name ?? id;
 }
@@ -24,15 +37,41 @@ function playerArchetype(id: string, players: DraftPlayer[]): string {
 
 export default function TournamentView({ draft, isAdmin, currentUserId }: TournamentViewProps) {
   const navigate = useNavigate();
-  const { submitResult, addRound, finalizeTournament } = useDraftHistoryStore();
-  const [pendingOrder, setPendingOrder] = useState<string[] | null>(null);
+  const {
+    submitResult, confirmResult, disputeResult, correctResult,
+    addRound, finalizeTournament, startPlayoff,
+    submitPlayoffResult, confirmPlayoffResult, disputePlayoffResult, correctPlayoffResult,
+    dropPlayer, reinstatePlayer, addLateEntry, setRoundTimer,
+  } = useDraftHistoryStore();
+  // The next round's players in pairing order, one list per pod: pairs first, then any bye
+  const [pendingOrder, setPendingOrder] = useState<string[][] | null>(null);
+  const [correctingId, setCorrectingId] = useState<string | null>(null);
+  // Players sat out of the round being paired; unlike a drop, this lasts one round
   const [droppedIds, setDroppedIds] = useState<string[]>([]);
+  const [droppingId, setDroppingId] = useState<string | null>(null);
+  const [dropReason, setDropReason] = useState('');
+  const [lateEntryOpen, setLateEntryOpen] = useState(false);
+  const [lateEntry, setLateEntry] = useState<{ name: string; userId: string | null }>({ name: '', userId: null });
+  const [lateMissed, setLateMissed] = useState<TournamentLateEntry['missedRounds']>('loss');
   const [dragOver, setDragOver] = useState<string | null>(null);
   const [generatingRound, setGeneratingRound] = useState(false);
   const [finalizingTournament, setFinalizingTournament] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [tick, setTick] = useState(() => Date.now());
+  // Round clocks run on server time (see RoundClock)
+  const offsetMs = useServerClockStore(s => s.offsetMs);
+  const now = tick + offsetMs;
 
-  const { tournament, players } = draft;
+  // Re-render when the round clock runs out, so unfinished matches go to additional turns
+  const liveTimer = draft.tournament?.rounds.find(r => r.roundNumber === draft.tournament?.currentRound)?.timer;
+  useEffect(() => {
+    if (!liveTimer || liveTimer.runningSince === null) return;
+    const id = setTimeout(() => setTick(Date.now()), Math.max(0, remainingMs(liveTimer, serverNow())));
+    return () => clearTimeout(id);
+  }, [liveTimer, offsetMs]);
+
+  const { tournament } = draft;
+  const players = tournamentPlayers(draft);
   if (!tournament) return null;
 
   const isFinalized = tournament.status === 'finalized';
@@ -42,17 +81,15 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
     : tournament.rounds.filter(r => r.roundNumber < tournament.currentRound);
 
   const hasAnyResult = tournament.rounds.some(r => r.pairings.some(p => p.result != null));
-  const standings = (() => {
-    const s = computeStandings(players, tournament.rounds);
-    if (!hasAnyResult) {
-      return s.sort((a, b) => {
-        const sa = tournament.seats.find(seat => seat.playerId === a.playerId)?.seat ?? 999;
-        const sb = tournament.seats.find(seat => seat.playerId === b.playerId)?.seat ?? 999;
-        return sa - sb;
-      });
-    }
-    return s;
-  })();
+  const seatOrder = (playerId: string) => {
+    const seat = tournament.seats.find(s => s.playerId === playerId);
+    return seat ? (seat.pod ?? 0) * 1000 + seat.seat : Infinity;
+  };
+  const tables = standingsTables(players, tournament).map(table => hasAnyResult ? table : {
+    ...table,
+    standings: table.standings.sort((a, b) => seatOrder(a.playerId) - seatOrder(b.playerId)),
+  });
+  const multiPod = (tournament.pods?.length ?? 0) > 1;
 
   const nonByePairings = currentRound?.pairings.filter(p => p.player2Id !== null) ?? [];
   const allCurrentComplete = nonByePairings.length > 0 && nonByePairings.every(p => p.status === 'complete');
@@ -60,19 +97,43 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
   const canGenerateNext =
     !pendingOrder &&
     !isFinalized &&
+    !tournament.playoff &&
     tournament.currentRound < tournament.totalRounds &&
     (allCurrentComplete || isAdmin);
 
+  const dropFor = (playerId: string) => tournament.drops?.find(d => d.playerId === playerId);
+  const joinedRound = (playerId: string) =>
+    tournament.lateEntries?.find(e => e.player.id === playerId)?.joinedRound;
+  // Drops and late entries only matter while there are Swiss rounds left to pair
+  const canManageField = isAdmin && !isFinalized && !tournament.playoff && tournament.currentRound < tournament.totalRounds;
+
+  const swissComplete = tournament.currentRound >= tournament.totalRounds && !pendingOrder && allCurrentComplete;
+  const cutSizes = TOP_CUT_SIZES.filter(size => size <= players.length - (tournament.drops?.length ?? 0));
+  const canStartPlayoff = isAdmin && !isFinalized && !tournament.playoff && swissComplete && cutSizes.length > 0;
+  const readyToFinalize = tournament.playoff ? playoffChampionId(tournament.playoff) !== null : swissComplete;
+
+  const handleStartPlayoff = async (size: TopCutSize) => {
+    if (!window.confirm(`Cut to the top ${size} and start the playoff? No more Swiss rounds can be played.`)) return;
+    setError(null);
+    try {
+      await startPlayoff(draft.id, size);
+    } catch {
+      setError('Failed to start the playoff. Please try again.');
+    }
+  };
+
   const handleGenerateNext = () => {
     try {
-      const generated = generateSwissPairings(players, tournament.rounds);
-      const order: string[] = [];
-      for (const p of generated.filter(p => p.player2Id !== null)) {
-        order.push(p.player1Id, p.player2Id!);
-      }
-      for (const p of generated.filter(p => p.player2Id === null)) {
-        order.push(p.player1Id);
-      }
+      const order = nextRoundPairings(players, tournament).map(generated => {
+        const group: string[] = [];
+        for (const p of generated.filter(p => p.player2Id !== null)) {
+          group.push(p.player1Id, p.player2Id!);
+        }
+        for (const p of generated.filter(p => p.player2Id === null)) {
+          group.push(p.player1Id);
+        }
+        return group;
+      });
       setPendingOrder(order);
       setDroppedIds([]);
     } catch {
@@ -80,11 +141,12 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
     }
   };
 
-  const swapInOrder = (from: number, to: number) => {
+  // A slot is [pod, index] in the pending order
+  const swapInOrder = ([fromGroup, from]: [number, number], [toGroup, to]: [number, number]) => {
     setPendingOrder(prev => {
-      if (!prev || from === to) return prev;
-      const next = [...prev];
-      [next[from], next[to]] = [next[to], next[from]];
+      if (!prev || (fromGroup === toGroup && from === to)) return prev;
+      const next = prev.map(group => [...group]);
+      [next[fromGroup][from], next[toGroup][to]] = [next[toGroup][to], next[fromGroup][from]];
       return next;
     });
     setDragOver(null);
@@ -93,16 +155,18 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
   const handleConfirmRound = async () => {
     if (!pendingOrder) return;
     const pairings: TournamentPairing[] = [];
-    for (let i = 0; i + 1 < pendingOrder.length; i += 2) {
-      pairings.push({ id: crypto.randomUUID(), player1Id: pendingOrder[i], player2Id: pendingOrder[i + 1], status: 'pending' });
-    }
-    if (pendingOrder.length % 2 === 1) {
-      pairings.push({ id: crypto.randomUUID(), player1Id: pendingOrder[pendingOrder.length - 1], player2Id: null, status: 'pending' });
+    for (const group of pendingOrder) {
+      for (let i = 0; i + 1 < group.length; i += 2) {
+        pairings.push({ id: crypto.randomUUID(), player1Id: group[i], player2Id: group[i + 1], status: 'pending' });
+      }
+      if (group.length % 2 === 1) {
+        pairings.push({ id: crypto.randomUUID(), player1Id: group[group.length - 1], player2Id: null, status: 'pending' });
+      }
     }
     setGeneratingRound(true);
     setError(null);
     try {
-      await addRound(draft.id, pairings);
+      await addRound(draft.id, tournament.currentRound + 1, pairings);
       setPendingOrder(null);
       setDroppedIds([]);
     } catch {
@@ -112,6 +176,69 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
     }
   };
 
+  const disputedRounds = tournament.rounds
+    .filter(r => r.pairings.some(p => p.status === 'disputed'))
+    .map(r => r.roundNumber);
+  const disputedPlayoff = tournament.playoff?.rounds.some(r => r.pairings.some(p => p.status === 'disputed')) ?? false;
+
+  // Confirm, dispute and correct, as far as the viewer is allowed
+  const resultActions = (roundNumber: number, pairing: TournamentPairing) => ({
+    onConfirm: canConfirmResult(pairing, players, currentUserId, isAdmin)
+      ? () => confirmResult(draft.id, roundNumber, pairing.id)
+      : undefined,
+    onDispute: canDisputeResult(pairing, players, currentUserId)
+      ? (note: string) => disputeResult(draft.id, roundNumber, pairing.id, note)
+      : undefined,
+    onCorrect: isAdmin && pairing.result
+      ? (result: Omit<PairingResult, 'submittedBy' | 'submittedAt'>) => correctResult(draft.id, roundNumber, pairing.id, result)
+      : undefined,
+  });
+
+  // The same for a playoff match, which can't change once the round after it has results
+  const playoffResultActions = (roundNumber: number, pairing: TournamentPairing) => ({
+    onConfirm: canConfirmResult(pairing, players, currentUserId, isAdmin)
+      ? () => confirmPlayoffResult(draft.id, roundNumber, pairing.id)
+      : undefined,
+    onDispute: canDisputeResult(pairing, players, currentUserId)
+      ? (note: string) => disputePlayoffResult(draft.id, roundNumber, pairing.id, note)
+      : undefined,
+    onCorrect: isAdmin && pairing.result && canCorrectPlayoffResult(tournament.playoff!, roundNumber)
+      ? (result: Omit<PairingResult, 'submittedBy' | 'submittedAt'>) => correctPlayoffResult(draft.id, roundNumber, pairing.id, result)
+      : undefined,
+  });
+
+  const handleDrop = async (playerId: string) => {
+    setError(null);
+    try {
+      await dropPlayer(draft.id, playerId, dropReason);
+      setDroppingId(null);
+      setDropReason('');
+    } catch {
+      setError('Failed to drop the player. Please try again.');
+    }
+  };
+
+  const handleReinstate = async (playerId: string) => {
+    setError(null);
+    try {
+      await reinstatePlayer(draft.id, playerId);
+    } catch {
+      setError('Failed to reinstate the player. Please try again.');
+    }
+  };
+
+  const handleAddLateEntry = async () => {
+    if (!lateEntry.name.trim()) return;
+    setError(null);
+    try {
+      await addLateEntry(draft.id, { name: lateEntry.name.trim(), userId: lateEntry.userId }, lateMissed);
+      setLateEntry({ name: '', userId: null });
+      setLateEntryOpen(false);
+    } catch {
+      setError('Failed to add the late entry. Please try again.');
+    }
+  };
+
   const handleFinalize = async () => {
     if (!currentUserId) return;
     if (!window.confirm('Finalize the tournament? This cannot be undone.')) return;
@@ -131,32 +258,144 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
     <div className="mt-6 pt-6 border-t border-gray-700/50 space-y-6">
       {error && <p className="text-red-400 text-sm">{error}</p>}
 
-      {/* Standings */}
-      {standings.length > 0 && (
+      {isAdmin && (disputedRounds.length > 0 || disputedPlayoff) && (
+        <div className="bg-red-900/20 border border-red-700/40 rounded-xl p-3 text-sm text-red-300">
+          Disputed results in {[
+            ...(disputedRounds.length > 0 ? [`round ${disputedRounds.join(', ')}`] : []),
+            ...(disputedPlayoff ? ['the playoff'] : []),
+          ].join(' and ')} need an admin to confirm or correct them.
+        </div>
+      )}
+
+      {(tournament.corrections ?? []).length > 0 && (
+        <div className="bg-amber-900/20 border border-amber-700/40 rounded-xl p-3 space-y-1">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-amber-400">Corrected Results</p>
+          {tournament.corrections!.map(c => (
+            <p key={`${c.pairingId}-${c.correctedAt.toMillis()}`} className="text-xs text-amber-200">
+              {correctionWarning(c, tournament, players)}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Standings, one table per pod when each pod is ranked on its own */}
+      {tables.map(({ podNumber, standings }) => standings.length > 0 && (
+        <div key={podNumber ?? 'all'} className="space-y-2">
+        {podNumber !== null && (
+          <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Pod {podNumber} Standings</p>
+        )}
         <div className="bg-gray-900 border border-gray-700/50 rounded-xl overflow-hidden">
-          <div className="grid grid-cols-[24px_1fr_60px_50px] px-4 py-2.5 bg-gray-800/80 border-b border-gray-700/50 text-[10px] font-bold uppercase tracking-widest text-gray-500">
+          <div className={`${STANDINGS_GRID} px-4 py-2.5 bg-gray-800/80 border-b border-gray-700/50 text-[10px] font-bold uppercase tracking-widest text-gray-500`}>
             <span>#</span>
             <span>Player</span>
+            <span className="text-right">Pts</span>
             <span className="text-right">Record</span>
-            <span className="text-right">GW</span>
+            <span className="text-right" title="Opponents' match-win %">OMW</span>
+            <span className="text-right" title="Game-win %">GW</span>
+            <span className="text-right" title="Opponents' game-win %">OGW</span>
           </div>
           {standings.map((s, i) => {
             const arch = playerArchetype(s.playerId, players);
+            const drop = dropFor(s.playerId);
+            const joined = joinedRound(s.playerId);
             return (
-            <div key={s.playerId} className="grid grid-cols-[24px_1fr_60px_50px] px-4 py-2.5 text-sm border-b border-gray-700/30 last:border-0 items-start">
+            <div key={s.playerId} className={`${STANDINGS_GRID} px-4 py-2.5 text-sm border-b border-gray-700/30 last:border-0 items-start`}>
               <span className="text-gray-600 font-bold text-xs pt-0.5">{i + 1}</span>
               <div>
-                <div className="text-gray-200 font-semibold">{playerName(s.playerId, players)}</div>
+                <div className={`font-semibold ${drop ? 'text-gray-500 line-through' : 'text-gray-200'}`}>{playerName(s.playerId, players)}</div>
                 {arch && (
                   <div className="text-xs text-gray-600 mt-0.5">{arch}</div>
                 )}
+                {multiPod && podNumber === null && (
+                  <div className="text-xs text-gray-600 mt-0.5">Pod {podNumberOf(tournament, s.playerId)}</div>
+                )}
+                {drop && (
+                  <div className="text-xs text-red-400/80 mt-0.5">
+                    Dropped after round {drop.afterRound}{drop.reason && ` — ${drop.reason}`}
+                  </div>
+                )}
+                {joined !== undefined && (
+                  <div className="text-xs text-amber-400/80 mt-0.5">Joined in round {joined}</div>
+                )}
+                {canManageField && droppingId === s.playerId && (
+                  <div className="flex items-center gap-1.5 mt-1.5">
+                    <input
+                      value={dropReason}
+                      onChange={e => setDropReason(e.target.value)}
+                      placeholder="Reason (optional)"
+                      className="flex-1 min-w-0 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <button onClick={() => handleDrop(s.playerId)} className="px-2 py-1 bg-red-700 hover:bg-red-600 text-white text-xs rounded">Drop</button>
+                    <button onClick={() => { setDroppingId(null); setDropReason(''); }} className="px-2 py-1 text-gray-400 hover:text-white text-xs">Cancel</button>
+                  </div>
+                )}
+                {canManageField && droppingId !== s.playerId && (
+                  drop ? (
+                    <button onClick={() => handleReinstate(s.playerId)} className="text-xs text-gray-500 hover:text-white mt-0.5">Reinstate</button>
+                  ) : (
+                    <button onClick={() => { setDroppingId(s.playerId); setDropReason(''); }} className="text-xs text-gray-600 hover:text-red-400 mt-0.5">Drop</button>
+                  )
+                )}
               </div>
-              <span className="text-gray-400 text-xs text-right pt-0.5">{s.matchTies > 0 ? `${s.matchWins} – ${s.matchLosses} – ${s.matchTies}` : `${s.matchWins} – ${s.matchLosses}`}</span>
-              <span className="text-gray-600 text-xs text-right pt-0.5">{s.gameWins}</span>
+              <span className="text-gray-200 text-xs font-semibold text-right pt-0.5">{s.matchPoints}</span>
+              <div className="text-gray-400 text-xs text-right pt-0.5">
+                <div>{s.matchTies > 0 ? `${s.matchWins} – ${s.matchLosses} – ${s.matchTies}` : `${s.matchWins} – ${s.matchLosses}`}</div>
+                {/* Byes score like wins but aren't in the record above */}
+                {s.byes > 0 && (
+                  <div className="text-gray-600 mt-0.5">+{s.byes} {s.byes === 1 ? 'bye' : 'byes'}</div>
+                )}
+              </div>
+              <span className="text-gray-600 text-xs text-right pt-0.5">{formatPct(s.opponentMatchWinPct)}</span>
+              <span className="text-gray-600 text-xs text-right pt-0.5">{formatPct(s.gameWinPct)}</span>
+              <span className="text-gray-600 text-xs text-right pt-0.5">{formatPct(s.opponentGameWinPct)}</span>
             </div>
           );
           })}
         </div>
+        </div>
+      ))}
+
+      {/* A round-robin's schedule is fixed, so it takes no late entries */}
+      {canManageField && tournament.format !== 'round-robin' && (
+        lateEntryOpen ? (
+          <div className="space-y-2 p-3 bg-gray-800/60 border border-gray-700/40 rounded-xl">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Late Entry</p>
+            <PlayerSearch
+              value={lateEntry.name}
+              onChange={(name, userId) => setLateEntry({ name, userId })}
+            />
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-400 flex-1">
+                Joins in round {tournament.currentRound + 1}; rounds 1–{tournament.currentRound} count as
+              </span>
+              <select
+                value={lateMissed}
+                onChange={e => setLateMissed(e.target.value as TournamentLateEntry['missedRounds'])}
+                className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="loss">Losses</option>
+                <option value="bye">Byes</option>
+              </select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setLateEntryOpen(false)} className="px-3 py-1.5 text-gray-400 hover:text-white text-xs">Cancel</button>
+              <button
+                onClick={handleAddLateEntry}
+                disabled={!lateEntry.name.trim()}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white text-xs font-semibold rounded-lg"
+              >
+                Add Player
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setLateEntryOpen(true)}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded-lg"
+          >
+            + Late Entry
+          </button>
+        )
       )}
 
       {/* Past rounds summary */}
@@ -169,6 +408,17 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
                 <div className="bg-amber-900/20 border border-amber-700/40 rounded-lg p-2 text-xs text-amber-300">
                   🎟️ Bye — {playerName(pairing.player1Id, players)}
                 </div>
+              ) : correctingId === pairing.id || pairing.status === 'reported' || pairing.status === 'disputed' ? (
+                <ScoreEntry
+                  pairing={pairing}
+                  players={players}
+                  onSubmit={async result => {
+                    await submitResult(draft.id, round.roundNumber, pairing.id, result);
+                  }}
+                  {...resultActions(round.roundNumber, pairing)}
+                  startEditing={correctingId === pairing.id}
+                  onCancelEdit={() => setCorrectingId(null)}
+                />
               ) : (
                 <div className="flex items-center text-sm bg-gray-800/50 border border-gray-700/30 rounded-lg px-3 py-2">
                   <span className={`font-semibold flex-1 ${pairing.result?.matchWinner === 'player1' ? 'text-white' : 'text-gray-500'}`}>
@@ -180,6 +430,14 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
                   <span className={`font-semibold flex-1 text-right ${pairing.result?.matchWinner === 'player2' ? 'text-white' : 'text-gray-500'}`}>
                     {playerName(pairing.player2Id, players)}
                   </span>
+                  {isAdmin && pairing.result && (
+                    <button
+                      onClick={() => setCorrectingId(pairing.id)}
+                      className="ml-3 text-xs text-gray-600 hover:text-white"
+                    >
+                      Correct
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -194,8 +452,20 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
             Round {currentRound.roundNumber}
             {!isFinalized && <span className="ml-2 text-blue-400">● Active</span>}
           </p>
-          {currentRound.pairings.map(pairing => (
+          {(currentRound.timer || currentRound.status === 'active') && (
+            <RoundClock
+              round={currentRound}
+              onAction={isAdmin ? action => setRoundTimer(draft.id, currentRound.roundNumber, action) : undefined}
+            />
+          )}
+          {currentRound.pairings.map((pairing, i) => {
+            const pod = multiPod ? podNumberOf(tournament, pairing.player1Id) : null;
+            const podStarts = pod !== null && (i === 0 || podNumberOf(tournament, currentRound.pairings[i - 1].player1Id) !== pod);
+            return (
             <div key={pairing.id}>
+              {podStarts && (
+                <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mt-3 mb-2">Pod {pod}</p>
+              )}
               {pairing.player2Id === null ? (
                 <div className="bg-amber-900/20 border border-amber-700/40 rounded-lg p-2 text-xs text-amber-300">
                   🎟️ Bye — {playerName(pairing.player1Id, players)}
@@ -207,77 +477,87 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
                   onSubmit={async result => {
                     await submitResult(draft.id, currentRound.roundNumber, pairing.id, result);
                   }}
+                  {...resultActions(currentRound.roundNumber, pairing)}
+                  additionalTurns={inAdditionalTurns(pairing, currentRound, now)}
                 />
               )}
             </div>
-          ))}
+            );
+          })}
         </div>
       )}
 
       {/* Pending next round — drag-and-drop matchup editor */}
       {pendingOrder && (() => {
-        const matchCount = Math.floor(pendingOrder.length / 2);
-        const hasBye = pendingOrder.length % 2 === 1;
-        const byeIndex = hasBye ? pendingOrder.length - 1 : -1;
-
-        const chip = (idx: number, byeStyle = false) => (
-          <div
-            key={idx}
-            draggable
-            onDragStart={e => { e.dataTransfer.setData('text/plain', `active:${idx}`); e.dataTransfer.effectAllowed = 'move'; }}
-            onDragOver={e => { e.preventDefault(); setDragOver(String(idx)); }}
-            onDragLeave={() => setDragOver(null)}
-            onDrop={e => {
-              e.preventDefault();
-              const source = e.dataTransfer.getData('text/plain');
-              if (source.startsWith('active:')) {
-                swapInOrder(Number(source.split(':')[1]), idx);
-              } else if (source.startsWith('dropped:')) {
-                const droppedId = source.slice(8);
-                const activeId = pendingOrder[idx];
-                setPendingOrder(prev => {
-                  if (!prev) return prev;
-                  const next = [...prev];
-                  next[idx] = droppedId;
-                  return next;
-                });
-                setDroppedIds(prev => prev.filter(id => id !== droppedId).concat(activeId));
-                setDragOver(null);
-              }
-            }}
-            onDragEnd={() => setDragOver(null)}
-            className={`flex-1 px-3 py-1.5 rounded-md text-sm font-semibold text-center cursor-grab active:cursor-grabbing select-none transition-colors ${
-              dragOver === String(idx)
-                ? 'bg-blue-600 border border-blue-400 text-white'
-                : byeStyle
-                ? 'bg-amber-900/40 border border-amber-700/40 text-amber-200'
-                : 'bg-gray-700 border border-gray-600 text-white'
-            }`}
-          >
-            {playerName(pendingOrder[idx], players)}
-          </div>
-        );
+        const chip = (gi: number, idx: number, byeStyle = false) => {
+          const slot = `${gi}:${idx}`;
+          return (
+            <div
+              key={slot}
+              draggable
+              onDragStart={e => { e.dataTransfer.setData('text/plain', `active:${slot}`); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={e => { e.preventDefault(); setDragOver(slot); }}
+              onDragLeave={() => setDragOver(null)}
+              onDrop={e => {
+                e.preventDefault();
+                const source = e.dataTransfer.getData('text/plain');
+                if (source.startsWith('active:')) {
+                  const [fromGroup, from] = source.slice(7).split(':').map(Number);
+                  swapInOrder([fromGroup, from], [gi, idx]);
+                } else if (source.startsWith('dropped:')) {
+                  const droppedId = source.slice(8);
+                  const activeId = pendingOrder[gi][idx];
+                  setPendingOrder(prev => {
+                    if (!prev) return prev;
+                    const next = prev.map(group => [...group]);
+                    next[gi][idx] = droppedId;
+                    return next;
+                  });
+                  setDroppedIds(prev => prev.filter(id => id !== droppedId).concat(activeId));
+                  setDragOver(null);
+                }
+              }}
+              onDragEnd={() => setDragOver(null)}
+              className={`flex-1 px-3 py-1.5 rounded-md text-sm font-semibold text-center cursor-grab active:cursor-grabbing select-none transition-colors ${
+                dragOver === slot
+                  ? 'bg-blue-600 border border-blue-400 text-white'
+                  : byeStyle
+                  ? 'bg-amber-900/40 border border-amber-700/40 text-amber-200'
+                  : 'bg-gray-700 border border-gray-600 text-white'
+              }`}
+            >
+              {playerName(pendingOrder[gi][idx], players)}
+            </div>
+          );
+        };
 
         return (
           <div className="space-y-3 p-4 bg-gray-700/30 rounded-xl border border-gray-600">
             <div>
               <p className="text-white font-medium text-sm">Round {tournament.currentRound + 1}</p>
             </div>
-            <div className="space-y-2">
-              {Array.from({ length: matchCount }, (_, mi) => (
-                <div key={mi} className="flex items-center gap-2 bg-gray-800/60 border border-gray-700/40 rounded-lg px-3 py-2">
-                  {chip(mi * 2)}
-                  <span className="text-gray-500 text-xs font-medium shrink-0">vs</span>
-                  {chip(mi * 2 + 1)}
-                </div>
-              ))}
-              {hasBye && (
-                <div className="flex items-center gap-2 bg-amber-900/20 border border-amber-700/30 rounded-lg px-3 py-2">
-                  <span className="text-amber-400 text-xs font-semibold shrink-0">Bye</span>
-                  {chip(byeIndex, true)}
-                </div>
-              )}
-            </div>
+            {pendingOrder.map((group, gi) => (
+              <div key={gi} className="space-y-2">
+                {multiPod && (
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">
+                    Pod {tournament.pods![gi].podNumber}
+                  </p>
+                )}
+                {Array.from({ length: Math.floor(group.length / 2) }, (_, mi) => (
+                  <div key={mi} className="flex items-center gap-2 bg-gray-800/60 border border-gray-700/40 rounded-lg px-3 py-2">
+                    {chip(gi, mi * 2)}
+                    <span className="text-gray-500 text-xs font-medium shrink-0">vs</span>
+                    {chip(gi, mi * 2 + 1)}
+                  </div>
+                ))}
+                {group.length % 2 === 1 && (
+                  <div className="flex items-center gap-2 bg-amber-900/20 border border-amber-700/30 rounded-lg px-3 py-2">
+                    <span className="text-amber-400 text-xs font-semibold shrink-0">Bye</span>
+                    {chip(gi, group.length - 1, true)}
+                  </div>
+                )}
+              </div>
+            ))}
 
             {/* Sat out / dropped zone */}
             <div
@@ -287,12 +567,12 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
                 e.preventDefault();
                 const source = e.dataTransfer.getData('text/plain');
                 if (source.startsWith('active:')) {
-                  const fromIdx = Number(source.split(':')[1]);
-                  const playerId = pendingOrder[fromIdx];
+                  const [fromGroup, fromIdx] = source.slice(7).split(':').map(Number);
+                  const playerId = pendingOrder[fromGroup][fromIdx];
                   setPendingOrder(prev => {
                     if (!prev) return prev;
-                    const next = [...prev];
-                    next.splice(fromIdx, 1);
+                    const next = prev.map(group => [...group]);
+                    next[fromGroup].splice(fromIdx, 1);
                     return next;
                   });
                   setDroppedIds(prev => [...prev, playerId]);
@@ -313,7 +593,11 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
                       draggable
                       onClick={() => {
                         setDroppedIds(prev => prev.filter(d => d !== id));
-                        setPendingOrder(prev => prev ? [...prev, id] : [id]);
+                        // Back into their own pod
+                        const gi = Math.max(0, (tournament.pods ?? []).findIndex(pod => pod.playerIds.includes(id)));
+                        setPendingOrder(prev => prev
+                          ? prev.map((group, i) => (i === gi ? [...group, id] : group))
+                          : [[id]]);
                       }}
                       onDragStart={e => { e.dataTransfer.setData('text/plain', `dropped:${id}`); e.dataTransfer.effectAllowed = 'move'; }}
                       onDragEnd={() => setDragOver(null)}
@@ -345,6 +629,32 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
         );
       })()}
 
+      {/* Top cut */}
+      {tournament.playoff && (
+        <PlayoffBracket
+          playoff={tournament.playoff}
+          players={players}
+          onSubmit={isFinalized ? undefined : (roundNumber, pairingId, result) =>
+            submitPlayoffResult(draft.id, roundNumber, pairingId, result)}
+          resultActions={isFinalized ? undefined : playoffResultActions}
+        />
+      )}
+
+      {canStartPlayoff && (
+        <div className="flex items-center gap-2 p-3 bg-gray-800/60 border border-gray-700/40 rounded-xl">
+          <span className="text-sm text-gray-300 flex-1">Single-elimination playoff</span>
+          {cutSizes.map(size => (
+            <button
+              key={size}
+              onClick={() => handleStartPlayoff(size)}
+              className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-semibold rounded-lg"
+            >
+              Top {size}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Generate next round button */}
       {canGenerateNext && (
         <button
@@ -360,7 +670,7 @@ export default function TournamentView({ draft, isAdmin, currentUserId }: Tourna
           onClick={handleFinalize}
           disabled={finalizingTournament}
           className={`w-full py-2.5 disabled:opacity-50 text-sm font-semibold rounded-xl ${
-            tournament.currentRound >= tournament.totalRounds && !pendingOrder && allCurrentComplete
+            readyToFinalize
               ? 'bg-green-600 hover:bg-green-700 text-white'
               : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
           }`}
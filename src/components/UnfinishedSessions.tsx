@@ -0,0 +1,81 @@
+import { useNavigate } from 'react-router-dom';
+import { useDraftHistoryStore } from '../state/draftHistoryStore';
+import { otherHostName, useSessionStore } from '../state/sessionStore';
+import { useUserStore } from '../state/userStore';
+import type { Draft } from '../types';
+
+export default function UnfinishedSessions() {
+  const navigate = useNavigate();
+  const drafts = useDraftHistoryStore(s => s.drafts);
+  const deleteDraft = useDraftHistoryStore(s => s.deleteDraft);
+  const resumeSession = useSessionStore(s => s.resumeSession);
+  const watchSession = useSessionStore(s => s.watchSession);
+  const { profile } = useUserStore();
+
+  const sessions = drafts.filter(d => d.type === 'chaos' && d.status === 'in-progress');
+  if (sessions.length === 0) return null;
+
+  const handleResume = (draft: Draft) => {
+    const host = otherHostName(draft);
+    if (host && !window.confirm(
+      `${host} is hosting this draft. Take over as host?\n` +
+      'Only do this if their device has stopped — picks made on both would overwrite each other.'
+    )) return;
+    resumeSession(draft, true);
+    navigate('/draft');
+  };
+
+  const handleWatch = (draft: Draft) => {
+    watchSession(draft.id);
+    navigate('/draft');
+  };
+
+  const handleDiscard = (draft: Draft) => {
+    if (!window.confirm('Discard this unfinished session? Its picks will be lost.')) return;
+    deleteDraft(draft.id);
+  };
+
+  return (
+    <div className="space-y-2 max-w-2xl mx-auto mb-6">
+      {sessions.map(draft => {
+        const picks = draft.packsSelectedOrder?.length ?? 0;
+        const total = draft.numPacks ?? picks;
+        const date = draft.createdAt?.toDate().toLocaleString() ?? 'Unknown date';
+        const canDiscard = profile?.role === 'admin' || draft.createdBy === profile?.uid;
+        return (
+          <div
+            key={draft.id}
+            className="flex items-center gap-3 bg-purple-900/20 border border-purple-700/40 rounded-xl px-4 py-3"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-purple-200">Unfinished Chaos Draft</p>
+              <p className="text-xs text-gray-400 truncate">
+                {date} · {draft.players.map(p => p.name).join(', ')} · {picks} / {total} picks
+              </p>
+            </div>
+            {canDiscard && (
+              <button
+                onClick={() => handleDiscard(draft)}
+                className="px-3 py-1.5 text-gray-400 hover:text-red-400 text-xs rounded-lg"
+              >
+                Discard
+              </button>
+            )}
+            <button
+              onClick={() => handleWatch(draft)}
+              className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs font-semibold rounded-lg"
+            >
+              Watch
+            </button>
+            <button
+              onClick={() => handleResume(draft)}
+              className="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white text-xs font-semibold rounded-lg"
+            >
+              Resume →
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
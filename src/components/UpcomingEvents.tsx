@@ -0,0 +1,295 @@
+import { useState } from 'react';
+import PackCatalogSearch from './PackCatalogSearch';
+import { useEventStore, type NewDraftEvent } from '../state/eventStore';
+import { useCubeStore } from '../state/cubeStore';
+import { useUserStore } from '../state/userStore';
+import { eventRsvps, goingRsvps, waitlistRsvps } from '../utils/eventRsvp';
+import type { DraftEvent, EventFormat } from '../types';
+
+const EVENT_FORMATS: EventFormat[] = ['Chaos Draft', 'Regular Draft', 'Mobius Draft', 'Sealed', 'Team Sealed'];
+
+const inputClass =
+  'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-white focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const formatStartsAt = (startsAt: string) =>
+  new Date(startsAt).toLocaleString(undefined, {
+    weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+  });
+
+// Today's date in local time, comparable with the date part of `startsAt`
+const todayLocal = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+function ScheduleEventForm({ onDone }: { onDone: () => void }) {
+  const createEvent = useEventStore(s => s.createEvent);
+  const { cubes } = useCubeStore();
+  const [title, setTitle] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [format, setFormat] = useState<EventFormat>('Regular Draft');
+  const [source, setSource] = useState<'sets' | 'cube'>('sets');
+  const [sets, setSets] = useState<NewDraftEvent['sets']>([]);
+  const [cubeId, setCubeId] = useState('');
+  const [seatCap, setSeatCap] = useState(8);
+  const [saving, setSaving] = useState(false);
+
+  const isChaos = format === 'Chaos Draft';
+  const canSave = title.trim() !== '' && startsAt !== '' && seatCap >= 2 &&
+    (isChaos || (source === 'sets' ? sets.length > 0 : cubeId !== ''));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    const cube = !isChaos && source === 'cube' ? cubes.find(c => c.id === cubeId) : undefined;
+    setSaving(true);
+    try {
+      await createEvent({
+        title: title.trim(),
+        startsAt,
+        format,
+        sets: isChaos || cube ? [] : sets,
+        seatCap,
+        ...(cube ? {
+          cubeId: cube.id,
+          cubeName: cube.name,
+          cubeImageUrl: cube.imageUrl,
+          cubeExternalUrl: cube.externalUrl,
+        } : {}),
+      });
+      onDone();
+    } catch (err) {
+      console.error('Failed to schedule event:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800 rounded-xl p-4 border border-gray-700 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input value={title} onChange={e => setTitle(e.target.value)} placeholder="Title, e.g. Friday Draft Night" className={inputClass} />
+        <input type="datetime-local" value={startsAt} onChange={e => setStartsAt(e.target.value)} className={inputClass} />
+        <select value={format} onChange={e => setFormat(e.target.value as EventFormat)} className={inputClass}>
+          {EVENT_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          Seats
+          <input
+            type="number"
+            min={2}
+            max={16}
+            value={seatCap}
+            onChange={e => setSeatCap(Math.min(16, Math.max(2, Number(e.target.value) || 2)))}
+            className={`${inputClass} w-20 text-center`}
+          />
+        </label>
+      </div>
+
+      {!isChaos && (
+        <div className="space-y-2">
+          <div className="flex rounded-lg overflow-hidden border border-gray-600 w-fit">
+            {(['sets', 'cube'] as const).map(s => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => setSource(s)}
+                className={`px-4 py-1.5 text-sm font-medium transition-colors ${
+                  source === s ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {s === 'sets' ? 'Sets' : 'Cube'}
+              </button>
+            ))}
+          </div>
+          {source === 'sets' ? (
+            <>
+              <PackCatalogSearch
+                onSelect={entry => {
+                  if (!sets.some(s => s.id === entry.id)) {
+                    setSets(prev => [...prev, { id: entry.id, name: entry.name, imageUrl: entry.imageUrl }]);
+                  }
+                }}
+                placeholder="Add a set…"
+              />
+              {sets.map(s => (
+                <div key={s.id} className="flex items-center gap-3 bg-gray-700 rounded-lg px-3 py-2">
+                  <img src={s.imageUrl} alt={s.name} className="w-6 h-8 object-cover rounded" />
+                  <span className="text-white text-sm flex-1">{s.name}</span>
+                  <button type="button" onClick={() => setSets(prev => prev.filter(x => x.id !== s.id))} className="text-gray-400 hover:text-red-400 text-sm">✕</button>
+                </div>
+              ))}
+            </>
+          ) : (
+            <select value={cubeId} onChange={e => setCubeId(e.target.value)} className={`${inputClass} w-full`}>
+              <option value="">Choose a cube…</option>
+              {cubes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onDone} className="px-3 py-1.5 text-gray-400 hover:text-white text-sm">Cancel</button>
+        <button
+          type="submit"
+          disabled={!canSave || saving}
+          className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-40 text-white text-sm rounded-lg font-medium"
+        >
+          Schedule
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface EventCardProps {
+  event: DraftEvent;
+  isAdmin: boolean;
+  currentUserId?: string;
+  onStart: (event: DraftEvent) => void;
+}
+
+function EventCard({ event, isAdmin, currentUserId, onStart }: EventCardProps) {
+  const { rsvp, withdraw, setSeatCap, setStatus } = useEventStore();
+  const [busy, setBusy] = useState(false);
+  const rsvps = eventRsvps(event);
+  const going = goingRsvps(rsvps);
+  const waitlist = waitlistRsvps(rsvps);
+  const mine = rsvps.find(r => r.userId === currentUserId);
+  const source = event.cubeName ?? event.sets.map(s => s.name).join(', ');
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Failed to update event:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm(`Cancel ${event.title}? Everyone's RSVP will be dropped from the schedule.`)) return;
+    run(() => setStatus(event.id, 'cancelled'));
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-4 border border-gray-700 space-y-3">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="text-white font-semibold truncate">{event.title}</p>
+          <p className="text-xs text-gray-400">
+            {formatStartsAt(event.startsAt)} · {event.format}{source && ` · ${source}`}
+          </p>
+        </div>
+        {mine ? (
+          <button
+            onClick={() => run(() => withdraw(event.id))}
+            disabled={busy}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-gray-300 text-xs rounded-lg"
+          >
+            {mine.status === 'going' ? "Can't make it" : 'Leave waitlist'}
+          </button>
+        ) : (
+          <button
+            onClick={() => run(() => rsvp(event.id))}
+            disabled={busy}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-xs rounded-lg font-medium"
+          >
+            {going.length < event.seatCap ? "I'm in" : 'Join waitlist'}
+          </button>
+        )}
+      </div>
+
+      <div className="text-sm space-y-1">
+        <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">
+          Going {going.length}/{event.seatCap}
+        </p>
+        <p className="text-gray-200">{going.map(r => r.name).join(', ') || 'No one yet'}</p>
+        {waitlist.length > 0 && (
+          <p className="text-xs text-gray-400">
+            Waitlist: {waitlist.map((r, i) => `${i + 1}. ${r.name}`).join(', ')}
+          </p>
+        )}
+        {mine?.status === 'waitlist' && (
+          <p className="text-xs text-amber-400">
+            You're #{waitlist.findIndex(r => r.userId === currentUserId) + 1} on the waitlist.
+          </p>
+        )}
+      </div>
+
+      {isAdmin && (
+        <div className="flex items-center gap-2 pt-2 border-t border-gray-700/50">
+          <span className="text-xs text-gray-400">Seats</span>
+          <button
+            onClick={() => run(() => setSeatCap(event.id, Math.max(2, event.seatCap - 1)))}
+            disabled={busy}
+            className="w-6 h-6 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm font-bold"
+          >−</button>
+          <button
+            onClick={() => run(() => setSeatCap(event.id, Math.min(16, event.seatCap + 1)))}
+            disabled={busy}
+            className="w-6 h-6 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm font-bold"
+          >+</button>
+          <div className="flex-1" />
+          <button onClick={handleCancel} disabled={busy} className="px-3 py-1.5 text-gray-400 hover:text-red-400 text-xs rounded-lg">
+            Cancel Event
+          </button>
+          <button
+            onClick={() => onStart(event)}
+            disabled={busy || going.length < 2}
+            className="px-3 py-1.5 bg-green-600 hover:bg-green-700 disabled:opacity-40 text-white text-xs rounded-lg font-semibold"
+          >
+            Start Draft →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Scheduled draft nights from today on. Players RSVP here; on the night an admin
+ * starts the draft, which hands the seated players to the usual setup flow.
+ */
+export default function UpcomingEvents({ onStart }: { onStart: (event: DraftEvent) => void }) {
+  const events = useEventStore(s => s.events);
+  const { profile } = useUserStore();
+  const [scheduling, setScheduling] = useState(false);
+  const isAdmin = profile?.role === 'admin';
+
+  const today = todayLocal();
+  const upcoming = events.filter(e => e.status === 'scheduled' && e.startsAt.slice(0, 10) >= today);
+  if (upcoming.length === 0 && !isAdmin) return null;
+
+  return (
+    <div className="space-y-3 max-w-2xl mx-auto mb-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm text-gray-500 font-semibold uppercase tracking-wide">Upcoming Events</h3>
+        {isAdmin && !scheduling && (
+          <button
+            onClick={() => setScheduling(true)}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded-lg"
+          >
+            + Schedule Event
+          </button>
+        )}
+      </div>
+      {scheduling && <ScheduleEventForm onDone={() => setScheduling(false)} />}
+      {upcoming.length === 0 && !scheduling && (
+        <p className="text-gray-500 text-sm">Nothing scheduled.</p>
+      )}
+      {upcoming.map(event => (
+        <EventCard
+          key={event.id}
+          event={event}
+          isAdmin={isAdmin}
+          currentUserId={profile?.uid}
+          onStart={onStart}
+        />
+      ))}
+    </div>
+  );
+}
@@ -3,9 +3,15 @@ import { useNavigate } from 'react-router-dom';
 import { useSessionStore } from "../state/sessionStore";
 import { useInventoryStore, type Pack } from "../state/inventoryStore";
 import { useDraftHistoryStore } from "../state/draftHistoryStore";
+import { useUserStore } from "../state/userStore";
 import RoundMatchups from "../components/RoundMatchups";
-import { generateRound1Pairings, playersToSeats } from "../utils/tournamentPairings";
-import type { DraftTournament } from "../types";
+import UnfinishedSessions from "../components/UnfinishedSessions";
+import { generateRound1Pairings } from "../utils/tournamentPairings";
+import { newTournament } from "../utils/tournamentFormats";
+import { createSeededRandom, randomSeed } from "../utils/seededRandom";
+import { drawChaosPick, remainingPool, toChaosPool } from "../utils/chaosDraw";
+import { PICK_ORDER_MODES, playerIndexForPick } from "../utils/pickOrder";
+import type { TournamentFormat } from "../types";
 
 import tickSoundFile from "../assets/tick.mp3";
 import selectedSoundFile from "../assets/selected.mp3";
@@ -50,17 +56,19 @@ const trimBuffer = ({
 
 /**
  * Creates the list of packs that will be spun through during the animation.
+ * Driven by the spin's seeded generator so every device builds the same cycles.
  * @returns The list of packs to append, the number of packs in the "revolution" part,
  * and the shuffled list used to create it (for the fallback).
  */
 const createAnimationCycles = (
   availablePacks: Pack[],
   baseRevolutions: number,
-  varianceRevolutions: number
+  varianceRevolutions: number,
+  rng: () => number
 ) => {
   const shuffledPacks = [...availablePacks];
   for (let i = shuffledPacks.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [shuffledPacks[i], shuffledPacks[j]] = [
       shuffledPacks[j],
       shuffledPacks[i],
@@ -68,7 +76,7 @@ const createAnimationCycles = (
   }
 
   const revolutions =
-    baseRevolutions + Math.floor(Math.random() * varianceRevolutions);
+    baseRevolutions + Math.floor(rng() * varianceRevolutions);
 
   const revolutionCycles = Array.from(
     { length: revolutions },
@@ -95,12 +103,14 @@ const findTargetIndex = ({
   numRevolutionPacks,
   selectedPack,
   fallbackPacks,
+  rng,
 }: {
   buffer: Pack[];
   searchStartIndex: number;
   numRevolutionPacks: number;
   selectedPack: Pack;
   fallbackPacks: Pack[];
+  rng: () => number;
 }) => {
   let selectedIndex = -1;
   const searchEndIndex = searchStartIndex + numRevolutionPacks;
@@ -131,7 +141,7 @@ const findTargetIndex = ({
     const lastRevolutionStartIndex = searchEndIndex - fallbackPacks.length;
     selectedIndex =
       lastRevolutionStartIndex +
-      Math.floor(Math.random() * fallbackPacks.length);
+      Math.floor(rng() * fallbackPacks.length);
   }
   return selectedIndex;
 };
@@ -152,7 +162,16 @@ export default function Draft() {
     undoLastPick,
     pendingTournament,
     setPendingTournament,
+    isSpectator,
+    currentSpin,
+    startSpin,
+    sessionInventory,
+    pickOrder,
+    pickOrderSeed,
+    rerolledPicks,
+    rerollPick,
   } = useSessionStore();
+  const { profile } = useUserStore();
 
   const navigate = useNavigate();
   const { loadDrafts } = useDraftHistoryStore();
@@ -172,6 +191,8 @@ export default function Draft() {
   const bufferPadding = 25; // PARAMETERIZED: packs to keep before/after visible area
 
   const [showMatchupsModal, setShowMatchupsModal] = useState(false);
+  // 'player-choice': a landed spin waiting for the player to keep it or re-roll
+  const [pendingChoice, setPendingChoice] = useState<{ pack: Pack; seed: number } | null>(null);
 
   // Generate round 1 pairings once per session (players are in seat order from initializeSession)
   const round1Pairings = useMemo(
@@ -180,8 +201,8 @@ export default function Draft() {
     [sessionId]
   );
 
-  // Close the matchups modal if a new session starts
-  useEffect(() => { setShowMatchupsModal(false); }, [sessionId]);
+  // Close the matchups modal and drop any pending choice if a new session starts
+  useEffect(() => { setShowMatchupsModal(false); setPendingChoice(null); }, [sessionId]);
 
   const [buffer, setBuffer] = useState<Pack[]>([]);
   const [spinning, setSpinning] = useState(false);
@@ -202,6 +223,7 @@ export default function Draft() {
   const targetOffset = useRef(0);
   const selectedPackRef = useRef<Pack | null>(null);
   const finalRandomOffset = useRef(0);
+  const lastSpinSeed = useRef<number | null>(null);
   const spinnerWrapperRef = useRef<HTMLDivElement>(null);
 
   /** --- Sound Settings --- */
@@ -291,36 +313,25 @@ export default function Draft() {
     sessionId,
   ]);
 
+  const playerForPick = (pickIndex: number) =>
+    playerIndexForPick(pickIndex, players.length, pickOrder, pickOrderSeed);
+
   // Memoize the list of packs that are still available to be picked.
   const availablePacks = useMemo(() => {
     const selectedIds = new Set(packsSelectedOrder.map((p) => p.id));
+    // Packs the wheel rules allow for the next player (weight > 0, caps respected)
+    const eligibleIds = new Set(
+      remainingPool(
+        toChaosPool(sessionInventory),
+        packsSelectedOrder.map((p) => p.id),
+        (i) => playerIndexForPick(i, players.length, pickOrder, pickOrderSeed)
+      ).map((e) => e.id)
+    );
     // A pack is available if it hasn't been selected AND has in-person quantity.
     return tempInventory.filter(
-      (p) => !selectedIds.has(p.id) && p.inPerson > 0
+      (p) => !selectedIds.has(p.id) && p.inPerson > 0 && eligibleIds.has(p.id)
     );
-  }, [tempInventory, packsSelectedOrder]);
-
-  /** Weighted random selection */
-  const pickWeightedRandomPack = (packs: Pack[]): Pack | null => {
-    if (confirmed) return null;
-
-    // The 'packs' argument is already filtered to be only available, un-picked packs.
-    if (!packs.length) return null;
-    const totalWeight = availablePacks.reduce((sum, p) => sum + p.inPerson, 0);
-    if (totalWeight <= 0) {
-      // Fallback for non-weighted packs or if all quantities are 0
-      return availablePacks[Math.floor(Math.random() * availablePacks.length)];
-    }
-
-    let rand = Math.random() * totalWeight;
-    for (const pack of availablePacks) {
-      if (rand < pack.inPerson) return pack;
-      rand -= pack.inPerson;
-    }
-
-    // Fallback in case of floating point issues
-    return availablePacks[availablePacks.length - 1];
-  };
+  }, [tempInventory, packsSelectedOrder, sessionInventory, players.length, pickOrder, pickOrderSeed]);
 
   /** Animate spinner */
   const animate = (time: number) => {
@@ -379,7 +390,18 @@ export default function Draft() {
         if (selectedPackRef.current) {
           setSelectedForDisplay(selectedPackRef.current);
           setShowPopup(true);
-          selectPackForNextPlayer(selectedPackRef.current);
+          // Spectators receive the pick from the host through the session snapshot
+          const session = useSessionStore.getState();
+          if (!session.isSpectator && lastSpinSeed.current !== null) {
+            const canReroll =
+              session.pickOrder === "player-choice" &&
+              !session.rerolledPicks.includes(session.packsSelectedOrder.length);
+            if (canReroll) {
+              setPendingChoice({ pack: selectedPackRef.current, seed: lastSpinSeed.current });
+            } else {
+              selectPackForNextPlayer(selectedPackRef.current, lastSpinSeed.current);
+            }
+          }
           selectedPackRef.current = null;
         }
       }, 100);
@@ -388,17 +410,37 @@ export default function Draft() {
 
   /**
    * --- REFACTORED HANDLESPIN ---
-   * This function now orchestrates the spin by calling helper functions.
+   * The host draws a fresh seed, resolves the pick from it against the session's pool
+   * snapshot (see utils/chaosDraw), shares both, then animates locally.
    */
   const handleSpin = () => {
     // 1. Guard Clauses: Check if we can spin
-    if (spinning || confirmed) return;
-    const selectedPack = pickWeightedRandomPack(availablePacks);
+    if (spinning || confirmed || isSpectator || pendingChoice) return;
+    const seed = randomSeed();
+    const drawn = drawChaosPick(
+      toChaosPool(sessionInventory),
+      packsSelectedOrder.map((p) => p.id),
+      seed,
+      playerForPick
+    );
+    const selectedPack = drawn && availablePacks.find((p) => p.id === drawn.id);
     if (!selectedPack) {
       setNoPacksAlert(true);
       return;
     }
 
+    lastSpinSeed.current = seed;
+    startSpin({ seed, packId: selectedPack.id });
+    runSpin(selectedPack, seed);
+  };
+
+  /**
+   * Animates the wheel onto `selectedPack`. Everything visual is derived from `seed`,
+   * so the host and every spectator land on the same pack the same way.
+   */
+  const runSpin = (selectedPack: Pack, seed: number) => {
+    const rng = createSeededRandom(seed);
+
     // 2. Initial State Setup
     setShowPopup(false);
     setSelectedForDisplay(null);
@@ -424,7 +466,8 @@ export default function Draft() {
       createAnimationCycles(
         tempInventory.filter((p) => p.inPerson > 0), // Visually spin all packs with quantity
         SPINNER_REVOLUTIONS_BASE,
-        SPINNER_REVOLUTIONS_VARIANCE
+        SPINNER_REVOLUTIONS_VARIANCE,
+        rng
       );
 
     const newBuffer = [...trimmedBuffer, ...cycles];
@@ -437,17 +480,18 @@ export default function Draft() {
       numRevolutionPacks,
       selectedPack,
       fallbackPacks: shuffledPacks,
+      rng,
     });
 
     // 6. Set Final State & Start Animation
     setBuffer(newBuffer);
 
     spinDuration.current =
-      SPINNER_DURATION_BASE_MS + Math.random() * SPINNER_DURATION_VARIANCE_MS;
+      SPINNER_DURATION_BASE_MS + rng() * SPINNER_DURATION_VARIANCE_MS;
     startOffset.current = offsetRef.current; // Use the *adjusted* offset
 
     finalRandomOffset.current =
-      (Math.random() - 0.5) * SPINNER_TARGET_OFFSET_VARIANCE_PX;
+      (rng() - 0.5) * SPINNER_TARGET_OFFSET_VARIANCE_PX;
 
     // Target offset using the same position formula
     const targetPosition = selectedIndex * packWidth + selectedIndex * packGap;
@@ -458,6 +502,31 @@ export default function Draft() {
     requestRef.current = requestAnimationFrame(animate);
   };
 
+  // Spectators: replay the host's spin as soon as it is published for the next pick
+  useEffect(() => {
+    if (!isSpectator || !currentSpin || spinning || buffer.length === 0) return;
+    if (lastSpinSeed.current === currentSpin.seed) return;
+    if (currentSpin.pickIndex !== packsSelectedOrder.length) return; // already applied
+    const pack = tempInventory.find((p) => p.id === currentSpin.packId);
+    if (!pack) return;
+    lastSpinSeed.current = currentSpin.seed;
+    runSpin(pack, currentSpin.seed);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isSpectator, currentSpin, spinning, buffer.length, packsSelectedOrder.length, tempInventory]);
+
+  const handleKeepChoice = () => {
+    if (!pendingChoice) return;
+    selectPackForNextPlayer(pendingChoice.pack, pendingChoice.seed);
+    setPendingChoice(null);
+    setShowPopup(false);
+  };
+
+  const handleRerollChoice = () => {
+    rerollPick();
+    setPendingChoice(null);
+    setShowPopup(false);
+  };
+
   const handleConfirm = async () => {
     setIsConfirming(true);
     try {
@@ -474,14 +543,8 @@ export default function Draft() {
     }
   };
 
-  const handleStartRound1 = async () => {
-    const tournament: DraftTournament = {
-      seats: playersToSeats(players),
-      rounds: [{ roundNumber: 1, pairings: round1Pairings, status: 'active' }],
-      currentRound: 1,
-      totalRounds: 3,
-      status: 'active',
-    };
+  const handleStartRound1 = async (format: TournamentFormat, totalRounds: number) => {
+    const tournament = newTournament([players], round1Pairings, { format, totalRounds });
     setPendingTournament(tournament);
     await handleConfirm();
   };
@@ -490,24 +553,48 @@ export default function Draft() {
 
   let nextPlayerName = "";
   if (players.length > 0 && !isDraftComplete) {
-    const nextPlayerIndex = packsSelectedOrder.length % players.length;
+    const nextPlayerIndex = playerIndexForPick(
+      packsSelectedOrder.length,
+      players.length,
+      pickOrder,
+      pickOrderSeed
+    );
     nextPlayerName = players[nextPlayerIndex]?.name || "";
   }
 
-  const canSpin = !spinning && availablePacks.length > 0 && !confirmed;
-  const canUndo = packsSelectedOrder.length > 0 && !spinning && !confirmed;
+  const canSpin =
+    !spinning && availablePacks.length > 0 && !confirmed && !isSpectator && !pendingChoice;
+  const canUndo =
+    packsSelectedOrder.length > 0 && !spinning && !confirmed && !isSpectator && !pendingChoice;
+  const isReroll =
+    pickOrder === "player-choice" && rerolledPicks.includes(packsSelectedOrder.length);
 
   const spinButtonText = () => {
     if (spinning) return "Spinning...";
     if (isDraftComplete) return "Draft Complete";
+    if (isSpectator) return nextPlayerName ? `Waiting for host to spin for ${nextPlayerName}…` : "Waiting for host…";
     if (!canSpin && !isDraftComplete) return "No Packs Left";
+    if (pendingChoice) return `Waiting for ${nextPlayerName} to choose…`;
+    if (nextPlayerName && isReroll) return `Re-roll for ${nextPlayerName}`;
     if (nextPlayerName) return `Spin for ${nextPlayerName}`;
     return "Spin for Next Player";
   };
 
   return (
     <div className="max-w-6xl mx-auto space-y-8">
-      <h2 className="text-3xl font-bold text-white">🎡 Chaos Draft</h2>
+      <div className="flex items-center gap-3 flex-wrap">
+        <h2 className="text-3xl font-bold text-white">🎡 Chaos Draft</h2>
+        {isSpectator && (
+          <span className="text-xs font-semibold px-2.5 py-0.5 rounded-full bg-purple-900/60 text-purple-300 border border-purple-700/40">
+            ● Watching live
+          </span>
+        )}
+        {pickOrder !== "round-robin" && (
+          <span className="text-xs font-semibold px-2.5 py-0.5 rounded-full bg-gray-700 text-gray-300">
+            {PICK_ORDER_MODES.find((m) => m.mode === pickOrder)?.label}
+          </span>
+        )}
+      </div>
 
       {/* --- Spinner --- */}
       <div className="relative flex items-center justify-center h-72">
@@ -516,7 +603,8 @@ export default function Draft() {
             Loading Inventory...
           </div>
         ) : buffer.length === 0 ? (
-          <div className="text-center text-gray-400">
+          <div className="text-center text-gray-400 w-full">
+            <UnfinishedSessions />
             <h3 className="text-xl font-semibold">No Packs Found</h3>
             <p>Go to "Session Setup" to start a new draft.</p>
           </div>
@@ -637,9 +725,12 @@ export default function Draft() {
 
                       const playerWhoSelected = selectedPackInfo
                         ? players[
-                            packsSelectedOrder.findIndex(
-                              (p) => p.id === pack.id
-                            ) % players.length
+                            playerIndexForPick(
+                              packsSelectedOrder.findIndex((p) => p.id === pack.id),
+                              players.length,
+                              pickOrder,
+                              pickOrderSeed
+                            )
                           ]
                         : undefined;
 
@@ -720,7 +811,7 @@ export default function Draft() {
           <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center animate-in fade-in zoom-in duration-300">
             <div
               className="absolute inset-0"
-              onClick={() => setShowPopup(false)}
+              onClick={() => !pendingChoice && setShowPopup(false)}
             />
             <div className="relative bg-gray-800 rounded-2xl p-8 shadow-2xl border-4 border-yellow-400 max-w-md animate-in slide-in-from-bottom-4 duration-500">
               <div className="absolute -top-3 -right-3 bg-yellow-400 text-gray-900 font-bold text-lg px-4 py-1 rounded-full shadow-lg">
@@ -737,12 +828,34 @@ export default function Draft() {
                 <h3 className="text-2xl font-bold text-yellow-400 text-center">
                   {selectedForDisplay.name}
                 </h3>
-                <button
-                  onClick={() => setShowPopup(false)}
-                  className="mt-2 bg-yellow-500 hover:bg-yellow-600 text-gray-900 font-bold px-8 py-3 rounded-lg shadow-lg transition-all hover:scale-105"
-                >
-                  Continue
-                </button>
+                {pendingChoice ? (
+                  <div className="mt-2 flex gap-3">
+                    <button
+                      onClick={handleKeepChoice}
+                      className="bg-yellow-500 hover:bg-yellow-600 text-gray-900 font-bold px-8 py-3 rounded-lg shadow-lg transition-all hover:scale-105"
+                    >
+                      Keep
+                    </button>
+                    <button
+                      onClick={handleRerollChoice}
+                      className="bg-gray-700 hover:bg-gray-600 text-white font-bold px-6 py-3 rounded-lg shadow-lg transition-all"
+                    >
+                      Re-roll
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowPopup(false)}
+                    className="mt-2 bg-yellow-500 hover:bg-yellow-600 text-gray-900 font-bold px-8 py-3 rounded-lg shadow-lg transition-all hover:scale-105"
+                  >
+                    Continue
+                  </button>
+                )}
+                {pendingChoice && (
+                  <p className="text-xs text-gray-400">
+                    {nextPlayerName} may reject this pack once and spin again.
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -785,13 +898,18 @@ export default function Draft() {
       <div>
         <h3 className="mt-4 text-2xl font-semibold mb-3">Players & Picks</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {players.map((player) => (
+          {players.map((player) => {
+            const isMe = !!profile && player.userId === profile.uid;
+            return (
             <div
               key={player.id}
-              className="bg-gray-800 p-4 rounded-xl shadow-lg border border-gray-700"
+              className={`bg-gray-800 p-4 rounded-xl shadow-lg border ${
+                isMe ? "border-blue-500 ring-1 ring-blue-500/50" : "border-gray-700"
+              }`}
             >
               <h4 className="text-lg font-semibold mb-3 text-white">
                 {player.name}
+                {isMe && <span className="ml-2 text-xs font-semibold text-blue-400">(You)</span>}
               </h4>
               <div className="flex flex-wrap gap-3">
                 {player.selectedPacks.map((pack) => (
@@ -818,11 +936,25 @@ export default function Draft() {
                 )}
               </div>
             </div>
-          ))}
+            );
+          })}
         </div>
       </div>
 
       {/* --- Session Management Buttons --- */}
+      {isSpectator ? (
+        <div className="mt-8 flex justify-center">
+          {confirmed ? (
+            <div className="px-5 py-3 rounded-lg font-semibold bg-green-800 text-white shadow-lg">
+              🎉 Draft Complete!
+            </div>
+          ) : (
+            <p className="text-gray-400 text-sm">
+              {packsSelectedOrder.length} / {numPacks} picks · the host controls the wheel
+            </p>
+          )}
+        </div>
+      ) : (
       <div className="mt-8 flex justify-center gap-4 flex-wrap">
         <button
           onClick={resetSession}
@@ -863,6 +995,7 @@ export default function Draft() {
           </button>
         )}
       </div>
+      )}
       {/* Matchups modal — appears after all packs are spun */}
       {showMatchupsModal && (
         <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center">
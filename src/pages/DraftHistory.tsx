@@ -5,10 +5,19 @@ import { useInventoryStore } from "../state/inventoryStore";
 import { useUserStore } from "../state/userStore";
 import { useRegularDraftStore } from "../state/regularDraftStore";
 import { usePrivateInventoryStore } from "../state/privateInventoryStore";
-import type { Draft, DraftPackRef, DraftPlayer, MtgColor } from "../types";
-import { computeStandings } from '../utils/swissPairings';
+import { usePackOrderStore } from "../state/packOrderStore";
+import TournamentExport from '../components/TournamentExport';
+import type { Draft, DraftAllocationEntry, DraftPackRef, DraftPlayer, DraftSettlement, MtgColor, PrivateInventoryItem, PublicProfile } from "../types";
+import { tournamentWinnerId } from '../utils/playoffBracket';
+import { tournamentPlayers } from '../utils/swissPairings';
 import { formatArchetype } from '../utils/archetypes';
 import { draftTitle } from '../utils/draftTitle';
+import { verifyChaosPicks } from '../utils/chaosDraw';
+import { groupPicksByPlayer, playerIndexForPick } from '../utils/pickOrder';
+import { onOrderByPack, type OnOrder } from '../utils/packOrders';
+import { allocationSettlement, chaosSettlement, formatCents, netCents, settlementToCsv } from '../utils/settlement';
+import { downloadTextFile } from '../utils/privateInventoryTransfer';
+import { activeHolds, heldCounts, HOLD_DAYS, holdKey, overridingHolds } from '../utils/packHolds';
 
 const ALL_COLORS: MtgColor[] = ['W', 'U', 'B', 'R', 'G'];
 
@@ -203,11 +212,35 @@ function PlayersWithArchetype({ draft, currentUserId, isAdmin, setPlayerArchetyp
 interface RestockAlertProps {
   draft: Draft;
   inventoryMap: Map<string, number>;
+  onOrder: Map<string, OnOrder>;
   inventoryLoading: boolean;
   markRestockComplete: (id: string) => Promise<void>;
 }
 
-function RestockAlert({ draft, inventoryMap, inventoryLoading, markRestockComplete }: RestockAlertProps) {
+const onOrderLabel = (entry: OnOrder | undefined) =>
+  entry ? `${entry.count} on order${entry.expectedDate ? ` · due ${entry.expectedDate}` : ''}` : null;
+
+// Drafted packs that are now out of stock, with what's already on order to replace them
+function SoldOutPacks({ packs, onOrder }: { packs: DraftPackRef[]; onOrder: Map<string, OnOrder> }) {
+  if (packs.length === 0) return null;
+  return (
+    <div className="mt-4 text-left">
+      <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-1">Now out of stock</p>
+      <div className="space-y-0.5">
+        {packs.map(pack => (
+          <div key={pack.id} className="flex items-center gap-3 text-sm">
+            <span className="flex-1 min-w-0 truncate text-gray-300">{pack.name}</span>
+            <span className={`text-xs ${onOrder.has(pack.id) ? 'text-blue-300' : 'text-yellow-400'}`}>
+              {onOrderLabel(onOrder.get(pack.id)) ?? 'Not on order'}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RestockAlert({ draft, inventoryMap, onOrder, inventoryLoading, markRestockComplete }: RestockAlertProps) {
   const [selectedPack, setSelectedPack] = useState<DraftPackRef | null>(null);
 
   const packsToRestock = useMemo(() => {
@@ -228,6 +261,16 @@ function RestockAlert({ draft, inventoryMap, inventoryLoading, markRestockComple
     return packArray;
   }, [draft, inventoryMap, inventoryLoading]);
 
+  // Only packs still in the inventory — a deleted pack isn't something to reorder
+  const soldOut = useMemo(() => {
+    if (draft.restockComplete || inventoryLoading || !draft.packsSelectedOrder) return [];
+    const unique = new Map<string, DraftPackRef>();
+    for (const pack of draft.packsSelectedOrder) {
+      if (inventoryMap.get(pack.id) === 0) unique.set(pack.id, pack);
+    }
+    return Array.from(unique.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [draft, inventoryMap, inventoryLoading]);
+
   if (draft.type !== 'chaos') return null;
 
   if (draft.restockComplete) {
@@ -249,6 +292,7 @@ function RestockAlert({ draft, inventoryMap, inventoryLoading, markRestockComple
           <span className="font-semibold text-gray-400">
             No Restock Needed
           </span>
+          <SoldOutPacks packs={soldOut} onOrder={onOrder} />
         </div>
       </div>
     );
@@ -282,9 +326,15 @@ function RestockAlert({ draft, inventoryMap, inventoryLoading, markRestockComple
                 <span className="text-xs text-yellow-200/90 w-20 text-center truncate">
                   {pack.name}
                 </span>
+                {onOrder.has(pack.id) && (
+                  <span className="text-[10px] text-blue-300 w-20 text-center">
+                    +{onOrder.get(pack.id)!.count} on order
+                  </span>
+                )}
               </div>
             ))}
           </div>
+          <SoldOutPacks packs={soldOut} onOrder={onOrder} />
           <button
             onClick={() => markRestockComplete(draft.id)}
             className="w-full py-3 px-5 bg-green-600 hover:bg-green-700 text-white font-bold rounded-lg shadow-lg"
@@ -399,15 +449,238 @@ function LinkPlayersSection({ draft, publicProfiles, linkDraftPlayers }: LinkPla
   );
 }
 
+const VERIFY_STYLE = {
+  verified: 'text-green-400',
+  mismatch: 'text-red-400',
+  unverifiable: 'text-gray-500',
+} as const;
+
+function VerifyPicksSection({ draft }: { draft: Draft }) {
+  const [open, setOpen] = useState(false);
+  const results = useMemo(
+    () => verifyChaosPicks(
+      draft.drawPool,
+      draft.packsSelectedOrder ?? [],
+      draft.pickSeeds,
+      i => playerIndexForPick(i, draft.players.length, draft.pickOrder, draft.pickOrderSeed)
+    ),
+    [draft.drawPool, draft.packsSelectedOrder, draft.pickSeeds, draft.players.length, draft.pickOrder, draft.pickOrderSeed]
+  );
+  const mismatches = results.filter(r => r.status === 'mismatch').length;
+  const verified = results.filter(r => r.status === 'verified').length;
+  const numPlayers = draft.players.length;
+
+  const summary = !draft.drawPool || !draft.pickSeeds
+    ? 'Recorded before seeded draws — cannot be replayed'
+    : mismatches > 0
+      ? `${mismatches} pick${mismatches === 1 ? '' : 's'} did not match the recorded draw`
+      : `All ${verified} picks match their recorded draws`;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-700/50">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-300 font-semibold uppercase tracking-wide"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 transition-transform duration-200 ${open ? 'rotate-180' : ''}`}
+          fill="none" viewBox="0 0 24 24" stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+        Verify Picks
+      </button>
+      {open && (
+        <div className="mt-3 space-y-2">
+          <p className={`text-sm font-semibold ${
+            mismatches > 0 ? VERIFY_STYLE.mismatch : verified > 0 ? VERIFY_STYLE.verified : VERIFY_STYLE.unverifiable
+          }`}>
+            {summary}
+          </p>
+          {draft.drawPool && (
+            <p className="text-xs text-gray-500">
+              Pool: {draft.drawPool.filter(e => e.weight > 0).length} packs,
+              {' '}{draft.drawPool.reduce((sum, e) => sum + e.weight, 0)} total weight.
+              Each pick replays its seed against the packs not yet drawn.
+            </p>
+          )}
+          <div className="space-y-0.5">
+            {results.map(r => (
+              <div key={r.index} className="flex items-center gap-3 text-xs">
+                <span className="w-6 text-right text-gray-500">{r.index + 1}.</span>
+                <span className="w-24 truncate text-gray-400">
+                  {draft.players[playerIndexForPick(r.index, numPlayers, draft.pickOrder, draft.pickOrderSeed)]?.name}
+                </span>
+                <span className="flex-1 truncate text-gray-200">
+                  {r.pack.name}
+                  {draft.rerolledPicks?.includes(r.index) && (
+                    <span className="ml-1.5 text-gray-500">(after re-roll)</span>
+                  )}
+                </span>
+                <span className="font-mono text-gray-500">{r.seed ?? '—'}</span>
+                <span className={`w-28 text-right font-semibold ${VERIFY_STYLE[r.status]}`}>
+                  {r.status === 'verified' && '✓ verified'}
+                  {r.status === 'unverifiable' && 'no record'}
+                  {r.status === 'mismatch' && `✗ expected ${r.expected?.name ?? 'none'}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function HoldNotice({ draft }: { draft: Draft }) {
+  const [hold] = activeHolds([draft], Date.now());
+  return (
+    <p className="mt-3 text-xs text-amber-400">
+      {hold
+        ? `Allocated packs are on hold until ${new Date(hold.expiresAt).toLocaleDateString()}, or until this draft is finalized or deleted.`
+        : `The hold on allocated packs expired after ${HOLD_DAYS} days — contributors may have used them.`}
+    </p>
+  );
+}
+
+// Regular drafts price packs at the cost recorded on the allocation. Private packs
+// allocated before costs were recorded fall back to the contributor's current cost.
+const allocationUnitCost = (items: PrivateInventoryItem[]) => (entry: DraftAllocationEntry) =>
+  entry.unitCost ??
+  (entry.packId ? undefined : items.find(i => i.ownerId === entry.userId && i.catalogId === entry.catalogId)?.unitCost);
+
+interface SettlementSectionProps {
+  draft: Draft;
+  isAdmin: boolean;
+  publicProfiles: PublicProfile[];
+  saveSettlement: (draftId: string, settlement: DraftSettlement) => Promise<void>;
+}
+
+function SettlementSection({ draft, isAdmin, publicProfiles, saveSettlement }: SettlementSectionProps) {
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { allItems, loadAllInventory } = usePrivateInventoryStore();
+
+  const current = useMemo(() => {
+    if (draft.type === 'chaos') {
+      // Drafts saved before pack owners were recorded credit the host
+      return chaosSettlement(draft, (ownerId = draft.hostId ?? draft.createdBy) => ({
+        userId: ownerId,
+        name:
+          draft.players.find(p => p.userId === ownerId)?.name ??
+          publicProfiles.find(p => p.uid === ownerId)?.name ??
+          'Owner',
+      }));
+    }
+    return allocationSettlement(draft, allocationUnitCost(allItems));
+  }, [draft, allItems, publicProfiles]);
+
+  const toggle = () => {
+    if (!open && draft.type !== 'chaos' && allItems.length === 0) loadAllInventory();
+    setOpen(v => !v);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveSettlement(draft.id, current);
+    } catch (err) {
+      console.error('Failed to save settlement:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const shown = draft.settlement ?? current;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-700/50">
+      <button
+        onClick={toggle}
+        className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-300 font-semibold uppercase tracking-wide"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 transition-transform duration-200 ${open ? 'rotate-180' : ''}`}
+          fill="none" viewBox="0 0 24 24" stroke="currentColor"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+        Settle Up
+        {draft.settlement && <span className="normal-case font-normal text-gray-400">· {formatCents(draft.settlement.totalCents)}</span>}
+      </button>
+      {open && (
+        <div className="mt-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            {draft.settlement
+              ? `Saved ${new Date(draft.settlement.computedAt).toLocaleDateString()} — total ${formatCents(shown.totalCents)}.`
+              : `Not saved yet — preview from the pack costs recorded with the draft, total ${formatCents(shown.totalCents)}.`}
+            {' '}
+            {draft.type === 'chaos'
+              ? 'Each player pays for the packs they opened.'
+              : 'The cost of the supplied packs is split evenly across the table.'}
+          </p>
+          {shown.missingCosts.length > 0 && (
+            <p className="text-xs text-yellow-400">
+              No cost recorded (counted as free): {shown.missingCosts.join(', ')}
+            </p>
+          )}
+          <div className="space-y-0.5">
+            {shown.lines.map(line => {
+              const net = netCents(line);
+              return (
+                <div key={line.key ?? line.userId ?? line.name} className="flex items-center gap-3 text-sm">
+                  <span className="flex-1 min-w-0 truncate text-gray-200">{line.name}</span>
+                  <span className="w-20 text-right text-xs text-gray-500">opened {formatCents(line.owesCents)}</span>
+                  <span className="w-24 text-right text-xs text-gray-500">supplied {formatCents(line.owedCents)}</span>
+                  <span className={`w-24 text-right font-semibold ${net > 0 ? 'text-red-400' : net < 0 ? 'text-green-400' : 'text-gray-500'}`}>
+                    {net > 0 ? `owes ${formatCents(net)}` : net < 0 ? `gets ${formatCents(-net)}` : 'even'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          {shown.transfers.length > 0 && (
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-1">Payments</p>
+              {shown.transfers.map(t => (
+                <p key={`${t.fromKey ?? t.from}-${t.toKey ?? t.to}`} className="text-sm text-gray-300">
+                  {t.from} → {t.to}: <span className="font-semibold text-white">{formatCents(t.amountCents)}</span>
+                </p>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => downloadTextFile(settlementToCsv(shown), `settlement_${draft.id}.csv`, 'text/csv')}
+              className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-sm rounded-lg font-medium"
+            >
+              Export CSV
+            </button>
+            {isAdmin && (
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg font-medium"
+              >
+                {saving ? 'Saving…' : draft.settlement ? 'Recalculate' : 'Save Settlement'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function TournamentWidget({ draft }: { draft: Draft }) {
   const t = draft.tournament!;
   const isFinalized = t.status === 'finalized';
 
-  let winnerName: string | null = null;
-  if (isFinalized) {
-    const standings = computeStandings(draft.players, t.rounds);
-    winnerName = draft.players.find(p => p.id === standings[0]?.playerId)?.name ?? null;
-  }
+  const players = tournamentPlayers(draft);
+  const winnerId = tournamentWinnerId(players, t);
+  const winnerName = players.find(p => p.id === winnerId)?.name ?? null;
 
   return (
     <div className="mt-6 pt-6 border-t border-gray-700/50">
@@ -448,20 +721,25 @@ function TournamentWidget({ draft }: { draft: Draft }) {
           {isFinalized ? 'View Results →' : 'View Live →'}
         </span>
       </Link>
+      {isFinalized && (
+        <div className="mt-3">
+          <TournamentExport draft={draft} />
+        </div>
+      )}
     </div>
   );
 }
 
 export default function DraftHistory() {
-  const { drafts, loading, error, deleteDraft, markRestockComplete, loadDrafts, linkDraftPlayers, setPlayerArchetype } =
+  const { drafts, loading, error, deleteDraft, markRestockComplete, loadDrafts, linkDraftPlayers, setPlayerArchetype, saveSettlement } =
     useDraftHistoryStore();
 
-  const { packs: inventoryPacks, loading: inventoryLoading } =
+  const { packs: inventoryPacks, loading: inventoryLoading, deductAllocation } =
     useInventoryStore();
 
   const { profile, publicProfiles, loadPublicProfiles } = useUserStore();
   const { finalizeDraft } = useRegularDraftStore();
-  const { batchDeduct } = usePrivateInventoryStore();
+  const { batchDeduct, allItems: privateItems, loadAllInventory } = usePrivateInventoryStore();
 
   const [expandedDraftId, setExpandedDraftId] = useState<string | null>(null);
   const [expandedAllocationIds, setExpandedAllocationIds] = useState<Set<string>>(new Set());
@@ -472,10 +750,14 @@ export default function DraftHistory() {
     if (inventoryLoading) return new Map<string, number>();
     return new Map(inventoryPacks.map((p) => [p.id, p.inPerson]));
   }, [inventoryPacks, inventoryLoading]);
+  const orders = usePackOrderStore(s => s.orders);
+  const onOrder = useMemo(() => onOrderByPack(orders), [orders]);
 
+  // Unfinished chaos sessions are resumed from the Draft hub, not listed as history
+  const completed = drafts.filter(d => d.status !== 'in-progress');
   const filtered = typeFilter === 'all'
-    ? drafts
-    : drafts.filter(d => d.type === typeFilter);
+    ? completed
+    : completed.filter(d => d.type === typeFilter);
 
   const toggleExpand = (draftId: string) => {
     setExpandedDraftId((prevId) => (prevId === draftId ? null : draftId));
@@ -493,12 +775,32 @@ export default function DraftHistory() {
     deleteDraft(draft.id);
   };
 
+  // Packs other preview drafts hold, which finalizing this one shouldn't dip into
+  const heldByOthers = (draft: Draft) => heldCounts(activeHolds(drafts, Date.now(), draft.id));
+
+  // How many of a preview draft's private packs are still free of other drafts' holds,
+  // when that is fewer than it was allocated
+  const shortfall = (draft: Draft, entry: DraftAllocationEntry): number | null => {
+    if (draft.status !== 'preview' || entry.packId || privateItems.length === 0) return null;
+    const item = privateItems.find(i => i.ownerId === entry.userId && i.catalogId === entry.catalogId);
+    const free = Math.max(0, (item?.count ?? 0) - (heldByOthers(draft).get(holdKey(entry.userId, entry.catalogId)) ?? 0));
+    return free < entry.count ? free : null;
+  };
+
   const handleFinalize = async (draft: Draft) => {
-    if (!draft.allocation) return;
+    const { allocation } = draft;
+    if (!allocation) return;
     setFinalizing(draft.id);
     try {
-      await batchDeduct(draft.allocation);
-      await finalizeDraft(draft.id, draft.allocation);
+      const deducted = await overridingHolds(
+        heldByOthers(draft),
+        held => batchDeduct(allocation, draft.id, held).then(() => true),
+        message => window.confirm(message)
+      );
+      if (!deducted) return;
+      await deductAllocation(allocation, draft.id);
+      const settlement = allocationSettlement(draft, allocationUnitCost(usePrivateInventoryStore.getState().allItems));
+      await finalizeDraft(draft.id, allocation, settlement.totalCents > 0 ? settlement : undefined);
       await loadDrafts();
     } finally {
       setFinalizing(null);
@@ -630,10 +932,15 @@ export default function DraftHistory() {
                     )}
 
                     {draft.type === 'chaos' && draft.packsSelectedOrder && (() => {
-                      const numPlayers = draft.players.length;
+                      const groups = groupPicksByPlayer(
+                        draft.packsSelectedOrder,
+                        draft.players.length,
+                        draft.pickOrder,
+                        draft.pickOrderSeed
+                      );
                       const byPlayer = draft.players.map((player, pi) => ({
                         player,
-                        packs: draft.packsSelectedOrder!.filter((_, i) => i % numPlayers === pi),
+                        packs: groups[pi],
                       }));
                       return (
                         <div className="mt-6 mb-4">
@@ -667,6 +974,10 @@ export default function DraftHistory() {
                       );
                     })()}
 
+                    {draft.type === 'chaos' && draft.packsSelectedOrder && (
+                      <VerifyPicksSection draft={draft} />
+                    )}
+
                     {draft.cubeId ? (
                       <div className="space-y-2 mt-6 mb-4">
                         <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500 mb-2">Cube</p>
@@ -700,23 +1011,34 @@ export default function DraftHistory() {
                         {draft.allocation && draft.allocation.length > 0 && (
                           <div className="mt-3">
                             <button
-                              onClick={() => setExpandedAllocationIds(prev => {
-                                const next = new Set(prev);
-                                next.has(draft.id) ? next.delete(draft.id) : next.add(draft.id);
-                                return next;
-                              })}
+                              onClick={() => {
+                                if (draft.status === 'preview' && privateItems.length === 0) loadAllInventory();
+                                setExpandedAllocationIds(prev => {
+                                  const next = new Set(prev);
+                                  next.has(draft.id) ? next.delete(draft.id) : next.add(draft.id);
+                                  return next;
+                                });
+                              }}
                               className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
                             >
                               {expandedAllocationIds.has(draft.id) ? '▾ Hide allocation' : '▸ Show allocation'}
                             </button>
                             {expandedAllocationIds.has(draft.id) && (
                               <div className="mt-2 space-y-0.5">
-                                {draft.allocation.map((a, i) => (
-                                  <div key={i} className="flex justify-between text-xs text-gray-300">
-                                    <span>{a.userName} — {a.name}</span>
-                                    <span className="font-semibold">{a.count}</span>
-                                  </div>
-                                ))}
+                                {draft.allocation.map((a, i) => {
+                                  const free = shortfall(draft, a);
+                                  return (
+                                    <div key={i} className="flex justify-between text-xs text-gray-300">
+                                      <span>
+                                        {a.userName} — {a.name}
+                                        {free !== null && (
+                                          <span className="ml-2 text-amber-400">only {free} left after other drafts' holds</span>
+                                        )}
+                                      </span>
+                                      <span className="font-semibold">{a.count}</span>
+                                    </div>
+                                  );
+                                })}
                               </div>
                             )}
                           </div>
@@ -728,11 +1050,16 @@ export default function DraftHistory() {
                       <RestockAlert
                         draft={draft}
                         inventoryMap={inventoryMap}
+                        onOrder={onOrder}
                         inventoryLoading={inventoryLoading}
                         markRestockComplete={markRestockComplete}
                       />
                     )}
 
+                    {draft.status === 'preview' && draft.allocation?.some(e => !e.packId) && (
+                      <HoldNotice draft={draft} />
+                    )}
+
                     {profile?.role === 'admin' && draft.status === 'preview' && draft.type !== 'chaos' && (
                       <button
                         onClick={() => handleFinalize(draft)}
@@ -743,6 +1070,15 @@ export default function DraftHistory() {
                       </button>
                     )}
 
+                    {draft.status === 'finalized' && (draft.packsSelectedOrder?.length || draft.allocation?.length) ? (
+                      <SettlementSection
+                        draft={draft}
+                        isAdmin={profile?.role === 'admin'}
+                        publicProfiles={publicProfiles}
+                        saveSettlement={saveSettlement}
+                      />
+                    ) : null}
+
                     {profile?.role === 'admin' && (
                       <LinkPlayersSection
                         draft={draft}
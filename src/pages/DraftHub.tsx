@@ -1,20 +1,30 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import RegularDraftSetup from './RegularDraftSetup';
+import RegularDraftSetup, { type SetupPrefill } from './RegularDraftSetup';
 import RegularDraftPreview from './RegularDraftPreview';
 import SeatAssignment from '../components/SeatAssignment';
 import RoundMatchups from '../components/RoundMatchups';
+import UnfinishedSessions from '../components/UnfinishedSessions';
+import UpcomingEvents from '../components/UpcomingEvents';
 import { useRegularDraftStore } from '../state/regularDraftStore';
 import { useDraftHistoryStore } from '../state/draftHistoryStore';
-import { useSessionStore } from '../state/sessionStore';
-import { generateRound1Pairings, playersToSeats } from '../utils/tournamentPairings';
+import { otherHostName, useSessionStore } from '../state/sessionStore';
+import { useEventStore } from '../state/eventStore';
+import { useNotificationStore } from '../state/notificationStore';
+import { usePackCatalogStore } from '../state/packCatalogStore';
+import { eventPlayers } from '../utils/eventRsvp';
+import { draftTitle } from '../utils/draftTitle';
+import { roundPairingEmails } from '../utils/notifications';
+import { firstRoundPairings, newTournament } from '../utils/tournamentFormats';
 import type {
   PackCatalogEntry,
   DraftFormat,
   DraftPlayer,
   DraftAllocationEntry,
   TournamentPairing,
-  DraftTournament,
+  TournamentFormat,
+  PickOrderMode,
+  DraftEvent,
 } from '../types';
 
 type Step = 'setup' | 'preview' | 'seating' | 'matchups';
@@ -34,56 +44,118 @@ export default function DraftHub() {
   const [step, setStep] = useState<Step>('setup');
   const [config, setConfig] = useState<RegularConfig | null>(null);
   const [chaosPlayers, setChaosPlayers] = useState<DraftPlayer[] | null>(null);
+  const [chaosPickOrder, setChaosPickOrder] = useState<PickOrderMode>('round-robin');
   const [pendingAllocation, setPendingAllocation] = useState<DraftAllocationEntry[] | null>(null);
   const [orderedPlayers, setOrderedPlayers] = useState<DraftPlayer[] | null>(null);
+  const [pods, setPods] = useState<DraftPlayer[][]>([]);
+  const [podStandings, setPodStandings] = useState<'shared' | 'per-pod'>('shared');
   const [round1Pairings, setRound1Pairings] = useState<TournamentPairing[] | null>(null);
   const [starting, setStarting] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [prefill, setPrefill] = useState<{ eventId: string; setup: SetupPrefill } | null>(null);
 
   const navigate = useNavigate();
   const { savePreview, previewAllocations } = useRegularDraftStore();
-  const { updateTournament, loadDrafts } = useDraftHistoryStore();
-  const { initializeSession } = useSessionStore();
+  const { drafts, updateTournament, loadDrafts } = useDraftHistoryStore();
+  const { initializeSession, resumeSession } = useSessionStore();
+  const setEventStatus = useEventStore(s => s.setStatus);
+  const notify = useNotificationStore(s => s.notify);
+  const catalog = usePackCatalogStore(s => s.entries);
 
-  const handleStartChaos = (players: DraftPlayer[]) => {
+  const handleStartEvent = (event: DraftEvent) => {
+    setPrefill({
+      eventId: event.id,
+      setup: {
+        players: eventPlayers(event),
+        format: event.format,
+        sets: event.sets.flatMap(s => catalog.find(e => e.id === s.id) ?? []),
+        cubeId: event.cubeId,
+        cubeName: event.cubeName,
+        cubeImageUrl: event.cubeImageUrl,
+        cubeExternalUrl: event.cubeExternalUrl,
+      },
+    });
+  };
+
+  // An event only counts as started once its draft exists, so backing out of setup
+  // leaves it open for RSVPs
+  const markEventStarted = async () => {
+    if (!prefill) return;
+    try {
+      await setEventStatus(prefill.eventId, 'started');
+    } catch (err) {
+      console.error('Failed to start event:', err);
+    }
+  };
+
+  const handleStartChaos = (players: DraftPlayer[], pickOrder: PickOrderMode) => {
+    const unfinished = drafts.find(d => d.type === 'chaos' && d.status === 'in-progress');
+    if (unfinished) {
+      const picks = unfinished.packsSelectedOrder?.length ?? 0;
+      const host = otherHostName(unfinished);
+      const resume = window.confirm(
+        `There is an unfinished chaos draft (${picks} / ${unfinished.numPacks ?? picks} picks) with ` +
+        `${unfinished.players.map(p => p.name).join(', ')}.\n` +
+        (host
+          ? `${host} is hosting it. Take over as host instead of starting a new one? Only do this if ` +
+            'their device has stopped — picks made on both would overwrite each other.'
+          : 'Resume it instead of starting a new one?')
+      );
+      if (resume) {
+        resumeSession(unfinished, true);
+        navigate('/draft');
+        return;
+      }
+    }
     setChaosPlayers(players);
+    setChaosPickOrder(pickOrder);
     setStep('seating');
   };
 
-  const handlePreviewConfirmed = (allocation: DraftAllocationEntry[]) => {
+  const handlePreviewConfirmed = (
+    allocation: DraftAllocationEntry[],
+    adjusted: { sets: PackCatalogEntry[]; packsPerPerson: number }
+  ) => {
+    setConfig(prev => (prev ? { ...prev, ...adjusted } : prev));
     setPendingAllocation(allocation);
     setStep('seating');
   };
 
-  const handleSeatingConfirmed = (ordered: DraftPlayer[]) => {
+  const handleSeatingConfirmed = (
+    ordered: DraftPlayer[],
+    seatedPods: DraftPlayer[][],
+    standings: 'shared' | 'per-pod'
+  ) => {
     setOrderedPlayers(ordered);
     if (chaosPlayers) {
       const names = ordered.map((p, i) => p.name || `Player ${i + 1}`);
       const userIds = ordered.map(p => p.userId);
-      initializeSession(ordered.length, names, userIds);
+      initializeSession(ordered.length, names, userIds, undefined, chaosPickOrder);
+      markEventStarted();
       navigate('/draft');
     } else {
-      setRound1Pairings(generateRound1Pairings(ordered));
+      setPods(seatedPods);
+      setPodStandings(standings);
+      setRound1Pairings(firstRoundPairings(seatedPods));
       setStep('matchups');
     }
   };
 
-  const handleStartRound1 = async () => {
+  const handleStartRound1 = async (format: TournamentFormat, totalRounds: number) => {
     if (!orderedPlayers || !round1Pairings || !config) return;
     if (!config.cubeId && !pendingAllocation) return;
     setStarting(true);
     setSaveError(null);
     try {
-      const tournament: DraftTournament = {
-        seats: playersToSeats(orderedPlayers),
-        rounds: [{ roundNumber: 1, pairings: round1Pairings, status: 'active' }],
-        currentRound: 1,
-        totalRounds: 3,
-        status: 'active',
-      };
+      const tournament = newTournament(pods, round1Pairings, { format, totalRounds, podStandings });
       const draftId = await savePreview(config, previewAllocations, pendingAllocation ?? []);
       await updateTournament(draftId, tournament);
+      await markEventStarted();
       await loadDrafts();
+      const saved = useDraftHistoryStore.getState().drafts.find(d => d.id === draftId);
+      if (saved) {
+        notify('rounds', roundPairingEmails(draftTitle(saved), orderedPlayers, tournament.rounds[0]));
+      }
       navigate('/tournament');
     } catch (err) {
       console.error('Failed to start round 1:', err);
@@ -97,10 +169,16 @@ export default function DraftHub() {
 
   if (step === 'setup') {
     return (
-      <RegularDraftSetup
-        onNext={(cfg) => { setConfig(cfg); setStep(cfg.cubeId ? 'seating' : 'preview'); }}
-        onStartChaos={handleStartChaos}
-      />
+      <>
+        <UnfinishedSessions />
+        <UpcomingEvents onStart={handleStartEvent} />
+        <RegularDraftSetup
+          key={prefill?.eventId}
+          initial={prefill?.setup}
+          onNext={(cfg) => { setConfig(cfg); setStep(cfg.cubeId ? 'seating' : 'preview'); }}
+          onStartChaos={handleStartChaos}
+        />
+      </>
     );
   }
 
@@ -118,6 +196,7 @@ export default function DraftHub() {
     return (
       <SeatAssignment
         players={activePlayers}
+        allowPods={!chaosPlayers}
         onConfirm={handleSeatingConfirmed}
         onBack={() => chaosPlayers ? setStep('setup') : (config?.cubeId ? setStep('setup') : setStep('preview'))}
       />
@@ -133,6 +212,7 @@ export default function DraftHub() {
         <RoundMatchups
           players={orderedPlayers}
           pairings={round1Pairings}
+          pods={pods}
           onStart={handleStartRound1}
           disabled={starting}
         />
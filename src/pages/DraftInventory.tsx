@@ -1,19 +1,24 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { usePrivateInventoryStore } from '../state/privateInventoryStore';
 import { useUserStore } from '../state/userStore';
+import { useDraftHistoryStore } from '../state/draftHistoryStore';
+import { activeHolds, heldCounts, holdKey } from '../utils/packHolds';
 
 interface AggregatedPack {
   catalogId: string;
   name: string;
   imageUrl: string;
   total: number;
-  contributors: { userId: string; userName: string; count: number }[];
+  reserved: number; // on hold for preview drafts
+  contributors: { userId: string; userName: string; count: number; reserved: number }[];
 }
 
 export default function DraftInventory() {
   const { allItems, isLoading, loadAllInventory } = usePrivateInventoryStore();
   const { publicProfiles } = useUserStore();
   const [showBreakdowns, setShowBreakdowns] = useState(true);
+  const drafts = useDraftHistoryStore(s => s.drafts);
+  const held = useMemo(() => heldCounts(activeHolds(drafts, Date.now())), [drafts]);
 
   useEffect(() => {
     loadAllInventory();
@@ -27,16 +32,19 @@ export default function DraftInventory() {
     if (item.count <= 0) continue;
     const existing = aggregated.get(item.catalogId);
     const userName = userNameMap.get(item.ownerId) ?? 'Unknown';
+    const reserved = Math.min(held.get(holdKey(item.ownerId, item.catalogId)) ?? 0, item.count);
     if (existing) {
       existing.total += item.count;
-      existing.contributors.push({ userId: item.ownerId, userName, count: item.count });
+      existing.reserved += reserved;
+      existing.contributors.push({ userId: item.ownerId, userName, count: item.count, reserved });
     } else {
       aggregated.set(item.catalogId, {
         catalogId: item.catalogId,
         name: item.name,
         imageUrl: item.imageUrl,
         total: item.count,
-        contributors: [{ userId: item.ownerId, userName, count: item.count }],
+        reserved,
+        contributors: [{ userId: item.ownerId, userName, count: item.count, reserved }],
       });
     }
   }
@@ -83,12 +91,18 @@ export default function DraftInventory() {
             <div className="p-3 space-y-1">
               <p className="text-white text-xs font-medium text-center truncate">{pack.name}</p>
               <p className="text-blue-400 text-sm font-bold text-center">{pack.total}</p>
+              {pack.reserved > 0 && (
+                <p className="text-amber-400 text-[11px] text-center">{pack.reserved} reserved</p>
+              )}
               {showBreakdowns && (
                 <div className="mt-2 space-y-1 border-t border-gray-700 pt-2">
                   {pack.contributors.sort((a, b) => b.count - a.count).map(c => (
                     <div key={c.userId} className="flex justify-between text-xs text-gray-300">
                       <span>{c.userName}</span>
-                      <span className="font-semibold">{c.count}</span>
+                      <span className="font-semibold">
+                        {c.count}
+                        {c.reserved > 0 && <span className="text-amber-400 font-normal"> ({c.reserved} res.)</span>}
+                      </span>
                     </div>
                   ))}
                 </div>
@@ -1,10 +1,14 @@
 import { useState, useMemo } from "react";
 // Assuming state is in src/state
-import { useInventoryStore } from "../state/inventoryStore";
+import { useInventoryStore, type Pack } from "../state/inventoryStore";
 import { useUserStore } from "../state/userStore";
 import { auth } from "../firebase";
 import { exportInventoryToCSV } from "../utils/exportInventory";
 import PackCatalogSearch from "../components/PackCatalogSearch";
+import ChaosInventoryImport from "../components/ChaosInventoryImport";
+import InventoryHistory from "../components/InventoryHistory";
+import PackOrders from "../components/PackOrders";
+import RestockPlanner from "../components/RestockPlanner";
 import type { PackCatalogEntry } from "../types";
 import PrivateInventory from "./PrivateInventory";
 import DraftInventory from "./DraftInventory";
@@ -55,6 +59,9 @@ export default function Inventory() {
   );
 }
 
+// Wheel weight presets: below 1 dampens a pack, above 1 boosts it
+const WEIGHT_MULTIPLIERS = [0.1, 0.25, 0.5, 1, 2, 3];
+
 function ChaosInventory() {
   const { packs, loading, addPack, updatePack, deletePack, clearAll } =
     useInventoryStore();
@@ -67,6 +74,7 @@ function ChaosInventory() {
 
   const [isAdding, setIsAdding] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
+  const [historyPack, setHistoryPack] = useState<Pack | null>(null);
 
   const sortedPacks = useMemo(() => {
     return [...packs].sort((a, b) => {
@@ -223,6 +231,9 @@ function ChaosInventory() {
         </button>
       </form>
 
+      <RestockPlanner />
+      <PackOrders />
+
       {/* Pack Grid */}
       {loading && (
         <div className="text-center text-gray-400">Loading packs...</div>
@@ -312,6 +323,82 @@ function ChaosInventory() {
                 </div>
               </div>
             </div>
+            <div className="mt-3 w-full space-y-1.5 text-left">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-400">Wheel weight</span>
+                <select
+                  value={pack.weightMultiplier ?? 1}
+                  onChange={(e) =>
+                    updatePack({ ...pack, weightMultiplier: Number(e.target.value) })
+                  }
+                  className="bg-gray-700 border border-gray-600 rounded text-white text-xs px-1 py-0.5"
+                >
+                  {[...new Set([...WEIGHT_MULTIPLIERS, pack.weightMultiplier ?? 1])]
+                    .sort((a, b) => a - b)
+                    .map((m) => (
+                      <option key={m} value={m}>×{m}</option>
+                    ))}
+                </select>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-400">Target stock</span>
+                <input
+                  key={pack.targetStock ?? 0}
+                  type="number"
+                  min={0}
+                  defaultValue={pack.targetStock || ""}
+                  placeholder="—"
+                  onBlur={(e) => {
+                    const targetStock = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                    if (targetStock !== (pack.targetStock ?? 0)) updatePack({ ...pack, targetStock });
+                  }}
+                  className="w-14 bg-gray-700 border border-gray-600 rounded text-white text-xs px-1 py-0.5 text-center"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-gray-400">Cost per pack ($)</span>
+                <input
+                  key={pack.unitCost ?? ""}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  defaultValue={pack.unitCost ?? ""}
+                  placeholder="—"
+                  onBlur={(e) => {
+                    if (e.target.value === "") return;
+                    const unitCost = Math.max(0, Number(e.target.value) || 0);
+                    if (unitCost !== pack.unitCost) updatePack({ ...pack, unitCost });
+                  }}
+                  className="w-14 bg-gray-700 border border-gray-600 rounded text-white text-xs px-1 py-0.5 text-center"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={!!pack.excludeFromWheel}
+                  onChange={(e) =>
+                    updatePack({ ...pack, excludeFromWheel: e.target.checked })
+                  }
+                />
+                Exclude from wheel
+              </label>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={!!pack.onePerPlayer}
+                  onChange={(e) =>
+                    updatePack({ ...pack, onePerPlayer: e.target.checked })
+                  }
+                />
+                Capped (one per player)
+              </label>
+            </div>
+            <button
+              className="w-full bg-gray-700 hover:bg-gray-600 text-white text-sm mt-2 py-1 rounded-md"
+              onClick={() => setHistoryPack(pack)}
+            >
+              History
+            </button>
             <button
               className="w-full bg-red-600 hover:bg-red-700 text-white text-sm mt-2 py-1 rounded-md"
               onClick={() => deletePack(pack.id)}
@@ -325,12 +412,19 @@ function ChaosInventory() {
       {/* --- Data Management Section --- */}
       <div className="p-6 bg-gray-800 rounded-2xl shadow-lg border border-gray-700 space-y-4">
         <h3 className="text-xl font-semibold text-white">Data Management</h3>
-        <button
-          onClick={exportInventoryToCSV}
-          className="py-3 px-6 bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-lg transition-all shadow-lg hover:shadow-purple-500/30 text-base"
-        >
-          Export to CSV
-        </button>
+        <div className="flex gap-3 flex-wrap">
+          <button
+            onClick={exportInventoryToCSV}
+            className="py-3 px-6 bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-lg transition-all shadow-lg hover:shadow-purple-500/30 text-base"
+          >
+            Export to CSV
+          </button>
+          <ChaosInventoryImport />
+        </div>
+        <p className="text-xs text-gray-500">
+          Imports use the export format. Names are matched to the pack catalog; packs you
+          already have are set to the file's counts.
+        </p>
       </div>
       {/* --- End Data Management Section --- */}
 
@@ -347,6 +441,18 @@ function ChaosInventory() {
       )}
       {/* --- End Clear All Section --- */}
 
+      {historyPack && (
+        <InventoryHistory
+          itemId={historyPack.id}
+          name={historyPack.name}
+          fields={[
+            { field: "inPerson", label: "Available", current: historyPack.inPerson },
+            { field: "inTransit", label: "In Transit", current: historyPack.inTransit },
+          ]}
+          onClose={() => setHistoryPack(null)}
+        />
+      )}
+
       {/* Clear Confirmation Modal */}
       {showClearConfirm && (
         <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center">
@@ -1,15 +1,55 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { usePrivateInventoryStore } from '../state/privateInventoryStore';
+import { useDraftHistoryStore } from '../state/draftHistoryStore';
+import { PartialCommitError } from '../state/batchedWrites';
 import { useUserStore } from '../state/userStore';
+import { usePackCatalogStore } from '../state/packCatalogStore';
 import PackCatalogSearch from '../components/PackCatalogSearch';
-import type { PackCatalogEntry } from '../types';
+import InventoryHistory from '../components/InventoryHistory';
+import NotificationSettings from '../components/NotificationSettings';
+import type { PackCatalogEntry, PrivateInventoryItem } from '../types';
+import { activeHolds, heldCounts, holdKey, overridingHolds } from '../utils/packHolds';
+import {
+  downloadTextFile,
+  parsePrivateInventoryFile,
+  privateInventoryToCsv,
+  privateInventoryToJson,
+  resolvePrivateInventoryRows,
+  type PrivateImportRow,
+} from '../utils/privateInventoryTransfer';
+
+interface ImportReport {
+  fileName: string;
+  added: number;
+  updated: number;
+  unchanged: number;
+  unresolved: PrivateImportRow[];
+  errors: string[];
+}
 
 export default function PrivateInventory() {
-  const { myItems, isLoading, addOrUpdateItem, updateCount, deleteItem } = usePrivateInventoryStore();
+  const {
+    myItems, isLoading, addOrUpdateItem, updateCount, deleteItem, importItems, updateUnitCost, updateKeep,
+    allocationPrefs, setMaxPacksPerDraft,
+  } = usePrivateInventoryStore();
   const { profile } = useUserStore();
+  const maxPacksPerDraft = profile ? allocationPrefs[profile.uid]?.maxPacksPerDraft : undefined;
+  const drafts = useDraftHistoryStore(s => s.drafts);
+  const held = useMemo(() => heldCounts(activeHolds(drafts, Date.now())), [drafts]);
+  const reservedFor = (item: PrivateInventoryItem) => held.get(holdKey(item.ownerId, item.catalogId)) ?? 0;
+
+  // Holds are soft: going below what upcoming drafts have reserved needs a confirmation
+  const respectingHolds = <T,>(write: (held?: Map<string, number>) => Promise<T>) =>
+    overridingHolds(held, write, message => window.confirm(message));
+  const catalog = usePackCatalogStore(s => s.entries);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   const [selectedEntry, setSelectedEntry] = useState<PackCatalogEntry | null>(null);
   const [addCount, setAddCount] = useState('');
   const [isAdding, setIsAdding] = useState(false);
+  const [historyItem, setHistoryItem] = useState<PrivateInventoryItem | null>(null);
 
   const handleSelect = (entry: PackCatalogEntry) => {
     setSelectedEntry(entry);
@@ -26,6 +66,29 @@ export default function PrivateInventory() {
     setIsAdding(false);
   };
 
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    setImportError(null);
+    setImportReport(null);
+    try {
+      const { rows, errors } = parsePrivateInventoryFile(await file.text());
+      const { resolved, unresolved } = resolvePrivateInventoryRows(rows, catalog);
+      const result = await respectingHolds(held => importItems(resolved, held));
+      if (result) setImportReport({ fileName: file.name, ...result, unresolved, errors });
+    } catch (err) {
+      console.error('Failed to import private inventory:', err);
+      setImportError(err instanceof PartialCommitError
+        // Counts are set rather than added, so the saved items import as unchanged next time
+        ? `Import stopped partway — ${err.committed} of ${err.total} items were saved. Import the file again to apply the rest.`
+        : 'Import failed — nothing was changed. Please try again.');
+    } finally {
+      setImporting(false);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  const exportBaseName = `private_inventory_${(profile?.name ?? 'me').replace(/\W+/g, '_').toLowerCase()}`;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -60,6 +123,90 @@ export default function PrivateInventory() {
         )}
       </div>
 
+      {/* Backup & import */}
+      <div className="bg-gray-800 rounded-xl p-5 border border-gray-700 space-y-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">Backup &amp; Import</h3>
+        <div className="flex gap-2 flex-wrap">
+          <button
+            onClick={() => downloadTextFile(privateInventoryToCsv(myItems), `${exportBaseName}.csv`, 'text/csv')}
+            disabled={myItems.length === 0}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-sm rounded-lg font-medium"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => downloadTextFile(privateInventoryToJson(myItems), `${exportBaseName}.json`, 'application/json')}
+            disabled={myItems.length === 0}
+            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white text-sm rounded-lg font-medium"
+          >
+            Export JSON
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={e => e.target.files?.[0] && handleImport(e.target.files[0])}
+          />
+          <button
+            onClick={() => fileRef.current?.click()}
+            disabled={importing}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white text-sm rounded-lg font-medium"
+          >
+            {importing ? 'Importing…' : 'Import CSV / JSON'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Importing sets each pack to the count in the file (Catalog ID, Pack Name, Count), so the same file can be imported again safely.
+        </p>
+        {importError && <p className="text-red-400 text-sm">{importError}</p>}
+        {importReport && (
+          <div className="bg-gray-900/50 rounded-lg p-3 space-y-1 text-sm">
+            <p className="text-gray-200">
+              <span className="text-gray-400">{importReport.fileName}:</span>{' '}
+              {importReport.added} added · {importReport.updated} updated · {importReport.unchanged} unchanged
+            </p>
+            {importReport.unresolved.length > 0 && (
+              <div className="text-xs text-yellow-400">
+                <p className="font-semibold">Couldn't match to the pack catalog:</p>
+                {importReport.unresolved.map(row => (
+                  <p key={row.line}>Row {row.line}: {row.name || row.catalogId} ({row.count})</p>
+                ))}
+              </div>
+            )}
+            {importReport.errors.map(err => (
+              <p key={err} className="text-xs text-red-400">{err}</p>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Draft contribution limits */}
+      <div className="bg-gray-800 rounded-xl p-5 border border-gray-700 space-y-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">Draft Contributions</h3>
+        <label className="flex items-center gap-3 text-sm text-gray-300">
+          Give at most
+          <input
+            key={maxPacksPerDraft ?? ''}
+            type="number"
+            min={0}
+            defaultValue={maxPacksPerDraft ?? ''}
+            placeholder="—"
+            onBlur={e => {
+              const max = e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value) || 0));
+              if ((max ?? undefined) !== maxPacksPerDraft) setMaxPacksPerDraft(max);
+            }}
+            className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm text-center"
+          />
+          packs per draft
+        </label>
+        <p className="text-xs text-gray-500">
+          Leave blank for no limit. Set "Keep" on a pack to hold some back from every draft.
+        </p>
+      </div>
+
+      <NotificationSettings />
+
       {/* Inventory grid */}
       {isLoading && <div className="text-gray-400">Loading…</div>}
       {!isLoading && myItems.length === 0 && (
@@ -76,9 +223,12 @@ export default function PrivateInventory() {
             />
             <div className="p-3 flex flex-col gap-2">
               <p className="text-white text-xs font-medium text-center truncate">{item.name}</p>
+              {reservedFor(item) > 0 && (
+                <p className="text-amber-400 text-[11px] text-center">{reservedFor(item)} reserved for a draft</p>
+              )}
               <div className="flex items-center justify-between gap-1">
                 <button
-                  onClick={() => updateCount(item.id, Math.max(0, item.count - 1))}
+                  onClick={() => respectingHolds(held => updateCount(item.id, Math.max(0, item.count - 1), held))}
                   className="w-7 h-7 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm font-bold"
                 >−</button>
                 <span className="text-white text-sm font-semibold">{item.count}</span>
@@ -87,16 +237,64 @@ export default function PrivateInventory() {
                   className="w-7 h-7 bg-gray-700 hover:bg-gray-600 text-white rounded text-sm font-bold"
                 >+</button>
               </div>
-              <button
-                onClick={() => deleteItem(item.id)}
-                className="text-red-400 hover:text-red-300 text-xs text-center"
-              >
-                Remove
-              </button>
+              <label className="flex items-center justify-between gap-1 text-xs text-gray-400">
+                Cost ($)
+                <input
+                  key={item.unitCost ?? ''}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  defaultValue={item.unitCost ?? ''}
+                  placeholder="—"
+                  onBlur={e => {
+                    if (e.target.value === '') return;
+                    const unitCost = Math.max(0, Number(e.target.value) || 0);
+                    if (unitCost !== item.unitCost) updateUnitCost(item.id, unitCost);
+                  }}
+                  className="w-16 px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-white text-xs text-center"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-1 text-xs text-gray-400">
+                Keep
+                <input
+                  key={item.keep ?? 0}
+                  type="number"
+                  min={0}
+                  defaultValue={item.keep ?? 0}
+                  onBlur={e => {
+                    const keep = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                    if (keep !== (item.keep ?? 0)) updateKeep(item.id, keep);
+                  }}
+                  className="w-16 px-1 py-0.5 bg-gray-700 border border-gray-600 rounded text-white text-xs text-center"
+                />
+              </label>
+              <div className="flex justify-between">
+                <button
+                  onClick={() => setHistoryItem(item)}
+                  className="text-gray-400 hover:text-gray-300 text-xs"
+                >
+                  History
+                </button>
+                <button
+                  onClick={() => respectingHolds(held => deleteItem(item.id, held))}
+                  className="text-red-400 hover:text-red-300 text-xs"
+                >
+                  Remove
+                </button>
+              </div>
             </div>
           </div>
         ))}
       </div>
+
+      {historyItem && (
+        <InventoryHistory
+          itemId={historyItem.id}
+          name={historyItem.name}
+          fields={[{ field: 'count', label: 'Count', current: historyItem.count }]}
+          onClose={() => setHistoryItem(null)}
+        />
+      )}
     </div>
   );
 }
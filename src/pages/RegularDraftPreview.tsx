@@ -1,8 +1,16 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { usePrivateInventoryStore } from '../state/privateInventoryStore';
 import { useUserStore } from '../state/userStore';
 import { useRegularDraftStore } from '../state/regularDraftStore';
-import { distributePacksAcrossSets } from '../utils/allocationAlgorithm';
+import { useDraftHistoryStore } from '../state/draftHistoryStore';
+import { usePoolBalanceStore } from '../state/poolBalanceStore';
+import { useInventoryStore } from '../state/inventoryStore';
+import { usePackCatalogStore } from '../state/packCatalogStore';
+import { buildPreview, CHAOS_CONTRIBUTOR_ID, type PreviewOptions } from '../state/regularDraftStore';
+import type { AllocationExplanation } from '../utils/allocationAlgorithm';
+import { poolBalances } from '../utils/poolBalance';
+import { activeHolds, heldCounts, holdKey } from '../utils/packHolds';
+import { proposeShortfallFixes, type ShortfallFix, type ShortfallScenario } from '../utils/shortfallFixes';
 import type { PackCatalogEntry, DraftFormat, DraftPlayer, DraftAllocationEntry } from '../types';
 
 interface RegularDraftPreviewProps {
@@ -11,7 +19,8 @@ interface RegularDraftPreviewProps {
   format: DraftFormat;
   packsPerPerson: number;
   onBack: () => void;
-  onConfirmed: (allocation: DraftAllocationEntry[]) => void;
+  // Sets and packs per person come back too, since a shortfall fix may have changed them
+  onConfirmed: (allocation: DraftAllocationEntry[], adjusted: { sets: PackCatalogEntry[]; packsPerPerson: number }) => void;
 }
 
 interface OverrideEntry {
@@ -19,59 +28,134 @@ interface OverrideEntry {
   userName: string;
   catalogId: string;
   name: string;
-  available: number;
+  available: number; // after the owner's keep reservation and other drafts' holds
+  kept: number;
+  held: number;      // on hold for other preview drafts
   count: number;
+  packId?: string; // chaos inventory entries
 }
 
 export default function RegularDraftPreview({
   players, sets, format, packsPerPerson, onBack, onConfirmed,
 }: RegularDraftPreviewProps) {
-  const { allItems, loadAllInventory } = usePrivateInventoryStore();
+  const { allItems, loadAllInventory, allocationPrefs } = usePrivateInventoryStore();
   const { publicProfiles } = useUserStore();
+  const drafts = useDraftHistoryStore(s => s.drafts);
+  const { adjustments, loadAdjustments } = usePoolBalanceStore();
+  const chaosPacks = useInventoryStore(s => s.packs);
+  const catalog = usePackCatalogStore(s => s.entries);
   const { computePreview, wasRounded } = useRegularDraftStore();
+  const [scenario, setScenario] = useState<ShortfallScenario<PackCatalogEntry>>({
+    sets, setCounts: [], packsPerPerson, useChaos: false,
+  });
   const [overrides, setOverrides] = useState<Map<string, OverrideEntry[]>>(new Map());
   const [allocations, setAllocations] = useState<ReturnType<typeof computePreview>['allocations']>([]);
+  const [explanations, setExplanations] = useState<AllocationExplanation[]>([]);
+  const [fixes, setFixes] = useState<ShortfallFix<PackCatalogEntry>[]>([]);
   const [validationErrors, setValidationErrors] = useState<Map<string, string>>(new Map());
+  const [usePoolBalance, setUsePoolBalance] = useState(false);
+  const [showExplanations, setShowExplanations] = useState(false);
 
   useEffect(() => {
     loadAllInventory();
+    loadAdjustments();
   }, []);
 
-  useEffect(() => {
-    if (allItems.length === 0) return;
-
-    const userMap = new Map(publicProfiles.map(u => [u.uid, u.name]));
-
-    const { allocations } = computePreview(
-      { players, sets, format, packsPerPerson },
-      allItems
+  // Drafts arrive live, so these are rebuilt on every snapshot. Keying them on their
+  // contents means only a real change re-runs the allocator and resets the overrides.
+  const balancesKey = JSON.stringify(poolBalances(drafts, adjustments).map(b => [b.userId, b.balance]));
+  const balances = useMemo<Record<string, number>>(() => Object.fromEntries(JSON.parse(balancesKey)), [balancesKey]);
+  const userMap = useMemo(() => new Map(publicProfiles.map(u => [u.uid, u.name])), [publicProfiles]);
+  const heldKey = JSON.stringify([...heldCounts(activeHolds(drafts, Date.now()))]);
+  const held = useMemo(() => new Map<string, number>(JSON.parse(heldKey)), [heldKey]);
+
+  const optionsFor = (useChaos: boolean): PreviewOptions => ({
+    prefs: allocationPrefs,
+    balances,
+    balanceWeight: usePoolBalance ? 1 : 0,
+    userNames: Object.fromEntries(userMap),
+    held,
+    ...(useChaos ? { chaosPacks } : {}),
+  });
+  const configFor = (s: ShortfallScenario<PackCatalogEntry>) => ({
+    players, format, sets: s.sets, packsPerPerson: s.packsPerPerson, setCounts: s.setCounts,
+  });
+
+  // Sets the group could swap in: anything with packs someone isn't keeping back
+  const ownedSets = useMemo(() => {
+    const owned = new Set(
+      allItems.filter(i => i.count - Math.min(i.keep ?? 0, i.count) > 0).map(i => i.catalogId)
+    );
+    return catalog.filter(entry => owned.has(entry.id));
+  }, [allItems, catalog]);
+
+  // Runs the allocator, resets every per-set override to its suggestion, and works out
+  // ways to cover any shortfall
+  const applyAlgorithm = () => {
+    const { allocations, explanations } = computePreview(
+      configFor(scenario),
+      allItems,
+      optionsFor(scenario.useChaos)
     );
 
     const newOverrides = new Map<string, OverrideEntry[]>();
-
     allocations.forEach(allocation => {
       const itemsForSet = allItems.filter(
         item => item.catalogId === allocation.catalogId && item.count > 0
       );
-
-      const allContributors: OverrideEntry[] = itemsForSet.map(item => {
+      const entries: OverrideEntry[] = itemsForSet.map(item => {
         const existing = allocation.contributions.find(c => c.userId === item.ownerId);
+        const kept = Math.min(item.keep ?? 0, item.count);
+        const onHold = Math.min(held.get(holdKey(item.ownerId, item.catalogId)) ?? 0, item.count - kept);
         return {
           userId: item.ownerId,
           userName: userMap.get(item.ownerId) ?? item.ownerId,
           catalogId: allocation.catalogId,
           name: allocation.name,
-          available: item.count,
+          available: item.count - kept - onHold,
+          kept,
+          held: onHold,
           count: existing?.count ?? 0,
         };
       });
-
-      newOverrides.set(allocation.catalogId, allContributors);
+      const chaosPack = scenario.useChaos
+        ? chaosPacks.find(p => p.catalogId === allocation.catalogId && p.inPerson > 0)
+        : undefined;
+      if (chaosPack) {
+        entries.push({
+          userId: CHAOS_CONTRIBUTOR_ID,
+          userName: 'Chaos inventory',
+          catalogId: allocation.catalogId,
+          name: allocation.name,
+          available: chaosPack.inPerson,
+          kept: 0,
+          held: 0,
+          count: allocation.contributions.find(c => c.userId === CHAOS_CONTRIBUTOR_ID)?.count ?? 0,
+          packId: chaosPack.id,
+        });
+      }
+      newOverrides.set(allocation.catalogId, entries);
     });
 
     setAllocations(allocations);
+    setExplanations(explanations);
     setOverrides(newOverrides);
-  }, [allItems, publicProfiles]);
+    setValidationErrors(new Map());
+    setFixes(!allocations.some(a => a.shortfall > 0) ? [] : proposeShortfallFixes(
+      { ...scenario, setCounts: allocations.map(a => a.totalNeeded) },
+      {
+        playerCount: players.length,
+        candidates: ownedSets,
+        chaosAvailable: chaosPacks.some(p => p.inPerson > 0),
+        evaluate: s => buildPreview(configFor(s), allItems, optionsFor(s.useChaos)).allocations,
+      }
+    ));
+  };
+
+  useEffect(() => {
+    if (allItems.length === 0) return;
+    applyAlgorithm();
+  }, [allItems, userMap, allocationPrefs, usePoolBalance, balances, scenario, chaosPacks, ownedSets, held]);
 
   const handleCountChange = (catalogId: string, userId: string, rawValue: string) => {
     setValidationErrors(new Map()); // clear stale errors on any edit
@@ -89,13 +173,11 @@ export default function RegularDraftPreview({
 
   const validate = (): boolean => {
     const errors = new Map<string, string>();
-    const totalPacks = players.length * packsPerPerson;
-    const { counts } = distributePacksAcrossSets(totalPacks, sets.length);
 
-    sets.forEach((set, idx) => {
+    scenario.sets.forEach((set, idx) => {
       const entries = overrides.get(set.id) ?? [];
       const total = entries.reduce((s, e) => s + e.count, 0);
-      const needed = counts[idx];
+      const needed = allocations[idx]?.totalNeeded ?? 0;
       if (total !== needed) {
         errors.set(set.id, `Total must equal ${needed} (currently ${total})`);
       }
@@ -116,51 +198,29 @@ export default function RegularDraftPreview({
     for (const entries of overrides.values()) {
       for (const entry of entries) {
         if (entry.count > 0) {
+          const chaosPack = entry.packId ? chaosPacks.find(p => p.id === entry.packId) : undefined;
+          // The settlement prices packs at what they cost now, not after a later edit
+          const unitCost = chaosPack
+            ? chaosPack.unitCost
+            : allItems.find(i => i.ownerId === entry.userId && i.catalogId === entry.catalogId)?.unitCost;
           flatAllocation.push({
-            userId: entry.userId,
+            userId: chaosPack?.ownerId ?? entry.userId,
             userName: entry.userName,
             catalogId: entry.catalogId,
             name: entry.name,
             count: entry.count,
+            ...(chaosPack ? { packId: chaosPack.id } : {}),
+            ...(unitCost !== undefined ? { unitCost } : {}),
           });
         }
       }
     }
-    onConfirmed(flatAllocation);
+    onConfirmed(flatAllocation, { sets: scenario.sets, packsPerPerson: scenario.packsPerPerson });
   };
 
-  const handleResetToDefault = () => {
-    const { allocations } = computePreview(
-      { players, sets, format, packsPerPerson },
-      allItems
-    );
-    const userMap = new Map(publicProfiles.map(u => [u.uid, u.name]));
-    const newOverrides = new Map<string, OverrideEntry[]>();
-
-    allocations.forEach(allocation => {
-      const itemsForSet = allItems.filter(
-        item => item.catalogId === allocation.catalogId && item.count > 0
-      );
-      newOverrides.set(allocation.catalogId, itemsForSet.map(item => {
-        const existing = allocation.contributions.find(c => c.userId === item.ownerId);
-        return {
-          userId: item.ownerId,
-          userName: userMap.get(item.ownerId) ?? item.ownerId,
-          catalogId: allocation.catalogId,
-          name: allocation.name,
-          available: item.count,
-          count: existing?.count ?? 0,
-        };
-      }));
-    });
-
-    setAllocations(allocations);
-    setOverrides(newOverrides);
-    setValidationErrors(new Map());
-  };
-
-  const totalPacks = players.length * packsPerPerson;
-  const { counts } = distributePacksAcrossSets(totalPacks, sets.length);
+  const totalPacks = players.length * scenario.packsPerPerson;
+  const adjusted = scenario.sets !== sets || scenario.packsPerPerson !== packsPerPerson ||
+    scenario.setCounts.length > 0 || scenario.useChaos;
 
   return (
     <div className="space-y-6 max-w-2xl mx-auto">
@@ -178,22 +238,104 @@ export default function RegularDraftPreview({
       <div className="bg-gray-800 rounded-xl p-4 border border-gray-700 text-sm text-gray-300 space-y-1">
         <p><span className="text-gray-400">Format:</span> <span className="text-white font-medium">{format}</span></p>
         <p><span className="text-gray-400">Players:</span> <span className="text-white font-medium">{players.map(p => p.name).join(', ')}</span></p>
-        <p><span className="text-gray-400">Packs per person:</span> <span className="text-white font-medium">{packsPerPerson} ({totalPacks} total)</span></p>
+        <p><span className="text-gray-400">Packs per person:</span> <span className="text-white font-medium">{scenario.packsPerPerson} ({totalPacks} total)</span></p>
+        {adjusted && (
+          <p className="text-xs text-blue-300 pt-1">
+            Adjusted to cover a shortage.{' '}
+            <button
+              onClick={() => setScenario({ sets, setCounts: [], packsPerPerson, useChaos: false })}
+              className="underline hover:text-blue-200"
+            >
+              Revert
+            </button>
+          </p>
+        )}
       </div>
 
-      <div className="flex justify-end">
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={usePoolBalance}
+            onChange={e => setUsePoolBalance(e.target.checked)}
+            className="accent-blue-500"
+          />
+          Pull more from people who owe the pool
+        </label>
         <button
-          onClick={handleResetToDefault}
+          onClick={applyAlgorithm}
           className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-300 text-xs rounded-lg"
         >
           Reset to Algorithm Default
         </button>
       </div>
 
-      {sets.map((set, idx) => {
+      {explanations.length > 0 && (
+        <div className="space-y-2">
+          <button
+            onClick={() => setShowExplanations(v => !v)}
+            className="flex items-center gap-2 text-sm text-gray-500 hover:text-gray-300 font-semibold uppercase tracking-wide"
+          >
+            <svg
+              className={`h-4 w-4 transition-transform duration-200 ${showExplanations ? 'rotate-180' : ''}`}
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+            Why this allocation
+          </button>
+          {showExplanations && (
+            <div className="bg-gray-800 rounded-xl p-4 border border-gray-700 space-y-2">
+              {[...explanations].sort((a, b) => b.given - a.given).map(e => (
+                <div key={e.userId} className="text-sm">
+                  <p className="text-white">
+                    {e.userName} <span className="text-gray-400">gives {e.given}</span>
+                  </p>
+                  {e.reasons.map(reason => (
+                    <p key={reason} className="text-xs text-gray-500">{reason}</p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {fixes.length > 0 && (
+        <div className="bg-gray-800 rounded-xl p-4 border border-yellow-700/60 space-y-3">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-gray-500">Ways to cover the shortage</p>
+          {fixes.map(fix => (
+            <div key={fix.label} className="flex items-start gap-3 border-t border-gray-700/50 pt-3 first:border-0 first:pt-0">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm text-white">{fix.label}</p>
+                <p className={`text-xs ${fix.shortfall === 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+                  {fix.shortfall === 0 ? 'Covers every set' : `Still short ${fix.shortfall}`}
+                </p>
+                {fix.allocations.map(a => (
+                  <p key={a.catalogId} className="text-xs text-gray-500 truncate">
+                    <span className="text-gray-400">{a.name} ({a.totalNeeded}):</span>{' '}
+                    {a.contributions.map(c => `${c.userName} ${c.count}`).join(', ') || 'nobody'}
+                    {a.shortfall > 0 && <span className="text-red-400"> · short {a.shortfall}</span>}
+                  </p>
+                ))}
+              </div>
+              <button
+                onClick={() => setScenario(fix.scenario)}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-xs rounded-lg font-medium shrink-0"
+              >
+                Apply
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {scenario.sets.map((set, idx) => {
         const entries = overrides.get(set.id) ?? [];
         const setTotal = entries.reduce((s, e) => s + e.count, 0);
-        const needed = counts[idx];
+        const needed = allocations[idx]?.totalNeeded ?? 0;
         const error = validationErrors.get(set.id);
         const setAlloc = allocations.find(a => a.catalogId === set.id);
 
@@ -222,7 +364,10 @@ export default function RegularDraftPreview({
               {entries.map(entry => (
                 <div key={entry.userId} className="flex items-center gap-3">
                   <span className="text-gray-300 text-sm flex-1">{entry.userName}</span>
-                  <span className="text-gray-500 text-xs">({entry.available} available)</span>
+                  <span className="text-gray-500 text-xs">
+                    ({entry.available} available{entry.kept > 0 ? `, ${entry.kept} kept` : ''}
+                    {entry.held > 0 ? `, ${entry.held} on hold` : ''})
+                  </span>
                   <div className="flex items-center gap-1">
                     <button
                       onClick={() => handleCountChange(set.id, entry.userId, String(Math.max(0, entry.count - 1)))}
@@ -1,9 +1,11 @@
 import { useState } from 'react';
 import PackCatalogSearch from '../components/PackCatalogSearch';
 import PlayerSearch from '../components/PlayerSearch';
+import PickOrderSelect from '../components/PickOrderSelect';
+import ChaosPoolPreview from '../components/ChaosPoolPreview';
 import { useInventoryStore } from '../state/inventoryStore';
 import { useCubeStore } from '../state/cubeStore';
-import type { PackCatalogEntry, DraftFormat, DraftPlayer } from '../types';
+import type { PackCatalogEntry, DraftFormat, DraftPlayer, PickOrderMode } from '../types';
 import { DEFAULT_PACKS_PER_PERSON } from '../types';
 
 type SetupFormat = 'Chaos Draft' | DraftFormat;
@@ -31,25 +33,40 @@ interface RegularDraftSetupProps {
     cubeImageUrl?: string;
     cubeExternalUrl?: string;
   }) => void;
-  onStartChaos: (players: DraftPlayer[]) => void;
+  onStartChaos: (players: DraftPlayer[], pickOrder: PickOrderMode) => void;
+  initial?: SetupPrefill;  // e.g. a scheduled event's players and sets
 }
 
-export default function RegularDraftSetup({ onNext, onStartChaos }: RegularDraftSetupProps) {
+export interface SetupPrefill {
+  players: DraftPlayer[];
+  format: SetupFormat;
+  sets: PackCatalogEntry[];
+  cubeId?: string;
+  cubeName?: string;
+  cubeImageUrl?: string;
+  cubeExternalUrl?: string;
+}
+
+export default function RegularDraftSetup({ onNext, onStartChaos, initial }: RegularDraftSetupProps) {
   const packs = useInventoryStore(s => s.packs);
   const { cubes } = useCubeStore();
 
-  const [numPlayers, setNumPlayers] = useState(4);
+  const [numPlayers, setNumPlayers] = useState(initial?.players.length ?? 4);
   const [players, setPlayers] = useState<DraftPlayer[]>(
+    initial?.players ??
     Array.from({ length: 4 }, (_, i) => ({ id: `player-${i + 1}`, name: '', userId: null }))
   );
-  const [format, setFormat] = useState<SetupFormat>('Chaos Draft');
-  const [sets, setSets] = useState<PackCatalogEntry[]>([]);
-  const [packsPerPerson, setPacksPerPerson] = useState(DEFAULT_PACKS_PER_PERSON['Regular Draft']);
-  const [source, setSource] = useState<'sets' | 'cube'>('sets');
-  const [selectedCubeId, setSelectedCubeId] = useState<string | null>(null);
-  const [selectedCubeName, setSelectedCubeName] = useState<string | null>(null);
-  const [selectedCubeImageUrl, setSelectedCubeImageUrl] = useState<string | null>(null);
-  const [selectedCubeExternalUrl, setSelectedCubeExternalUrl] = useState<string | null>(null);
+  const [format, setFormat] = useState<SetupFormat>(initial?.format ?? 'Chaos Draft');
+  const [sets, setSets] = useState<PackCatalogEntry[]>(initial?.sets ?? []);
+  const [packsPerPerson, setPacksPerPerson] = useState(
+    DEFAULT_PACKS_PER_PERSON[initial && initial.format !== 'Chaos Draft' ? initial.format : 'Regular Draft']
+  );
+  const [source, setSource] = useState<'sets' | 'cube'>(initial?.cubeId ? 'cube' : 'sets');
+  const [selectedCubeId, setSelectedCubeId] = useState<string | null>(initial?.cubeId ?? null);
+  const [selectedCubeName, setSelectedCubeName] = useState<string | null>(initial?.cubeName ?? null);
+  const [selectedCubeImageUrl, setSelectedCubeImageUrl] = useState<string | null>(initial?.cubeImageUrl ?? null);
+  const [selectedCubeExternalUrl, setSelectedCubeExternalUrl] = useState<string | null>(initial?.cubeExternalUrl ?? null);
+  const [pickOrder, setPickOrder] = useState<PickOrderMode>('round-robin');
 
   const isChaos = format === 'Chaos Draft';
 
@@ -99,7 +116,7 @@ export default function RegularDraftSetup({ onNext, onStartChaos }: RegularDraft
         ...p,
         name: p.name.trim() || `Player ${i + 1}`,
       }));
-      onStartChaos(namedPlayers);
+      onStartChaos(namedPlayers, pickOrder);
     } else {
       onNext({
         players,
@@ -176,6 +193,22 @@ export default function RegularDraftSetup({ onNext, onStartChaos }: RegularDraft
         </div>
       </div>
 
+      {/* Pick order (chaos only) */}
+      {isChaos && (
+        <div className="bg-gray-800 rounded-xl p-5 border border-gray-700 space-y-3">
+          <h3 className="font-semibold text-gray-200">Pick Order</h3>
+          <PickOrderSelect value={pickOrder} onChange={setPickOrder} />
+        </div>
+      )}
+
+      {/* Wheel odds (chaos only) */}
+      {isChaos && packs.length > 0 && (
+        <div className="bg-gray-800 rounded-xl p-5 border border-gray-700 space-y-3">
+          <h3 className="font-semibold text-gray-200">Wheel Odds</h3>
+          <ChaosPoolPreview packs={packs} />
+        </div>
+      )}
+
       {/* Card Source (non-chaos only) */}
       {!isChaos && (
         <div className="bg-gray-800 rounded-xl p-5 border border-gray-700 space-y-3">
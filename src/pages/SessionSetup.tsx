@@ -4,6 +4,9 @@ import { useNavigate } from "react-router-dom";
 import { useSessionStore } from "../state/sessionStore";
 import { useInventoryStore } from "../state/inventoryStore";
 import PlayerSearch from '../components/PlayerSearch';
+import PickOrderSelect from '../components/PickOrderSelect';
+import ChaosPoolPreview from '../components/ChaosPoolPreview';
+import type { PickOrderMode } from '../types';
 
 export default function SessionSetup() {
   // ✅ Changed numPlayers state to hold a string
@@ -13,6 +16,7 @@ export default function SessionSetup() {
   const [playerUserIds, setPlayerUserIds] = useState<(string | null)[]>(
     Array(4).fill(null)
   );
+  const [pickOrder, setPickOrder] = useState<PickOrderMode>("round-robin");
   const navigate = useNavigate();
   const initializeSession = useSessionStore((s) => s.initializeSession);
   const packs = useInventoryStore((s) => s.packs);
@@ -49,7 +53,7 @@ export default function SessionSetup() {
       (name, i) => name.trim() || `Player ${i + 1}`
     );
 
-    initializeSession(finalNumPlayers, finalPlayerNames, playerUserIds);
+    initializeSession(finalNumPlayers, finalPlayerNames, playerUserIds, undefined, pickOrder);
     navigate("/draft");
   };
 
@@ -117,6 +121,22 @@ export default function SessionSetup() {
               </div>
             </div>
 
+            {/* Pick Order */}
+            <div>
+              <label className="block text-lg font-medium text-gray-300 mb-2">
+                Pick Order
+              </label>
+              <PickOrderSelect value={pickOrder} onChange={setPickOrder} />
+            </div>
+
+            {/* Wheel Odds */}
+            <div>
+              <label className="block text-lg font-medium text-gray-300 mb-2">
+                Wheel Odds
+              </label>
+              <ChaosPoolPreview packs={packs} />
+            </div>
+
             {/* Start Button */}
             <div className="pt-4">
               <button
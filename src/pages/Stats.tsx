@@ -1,5 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useDraftHistoryStore } from '../state/draftHistoryStore';
+import PoolBalances from '../components/PoolBalances';
 import {
   computePlayerAggregates,
   computeHeadToHead,
@@ -51,13 +52,14 @@ export default function Stats() {
         <div className="px-4 py-3 bg-gray-800/80 border-b border-gray-700/50">
           <h3 className="text-white font-semibold">Leaderboard</h3>
         </div>
-        <div className="grid grid-cols-[24px_1fr_80px_55px_40px_55px] px-4 py-2 bg-gray-800/50 border-b border-gray-700/30 text-[10px] font-bold uppercase tracking-widest text-gray-500">
+        <div className="grid grid-cols-[24px_1fr_80px_55px_40px_55px_70px] px-4 py-2 bg-gray-800/50 border-b border-gray-700/30 text-[10px] font-bold uppercase tracking-widest text-gray-500">
           <span>#</span>
           <span>Player</span>
           <span className="text-right">Record</span>
           <span className="text-right">Win%</span>
           <span className="text-right">GW</span>
           <span className="text-right">Events</span>
+          <span className="text-right" title="Tournament wins · playoff record">Titles</span>
         </div>
         {aggregates.length === 0 && (
           <p className="px-4 py-8 text-gray-500 text-sm text-center">No tournament data yet.</p>
@@ -72,7 +74,7 @@ export default function Stats() {
                     : agg.displayName
                 )
               }
-              className="w-full grid grid-cols-[24px_1fr_80px_55px_40px_55px] px-4 py-3 text-sm border-b border-gray-700/30 last:border-0 hover:bg-gray-800/40 text-left transition-colors"
+              className="w-full grid grid-cols-[24px_1fr_80px_55px_40px_55px_70px] px-4 py-3 text-sm border-b border-gray-700/30 last:border-0 hover:bg-gray-800/40 text-left transition-colors"
             >
               <span className="text-gray-600 font-bold text-xs self-center">{i + 1}</span>
               <span className="text-gray-200 font-semibold self-center">{agg.displayName}</span>
@@ -86,6 +88,12 @@ export default function Stats() {
               </span>
               <span className="text-gray-600 text-xs text-right self-center">{agg.gameWins}</span>
               <span className="text-gray-600 text-xs text-right self-center">{agg.tournamentsPlayed}</span>
+              <span className="text-xs text-right self-center">
+                <span className={agg.tournamentWins > 0 ? 'text-yellow-300 font-semibold' : 'text-gray-600'}>{agg.tournamentWins}</span>
+                {agg.topCuts > 0 && (
+                  <span className="text-gray-600"> · {agg.playoffWins}–{agg.playoffLosses}</span>
+                )}
+              </span>
             </button>
             {expandedPlayer !== null && expandedPlayer.trim().toLowerCase() === agg.normalizedName && (
               <div className="px-4 pb-3 bg-gray-800/20 border-b border-gray-700/30">
@@ -99,11 +107,15 @@ export default function Stats() {
                     {expandedHistory.map(dh => (
                       <div
                         key={dh.draftId}
-                        className="grid grid-cols-[1fr_70px_40px] text-xs text-gray-400 py-1.5 border-b border-gray-700/20 last:border-0"
+                        className="grid grid-cols-[1fr_90px_70px_40px] text-xs text-gray-400 py-1.5 border-b border-gray-700/20 last:border-0"
                       >
                         <span className="text-gray-500 font-mono text-[10px] self-center">
                           {dh.draftType} · {dh.draftId.slice(0, 8)}
                         </span>
+                        <span className="text-right self-center">
+                          {dh.wonTournament ? '🏆 ' : ''}
+                          {dh.madeTopCut ? `Top cut ${dh.playoffWins}–${dh.playoffLosses}` : ''}
+                        </span>
                         <span className="text-right self-center">
                           {dh.matchTies > 0
                             ? `${dh.matchWins}–${dh.matchLosses}–${dh.matchTies}`
@@ -194,6 +206,8 @@ export default function Stats() {
           )}
         </div>
       </div>
+
+      <PoolBalances />
     </div>
   );
 }
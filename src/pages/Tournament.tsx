@@ -3,7 +3,10 @@ import { useSearchParams, Navigate } from 'react-router-dom';
 import { useDraftHistoryStore } from '../state/draftHistoryStore';
 import { useUserStore } from '../state/userStore';
 import TournamentView from '../components/TournamentView';
+import TournamentExport from '../components/TournamentExport';
+import RoundClock from '../components/RoundClock';
 import { draftTitle } from '../utils/draftTitle';
+import { tournamentPlayers } from '../utils/swissPairings';
 import type { Draft } from '../types';
 
 function formatDraftOption(draft: Draft): string {
@@ -43,8 +46,9 @@ export default function Tournament() {
   const t = selectedDraft.tournament!;
   const title = draftTitle(selectedDraft);
   const date = selectedDraft.createdAt?.toDate().toLocaleDateString() ?? 'Unknown date';
-  const playerNames = selectedDraft.players.map(p => p.name).join(', ');
+  const playerNames = tournamentPlayers(selectedDraft).map(p => p.name).join(', ');
   const isFinalized = t.status === 'finalized';
+  const currentRound = isFinalized ? undefined : t.rounds.find(r => r.roundNumber === t.currentRound);
   const showDropdown = !draftIdParam && activeDrafts.length >= 2;
 
   return (
@@ -64,11 +68,23 @@ export default function Tournament() {
           <span className="text-sm text-gray-400">{playerNames}</span>
           <span className="text-sm text-gray-500">·</span>
           <span className="text-sm text-gray-400">{date}</span>
+          {(t.format === 'round-robin' || t.pods) && (
+            <span className="text-sm text-gray-400">
+              · {t.format === 'round-robin' ? 'Round-robin' : 'Swiss'}{t.pods && `, ${t.pods.length} pods`}
+            </span>
+          )}
           {!isFinalized && (
             <span className="text-sm text-gray-400">· Round {t.currentRound} of {t.totalRounds}</span>
           )}
+          {currentRound && <RoundClock round={currentRound} compact />}
         </div>
 
+        {isFinalized && (
+          <div className="mt-3">
+            <TournamentExport draft={selectedDraft} />
+          </div>
+        )}
+
         {showDropdown && (
           <div className="mt-3 flex items-center gap-2">
             <span className="text-sm text-gray-500">Tournament:</span>
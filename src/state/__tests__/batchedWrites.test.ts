@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { batches, failAt } = vi.hoisted(() => ({
+  batches: [] as { writes: number; committed: boolean }[],
+  failAt: { batch: -1 },  // index of the batch whose commit fails
+}));
+
+vi.mock('../../firebase', () => ({ db: {} }));
+vi.mock('firebase/firestore', () => ({
+  writeBatch: vi.fn(() => {
+    const batch = { writes: 0, committed: false };
+    batches.push(batch);
+    const write = () => { batch.writes++; };
+    const index = batches.length - 1;
+    return {
+      set: write,
+      update: write,
+      delete: write,
+      commit: async () => {
+        if (index === failAt.batch) throw new Error('unavailable');
+        batch.committed = true;
+      },
+    };
+  }),
+}));
+
+import { BATCH_WRITE_LIMIT, PartialCommitError, commitInBatches } from '../batchedWrites';
+
+describe('commitInBatches', () => {
+  it("splits writes across batches without separating an item's writes", async () => {
+    batches.length = 0;
+    failAt.batch = -1;
+    const items = Array.from({ length: 400 }, (_, i) => i);
+    const ref = {} as never;
+    // Each item is a document plus two ledger entries
+    await commitInBatches(items, (group) => {
+      group.update(ref, {});
+      group.set(ref, {});
+      group.set(ref, {});
+    });
+
+    expect(batches.every(b => b.committed)).toBe(true);
+    expect(batches.map(b => b.writes)).toEqual([498, 498, 204]);
+    expect(batches.every(b => b.writes <= BATCH_WRITE_LIMIT && b.writes % 3 === 0)).toBe(true);
+  });
+
+  it('says how many items were saved when a later batch fails', async () => {
+    batches.length = 0;
+    failAt.batch = 1;
+    const items = Array.from({ length: 400 }, (_, i) => i);
+    const error = await commitInBatches(items, group => {
+      for (let i = 0; i < 3; i++) group.set({} as never, {});
+    }).catch(err => err);
+
+    expect(error).toBeInstanceOf(PartialCommitError);
+    expect([error.committed, error.total]).toEqual([166, 400]);
+  });
+
+  it('rethrows a failure in the first batch, since nothing was saved', async () => {
+    batches.length = 0;
+    failAt.batch = 0;
+    await expect(commitInBatches([1], group => group.set({} as never, {}))).rejects.toThrow('unavailable');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// A single draft document behind a fake optimistic transaction: each attempt reads,
+// yields so concurrent attempts can interleave, and retries if the doc changed meanwhile
+const { server, mockAuth, mockRunTransaction } = vi.hoisted(() => {
+  const server: { data: Record<string, unknown>; version: number; attempts: number } = {
+    data: {},
+    version: 0,
+    attempts: 0,
+  };
+  const mockAuth = { currentUser: { uid: 'uA' } as { uid: string } | null };
+  const mockRunTransaction = vi.fn(async (_db: unknown, fn: (tx: unknown) => Promise<unknown>) => {
+    for (;;) {
+      server.attempts++;
+      const readVersion = server.version;
+      let staged: Record<string, unknown> | null = null;
+      const tx = {
+        get: async () => {
+          await new Promise(resolve => setTimeout(resolve, 0));
+          const snapshot = structuredClone(server.data);
+          return { id: 'd1', exists: () => true, data: () => snapshot };
+        },
+        update: (_ref: unknown, changes: Record<string, unknown>) => { staged = changes; },
+      };
+      const result = await fn(tx);
+      if (server.version !== readVersion) continue;
+      if (staged) {
+        server.data = { ...server.data, ...(staged as Record<string, unknown>) };
+        server.version++;
+      }
+      return result;
+    }
+  });
+  return { server, mockAuth, mockRunTransaction };
+});
+
+vi.mock('../../firebase', () => ({ db: {}, auth: mockAuth }));
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  query: vi.fn(),
+  orderBy: vi.fn(),
+  doc: vi.fn(() => 'draft-ref'),
+  getDocs: vi.fn(),
+  onSnapshot: vi.fn(),
+  runTransaction: mockRunTransaction,
+  updateDoc: vi.fn(),
+  addDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  serverTimestamp: vi.fn(),
+  Timestamp: { now: () => ({ seconds: 0, nanoseconds: 0 }) },
+}));
+
+vi.mock('../notificationStore', () => ({
+  useNotificationStore: { getState: () => ({ notify: vi.fn() }) },
+}));
+vi.mock('../userStore', () => ({
+  useUserStore: { getState: () => ({ profile: { role: 'user' } }) },
+}));
+vi.mock('../inventoryStore', () => ({ useInventoryStore: {}, packLedgerItem: vi.fn() }));
+vi.mock('../inventoryLedgerStore', () => ({ queueLedgerWrites: vi.fn() }));
+vi.mock('../privateInventoryStore', () => ({ usePrivateInventoryStore: {} }));
+
+import { useDraftHistoryStore } from '../draftHistoryStore';
+import type { Draft, DraftTournament } from '../../types';
+
+const pending = (id: string, player1Id: string, player2Id: string) =>
+  ({ id, player1Id, player2Id, status: 'pending' as const });
+
+const tournament: DraftTournament = {
+  seats: [],
+  rounds: [{ roundNumber: 1, status: 'active', pairings: [pending('m1', 'A', 'B'), pending('m2', 'C', 'D')] }],
+  currentRound: 1,
+  totalRounds: 3,
+  status: 'active',
+};
+
+const draftData = {
+  type: 'regular',
+  sets: [],
+  players: ['A', 'B', 'C', 'D'].map(id => ({ id, name: id, userId: `u${id}` })),
+  tournament,
+};
+
+const score = { player1Wins: 2, player2Wins: 0, ties: 0, matchWinner: 'player1' as const, isPartial: false };
+
+describe('useDraftHistoryStore tournament writes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    server.data = structuredClone(draftData);
+    server.version = 0;
+    server.attempts = 0;
+    useDraftHistoryStore.setState({ drafts: [{ id: 'd1', ...structuredClone(draftData) } as unknown as Draft] });
+  });
+
+  it('keeps both results when two matches are reported at the same time', async () => {
+    mockAuth.currentUser = { uid: 'uA' };
+    const first = useDraftHistoryStore.getState().submitResult('d1', 1, 'm1', score);
+    mockAuth.currentUser = { uid: 'uC' };
+    const second = useDraftHistoryStore.getState().submitResult('d1', 1, 'm2', score);
+    await Promise.all([first, second]);
+
+    const saved = server.data.tournament as DraftTournament;
+    expect(saved.rounds[0].pairings.map(p => [p.status, p.result?.submittedBy])).toEqual([
+      ['reported', 'uA'],
+      ['reported', 'uC'],
+    ]);
+    // One of the two had to retry on top of the other's write
+    expect(server.attempts).toBe(3);
+  });
+
+  it('keeps the first report when both players report the same match', async () => {
+    mockAuth.currentUser = { uid: 'uA' };
+    const first = useDraftHistoryStore.getState().submitResult('d1', 1, 'm1', score);
+    mockAuth.currentUser = { uid: 'uB' };
+    const second = useDraftHistoryStore.getState().submitResult('d1', 1, 'm1', { ...score, matchWinner: 'player2', player1Wins: 0, player2Wins: 2 });
+    await Promise.all([first, second]);
+
+    const saved = server.data.tournament as DraftTournament;
+    expect(saved.rounds[0].pairings[0].result?.submittedBy).toBe('uA');
+  });
+
+  it('pairs the next round only once when two devices generate it together', async () => {
+    const next = [pending('m3', 'A', 'C'), pending('m4', 'B', 'D')];
+    await Promise.all([
+      useDraftHistoryStore.getState().addRound('d1', 2, next),
+      useDraftHistoryStore.getState().addRound('d1', 2, next),
+    ]);
+
+    const saved = server.data.tournament as DraftTournament;
+    expect(saved.rounds.map(r => r.roundNumber)).toEqual([1, 2]);
+    expect(saved.currentRound).toBe(2);
+  });
+
+  it('writes results to the results map, naming the one that changed', async () => {
+    server.data = structuredClone({ ...draftData, tournament: { ...tournament, results: {} } });
+    mockAuth.currentUser = { uid: 'uA' };
+    await useDraftHistoryStore.getState().submitResult('d1', 1, 'm1', score);
+    mockAuth.currentUser = { uid: 'uB' };
+    await useDraftHistoryStore.getState().confirmResult('d1', 1, 'm1');
+
+    const saved = server.data.tournament as DraftTournament;
+    expect(saved.rounds[0].pairings).toEqual([pending('m1', 'A', 'B'), pending('m2', 'C', 'D')]);
+    expect(saved.results?.m1).toMatchObject({ status: 'complete', submittedBy: 'uA', confirmedBy: 'uB', playerUids: ['uA', 'uB'] });
+    expect(Object.keys(saved.results ?? {})).toEqual(['m1']);
+    expect(server.data.resultPairingId).toBe('m1');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Documents by path behind a fake transaction that only applies its writes if the
+// callback finishes
+const { docs, mockRunTransaction } = vi.hoisted(() => {
+  const docs = new Map<string, Record<string, unknown>>();
+  const mockRunTransaction = vi.fn(async (_db: unknown, fn: (tx: unknown) => Promise<unknown>) => {
+    const staged: [string, Record<string, unknown>][] = [];
+    const tx = {
+      get: async (path: string) => ({ exists: () => docs.has(path), data: () => structuredClone(docs.get(path)) }),
+      update: (path: string, changes: Record<string, unknown>) => { staged.push([path, changes]); },
+    };
+    const result = await fn(tx);
+    for (const [path, changes] of staged) docs.set(path, { ...docs.get(path), ...changes });
+    return result;
+  });
+  return { docs, mockRunTransaction };
+});
+
+vi.mock('../../firebase', () => ({ db: {}, auth: { currentUser: { uid: 'uA' } } }));
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  doc: vi.fn((_db: unknown, collection: string, id: string) => `${collection}/${id}`),
+  getDocs: vi.fn(),
+  query: vi.fn(),
+  where: vi.fn(),
+  runTransaction: mockRunTransaction,
+  serverTimestamp: vi.fn(() => 'now'),
+}));
+vi.mock('../inventoryStore', () => ({
+  useInventoryStore: { getState: () => ({ loadPacks: vi.fn() }) },
+  packLedgerItem: vi.fn(),
+}));
+vi.mock('../draftHistoryStore', () => ({ useDraftHistoryStore: { getState: () => ({ loadDrafts: vi.fn() }) } }));
+vi.mock('../inventoryLedgerStore', () => ({ queueLedgerWrites: vi.fn() }));
+
+import { usePackOrderStore } from '../packOrderStore';
+
+const line = (packId: string, name: string) =>
+  ({ packId, catalogId: packId, name, imageUrl: '', quantity: 2, received: 0 });
+
+describe('receiveOrder', () => {
+  beforeEach(() => {
+    docs.clear();
+    docs.set('packOrders/o1', { status: 'open', lines: [line('p1', 'Foundations'), line('p2', 'Bloomburrow')] });
+    docs.set('packs/p1', { inPerson: 1, inTransit: 2 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    usePackOrderStore.setState({ loadOrders: vi.fn(async () => {}) });
+  });
+
+  it('moves received packs from in transit to available and closes the order', async () => {
+    docs.set('packs/p2', { inPerson: 0, inTransit: 2 });
+    await usePackOrderStore.getState().receiveOrder('o1', { p1: 2, p2: 2 });
+    expect(docs.get('packs/p1')).toEqual({ inPerson: 3, inTransit: 0 });
+    expect(docs.get('packOrders/o1')?.status).toBe('received');
+  });
+
+  it("refuses to mark a line received when its pack no longer exists", async () => {
+    await expect(usePackOrderStore.getState().receiveOrder('o1', { p1: 2, p2: 2 }))
+      .rejects.toThrow('Bloomburrow is no longer in inventory');
+    expect(docs.get('packs/p1')).toEqual({ inPerson: 1, inTransit: 2 });
+    expect(docs.get('packOrders/o1')).toMatchObject({ status: 'open', lines: [{ received: 0 }, { received: 0 }] });
+  });
+});
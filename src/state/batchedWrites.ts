@@ -0,0 +1,65 @@
+import { writeBatch, type DocumentData, type DocumentReference, type WriteBatch } from 'firebase/firestore';
+import { db } from '../firebase';
+
+// Firestore rejects a batch of more than 500 writes
+export const BATCH_WRITE_LIMIT = 500;
+
+/** The writes for one item, queued so they can all go into the same batch. */
+export interface WriteGroup {
+  set: (ref: DocumentReference, data: DocumentData) => void;
+  update: (ref: DocumentReference, data: DocumentData) => void;
+  delete: (ref: DocumentReference) => void;
+}
+
+/** A batch failed after earlier ones were committed: the first `committed` items were saved. */
+export class PartialCommitError extends Error {
+  readonly committed: number;
+  readonly total: number;
+
+  constructor(committed: number, total: number, options?: ErrorOptions) {
+    super(`Saved ${committed} of ${total} before a batch failed`, options);
+    this.name = 'PartialCommitError';
+    this.committed = committed;
+    this.total = total;
+  }
+}
+
+/**
+ * Commits the writes `queue` makes for each item, over as many batches as the write
+ * limit needs. An item's writes — a document and the ledger entries describing it —
+ * always share a batch, so the ledger still can't miss a committed change. If a later
+ * batch fails, the earlier ones stay committed and a PartialCommitError says how many
+ * items they covered; a failure in the first batch is rethrown as is.
+ */
+export async function commitInBatches<T>(items: T[], queue: (group: WriteGroup, item: T) => void): Promise<void> {
+  let batch = writeBatch(db);
+  let count = 0;
+  let committed = 0;   // items in batches already committed
+  let batched = 0;     // items in the current batch
+  const commit = async () => {
+    try {
+      await batch.commit();
+    } catch (err) {
+      throw committed > 0 ? new PartialCommitError(committed, items.length, { cause: err }) : err;
+    }
+    committed += batched;
+    batched = 0;
+  };
+  for (const item of items) {
+    const writes: ((b: WriteBatch) => void)[] = [];
+    queue({
+      set: (ref, data) => writes.push(b => b.set(ref, data)),
+      update: (ref, data) => writes.push(b => b.update(ref, data)),
+      delete: ref => writes.push(b => b.delete(ref)),
+    }, item);
+    if (count > 0 && count + writes.length > BATCH_WRITE_LIMIT) {
+      await commit();
+      batch = writeBatch(db);
+      count = 0;
+    }
+    for (const write of writes) write(batch);
+    count += writes.length;
+    batched++;
+  }
+  if (count > 0) await commit();
+}
@@ -3,33 +3,181 @@ import { auth, db } from '../firebase';
 import {
   collection,
   getDocs,
+  onSnapshot,
   query,
   orderBy,
   doc,
   runTransaction,
   updateDoc,
   addDoc,
+  deleteDoc,
   serverTimestamp,
   Timestamp,
+  type DocumentData,
 } from 'firebase/firestore';
-import { useInventoryStore } from './inventoryStore';
+import { useInventoryStore, packLedgerItem, type Pack } from './inventoryStore';
+import { queueLedgerWrites } from './inventoryLedgerStore';
 import { usePrivateInventoryStore } from './privateInventoryStore';
-import type { Draft, DraftPlayer, MtgColor, PairingResult, TournamentPairing, TournamentRound } from '../types';
+import { useNotificationStore } from './notificationStore';
+import { useUserStore } from './userStore';
+import { serverNow, useServerClockStore } from './serverClockStore';
+import type {
+  Draft,
+  DraftPlayer,
+  DraftSettlement,
+  DraftTournament,
+  MtgColor,
+  PairingResult,
+  TopCutSize,
+  TournamentCorrection,
+  TournamentDrop,
+  TournamentLateEntry,
+  TournamentPairing,
+  TournamentRound,
+} from '../types';
 import { sortColors } from '../utils/archetypes';
+import { draftTitle } from '../utils/draftTitle';
+import { roundPairingEmails } from '../utils/notifications';
+import { seedPlayoff } from '../utils/playoffBracket';
+import { tournamentPlayers } from '../utils/swissPairings';
+import {
+  canConfirmResult,
+  canDisputeResult,
+  matchScore,
+  repairLaterRound,
+  reportedStatus,
+  toStoredResults,
+  withPairing,
+  withPlayoffPairing,
+  withStoredResults,
+} from '../utils/resultConfirmation';
+import { applyTimerAction, type RoundTimerAction } from '../utils/roundTimer';
+import { joinSmallestPod } from '../utils/tournamentFormats';
+import { quantityChanges, type LedgerChange } from '../utils/inventoryLedger';
+
+const isAdmin = () => useUserStore.getState().profile?.role === 'admin';
+
+type DraftChanges = Partial<Pick<Draft, 'players' | 'tournament'>>;
+
+/** A draft as stored, with its tournament's results put back on the pairings. */
+const readDraft = (snap: { id: string; data: () => DocumentData }): Draft => {
+  const draft = { id: snap.id, ...snap.data() } as Draft;
+  return draft.tournament ? { ...draft, tournament: withStoredResults(draft.tournament) } : draft;
+};
+
+/**
+ * What to write for `changes`: results move into the tournament's results map, and
+ * resultPairingId names the one a player changed, since that's all the rules let
+ * anyone but an admin change. Older tournaments keep results on their pairings.
+ */
+const storedChanges = (draft: Draft, changes: DraftChanges, resultPairingId?: string) => {
+  if (!changes.tournament || !draft.tournament?.results) return changes;
+  const players = tournamentPlayers({ ...draft, ...changes });
+  return {
+    ...changes,
+    tournament: toStoredResults(changes.tournament, players),
+    ...(resultPairingId ? { resultPairingId } : {}),
+  };
+};
+
+/**
+ * Reads the draft fresh inside a transaction and writes back whatever `update`
+ * returns (null to leave it alone). Firestore re-runs `update` if another device
+ * changes the draft before this commits, so concurrent edits build on each other
+ * instead of the last write winning — keep `update` free of side effects.
+ * Pass `resultPairingId` when the update reports, confirms or corrects that result.
+ */
+async function transactDraft(
+  draftId: string,
+  update: (draft: Draft) => DraftChanges | null,
+  resultPairingId?: string
+): Promise<DraftChanges | null> {
+  const ref = doc(db, 'drafts', draftId);
+  return runTransaction(db, async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) return null;
+    const stored = { id: snap.id, ...snap.data() } as Draft;
+    const changes = update(readDraft(snap));
+    if (changes) tx.update(ref, storedChanges(stored, changes, resultPairingId));
+    return changes;
+  });
+}
+
+const patchDraft = (drafts: Draft[], draftId: string, changes: DraftChanges) =>
+  drafts.map(d => (d.id === draftId ? { ...d, ...changes } : d));
+
+const findPairing = (draft: Draft, roundNumber: number, pairingId: string) =>
+  draft.tournament?.rounds.find(r => r.roundNumber === roundNumber)?.pairings.find(p => p.id === pairingId);
+
+/**
+ * Changes one playoff match: `update` gets the match as stored and returns its
+ * replacement, or null to leave it alone. The bracket then moves on as
+ * withPlayoffPairing describes, `annotate` can add to the tournament (it sees the match
+ * before the change and any round that was paired), and the players in a newly paired
+ * round are emailed.
+ */
+const transactPlayoffPairing = async (
+  draftId: string,
+  roundNumber: number,
+  pairingId: string,
+  update: (pairing: TournamentPairing, draft: Draft) => TournamentPairing | null,
+  annotate: (tournament: DraftTournament, previous: TournamentPairing, next: TournamentRound | null) => Partial<DraftTournament> = () => ({})
+): Promise<DraftChanges | null> => {
+  let next: TournamentRound | null = null;
+  let title = '';
+  let players: DraftPlayer[] = [];
+  const changes = await transactDraft(draftId, draft => {
+    const playoff = draft.tournament?.playoff;
+    const target = playoff?.rounds.find(r => r.roundNumber === roundNumber)?.pairings.find(p => p.id === pairingId);
+    if (!draft.tournament || !playoff || !target) return null;
+    const replacement = update(target, draft);
+    const updated = replacement && withPlayoffPairing(playoff, roundNumber, pairingId, () => replacement);
+    if (!updated) return null;
+    next = updated.next;
+    title = draftTitle(draft);
+    players = tournamentPlayers(draft);
+    return {
+      tournament: {
+        ...draft.tournament,
+        ...annotate(draft.tournament, target, updated.next),
+        playoff: updated.playoff,
+      },
+    };
+  }, pairingId);
+  if (changes && next) {
+    useNotificationStore.getState().notify('rounds', roundPairingEmails(`${title} playoffs`, players, next));
+  }
+  return changes;
+};
 
 interface DraftHistoryState {
   drafts: Draft[];
   loading: boolean;
   error: string | null;
+  _unsubscribe: (() => void) | null;
   loadDrafts: () => Promise<void>;
+  startListening: () => void;
   clearDrafts: () => void;
   saveDraft: (draft: Omit<Draft, 'id' | 'createdAt'>) => Promise<string>;
   deleteDraft: (draftId: string) => Promise<void>;
   markRestockComplete: (draftId: string) => Promise<void>;
   linkDraftPlayers: (draftId: string, players: Draft['players']) => Promise<void>;
   updateTournament: (draftId: string, tournament: Draft['tournament']) => Promise<void>;
+  saveSettlement: (draftId: string, settlement: DraftSettlement) => Promise<void>;
   submitResult: (draftId: string, roundNumber: number, pairingId: string, result: Omit<PairingResult, 'submittedBy' | 'submittedAt'>) => Promise<void>;
-  addRound: (draftId: string, pairings: TournamentPairing[]) => Promise<void>;
+  confirmResult: (draftId: string, roundNumber: number, pairingId: string) => Promise<void>;
+  disputeResult: (draftId: string, roundNumber: number, pairingId: string, note: string) => Promise<void>;
+  correctResult: (draftId: string, roundNumber: number, pairingId: string, result: Omit<PairingResult, 'submittedBy' | 'submittedAt'>) => Promise<void>;
+  addRound: (draftId: string, roundNumber: number, pairings: TournamentPairing[]) => Promise<void>;
+  setRoundTimer: (draftId: string, roundNumber: number, action: RoundTimerAction) => Promise<void>;
+  dropPlayer: (draftId: string, playerId: string, reason: string) => Promise<void>;
+  reinstatePlayer: (draftId: string, playerId: string) => Promise<void>;
+  addLateEntry: (draftId: string, player: Pick<DraftPlayer, 'name' | 'userId'>, missedRounds: TournamentLateEntry['missedRounds']) => Promise<void>;
+  startPlayoff: (draftId: string, size: TopCutSize) => Promise<void>;
+  submitPlayoffResult: (draftId: string, roundNumber: number, pairingId: string, result: Omit<PairingResult, 'submittedBy' | 'submittedAt'>) => Promise<void>;
+  confirmPlayoffResult: (draftId: string, roundNumber: number, pairingId: string) => Promise<void>;
+  disputePlayoffResult: (draftId: string, roundNumber: number, pairingId: string, note: string) => Promise<void>;
+  correctPlayoffResult: (draftId: string, roundNumber: number, pairingId: string, result: Omit<PairingResult, 'submittedBy' | 'submittedAt'>) => Promise<void>;
   finalizeTournament: (draftId: string, userId: string) => Promise<void>;
   setPlayerArchetype: (draftId: string, playerId: string, primary: MtgColor[], splash: MtgColor[]) => Promise<void>;
 }
@@ -38,6 +186,7 @@ export const useDraftHistoryStore = create<DraftHistoryState>((set, get) => ({
   drafts: [],
   loading: true,
   error: null,
+  _unsubscribe: null,
 
   loadDrafts: async () => {
     set({ loading: true, error: null });
@@ -45,7 +194,7 @@ export const useDraftHistoryStore = create<DraftHistoryState>((set, get) => ({
       // All approved users can see all drafts — no userId filter
       const q = query(collection(db, 'drafts'), orderBy('createdAt', 'desc'));
       const snap = await getDocs(q);
-      const drafts = snap.docs.map(d => ({ id: d.id, ...d.data() } as Draft));
+      const drafts = snap.docs.map(readDraft);
       set({ drafts, loading: false });
     } catch (err) {
       console.error('Error fetching draft history:', err);
@@ -53,7 +202,29 @@ export const useDraftHistoryStore = create<DraftHistoryState>((set, get) => ({
     }
   },
 
-  clearDrafts: () => set({ drafts: [], loading: false, error: null }),
+  // Keeps every draft current as other devices report results and pair rounds
+  startListening: () => {
+    get()._unsubscribe?.();
+    set({ loading: true, error: null });
+    const q = query(collection(db, 'drafts'), orderBy('createdAt', 'desc'));
+    const unsub = onSnapshot(
+      q,
+      (snap) => {
+        const drafts = snap.docs.map(readDraft);
+        set({ drafts, loading: false });
+      },
+      (error) => {
+        console.error('[draftHistoryStore] Failed to watch drafts:', error.code, error.message);
+        set({ error: 'Failed to load draft history.', loading: false });
+      }
+    );
+    set({ _unsubscribe: unsub });
+  },
+
+  clearDrafts: () => {
+    get()._unsubscribe?.();
+    set({ drafts: [], loading: false, error: null, _unsubscribe: null });
+  },
 
   saveDraft: async (draft) => {
     const docRef = await addDoc(collection(db, 'drafts'), {
@@ -71,8 +242,11 @@ export const useDraftHistoryStore = create<DraftHistoryState>((set, get) => ({
     const draftDoc = get().drafts.find(d => d.id === draftId);
     if (!draftDoc) return;
 
-    // For chaos drafts, revert inventory on delete
-    if (draftDoc.type === 'chaos' && draftDoc.packsSelectedOrder) {
+    // In-progress chaos sessions never touched inventory — just drop the document
+    if (draftDoc.status === 'in-progress') {
+      await deleteDoc(doc(db, 'drafts', draftId));
+    } else if (draftDoc.type === 'chaos' && draftDoc.packsSelectedOrder) {
+      // For chaos drafts, revert inventory on delete
       const packCounts = new Map<string, number>();
       for (const pack of draftDoc.packsSelectedOrder) {
         packCounts.set(pack.id, (packCounts.get(pack.id) || 0) + 1);
@@ -83,16 +257,26 @@ export const useDraftHistoryStore = create<DraftHistoryState>((set, get) => ({
         const draftSnap = await transaction.get(draftDocRef);
         if (!draftSnap.exists()) throw new Error('Draft not found.');
 
-        const updates: { ref: ReturnType<typeof doc>; newQty: number }[] = [];
+        const updates: { ref: ReturnType<typeof doc>; newQty: number; ledger: LedgerChange[] }[] = [];
         for (const [packId, count] of packCounts.entries()) {
           const packDocRef = doc(db, 'packs', packId);
           const packSnap = await transaction.get(packDocRef);
           if (packSnap.exists()) {
-            updates.push({ ref: packDocRef, newQty: (packSnap.data().inPerson || 0) + count });
+            const pack = packSnap.data() as Pack;
+            const newQty = (pack.inPerson || 0) + count;
+            const ledger = quantityChanges(
+              packLedgerItem(packId, pack),
+              { inPerson: pack.inPerson || 0 },
+              { inPerson: newQty },
+              'draft-restore',
+              { draftId }
+            );
+            updates.push({ ref: packDocRef, newQty, ledger });
           }
         }
-        for (const { ref, newQty } of updates) {
+        for (const { ref, newQty, ledger } of updates) {
           transaction.update(ref, { inPerson: newQty });
+          queueLedgerWrites(transaction, ledger);
         }
         transaction.delete(draftDocRef);
       });
@@ -100,7 +284,8 @@ export const useDraftHistoryStore = create<DraftHistoryState>((set, get) => ({
       useInventoryStore.getState().loadPacks();
     } else {
       if (draftDoc.status === 'finalized' && draftDoc.allocation?.length) {
-        await usePrivateInventoryStore.getState().batchRestore(draftDoc.allocation);
+        await usePrivateInventoryStore.getState().batchRestore(draftDoc.allocation, draftId);
+        await useInventoryStore.getState().restoreAllocation(draftDoc.allocation, draftId);
       }
       await runTransaction(db, async (transaction) => {
         const draftDocRef = doc(db, 'drafts', draftId);
@@ -127,6 +312,13 @@ export const useDraftHistoryStore = create<DraftHistoryState>((set, get) => ({
     }));
   },
 
+  saveSettlement: async (draftId, settlement) => {
+    await updateDoc(doc(db, 'drafts', draftId), { settlement });
+    set(state => ({
+      drafts: state.drafts.map(d => d.id === draftId ? { ...d, settlement } : d),
+    }));
+  },
+
   updateTournament: async (draftId, tournament) => {
     await updateDoc(doc(db, 'drafts', draftId), { tournament });
     set(state => ({
@@ -135,103 +327,361 @@ export const useDraftHistoryStore = create<DraftHistoryState>((set, get) => ({
   },
 
   submitResult: async (draftId, roundNumber, pairingId, result) => {
-    const draft = get().drafts.find(d => d.id === draftId);
-    if (!draft?.tournament) return;
-
-    const targetRound = draft.tournament.rounds.find(r => r.roundNumber === roundNumber);
-    if (!targetRound) return;
-    const targetPairing = targetRound.pairings.find(p => p.id === pairingId);
-    if (!targetPairing || targetPairing.result) return;
-
+    const uid = auth.currentUser?.uid ?? '';
+    const status = reportedStatus(isAdmin());
     const fullResult: PairingResult = {
       ...result,
-      submittedBy: auth.currentUser?.uid ?? '',
+      submittedBy: uid,
       submittedAt: Timestamp.now(),
+      ...(status === 'complete' ? { confirmedBy: uid, confirmedAt: Timestamp.now() } : {}),
     };
 
-    const updatedTournament = {
-      ...draft.tournament,
-      rounds: draft.tournament.rounds.map(round => {
-        if (round.roundNumber !== roundNumber) return round;
-        const updatedPairings = round.pairings.map(p =>
-          p.id !== pairingId ? p : { ...p, result: fullResult, status: 'complete' as const }
-        );
-        const nonByePairings = updatedPairings.filter(p => p.player2Id !== null);
-        const allComplete = nonByePairings.length > 0 && nonByePairings.every(p => p.status === 'complete');
-        return { ...round, pairings: updatedPairings, status: allComplete ? 'complete' as const : 'active' as const };
-      }),
-    };
+    const changes = await transactDraft(draftId, draft => {
+      const targetPairing = findPairing(draft, roundNumber, pairingId);
+      // Whoever reports first wins; a second report is dropped rather than overwriting it
+      if (!draft.tournament || !targetPairing || targetPairing.result) return null;
+      return {
+        tournament: {
+          ...draft.tournament,
+          rounds: draft.tournament.rounds.map(round => round.roundNumber !== roundNumber ? round
+            : withPairing(round, pairingId, p => ({ ...p, result: fullResult, status }))),
+        },
+      };
+    }, pairingId);
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
 
-    await updateDoc(doc(db, 'drafts', draftId), { tournament: updatedTournament });
-    set(state => ({
-      drafts: state.drafts.map(d => d.id === draftId ? { ...d, tournament: updatedTournament } : d),
-    }));
+  confirmResult: async (draftId, roundNumber, pairingId) => {
+    const uid = auth.currentUser?.uid;
+    const admin = isAdmin();
+
+    const changes = await transactDraft(draftId, draft => {
+      const targetPairing = findPairing(draft, roundNumber, pairingId);
+      if (!draft.tournament || !targetPairing || !canConfirmResult(targetPairing, tournamentPlayers(draft), uid, admin)) {
+        return null;
+      }
+      return {
+        tournament: {
+          ...draft.tournament,
+          rounds: draft.tournament.rounds.map(round => round.roundNumber !== roundNumber ? round
+            : withPairing(round, pairingId, p => ({
+              ...p,
+              result: { ...p.result!, confirmedBy: uid!, confirmedAt: Timestamp.now() },
+              status: 'complete',
+            }))),
+        },
+      };
+    }, pairingId);
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
   },
 
-  addRound: async (draftId, pairings) => {
-    const draft = get().drafts.find(d => d.id === draftId);
-    if (!draft?.tournament) return;
+  disputeResult: async (draftId, roundNumber, pairingId, note) => {
+    const uid = auth.currentUser?.uid;
 
-    const nextRoundNumber = draft.tournament.currentRound + 1;
-    const newRound: TournamentRound = {
-      roundNumber: nextRoundNumber,
-      pairings,
-      status: 'active',
-    };
-    const updatedTournament = {
-      ...draft.tournament,
-      rounds: [...draft.tournament.rounds, newRound],
-      currentRound: nextRoundNumber,
+    const changes = await transactDraft(draftId, draft => {
+      const targetPairing = findPairing(draft, roundNumber, pairingId);
+      if (!draft.tournament || !targetPairing || !canDisputeResult(targetPairing, tournamentPlayers(draft), uid)) {
+        return null;
+      }
+      return {
+        tournament: {
+          ...draft.tournament,
+          rounds: draft.tournament.rounds.map(round => round.roundNumber !== roundNumber ? round
+            : withPairing(round, pairingId, p => ({
+              ...p,
+              result: { ...p.result!, disputedBy: uid!, ...(note.trim() ? { disputeNote: note.trim() } : {}) },
+              status: 'disputed',
+            }))),
+        },
+      };
+    }, pairingId);
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  correctResult: async (draftId, roundNumber, pairingId, result) => {
+    if (!isAdmin()) return;
+    const uid = auth.currentUser?.uid ?? '';
+    const now = Timestamp.now();
+    const corrected: PairingResult = {
+      ...result,
+      submittedBy: uid,
+      submittedAt: now,
+      confirmedBy: uid,
+      confirmedAt: now,
     };
 
-    await updateDoc(doc(db, 'drafts', draftId), { tournament: updatedTournament });
-    set(state => ({
-      drafts: state.drafts.map(d => d.id === draftId ? { ...d, tournament: updatedTournament } : d),
-    }));
+    let repaired: TournamentRound | null = null;
+    let title = '';
+    let players: DraftPlayer[] = [];
+    const changes = await transactDraft(draftId, draft => {
+      const targetPairing = findPairing(draft, roundNumber, pairingId);
+      if (!draft.tournament || !targetPairing || targetPairing.player2Id === null) return null;
+
+      const rounds = draft.tournament.rounds.map(round => round.roundNumber !== roundNumber ? round
+        : withPairing(round, pairingId, p => ({ ...p, result: corrected, status: 'complete' })));
+      // Standings follow from the results; a later round nobody has played yet is re-paired
+      title = draftTitle(draft);
+      players = tournamentPlayers(draft);
+      repaired = repairLaterRound(players, { ...draft.tournament, rounds }, roundNumber);
+      const repairedRound = repaired?.roundNumber;
+      const correction: TournamentCorrection = {
+        roundNumber,
+        pairingId,
+        previous: targetPairing.result ? matchScore(targetPairing.result) : null,
+        result: matchScore(corrected),
+        correctedBy: uid,
+        correctedAt: now,
+        atRound: draft.tournament.currentRound,
+        ...(repairedRound !== undefined ? { repairedRound } : {}),
+      };
+      return {
+        tournament: {
+          ...draft.tournament,
+          rounds: repaired ? rounds.map(r => r.roundNumber === repairedRound ? repaired! : r) : rounds,
+          corrections: [...(draft.tournament.corrections ?? []), correction],
+        },
+      };
+    }, pairingId);
+    if (!changes) return;
+    if (repaired) {
+      useNotificationStore.getState().notify('rounds', roundPairingEmails(title, players, repaired));
+    }
+    set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
   },
 
-  finalizeTournament: async (draftId, userId) => {
-    const draft = get().drafts.find(d => d.id === draftId);
-    if (!draft?.tournament) return;
-
-    const updatedTournament = {
-      ...draft.tournament,
-      status: 'finalized' as const,
-      finalizedAt: Timestamp.now(),
-      finalizedBy: userId,
+  addRound: async (draftId, roundNumber, pairings) => {
+    let newRound: TournamentRound | null = null;
+    let title = '';
+    let players: DraftPlayer[] = [];
+    const changes = await transactDraft(draftId, draft => {
+      // The pairings were made for this round; if someone else has paired it since, theirs stand
+      if (!draft.tournament || draft.tournament.currentRound !== roundNumber - 1) return null;
+      newRound = { roundNumber, pairings, status: 'active' };
+      title = draftTitle(draft);
+      players = tournamentPlayers(draft);
+      return {
+        tournament: {
+          ...draft.tournament,
+          rounds: [...draft.tournament.rounds, newRound],
+          currentRound: roundNumber,
+        },
+      };
+    });
+    if (!changes || !newRound) return;
+    useNotificationStore.getState().notify('rounds', roundPairingEmails(title, players, newRound));
+    set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  setRoundTimer: async (draftId, roundNumber, action) => {
+    await useServerClockStore.getState().sync();
+    const now = serverNow();
+    const changes = await transactDraft(draftId, draft => {
+      if (!draft.tournament) return null;
+      return {
+        tournament: {
+          ...draft.tournament,
+          rounds: draft.tournament.rounds.map(round => {
+            if (round.roundNumber !== roundNumber) return round;
+            const timer = applyTimerAction(round.timer, action, now);
+            return timer ? { ...round, timer } : round;
+          }),
+        },
+      };
+    });
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  dropPlayer: async (draftId, playerId, reason) => {
+    const changes = await transactDraft(draftId, draft => {
+      if (!draft.tournament) return null;
+      const drops = draft.tournament.drops ?? [];
+      if (drops.some(d => d.playerId === playerId)) return null;
+
+      // They finish the round in progress and aren't paired after it
+      const drop: TournamentDrop = {
+        playerId,
+        afterRound: draft.tournament.currentRound,
+        ...(reason.trim() ? { reason: reason.trim() } : {}),
+        droppedAt: Timestamp.now(),
+      };
+      return { tournament: { ...draft.tournament, drops: [...drops, drop] } };
+    });
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  reinstatePlayer: async (draftId, playerId) => {
+    const changes = await transactDraft(draftId, draft => {
+      if (!draft.tournament?.drops) return null;
+      return {
+        tournament: {
+          ...draft.tournament,
+          drops: draft.tournament.drops.filter(d => d.playerId !== playerId),
+        },
+      };
+    });
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  addLateEntry: async (draftId, player, missedRounds) => {
+    const changes = await transactDraft(draftId, draft => {
+      // A round-robin's schedule is fixed when it starts
+      if (!draft.tournament || draft.tournament.playoff || draft.tournament.format === 'round-robin') return null;
+
+      // Player ids are positional ("player-3"); late entries carry on the numbering
+      const everyone = tournamentPlayers(draft);
+      const taken = new Set(everyone.map(p => p.id));
+      let n = everyone.length + 1;
+      while (taken.has(`player-${n}`)) n++;
+      const entry: TournamentLateEntry = {
+        player: { id: `player-${n}`, name: player.name, userId: player.userId },
+        joinedRound: draft.tournament.currentRound + 1,
+        missedRounds,
+      };
+      return {
+        tournament: {
+          ...draft.tournament,
+          lateEntries: [...(draft.tournament.lateEntries ?? []), entry],
+          ...(draft.tournament.pods ? { pods: joinSmallestPod(draft.tournament.pods, entry.player.id) } : {}),
+        },
+      };
+    });
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  startPlayoff: async (draftId, size) => {
+    let title = '';
+    let players: DraftPlayer[] = [];
+    const changes = await transactDraft(draftId, draft => {
+      if (!draft.tournament || draft.tournament.playoff) return null;
+      title = draftTitle(draft);
+      players = tournamentPlayers(draft);
+      const playoff = seedPlayoff(players, draft.tournament.rounds, size, draft.tournament);
+      return { tournament: { ...draft.tournament, playoff } };
+    });
+    const playoff = changes?.tournament?.playoff;
+    if (!changes || !playoff) return;
+    useNotificationStore.getState().notify(
+      'rounds',
+      roundPairingEmails(`${title} playoffs`, players, playoff.rounds[0])
+    );
+    set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  submitPlayoffResult: async (draftId, roundNumber, pairingId, result) => {
+    // Single elimination needs a winner
+    if (result.matchWinner === 'tie') return;
+    const uid = auth.currentUser?.uid ?? '';
+    const status = reportedStatus(isAdmin());
+    const fullResult: PairingResult = {
+      ...result,
+      submittedBy: uid,
+      submittedAt: Timestamp.now(),
+      ...(status === 'complete' ? { confirmedBy: uid, confirmedAt: Timestamp.now() } : {}),
     };
 
-    await updateDoc(doc(db, 'drafts', draftId), { tournament: updatedTournament });
-    set(state => ({
-      drafts: state.drafts.map(d => d.id === draftId ? { ...d, tournament: updatedTournament } : d),
-    }));
+    // As in the Swiss rounds, the first report stands until it's confirmed or disputed
+    const changes = await transactPlayoffPairing(draftId, roundNumber, pairingId, p =>
+      p.result ? null : { ...p, result: fullResult, status });
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
   },
 
-  setPlayerArchetype: async (draftId, playerId, primary, splash) => {
-    const draft = get().drafts.find(d => d.id === draftId);
-    if (!draft) return;
+  confirmPlayoffResult: async (draftId, roundNumber, pairingId) => {
+    const uid = auth.currentUser?.uid;
+    const admin = isAdmin();
 
-    const sortedPrimary = sortColors(primary);
-    const sortedSplash = sortColors(splash);
+    const changes = await transactPlayoffPairing(draftId, roundNumber, pairingId, (p, draft) =>
+      canConfirmResult(p, tournamentPlayers(draft), uid, admin)
+        ? { ...p, result: { ...p.result!, confirmedBy: uid!, confirmedAt: Timestamp.now() }, status: 'complete' }
+        : null);
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  disputePlayoffResult: async (draftId, roundNumber, pairingId, note) => {
+    const uid = auth.currentUser?.uid;
+
+    const changes = await transactPlayoffPairing(draftId, roundNumber, pairingId, (p, draft) =>
+      canDisputeResult(p, tournamentPlayers(draft), uid)
+        ? {
+          ...p,
+          result: { ...p.result!, disputedBy: uid!, ...(note.trim() ? { disputeNote: note.trim() } : {}) },
+          status: 'disputed',
+        }
+        : null);
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  correctPlayoffResult: async (draftId, roundNumber, pairingId, result) => {
+    if (!isAdmin() || result.matchWinner === 'tie') return;
+    const uid = auth.currentUser?.uid ?? '';
+    const now = Timestamp.now();
+    const corrected: PairingResult = {
+      ...result,
+      submittedBy: uid,
+      submittedAt: now,
+      confirmedBy: uid,
+      confirmedAt: now,
+    };
 
-    const updatedPlayers: DraftPlayer[] = (draft.players ?? []).map(p => {
-      if (p.id !== playerId) return p;
-      if (sortedPrimary.length === 0) {
-        return { id: p.id, name: p.name, userId: p.userId };
+    const changes = await transactPlayoffPairing(
+      draftId,
+      roundNumber,
+      pairingId,
+      p => ({ ...p, result: corrected, status: 'complete' }),
+      (tournament, previous, next) => {
+        // Only a round that had already been paired counts as paired again
+        const repairedRound = tournament.playoff!.rounds.some(r => r.roundNumber === next?.roundNumber)
+          ? next!.roundNumber
+          : undefined;
+        const correction: TournamentCorrection = {
+          roundNumber,
+          pairingId,
+          previous: previous.result ? matchScore(previous.result) : null,
+          result: matchScore(corrected),
+          correctedBy: uid,
+          correctedAt: now,
+          atRound: tournament.currentRound,
+          ...(repairedRound !== undefined ? { repairedRound } : {}),
+          playoff: true,
+        };
+        return { corrections: [...(tournament.corrections ?? []), correction] };
       }
-      const { splashColors: _old, ...rest } = p;
+    );
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
+
+  finalizeTournament: async (draftId, userId) => {
+    const changes = await transactDraft(draftId, draft => {
+      if (!draft.tournament) return null;
       return {
-        ...rest,
-        primaryColors: sortedPrimary,
-        ...(sortedSplash.length > 0 ? { splashColors: sortedSplash } : {}),
+        tournament: {
+          ...draft.tournament,
+          status: 'finalized',
+          finalizedAt: Timestamp.now(),
+          finalizedBy: userId,
+        },
       };
     });
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
+  },
 
-    await updateDoc(doc(db, 'drafts', draftId), { players: updatedPlayers });
-    set(state => ({
-      drafts: state.drafts.map(d =>
-        d.id === draftId ? { ...d, players: updatedPlayers } : d,
-      ),
+  setPlayerArchetype: async (draftId, playerId, primary, splash) => {
+    const sortedPrimary = sortColors(primary);
+    const sortedSplash = sortColors(splash);
+
+    const changes = await transactDraft(draftId, draft => ({
+      players: (draft.players ?? []).map(p => {
+        if (p.id !== playerId) return p;
+        if (sortedPrimary.length === 0) {
+          return { id: p.id, name: p.name, userId: p.userId };
+        }
+        const { splashColors: _old, ...rest } = p;
+        return {
+          ...rest,
+          primaryColors: sortedPrimary,
+          ...(sortedSplash.length > 0 ? { splashColors: sortedSplash } : {}),
+        };
+      }),
     }));
+    if (changes) set(state => ({ drafts: patchDraft(state.drafts, draftId, changes) }));
   },
 }));
@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+import {
+  addDoc,
+  collection,
+  deleteField,
+  doc,
+  getDocs,
+  serverTimestamp,
+  updateDoc,
+  type FieldValue,
+} from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import type { DraftEvent, DraftEventStatus } from '../types';
+import { useUserStore } from './userStore';
+
+export type NewDraftEvent = Omit<DraftEvent, 'id' | 'rsvps' | 'status' | 'createdBy' | 'createdAt'>;
+
+interface EventStore {
+  events: DraftEvent[];
+  isLoading: boolean;
+  loadEvents: () => Promise<void>;
+  createEvent: (event: NewDraftEvent) => Promise<void>;
+  setSeatCap: (eventId: string, seatCap: number) => Promise<void>;
+  setStatus: (eventId: string, status: DraftEventStatus) => Promise<void>;
+  rsvp: (eventId: string) => Promise<void>;
+  withdraw: (eventId: string) => Promise<void>;
+}
+
+const eventsCollectionRef = collection(db, 'events');
+
+export const useEventStore = create<EventStore>((set, get) => {
+  // Each player writes only their own rsvps.<uid> entry; seats are worked out on read
+  // from the server-stamped response times, so two people taking the last seat can't
+  // both get it (see utils/eventRsvp)
+  const setRsvp = async (eventId: string, uid: string, entry: FieldValue | { name: string; respondedAt: FieldValue }) => {
+    await updateDoc(doc(db, 'events', eventId), { [`rsvps.${uid}`]: entry });
+    await get().loadEvents();
+  };
+
+  return {
+    events: [],
+    isLoading: false,
+
+    loadEvents: async () => {
+      set({ isLoading: true });
+      try {
+        const snap = await getDocs(eventsCollectionRef);
+        const events = snap.docs.map(d => ({ id: d.id, ...d.data() } as DraftEvent));
+        events.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+        set({ events, isLoading: false });
+      } catch (err) {
+        console.error('Failed to load events:', err);
+        set({ isLoading: false });
+      }
+    },
+
+    createEvent: async (event) => {
+      const uid = auth.currentUser?.uid;
+      if (!uid) throw new Error('Not authenticated');
+      await addDoc(eventsCollectionRef, {
+        ...Object.fromEntries(Object.entries(event).filter(([, v]) => v !== undefined)),
+        rsvps: {},
+        status: 'scheduled',
+        createdBy: uid,
+        createdAt: serverTimestamp(),
+      });
+      await get().loadEvents();
+    },
+
+    setSeatCap: async (eventId, seatCap) => {
+      await updateDoc(doc(db, 'events', eventId), { seatCap });
+      set(state => ({ events: state.events.map(e => (e.id === eventId ? { ...e, seatCap } : e)) }));
+    },
+
+    setStatus: async (eventId, status) => {
+      await updateDoc(doc(db, 'events', eventId), { status });
+      set(state => ({ events: state.events.map(e => (e.id === eventId ? { ...e, status } : e)) }));
+    },
+
+    rsvp: async (eventId) => {
+      const uid = auth.currentUser?.uid;
+      const name = useUserStore.getState().profile?.name;
+      if (!uid || !name) throw new Error('Not authenticated');
+      // A repeat RSVP keeps its original place
+      if (get().events.find(e => e.id === eventId)?.rsvps[uid]) return;
+      await setRsvp(eventId, uid, { name, respondedAt: serverTimestamp() });
+    },
+
+    withdraw: async (eventId) => {
+      const uid = auth.currentUser?.uid;
+      if (!uid) throw new Error('Not authenticated');
+      await setRsvp(eventId, uid, deleteField());
+    },
+  };
+});
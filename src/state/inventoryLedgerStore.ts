@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  type DocumentData,
+  type DocumentReference,
+} from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import type { InventoryLedgerEntry } from '../types';
+import type { LedgerChange } from '../utils/inventoryLedger';
+
+const ledgerCollectionRef = collection(db, 'inventoryLedger');
+
+/**
+ * Queues ledger documents for `changes` on the same batch or transaction as the quantity
+ * update they describe, so the ledger can't miss (or invent) a committed change.
+ */
+export const queueLedgerWrites = (
+  writer: { set: (ref: DocumentReference, data: DocumentData) => unknown },
+  changes: LedgerChange[]
+) => {
+  const actorId = auth.currentUser?.uid ?? '';
+  for (const change of changes) {
+    writer.set(doc(ledgerCollectionRef), { ...change, actorId, createdAt: serverTimestamp() });
+  }
+};
+
+interface InventoryLedgerStore {
+  entries: InventoryLedgerEntry[];
+  isLoading: boolean;
+  loadItemHistory: (itemId: string) => Promise<void>;
+}
+
+export const useInventoryLedgerStore = create<InventoryLedgerStore>((set) => ({
+  entries: [],
+  isLoading: false,
+
+  loadItemHistory: async (itemId) => {
+    set({ entries: [], isLoading: true });
+    try {
+      // Sorted client-side (see utils/inventoryLedger) to avoid a composite index
+      const snap = await getDocs(query(ledgerCollectionRef, where('itemId', '==', itemId)));
+      const entries = snap.docs.map(d => ({ id: d.id, ...d.data() } as InventoryLedgerEntry));
+      set({ entries, isLoading: false });
+    } catch (err) {
+      console.error('Failed to load inventory history:', err);
+      set({ isLoading: false });
+    }
+  },
+}));
@@ -2,10 +2,7 @@ import { create } from "zustand";
 import {
   collection,
   getDocs,
-  addDoc,
   doc,
-  updateDoc,
-  deleteDoc,
   where,
   query,
   runTransaction,
@@ -13,6 +10,11 @@ import {
   getDoc,
 } from "firebase/firestore";
 import { db, auth } from "../firebase";
+import type { DraftAllocationEntry } from "../types";
+import type { ImportChange } from "../utils/inventoryImport";
+import { quantityChanges, type LedgerChange, type LedgerItem } from "../utils/inventoryLedger";
+import { queueLedgerWrites } from "./inventoryLedgerStore";
+import { commitInBatches, type WriteGroup } from "./batchedWrites";
 
 export interface Pack {
   id: string; // Firestore document ID (string)
@@ -22,6 +24,12 @@ export interface Pack {
   inTransit: number;
   ownerId: string; // ID of the user who owns this pack
   catalogId: string; // reference to packCatalog doc — required after migration
+  // Chaos wheel rules (see utils/chaosDraw)
+  weightMultiplier?: number; // >1 boosts, <1 dampens; defaults to 1
+  excludeFromWheel?: boolean;
+  onePerPlayer?: boolean; // a player may receive at most one pack flagged this way
+  targetStock?: number; // restock planner tops available + in transit up to this; 0 = none
+  unitCost?: number; // what a pack cost, in dollars; used to settle up after drafts
 }
 
 interface InventoryState {
@@ -32,11 +40,63 @@ interface InventoryState {
   deletePack: (id: string) => Promise<void>;
   loadPacks: () => Promise<void>;
   clearAll: () => Promise<void>;
-  confirmSessionPicks: (selectedPacks: Pack[]) => Promise<void>;
+  // `finalDraft` is merged into drafts/{draftId} in the same transaction
+  confirmSessionPicks: (selectedPacks: Pack[], draftId: string, finalDraft: Record<string, unknown>) => Promise<void>;
+  deductAllocation: (allocation: DraftAllocationEntry[], draftId?: string) => Promise<void>;
+  restoreAllocation: (allocation: DraftAllocationEntry[], draftId?: string) => Promise<void>;
+  importPacks: (changes: ImportChange<Pack>[]) => Promise<void>;
 }
 
 const packsCollectionRef = collection(db, "packs");
 
+export const packLedgerItem = (
+  id: string,
+  pack: { catalogId?: string; name: string; ownerId: string }
+): LedgerItem => ({
+  inventory: "chaos",
+  itemId: id,
+  catalogId: pack.catalogId ?? "",
+  name: pack.name,
+  ownerId: pack.ownerId,
+});
+
+// Moves a regular draft's chaos-inventory allocation entries (those with a packId)
+// out of or back into Available, in one transaction
+const applyAllocation = async (
+  allocation: DraftAllocationEntry[],
+  sign: 1 | -1,
+  draftId?: string
+) => {
+  const packCounts = new Map<string, number>();
+  for (const entry of allocation) {
+    if (entry.packId) packCounts.set(entry.packId, (packCounts.get(entry.packId) || 0) + entry.count);
+  }
+  if (packCounts.size === 0) return;
+
+  await runTransaction(db, async (transaction) => {
+    const updates: { ref: ReturnType<typeof doc>; inPerson: number; ledger: LedgerChange[] }[] = [];
+    for (const [packId, count] of packCounts.entries()) {
+      const ref = doc(db, "packs", packId);
+      const snap = await transaction.get(ref);
+      if (!snap.exists()) continue;
+      const pack = snap.data() as Omit<Pack, "id">;
+      const inPerson = Math.max(0, (pack.inPerson || 0) + sign * count);
+      const ledger = quantityChanges(
+        packLedgerItem(packId, pack),
+        { inPerson: pack.inPerson || 0 },
+        { inPerson },
+        sign < 0 ? "draft-allocation" : "draft-restore",
+        { draftId }
+      );
+      updates.push({ ref, inPerson, ledger });
+    }
+    for (const { ref, inPerson, ledger } of updates) {
+      transaction.update(ref, { inPerson });
+      queueLedgerWrites(transaction, ledger);
+    }
+  });
+};
+
 export const useInventoryStore = create<InventoryState>((set, get) => ({
   packs: [],
   loading: true,
@@ -73,20 +133,38 @@ export const useInventoryStore = create<InventoryState>((set, get) => ({
         where('catalogId', '==', pack.catalogId)
       );
       const querySnapshot = await getDocs(q);
+      const batch = writeBatch(db);
 
       if (!querySnapshot.empty) {
         const existingDoc = querySnapshot.docs[0];
         const existingPack = existingDoc.data() as Omit<Pack, 'id'>;
-        await updateDoc(doc(db, 'packs', existingDoc.id), {
+        const updated = {
           inPerson: existingPack.inPerson + pack.inPerson,
           inTransit: existingPack.inTransit + pack.inTransit,
+        };
+        batch.update(doc(db, 'packs', existingDoc.id), {
+          ...updated,
           imageUrl: pack.imageUrl,
           name: pack.name,
         });
+        queueLedgerWrites(batch, quantityChanges(
+          packLedgerItem(existingDoc.id, { ...pack, ownerId: userId }),
+          existingPack,
+          updated,
+          'added'
+        ));
       } else {
-        await addDoc(packsCollectionRef, { ...pack, ownerId: userId });
+        const newDocRef = doc(packsCollectionRef);
+        batch.set(newDocRef, { ...pack, ownerId: userId });
+        queueLedgerWrites(batch, quantityChanges(
+          packLedgerItem(newDocRef.id, { ...pack, ownerId: userId }),
+          {},
+          { inPerson: pack.inPerson, inTransit: pack.inTransit },
+          'added'
+        ));
       }
 
+      await batch.commit();
       await get().loadPacks();
     } catch (error) {
       console.error('Error adding pack: ', error);
@@ -103,7 +181,17 @@ export const useInventoryStore = create<InventoryState>((set, get) => ({
     try {
       const docRef = doc(db, "packs", pack.id);
       const { id, ownerId, ...packData } = pack;
-      await updateDoc(docRef, packData);
+      await runTransaction(db, async (transaction) => {
+        const snap = await transaction.get(docRef);
+        if (!snap.exists()) throw new Error(`Pack ${id} not found.`);
+        transaction.update(docRef, packData);
+        queueLedgerWrites(transaction, quantityChanges(
+          packLedgerItem(id, { ...pack, ownerId }),
+          snap.data() as Pack,
+          { inPerson: pack.inPerson, inTransit: pack.inTransit },
+          "manual"
+        ));
+      });
       await get().loadPacks(); // Refresh state
     } catch (error) {
       console.error("Error updating pack: ", error);
@@ -118,7 +206,16 @@ export const useInventoryStore = create<InventoryState>((set, get) => ({
       const docRef = doc(db, "packs", id);
       const docSnap = await getDoc(docRef);
       if (docSnap.exists() && docSnap.data().ownerId === userId) {
-        await deleteDoc(docRef);
+        const pack = docSnap.data() as Omit<Pack, "id">;
+        const batch = writeBatch(db);
+        batch.delete(docRef);
+        queueLedgerWrites(batch, quantityChanges(
+          packLedgerItem(id, pack),
+          pack,
+          { inPerson: 0, inTransit: 0 },
+          "deleted"
+        ));
+        await batch.commit();
         set((state) => ({ packs: state.packs.filter((p) => p.id !== id) }));
       } else {
         console.error("No such document or permission denied.");
@@ -136,11 +233,16 @@ export const useInventoryStore = create<InventoryState>((set, get) => ({
       const q = query(packsCollectionRef, where("ownerId", "==", userId));
       const querySnapshot = await getDocs(q);
 
-      const batch = writeBatch(db);
-      querySnapshot.docs.forEach((doc) => {
+      await commitInBatches(querySnapshot.docs, (batch, doc) => {
+        const pack = doc.data() as Omit<Pack, "id">;
         batch.delete(doc.ref);
+        queueLedgerWrites(batch, quantityChanges(
+          packLedgerItem(doc.id, pack),
+          pack,
+          { inPerson: 0, inTransit: 0 },
+          "deleted"
+        ));
       });
-      await batch.commit();
 
       set({ packs: [] });
     } catch (error) {
@@ -148,7 +250,9 @@ export const useInventoryStore = create<InventoryState>((set, get) => ({
     }
   },
 
-  confirmSessionPicks: async (selectedPacks) => {
+  // Deducts the picks and finalizes the draft together. A draft that is already
+  // finalized is left alone, so retrying after a failure never deducts twice
+  confirmSessionPicks: async (selectedPacks, draftId, finalDraft) => {
     const userId = auth.currentUser?.uid;
     if (!userId) return;
 
@@ -157,38 +261,105 @@ export const useInventoryStore = create<InventoryState>((set, get) => ({
       packCounts.set(pack.id, (packCounts.get(pack.id) || 0) + 1);
     }
 
-    try {
-      await runTransaction(db, async (transaction) => {
-        const docsToUpdate: {
-          docRef: any;
-          newQuantity: number;
-        }[] = [];
-
-        // 1. READS FIRST
-        for (const [packId, numPicked] of packCounts.entries()) {
-          const docRef = doc(db, "packs", packId);
-          const packDoc = await transaction.get(docRef);
-
-          if (!packDoc.exists() || packDoc.data().ownerId !== userId) {
-            throw new Error(`Pack ${packId} not found or permission denied.`);
-          }
-
-          const newQuantity = Math.max(
-            0,
-            packDoc.data().inPerson - numPicked
-          );
-          docsToUpdate.push({ docRef, newQuantity });
-        }
+    await runTransaction(db, async (transaction) => {
+      const docsToUpdate: {
+        docRef: any;
+        newQuantity: number;
+        ledger: LedgerChange[];
+      }[] = [];
+
+      // 1. READS FIRST
+      const draftRef = doc(db, "drafts", draftId);
+      const draftDoc = await transaction.get(draftRef);
+      if (draftDoc.data()?.status === "finalized") return;
 
-        // 2. WRITES SECOND
-        for (const { docRef, newQuantity } of docsToUpdate) {
-          transaction.update(docRef, { inPerson: newQuantity });
+      for (const [packId, numPicked] of packCounts.entries()) {
+        const docRef = doc(db, "packs", packId);
+        const packDoc = await transaction.get(docRef);
+
+        if (!packDoc.exists() || packDoc.data().ownerId !== userId) {
+          throw new Error(`Pack ${packId} not found or permission denied.`);
         }
-      });
 
-      await get().loadPacks(); // Refresh state after transaction
+        const pack = packDoc.data() as Omit<Pack, "id">;
+        const newQuantity = Math.max(
+          0,
+          pack.inPerson - numPicked
+        );
+        const ledger = quantityChanges(
+          packLedgerItem(packId, pack),
+          pack,
+          { inPerson: newQuantity },
+          "draft-pick",
+          { draftId }
+        );
+        docsToUpdate.push({ docRef, newQuantity, ledger });
+      }
+
+      // 2. WRITES SECOND
+      for (const { docRef, newQuantity, ledger } of docsToUpdate) {
+        transaction.update(docRef, { inPerson: newQuantity });
+        queueLedgerWrites(transaction, ledger);
+      }
+      transaction.set(draftRef, finalDraft, { merge: true });
+    });
+
+    await get().loadPacks(); // Refresh state after transaction
+  },
+
+  deductAllocation: async (allocation, draftId) => {
+    await applyAllocation(allocation, -1, draftId);
+    await get().loadPacks();
+  },
+
+  restoreAllocation: async (allocation, draftId) => {
+    await applyAllocation(allocation, 1, draftId);
+    await get().loadPacks();
+  },
+
+  // Applies a CSV import plan. Large files span several batches; the counts are set
+  // rather than added, so importing the file again finishes one that stopped part-way
+  importPacks: async (changes) => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+
+    const queueChange = (batch: WriteGroup, change: ImportChange<Pack>) => {
+      const counts = { inPerson: change.inPerson, inTransit: change.inTransit };
+      if (change.kind === "add" && change.match) {
+        const { entry } = change.match;
+        const newDocRef = doc(packsCollectionRef);
+        batch.set(newDocRef, {
+          catalogId: entry.id,
+          name: entry.name,
+          imageUrl: change.rows.find((r) => r.imageUrl)?.imageUrl || entry.imageUrl,
+          ...counts,
+          ownerId: userId,
+        });
+        queueLedgerWrites(batch, quantityChanges(
+          packLedgerItem(newDocRef.id, { catalogId: entry.id, name: entry.name, ownerId: userId }),
+          {},
+          counts,
+          "import"
+        ));
+      } else if (change.kind === "update" && change.existing) {
+        batch.update(doc(db, "packs", change.existing.id), counts);
+        queueLedgerWrites(batch, quantityChanges(
+          packLedgerItem(change.existing.id, change.existing),
+          change.existing,
+          counts,
+          "import"
+        ));
+      }
+    };
+
+    // A PartialCommitError leaves some changes saved, so reload either way
+    try {
+      await commitInBatches(changes, queueChange);
     } catch (error) {
-      console.error("Failed to confirm session transaction: ", error);
+      console.error("Error importing packs: ", error);
+      throw error;
+    } finally {
+      await get().loadPacks();
     }
   },
 }));
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { doc, getDoc, setDoc, addDoc, collection } from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import { wantsEmail, type Notification } from '../utils/notifications';
+import type { NotificationKind, NotificationPrefs } from '../types';
+
+interface NotificationStore {
+  myPrefs: NotificationPrefs;
+  loadMyPrefs: () => Promise<void>;
+  setPref: (kind: NotificationKind, on: boolean) => Promise<void>;
+  notify: (kind: NotificationKind, notifications: Notification[]) => Promise<void>;
+}
+
+export const useNotificationStore = create<NotificationStore>((set) => ({
+  myPrefs: {},
+
+  loadMyPrefs: async () => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    try {
+      const snap = await getDoc(doc(db, 'notificationPrefs', uid));
+      set({ myPrefs: snap.exists() ? (snap.data() as NotificationPrefs) : {} });
+    } catch (err) {
+      console.error('Failed to load notification preferences:', err);
+    }
+  },
+
+  setPref: async (kind, on) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    await setDoc(doc(db, 'notificationPrefs', uid), { [kind]: on }, { merge: true });
+    set(state => ({ myPrefs: { ...state.myPrefs, [kind]: on } }));
+  },
+
+  // Queues a mail document for each recipient who opted in to `kind`. The Trigger Email
+  // extension resolves `toUids` against users/{uid}.email. Never throws — a lost email
+  // shouldn't fail the draft or tournament action that sent it.
+  notify: async (kind, notifications) => {
+    try {
+      const userIds = [...new Set(notifications.map(n => n.userId))];
+      const prefs = await Promise.all(userIds.map(uid => getDoc(doc(db, 'notificationPrefs', uid))));
+      const optedIn = new Set(
+        userIds.filter((_, i) => wantsEmail(prefs[i].data() as NotificationPrefs | undefined, kind))
+      );
+      await Promise.all(
+        notifications
+          .filter(n => optedIn.has(n.userId))
+          .map(n => addDoc(collection(db, 'mail'), { toUids: [n.userId], message: n.message }))
+      );
+    } catch (err) {
+      console.error('Failed to send notifications:', err);
+    }
+  },
+}));
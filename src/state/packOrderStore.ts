@@ -0,0 +1,226 @@
+import { create } from 'zustand';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  runTransaction,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import type { PackOrder, PackOrderLine } from '../types';
+import { useInventoryStore, packLedgerItem, type Pack } from './inventoryStore';
+import { useDraftHistoryStore } from './draftHistoryStore';
+import { queueLedgerWrites } from './inventoryLedgerStore';
+import { quantityChanges } from '../utils/inventoryLedger';
+import { mergeOrderLines, outstandingByPack, planReceipt } from '../utils/packOrders';
+
+export interface NewPackOrder {
+  vendor: string;
+  expectedDate?: string;
+  cost?: number;
+  lines: { catalogId: string; name: string; imageUrl: string; quantity: number }[];
+  restockDraftIds?: string[];
+}
+
+interface PackOrderStore {
+  orders: PackOrder[];
+  isLoading: boolean;
+  loadOrders: () => Promise<void>;
+  createOrder: (order: NewPackOrder) => Promise<void>;
+  receiveOrder: (orderId: string, quantities: Record<string, number>) => Promise<void>;
+  cancelOrder: (orderId: string) => Promise<void>;
+}
+
+const ordersCollectionRef = collection(db, 'packOrders');
+
+type PackData = Omit<Pack, 'id'>;
+
+export const usePackOrderStore = create<PackOrderStore>((set, get) => ({
+  orders: [],
+  isLoading: false,
+
+  loadOrders: async () => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    set({ isLoading: true });
+    try {
+      const snap = await getDocs(query(ordersCollectionRef, where('ownerId', '==', uid)));
+      const orders = snap.docs.map(d => ({ id: d.id, ...d.data() } as PackOrder));
+      orders.sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0));
+      set({ orders, isLoading: false });
+    } catch (err) {
+      console.error('Failed to load pack orders:', err);
+      set({ isLoading: false });
+    }
+  },
+
+  // Records the order and adds its quantities to each pack's in-transit count in one
+  // transaction. Packs not yet in the chaos inventory are created with nothing available.
+  createOrder: async ({ vendor, expectedDate, cost, lines: requested, restockDraftIds }) => {
+    const uid = auth.currentUser?.uid;
+    // Each pack is read and written once, so repeated lines are added together first
+    const lines = mergeOrderLines(requested);
+    if (!uid || lines.length === 0) return;
+    if (lines.some(line => !Number.isInteger(line.quantity) || line.quantity <= 0)) {
+      throw new Error('Order quantities must be whole numbers above zero.');
+    }
+    const { packs } = useInventoryStore.getState();
+    const orderRef = doc(ordersCollectionRef);
+
+    try {
+      await runTransaction(db, async (transaction) => {
+        // Reads first
+        const targets: { line: NewPackOrder['lines'][number]; ref: ReturnType<typeof doc>; pack: PackData | null }[] = [];
+        for (const line of lines) {
+          const existing = packs.find(p => p.catalogId === line.catalogId);
+          const ref = existing ? doc(db, 'packs', existing.id) : doc(collection(db, 'packs'));
+          const snap = existing ? await transaction.get(ref) : null;
+          targets.push({ line, ref, pack: snap?.exists() ? (snap.data() as PackData) : null });
+        }
+
+        // Writes second
+        const orderLines: PackOrderLine[] = [];
+        for (const { line, ref, pack } of targets) {
+          const before = pack?.inTransit ?? 0;
+          if (pack) {
+            transaction.update(ref, { inTransit: before + line.quantity });
+          } else {
+            transaction.set(ref, {
+              catalogId: line.catalogId,
+              name: line.name,
+              imageUrl: line.imageUrl,
+              inPerson: 0,
+              inTransit: line.quantity,
+              ownerId: uid,
+            });
+          }
+          queueLedgerWrites(transaction, quantityChanges(
+            packLedgerItem(ref.id, pack ?? { ...line, ownerId: uid }),
+            { inTransit: before },
+            { inTransit: before + line.quantity },
+            'order-placed',
+            { orderId: orderRef.id }
+          ));
+          orderLines.push({ ...line, packId: ref.id, received: 0 });
+        }
+
+        transaction.set(orderRef, {
+          ownerId: uid,
+          vendor,
+          ...(expectedDate ? { expectedDate } : {}),
+          ...(cost !== undefined ? { cost } : {}),
+          ...(restockDraftIds?.length ? { restockDraftIds } : {}),
+          lines: orderLines,
+          status: 'open',
+          createdAt: serverTimestamp(),
+        });
+      });
+    } catch (err) {
+      console.error('Failed to create pack order:', err);
+      throw err;
+    } finally {
+      await Promise.all([get().loadOrders(), useInventoryStore.getState().loadPacks()]);
+    }
+  },
+
+  // Moves received packs from in transit to available and updates the order, atomically.
+  // Once nothing is outstanding, the drafts the order restocks are marked complete too.
+  receiveOrder: async (orderId, quantities) => {
+    const orderRef = doc(db, 'packOrders', orderId);
+    try {
+      await runTransaction(db, async (transaction) => {
+        const orderSnap = await transaction.get(orderRef);
+        if (!orderSnap.exists()) throw new Error('Order not found.');
+        const order = { id: orderId, ...orderSnap.data() } as PackOrder;
+        if (order.status !== 'open') throw new Error('Order is already closed.');
+
+        const plan = planReceipt(order, quantities);
+        const packReads: { ref: ReturnType<typeof doc>; pack: PackData; count: number }[] = [];
+        for (const [packId, count] of plan.moves) {
+          const ref = doc(db, 'packs', packId);
+          const snap = await transaction.get(ref);
+          // Marking the line received without moving stock would lose the packs
+          if (!snap.exists()) {
+            const name = order.lines.find(line => line.packId === packId)?.name ?? 'A pack';
+            throw new Error(`${name} is no longer in inventory, so it can't be received.`);
+          }
+          packReads.push({ ref, pack: snap.data() as PackData, count });
+        }
+        const restockedDrafts: ReturnType<typeof doc>[] = [];
+        if (plan.status === 'received') {
+          for (const draftId of order.restockDraftIds ?? []) {
+            const ref = doc(db, 'drafts', draftId);
+            if ((await transaction.get(ref)).exists()) restockedDrafts.push(ref);
+          }
+        }
+
+        for (const { ref, pack, count } of packReads) {
+          const after = { inPerson: pack.inPerson + count, inTransit: Math.max(0, pack.inTransit - count) };
+          transaction.update(ref, after);
+          queueLedgerWrites(transaction, quantityChanges(
+            packLedgerItem(ref.id, pack), pack, after, 'order-received', { orderId }
+          ));
+        }
+        transaction.update(orderRef, {
+          lines: plan.lines,
+          status: plan.status,
+          ...(plan.status === 'received' ? { closedAt: serverTimestamp() } : {}),
+        });
+        for (const ref of restockedDrafts) {
+          transaction.update(ref, { restockComplete: true });
+        }
+      });
+    } catch (err) {
+      console.error('Failed to receive pack order:', err);
+      throw err;
+    } finally {
+      await Promise.all([
+        get().loadOrders(),
+        useInventoryStore.getState().loadPacks(),
+        useDraftHistoryStore.getState().loadDrafts(),
+      ]);
+    }
+  },
+
+  // Closes the order and takes whatever was never received back out of in transit
+  cancelOrder: async (orderId) => {
+    const orderRef = doc(db, 'packOrders', orderId);
+    try {
+      await runTransaction(db, async (transaction) => {
+        const orderSnap = await transaction.get(orderRef);
+        if (!orderSnap.exists()) throw new Error('Order not found.');
+        const order = { id: orderId, ...orderSnap.data() } as PackOrder;
+        if (order.status !== 'open') return;
+
+        const packReads: { ref: ReturnType<typeof doc>; pack: PackData; count: number }[] = [];
+        for (const [packId, count] of Object.entries(outstandingByPack(order))) {
+          if (count === 0) continue;
+          const ref = doc(db, 'packs', packId);
+          const snap = await transaction.get(ref);
+          // Marking the line received without moving stock would lose the packs
+          if (!snap.exists()) {
+            const name = order.lines.find(line => line.packId === packId)?.name ?? 'A pack';
+            throw new Error(`${name} is no longer in inventory, so it can't be received.`);
+          }
+          packReads.push({ ref, pack: snap.data() as PackData, count });
+        }
+
+        for (const { ref, pack, count } of packReads) {
+          const inTransit = Math.max(0, pack.inTransit - count);
+          transaction.update(ref, { inTransit });
+          queueLedgerWrites(transaction, quantityChanges(
+            packLedgerItem(ref.id, pack), pack, { inTransit }, 'order-cancelled', { orderId }
+          ));
+        }
+        transaction.update(orderRef, { status: 'cancelled', closedAt: serverTimestamp() });
+      });
+    } catch (err) {
+      console.error('Failed to cancel pack order:', err);
+      throw err;
+    } finally {
+      await Promise.all([get().loadOrders(), useInventoryStore.getState().loadPacks()]);
+    }
+  },
+}));
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { addDoc, collection, getDocs, serverTimestamp } from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import type { PoolAdjustment } from '../types';
+
+interface PoolBalanceStore {
+  adjustments: PoolAdjustment[];
+  isLoading: boolean;
+  loadAdjustments: () => Promise<void>;
+  addAdjustment: (userId: string, packs: number, note: string) => Promise<void>;
+}
+
+const adjustmentsCollectionRef = collection(db, 'poolAdjustments');
+
+export const usePoolBalanceStore = create<PoolBalanceStore>((set, get) => ({
+  adjustments: [],
+  isLoading: false,
+
+  loadAdjustments: async () => {
+    set({ isLoading: true });
+    try {
+      const snap = await getDocs(adjustmentsCollectionRef);
+      const adjustments = snap.docs.map(d => ({ id: d.id, ...d.data() } as PoolAdjustment));
+      adjustments.sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0));
+      set({ adjustments, isLoading: false });
+    } catch (err) {
+      console.error('Failed to load pool adjustments:', err);
+      set({ isLoading: false });
+    }
+  },
+
+  // Adjustments are append-only; a mistake is corrected with an opposite entry
+  addAdjustment: async (userId, packs, note) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) throw new Error('Not authenticated');
+    await addDoc(adjustmentsCollectionRef, {
+      userId,
+      packs,
+      note,
+      createdBy: uid,
+      createdAt: serverTimestamp(),
+    });
+    await get().loadAdjustments();
+  },
+}));
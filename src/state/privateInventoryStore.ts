@@ -2,33 +2,68 @@ import { create } from 'zustand';
 import {
   collection,
   getDocs,
-  addDoc,
   doc,
-  updateDoc,
-  deleteDoc,
   query,
   where,
   runTransaction,
+  writeBatch,
+  updateDoc,
+  setDoc,
+  deleteField,
 } from 'firebase/firestore';
 import { db, auth } from '../firebase';
-import type { PrivateInventoryItem, DraftAllocationEntry } from '../types';
+import type { AllocationPrefs, PrivateInventoryItem, DraftAllocationEntry } from '../types';
+import type { ResolvedPrivateItem } from '../utils/privateInventoryTransfer';
+import { quantityChanges, type LedgerChange, type LedgerItem } from '../utils/inventoryLedger';
+import { queueLedgerWrites } from './inventoryLedgerStore';
+import { commitInBatches, type WriteGroup } from './batchedWrites';
+import { holdConflicts, HoldConflictError } from '../utils/packHolds';
 
 interface PrivateInventoryStore {
   myItems: PrivateInventoryItem[];
   allItems: PrivateInventoryItem[];
+  allocationPrefs: Record<string, AllocationPrefs>;
   isLoading: boolean;
   loadMyInventory: () => Promise<void>;
   loadAllInventory: () => Promise<void>;
   addOrUpdateItem: (catalogId: string, name: string, imageUrl: string, count: number) => Promise<void>;
-  updateCount: (id: string, count: number) => Promise<void>;
-  deleteItem: (id: string) => Promise<void>;
-  batchDeduct: (allocation: DraftAllocationEntry[]) => Promise<void>;
-  batchRestore: (allocation: DraftAllocationEntry[]) => Promise<void>;
+  // The paths that lower counts take what other drafts hold, by holdKey, and throw a
+  // HoldConflictError rather than go below it. Leave `held` out once the user agrees.
+  updateCount: (id: string, count: number, held?: Map<string, number>) => Promise<void>;
+  deleteItem: (id: string, held?: Map<string, number>) => Promise<void>;
+  updateUnitCost: (id: string, unitCost: number) => Promise<void>;
+  updateKeep: (id: string, keep: number) => Promise<void>;
+  loadAllocationPrefs: () => Promise<void>;
+  setMaxPacksPerDraft: (max: number | null) => Promise<void>;
+  batchDeduct: (allocation: DraftAllocationEntry[], draftId?: string, held?: Map<string, number>) => Promise<void>;
+  batchRestore: (allocation: DraftAllocationEntry[], draftId?: string) => Promise<void>;
+  importItems: (
+    items: ResolvedPrivateItem[],
+    held?: Map<string, number>
+  ) => Promise<{ added: number; updated: number; unchanged: number }>;
 }
 
+const checkHolds = (changes: Parameters<typeof holdConflicts>[0], held?: Map<string, number>) => {
+  if (!held) return;
+  const conflicts = holdConflicts(changes, held);
+  if (conflicts.length > 0) throw new HoldConflictError(conflicts);
+};
+
+const ledgerItem = (
+  id: string,
+  item: { catalogId: string; name: string; ownerId: string }
+): LedgerItem => ({
+  inventory: 'private',
+  itemId: id,
+  catalogId: item.catalogId,
+  name: item.name,
+  ownerId: item.ownerId,
+});
+
 export const usePrivateInventoryStore = create<PrivateInventoryStore>((set, get) => ({
   myItems: [],
   allItems: [],
+  allocationPrefs: {},
   isLoading: false,
 
   loadMyInventory: async () => {
@@ -73,41 +108,114 @@ export const usePrivateInventoryStore = create<PrivateInventoryStore>((set, get)
           where('catalogId', '==', catalogId)
         )
       );
+      const batch = writeBatch(db);
       if (!snap.empty) {
         const existing = snap.docs[0];
-        await updateDoc(doc(db, 'privateInventory', existing.id), {
-          count: (existing.data().count as number) + count,
-        });
+        const before = existing.data().count as number;
+        batch.update(existing.ref, { count: before + count });
+        queueLedgerWrites(batch, quantityChanges(
+          ledgerItem(existing.id, { catalogId, name, ownerId: uid }),
+          { count: before },
+          { count: before + count },
+          'added'
+        ));
       } else {
-        await addDoc(collection(db, 'privateInventory'), {
+        const ref = doc(collection(db, 'privateInventory'));
+        batch.set(ref, {
           ownerId: uid,
           catalogId,
           name,
           imageUrl,
           count,
         });
+        queueLedgerWrites(batch, quantityChanges(
+          ledgerItem(ref.id, { catalogId, name, ownerId: uid }),
+          {},
+          { count },
+          'added'
+        ));
       }
+      await batch.commit();
     } finally {
       await get().loadMyInventory();
     }
   },
 
-  updateCount: async (id, count) => {
-    await updateDoc(doc(db, 'privateInventory', id), { count });
+  updateCount: async (id, count, held) => {
+    const ref = doc(db, 'privateInventory', id);
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(ref);
+      if (!snap.exists()) throw new Error(`Private inventory item ${id} not found.`);
+      const item = snap.data() as PrivateInventoryItem;
+      checkHolds([{ ...item, before: item.count, count }], held);
+      transaction.update(ref, { count });
+      queueLedgerWrites(transaction, quantityChanges(ledgerItem(id, item), item, { count }, 'manual'));
+    });
     set(state => ({
       myItems: state.myItems.map(item => item.id === id ? { ...item, count } : item),
     }));
   },
 
-  deleteItem: async (id) => {
-    await deleteDoc(doc(db, 'privateInventory', id));
+  deleteItem: async (id, held) => {
+    const ref = doc(db, 'privateInventory', id);
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(ref);
+      if (!snap.exists()) return;
+      const item = snap.data() as PrivateInventoryItem;
+      checkHolds([{ ...item, before: item.count, count: 0 }], held);
+      transaction.delete(ref);
+      queueLedgerWrites(transaction, quantityChanges(ledgerItem(id, item), item, { count: 0 }, 'deleted'));
+    });
     set(state => ({ myItems: state.myItems.filter(item => item.id !== id) }));
   },
 
-  batchDeduct: async (allocation) => {
-    // Group allocation entries by userId + catalogId
+  updateUnitCost: async (id, unitCost) => {
+    await updateDoc(doc(db, 'privateInventory', id), { unitCost });
+    set(state => ({
+      myItems: state.myItems.map(item => item.id === id ? { ...item, unitCost } : item),
+    }));
+  },
+
+  updateKeep: async (id, keep) => {
+    await updateDoc(doc(db, 'privateInventory', id), { keep });
+    set(state => ({
+      myItems: state.myItems.map(item => item.id === id ? { ...item, keep } : item),
+    }));
+  },
+
+  loadAllocationPrefs: async () => {
+    try {
+      const snap = await getDocs(collection(db, 'allocationPrefs'));
+      const allocationPrefs: Record<string, AllocationPrefs> = {};
+      snap.docs.forEach(d => { allocationPrefs[d.id] = d.data() as AllocationPrefs; });
+      set({ allocationPrefs });
+    } catch (err) {
+      console.error('Failed to load allocation preferences:', err);
+    }
+  },
+
+  setMaxPacksPerDraft: async (max) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    await setDoc(
+      doc(db, 'allocationPrefs', uid),
+      { maxPacksPerDraft: max === null ? deleteField() : max },
+      { merge: true }
+    );
+    set(state => {
+      const prefs = { ...state.allocationPrefs[uid] };
+      if (max === null) delete prefs.maxPacksPerDraft;
+      else prefs.maxPacksPerDraft = max;
+      return { allocationPrefs: { ...state.allocationPrefs, [uid]: prefs } };
+    });
+  },
+
+  batchDeduct: async (allocation, draftId, held) => {
+    // Group allocation entries by userId + catalogId; chaos inventory entries are
+    // handled by inventoryStore.deductAllocation
     const deductions = new Map<string, { userId: string; catalogId: string; count: number }>();
     for (const entry of allocation) {
+      if (entry.packId) continue;
       const key = `${entry.userId}::${entry.catalogId}`;
       const existing = deductions.get(key);
       if (existing) {
@@ -134,17 +242,23 @@ export const usePrivateInventoryStore = create<PrivateInventoryStore>((set, get)
 
     await runTransaction(db, async (transaction) => {
       // Reads first (using transaction.get for conflict detection)
-      const updates: { ref: ReturnType<typeof doc>; newCount: number }[] = [];
+      const updates: { ref: ReturnType<typeof doc>; newCount: number; ledger: LedgerChange[] }[] = [];
+      const changes: Parameters<typeof holdConflicts>[0] = [];
       for (const { ref, count } of docRefs) {
         const snap = await transaction.get(ref);
         if (snap.exists()) {
-          const current = snap.data().count as number;
-          updates.push({ ref, newCount: Math.max(0, current - count) });
+          const item = snap.data() as PrivateInventoryItem;
+          const newCount = Math.max(0, item.count - count);
+          const ledger = quantityChanges(ledgerItem(ref.id, item), item, { count: newCount }, 'draft-allocation', { draftId });
+          updates.push({ ref, newCount, ledger });
+          changes.push({ ...item, before: item.count, count: newCount });
         }
       }
+      checkHolds(changes, held);
       // Writes second
-      for (const { ref, newCount } of updates) {
+      for (const { ref, newCount, ledger } of updates) {
         transaction.update(ref, { count: newCount });
+        queueLedgerWrites(transaction, ledger);
       }
     });
 
@@ -152,9 +266,10 @@ export const usePrivateInventoryStore = create<PrivateInventoryStore>((set, get)
     await get().loadAllInventory();
   },
 
-  batchRestore: async (allocation) => {
+  batchRestore: async (allocation, draftId) => {
     const additions = new Map<string, { userId: string; catalogId: string; count: number }>();
     for (const entry of allocation) {
+      if (entry.packId) continue;
       const key = `${entry.userId}::${entry.catalogId}`;
       const existing = additions.get(key);
       if (existing) {
@@ -179,19 +294,76 @@ export const usePrivateInventoryStore = create<PrivateInventoryStore>((set, get)
     }
 
     await runTransaction(db, async (transaction) => {
-      const updates: { ref: ReturnType<typeof doc>; newCount: number }[] = [];
+      const updates: { ref: ReturnType<typeof doc>; newCount: number; ledger: LedgerChange[] }[] = [];
       for (const { ref, count } of docRefs) {
         const snap = await transaction.get(ref);
         if (snap.exists()) {
-          updates.push({ ref, newCount: (snap.data().count as number) + count });
+          const item = snap.data() as PrivateInventoryItem;
+          const newCount = item.count + count;
+          const ledger = quantityChanges(ledgerItem(ref.id, item), item, { count: newCount }, 'draft-restore', { draftId });
+          updates.push({ ref, newCount, ledger });
         }
       }
-      for (const { ref, newCount } of updates) {
+      for (const { ref, newCount, ledger } of updates) {
         transaction.update(ref, { count: newCount });
+        queueLedgerWrites(transaction, ledger);
       }
     });
 
     await get().loadMyInventory();
     await get().loadAllInventory();
   },
+
+  // Matches items by ownerId + catalogId like addOrUpdateItem, but sets the file's count
+  // instead of adding to it, so re-importing the same file is a no-op
+  importItems: async (items, held) => {
+    const uid = auth.currentUser?.uid;
+    const result = { added: 0, updated: 0, unchanged: 0 };
+    if (!uid) return result;
+
+    const snap = await getDocs(
+      query(collection(db, 'privateInventory'), where('ownerId', '==', uid))
+    );
+    const existingByCatalogId = new Map(snap.docs.map(d => [d.data().catalogId as string, d]));
+    checkHolds(items.flatMap(item => {
+      const existing = existingByCatalogId.get(item.catalogId)?.data() as PrivateInventoryItem | undefined;
+      return existing ? [{ ...existing, before: existing.count, count: item.count }] : [];
+    }), held);
+
+    const queueItem = (batch: WriteGroup, item: ResolvedPrivateItem) => {
+      const existing = existingByCatalogId.get(item.catalogId);
+      if (!existing) {
+        const ref = doc(collection(db, 'privateInventory'));
+        batch.set(ref, {
+          ownerId: uid,
+          catalogId: item.catalogId,
+          name: item.name,
+          imageUrl: item.imageUrl,
+          count: item.count,
+        });
+        queueLedgerWrites(batch, quantityChanges(
+          ledgerItem(ref.id, { ...item, ownerId: uid }), {}, { count: item.count }, 'import'
+        ));
+        result.added++;
+      } else if (existing.data().count !== item.count) {
+        batch.update(existing.ref, { count: item.count });
+        queueLedgerWrites(batch, quantityChanges(
+          ledgerItem(existing.id, existing.data() as PrivateInventoryItem),
+          { count: existing.data().count as number },
+          { count: item.count },
+          'import'
+        ));
+        result.updated++;
+      } else {
+        result.unchanged++;
+      }
+    };
+
+    try {
+      await commitInBatches(items, queueItem);
+    } finally {
+      await get().loadMyInventory();
+    }
+    return result;
+  },
 }));
@@ -7,12 +7,24 @@ import {
   serverTimestamp,
 } from 'firebase/firestore';
 import { db, auth } from '../firebase';
-import { allocateRegularDraft, distributePacksAcrossSets } from '../utils/allocationAlgorithm';
+import {
+  distributePacksAcrossSets,
+  solveAllocation,
+  type AllocationExplanation,
+  type SolverContributor,
+} from '../utils/allocationAlgorithm';
+import { holdKey } from '../utils/packHolds';
+import { draftTitle } from '../utils/draftTitle';
+import { allocationEmails, finalizedEmails } from '../utils/notifications';
+import { useDraftHistoryStore } from './draftHistoryStore';
+import { useNotificationStore } from './notificationStore';
 import type {
   DraftPlayer,
   DraftSetRef,
+  AllocationPrefs,
   DraftAllocationEntry,
   DraftFormat,
+  DraftSettlement,
   PackCatalogEntry,
   PrivateInventoryItem,
 } from '../types';
@@ -22,6 +34,7 @@ export interface RegularDraftConfig {
   sets: PackCatalogEntry[];
   format: DraftFormat;
   packsPerPerson: number;
+  setCounts?: number[];  // packs needed per set, when not split evenly across them
   cubeId?: string;
   cubeName?: string;
   cubeImageUrl?: string;
@@ -37,99 +50,149 @@ export interface SetAllocationWithMeta {
   shortfall: number;
 }
 
+export interface PreviewOptions {
+  prefs?: Record<string, AllocationPrefs>;  // per-user caps
+  balances?: Record<string, number>;        // pool balance per user (see poolBalances)
+  balanceWeight?: number;                   // 0 ignores balances
+  userNames?: Record<string, string>;       // names for contributors who aren't playing
+  chaosPacks?: { catalogId: string; inPerson: number }[]; // offer the chaos inventory as a reserve
+  held?: Map<string, number>;               // packs on hold for other drafts, by holdKey
+}
+
 interface RegularDraftStore {
   config: RegularDraftConfig | null;
   previewAllocations: SetAllocationWithMeta[];
+  previewExplanations: AllocationExplanation[];
   wasRounded: boolean;
   savedDraftId: string | null;
   isLoading: boolean;
   setConfig: (config: RegularDraftConfig) => void;
-  computePreview: (config: RegularDraftConfig, allPrivateInventory: PrivateInventoryItem[]) => {
-    allocations: SetAllocationWithMeta[];
-    wasRounded: boolean;
-  };
+  computePreview: (
+    config: RegularDraftConfig,
+    allPrivateInventory: PrivateInventoryItem[],
+    options?: PreviewOptions
+  ) => PreviewResult;
   savePreview: (
     config: RegularDraftConfig,
     allocations: SetAllocationWithMeta[],
     overrides: DraftAllocationEntry[]
   ) => Promise<string>;
-  finalizeDraft: (draftId: string, allocation: DraftAllocationEntry[]) => Promise<void>;
+  finalizeDraft: (draftId: string, allocation: DraftAllocationEntry[], settlement?: DraftSettlement) => Promise<void>;
   reset: () => void;
 }
 
+// Stands in for the chaos inventory as a contributor; entries from it carry the pack's id
+export const CHAOS_CONTRIBUTOR_ID = 'chaos-inventory';
+
+export interface PreviewResult {
+  allocations: SetAllocationWithMeta[];
+  wasRounded: boolean;
+  explanations: AllocationExplanation[];
+}
+
+/**
+ * Runs the allocator for a draft config without touching store state, so callers can
+ * try out alternatives (see utils/shortfallFixes) before committing to one.
+ */
+export function buildPreview(
+  config: RegularDraftConfig,
+  allPrivateInventory: PrivateInventoryItem[],
+  options: PreviewOptions = {}
+): PreviewResult {
+  const totalPacks = config.players.length * config.packsPerPerson;
+  const distributed = distributePacksAcrossSets(totalPacks, config.sets.length);
+  const customCounts = config.setCounts?.length === config.sets.length ? config.setCounts : undefined;
+  const counts = customCounts ?? distributed.counts;
+  const wasRounded = !customCounts && distributed.wasRounded;
+
+  const participantUserIds = new Set(
+    config.players.map(p => p.userId).filter(Boolean) as string[]
+  );
+  // Player names win; anyone else falls back to the caller's name map, then their uid
+  const playerNameMap = new Map(
+    config.players
+      .filter(p => p.userId !== null)
+      .map(p => [p.userId as string, p.name])
+  );
+  const nameOf = (uid: string) => playerNameMap.get(uid) ?? options.userNames?.[uid] ?? uid;
+
+  // One contributor per owner with stock in any chosen set; kept and held packs are off the table
+  const setIds = new Set(config.sets.map(s => s.id));
+  const byOwner = new Map<string, SolverContributor>();
+  for (const item of allPrivateInventory) {
+    if (!setIds.has(item.catalogId) || item.count <= 0) continue;
+    let contributor = byOwner.get(item.ownerId);
+    if (!contributor) {
+      const cap = options.prefs?.[item.ownerId]?.maxPacksPerDraft;
+      const balance = options.balances?.[item.ownerId];
+      contributor = {
+        userId: item.ownerId,
+        userName: nameOf(item.ownerId),
+        participant: participantUserIds.has(item.ownerId),
+        stock: {},
+        kept: {},
+        held: {},
+        ...(cap !== undefined ? { cap } : {}),
+        ...(balance !== undefined ? { balance } : {}),
+      };
+      byOwner.set(item.ownerId, contributor);
+    }
+    const kept = Math.min(item.keep ?? 0, item.count);
+    const held = Math.min(options.held?.get(holdKey(item.ownerId, item.catalogId)) ?? 0, item.count - kept);
+    contributor.stock[item.catalogId] = item.count - kept - held;
+    contributor.kept![item.catalogId] = kept;
+    contributor.held![item.catalogId] = held;
+  }
+  if (options.chaosPacks) {
+    const stock: Record<string, number> = {};
+    for (const pack of options.chaosPacks) {
+      if (setIds.has(pack.catalogId) && pack.inPerson > 0) stock[pack.catalogId] = pack.inPerson;
+    }
+    byOwner.set(CHAOS_CONTRIBUTOR_ID, {
+      userId: CHAOS_CONTRIBUTOR_ID,
+      userName: 'Chaos inventory',
+      participant: false,
+      reserve: true,
+      stock,
+    });
+  }
+
+  const result = solveAllocation(
+    config.sets.map((entry, i) => ({ catalogId: entry.id, name: entry.name, totalNeeded: counts[i] })),
+    [...byOwner.values()],
+    { balanceWeight: options.balanceWeight ?? 0 }
+  );
+
+  const allocations: SetAllocationWithMeta[] = result.allocations.map((allocation, i) => ({
+    ...allocation,
+    imageUrl: config.sets[i].imageUrl,
+    contributions: allocation.contributions.map(c => ({
+      ...c,
+      available: byOwner.get(c.userId)?.stock[allocation.catalogId] ?? 0,
+    })),
+  }));
+
+  return { allocations, wasRounded, explanations: result.explanations };
+}
+
 export const useRegularDraftStore = create<RegularDraftStore>((set) => ({
   config: null,
   previewAllocations: [],
+  previewExplanations: [],
   wasRounded: false,
   savedDraftId: null,
   isLoading: false,
 
   setConfig: (config) => set({ config }),
 
-  computePreview: (config, allPrivateInventory) => {
-    const totalPacks = config.players.length * config.packsPerPerson;
-    const { counts, wasRounded } = distributePacksAcrossSets(totalPacks, config.sets.length);
-
-    // Build per-set availability maps
-    const participantUserIds = new Set(
-      config.players.map(p => p.userId).filter(Boolean) as string[]
-    );
-
-    // Build a name map: userId -> name
-    // Players provide names for participants; for non-participants we won't have a name here
-    // so we'll need the allUsers context — but since we only have allPrivateInventory,
-    // use player names for participants and userId as fallback for non-participants
-    const playerNameMap = new Map(
-      config.players
-        .filter(p => p.userId !== null)
-        .map(p => [p.userId as string, p.name])
-    );
-
-    const allocations: SetAllocationWithMeta[] = config.sets.map((catalogEntry, i) => {
-      const totalNeeded = counts[i];
-      const itemsForSet = allPrivateInventory.filter(
-        item => item.catalogId === catalogEntry.id && item.count > 0
-      );
-
-      const toContributor = (item: PrivateInventoryItem) => ({
-        userId: item.ownerId,
-        userName: playerNameMap.get(item.ownerId) ?? item.ownerId,
-        available: item.count,
-      });
-
-      const participantItems = itemsForSet.filter(item =>
-        participantUserIds.has(item.ownerId)
-      );
-      const nonParticipantItems = itemsForSet.filter(item =>
-        !participantUserIds.has(item.ownerId)
-      );
-
-      const result = allocateRegularDraft([{
-        catalogId: catalogEntry.id,
-        name: catalogEntry.name,
-        totalNeeded,
-        participants: participantItems.map(toContributor),
-        nonParticipants: nonParticipantItems.map(toContributor),
-      }])[0];
-
-      // Enrich contributions with available counts and userNames (from allPrivateInventory)
-      const enriched = result.contributions.map(c => {
-        const item = itemsForSet.find(i => i.ownerId === c.userId);
-        return { ...c, available: item?.count ?? 0 };
-      });
-
-      return {
-        catalogId: catalogEntry.id,
-        name: catalogEntry.name,
-        imageUrl: catalogEntry.imageUrl,
-        totalNeeded,
-        contributions: enriched,
-        shortfall: result.shortfall,
-      };
+  computePreview: (config, allPrivateInventory, options = {}) => {
+    const preview = buildPreview(config, allPrivateInventory, options);
+    set({
+      previewAllocations: preview.allocations,
+      previewExplanations: preview.explanations,
+      wasRounded: preview.wasRounded,
     });
-
-    set({ previewAllocations: allocations, wasRounded });
-    return { allocations, wasRounded };
+    return preview;
   },
 
   savePreview: async (config, allocations, overrides) => {
@@ -166,11 +229,12 @@ export const useRegularDraftStore = create<RegularDraftStore>((set) => ({
       totalNeeded: a.totalNeeded,
     }));
 
+    const type = config.format === 'Regular Draft' ? 'regular'
+      : config.format === 'Mobius Draft' ? 'mobius'
+      : config.format === 'Sealed' ? 'sealed'
+      : 'team-sealed';
     const docRef = await addDoc(collection(db, 'drafts'), {
-      type: config.format === 'Regular Draft' ? 'regular'
-        : config.format === 'Mobius Draft' ? 'mobius'
-        : config.format === 'Sealed' ? 'sealed'
-        : 'team-sealed',
+      type,
       createdBy: uid,
       createdAt: serverTimestamp(),
       status: 'preview',
@@ -181,12 +245,13 @@ export const useRegularDraftStore = create<RegularDraftStore>((set) => ({
       finalizedBy: null,
       allocation: overrides,
     });
+    useNotificationStore.getState().notify('allocation', allocationEmails(draftTitle({ type, sets }), overrides));
 
     set({ savedDraftId: docRef.id });
     return docRef.id;
   },
 
-  finalizeDraft: async (draftId, allocation) => {
+  finalizeDraft: async (draftId, allocation, settlement) => {
     const uid = auth.currentUser?.uid;
     if (!uid) throw new Error('Not authenticated');
 
@@ -196,12 +261,18 @@ export const useRegularDraftStore = create<RegularDraftStore>((set) => ({
       finalizedAt: serverTimestamp(),
       finalizedBy: uid,
       allocation,
+      ...(settlement ? { settlement } : {}),
     });
+    const draft = useDraftHistoryStore.getState().drafts.find(d => d.id === draftId);
+    if (draft) {
+      useNotificationStore.getState().notify('finalized', finalizedEmails(draftTitle(draft), allocation, settlement));
+    }
   },
 
   reset: () => set({
     config: null,
     previewAllocations: [],
+    previewExplanations: [],
     wasRounded: false,
     savedDraftId: null,
   }),
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import { doc, getDocFromServer, serverTimestamp, setDoc, type Timestamp } from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import { clockOffsetMs } from '../utils/roundTimer';
+
+interface ServerClockStore {
+  offsetMs: number; // server time minus this device's time
+  syncedUid: string | null; // the user whose clockSync doc measured offsetMs
+  sync: () => Promise<void>;
+  reset: () => void;
+}
+
+// Device clocks can be off by minutes, so the round clock runs on server time. Once per
+// session each device stamps its own clockSync doc with the server's time and reads it
+// back to measure how far its clock is off. A different user signing in measures again.
+export const useServerClockStore = create<ServerClockStore>((set, get) => ({
+  offsetMs: 0,
+  syncedUid: null,
+
+  sync: async () => {
+    const uid = auth.currentUser?.uid;
+    if (!uid || get().syncedUid === uid) return;
+    if (get().syncedUid !== null) get().reset();
+    try {
+      const ref = doc(db, 'clockSync', uid);
+      const sentAt = Date.now();
+      await setDoc(ref, { at: serverTimestamp() });
+      const ackAt = Date.now();
+      const at = (await getDocFromServer(ref)).data()?.at as Timestamp | undefined;
+      // Signed out or switched user while this was in flight
+      if (auth.currentUser?.uid !== uid) return;
+      if (at) set({ offsetMs: clockOffsetMs(sentAt, at.toMillis(), ackAt), syncedUid: uid });
+    } catch (err) {
+      // Until it syncs the device's own clock stands in
+      console.error('Failed to sync with server time:', err);
+    }
+  },
+
+  reset: () => set({ offsetMs: 0, syncedUid: null }),
+}));
+
+/** This device's estimate of the server's current time, in epoch ms. */
+export const serverNow = () => Date.now() + useServerClockStore.getState().offsetMs;
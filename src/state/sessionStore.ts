@@ -2,9 +2,26 @@ import { create } from "zustand";
 import { useInventoryStore } from "./inventoryStore";
 // ✅ CHANGED: Import the new Pack type from your Firebase inventoryStore
 import { type Pack } from "./inventoryStore";
-import { auth } from '../firebase';
+import { auth, db } from '../firebase';
+import {
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  onSnapshot,
+  serverTimestamp,
+} from 'firebase/firestore';
 import { useDraftHistoryStore } from './draftHistoryStore';
-import type { DraftTournament } from '../types';
+import { useUserStore } from './userStore';
+import { useNotificationStore } from './notificationStore';
+import type { ChaosSpin, Draft, DraftTournament, PickOrderMode } from '../types';
+import { toChaosPool } from '../utils/chaosDraw';
+import { groupPicksByPlayer, playerIndexForPick } from '../utils/pickOrder';
+import { randomSeed } from '../utils/seededRandom';
+import { chaosSettlement } from '../utils/settlement';
+import { draftTitle } from '../utils/draftTitle';
+import { roundPairingEmails } from '../utils/notifications';
 
 export interface Player {
   id: string;
@@ -18,34 +35,151 @@ export interface SessionState {
   players: Player[];
   numPacks: number; // total packs in this session
   packsSelectedOrder: Pack[];
+  pickSeeds: number[];        // draw seed for each entry of packsSelectedOrder
+  pickOrder: PickOrderMode;
+  pickOrderSeed: number;
+  rerolledPicks: number[];    // pick indexes whose one re-roll has been spent ('player-choice')
+  sessionInventory: Pack[]; // inventory snapshot taken when the session started
   tempInventory: Pack[];
   confirmed: boolean;
   pendingTournament: DraftTournament | null;
+  hostId: string | null;      // uid of the device driving the wheel
+  isSpectator: boolean;       // true when following someone else's session
+  currentSpin: ChaosSpin | null;
+  _unsubscribe: (() => void) | null;
   setPendingTournament: (tournament: DraftTournament) => void;
 
   initializeSession: (
     numPlayers: number,
     playerNames: string[],
     playerUserIds?: (string | null)[],
-    numPacks?: number
+    numPacks?: number,
+    pickOrder?: PickOrderMode
   ) => void;
-  selectPackForNextPlayer: (pack: Pack) => void;
+  // Returns false, changing nothing, if another user hosts the draft and `takeOver` isn't set
+  resumeSession: (draft: Draft, takeOver?: boolean) => boolean;
+  watchSession: (draftId: string) => void;
+  stopWatching: () => void;
+  startSpin: (spin: Omit<ChaosSpin, 'pickIndex' | 'startedAt'>) => Promise<void>;
+  selectPackForNextPlayer: (pack: Pack, seed: number) => void;
+  rerollPick: () => void;
   resetSession: () => void;
   confirmSession: () => Promise<void>;
   undoLastPick: () => void;
 }
 
+// Removes one copy of `pack` from the pool, dropping packs with no quantity left
+const removePickFromInventory = (inventory: Pack[], pack: Pack): Pack[] =>
+  inventory
+    .map((p) => (p.id === pack.id ? { ...p, inPerson: p.inPerson - 1 } : p))
+    .filter((p) => p.inPerson > 0 || p.inTransit > 0); // Keep packs if they have any quantity
+
+// The packs that go on the wheel: excluded packs stay in the snapshot but never spin
+const wheelInventory = (inventory: Pack[]): Pack[] =>
+  inventory.filter((p) => !p.excludeFromWheel).map((p) => ({ ...p }));
+
+/**
+ * Writes the live session to `drafts/{sessionId}` with status 'in-progress' so it
+ * survives a refresh and can be resumed from any device.
+ */
+/** The name of whoever else hosts an in-progress draft, or null if it's this user's. */
+export function otherHostName(draft: Draft): string | null {
+  const hostId = draft.hostId ?? draft.createdBy;
+  if (!hostId || hostId === auth.currentUser?.uid) return null;
+  return (
+    draft.players.find(p => p.userId === hostId)?.name ??
+    useUserStore.getState().publicProfiles.find(p => p.uid === hostId)?.name ??
+    'Another user'
+  );
+}
+
+const persistSession = async (state: SessionState, isNew = false) => {
+  const uid = auth.currentUser?.uid;
+  if (!state.sessionId || !uid || state.confirmed || state.isSpectator) return;
+
+  try {
+    await setDoc(
+      doc(db, 'drafts', state.sessionId),
+      {
+        type: 'chaos',
+        status: 'in-progress',
+        sessionId: state.sessionId,
+        players: state.players.map(p => ({ id: p.id, name: p.name, userId: p.userId })),
+        packsSelectedOrder: state.packsSelectedOrder.map(p => ({
+          id: p.id,
+          name: p.name,
+          imageUrl: p.imageUrl,
+        })),
+        pickSeeds: state.pickSeeds,
+        pickOrder: state.pickOrder,
+        pickOrderSeed: state.pickOrderSeed,
+        rerolledPicks: state.rerolledPicks,
+        numPacks: state.numPacks,
+        sessionInventory: state.sessionInventory,
+        hostId: uid,
+        ...(isNew ? { createdBy: uid, createdAt: serverTimestamp() } : {}),
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('Failed to save chaos session:', error);
+  }
+};
+
+/**
+ * Rebuilds session state from a saved draft, replaying its picks against the
+ * inventory snapshot so the pool and pick index match where the table left off.
+ */
+const sessionFromDraft = (draft: Draft) => {
+  const sessionInventory = (draft.sessionInventory ?? []).map((p) => ({ ...p }));
+  const packsById = new Map(sessionInventory.map((p) => [p.id, p]));
+  const packsSelectedOrder: Pack[] = (draft.packsSelectedOrder ?? []).map((ref) =>
+    packsById.get(ref.id) ?? { ...ref, inPerson: 0, inTransit: 0, ownerId: '', catalogId: '' }
+  );
+
+  const pickOrder = draft.pickOrder ?? 'round-robin';
+  const pickOrderSeed = draft.pickOrderSeed ?? 0;
+  const byPlayer = groupPicksByPlayer(packsSelectedOrder, draft.players.length, pickOrder, pickOrderSeed);
+  const players: Player[] = draft.players.map((p, i) => ({
+    id: p.id,
+    name: p.name,
+    userId: p.userId,
+    selectedPacks: byPlayer[i],
+  }));
+
+  return {
+    players,
+    numPacks: draft.numPacks ?? players.length * 3,
+    packsSelectedOrder,
+    pickSeeds: draft.pickSeeds ?? [],
+    pickOrder,
+    pickOrderSeed,
+    rerolledPicks: draft.rerolledPicks ?? [],
+    sessionInventory,
+    tempInventory: packsSelectedOrder.reduce(removePickFromInventory, wheelInventory(sessionInventory)),
+  };
+};
+
 export const useSessionStore = create<SessionState>((set, get) => ({
   sessionId: "",
   players: [],
   numPacks: 0,
   packsSelectedOrder: [],
+  pickSeeds: [],
+  pickOrder: 'round-robin',
+  pickOrderSeed: 0,
+  rerolledPicks: [],
+  sessionInventory: [],
   tempInventory: [],
   confirmed: false,
   pendingTournament: null,
+  hostId: null,
+  isSpectator: false,
+  currentSpin: null,
+  _unsubscribe: null,
 
   // This function works as-is because it fetches from the (now Firebase-backed) inventoryStore
-  initializeSession: (numPlayers, playerNames, playerUserIds = [], numPacks) => {
+  initializeSession: (numPlayers, playerNames, playerUserIds = [], numPacks, pickOrder = 'round-robin') => {
     const { packs: inventory } = useInventoryStore.getState();
     const players: Player[] = [];
 
@@ -58,37 +192,126 @@ export const useSessionStore = create<SessionState>((set, get) => ({
       });
     }
 
+    get()._unsubscribe?.();
     set({
       sessionId: crypto.randomUUID(),
       players,
       numPacks: numPacks || numPlayers * 3,
       packsSelectedOrder: [],
-      tempInventory: inventory.map((p) => ({ ...p })), // copy of inventory
+      pickSeeds: [],
+      pickOrder,
+      pickOrderSeed: randomSeed(),
+      rerolledPicks: [],
+      sessionInventory: inventory.map((p) => ({ ...p })),
+      tempInventory: wheelInventory(inventory), // copy of inventory
+      confirmed: false,
+      pendingTournament: null,
+      hostId: auth.currentUser?.uid ?? null,
+      isSpectator: false,
+      currentSpin: null,
+      _unsubscribe: null,
+    });
+    persistSession(get(), true);
+  },
+
+  // Takes over a saved in-progress draft on this device, continuing on the same pick index.
+  // Two hosts would both spin and write picks, so taking over from another user needs
+  // `takeOver`, after the user has confirmed it.
+  resumeSession: (draft, takeOver = false) => {
+    if (otherHostName(draft) !== null && !takeOver) return false;
+    get()._unsubscribe?.();
+    set({
+      sessionId: draft.id,
+      ...sessionFromDraft(draft),
       confirmed: false,
+      pendingTournament: null,
+      hostId: auth.currentUser?.uid ?? null,
+      isSpectator: false,
+      currentSpin: null,
+      _unsubscribe: null,
     });
+    persistSession(get());
+    return true;
+  },
+
+  // Follows another device's session live; picks and spins arrive through the snapshot.
+  watchSession: (draftId) => {
+    get()._unsubscribe?.();
+    const unsub = onSnapshot(
+      doc(db, 'drafts', draftId),
+      (snap) => {
+        if (!snap.exists()) {
+          get().stopWatching();
+          return;
+        }
+        const draft = { id: snap.id, ...snap.data() } as Draft;
+        set({
+          sessionId: draft.id,
+          ...sessionFromDraft(draft),
+          confirmed: draft.status === 'finalized',
+          hostId: draft.hostId ?? draft.createdBy,
+          isSpectator: true,
+          currentSpin: draft.spin ?? null,
+        });
+      },
+      (error) => {
+        console.error('[sessionStore] Failed to watch chaos session:', error.code, error.message);
+      }
+    );
+    set({ _unsubscribe: unsub, isSpectator: true });
+  },
+
+  stopWatching: () => {
+    get()._unsubscribe?.();
+    set({ _unsubscribe: null, isSpectator: false, currentSpin: null });
+  },
+
+  // Publishes the host's spin so every watching device animates to the same pack
+  startSpin: async ({ seed, packId }) => {
+    const { sessionId, packsSelectedOrder, isSpectator } = get();
+    if (!sessionId || isSpectator) return;
+    const spin: ChaosSpin = {
+      seed,
+      packId,
+      pickIndex: packsSelectedOrder.length,
+      startedAt: Date.now(),
+    };
+    set({ currentSpin: spin });
+    try {
+      await updateDoc(doc(db, 'drafts', sessionId), { spin });
+    } catch (error) {
+      console.error('Failed to share spin:', error);
+    }
   },
 
   // This function works as-is. All IDs are now strings, so `p.id === pack.id` is correct.
-  selectPackForNextPlayer: (pack) => {
-    const { players, packsSelectedOrder } = get();
+  selectPackForNextPlayer: (pack, seed) => {
+    const { players, packsSelectedOrder, pickSeeds, pickOrder, pickOrderSeed } = get();
     const nextIndex = packsSelectedOrder.length;
-    const playerIndex = nextIndex % players.length;
+    const playerIndex = playerIndexForPick(nextIndex, players.length, pickOrder, pickOrderSeed);
 
     const updatedPlayers = [...players];
     updatedPlayers[playerIndex].selectedPacks.push(pack);
 
     // Decrement 'inPerson' quantity from tempInventory for the selected pack
-    const tempInventory = get()
-      .tempInventory.map((p) =>
-        p.id === pack.id ? { ...p, inPerson: p.inPerson - 1 } : p
-      )
-      .filter((p) => p.inPerson > 0 || p.inTransit > 0); // Keep packs if they have any quantity
+    const tempInventory = removePickFromInventory(get().tempInventory, pack);
 
     set({
       players: updatedPlayers,
       packsSelectedOrder: [...packsSelectedOrder, pack],
+      pickSeeds: [...pickSeeds, seed],
       tempInventory,
     });
+    persistSession(get());
+  },
+
+  // Spends the active player's one re-roll on the current pick ('player-choice' mode)
+  rerollPick: () => {
+    const { packsSelectedOrder, rerolledPicks, pickOrder } = get();
+    const pickIndex = packsSelectedOrder.length;
+    if (pickOrder !== 'player-choice' || rerolledPicks.includes(pickIndex)) return;
+    set({ rerolledPicks: [...rerolledPicks, pickIndex] });
+    persistSession(get());
   },
 
   setPendingTournament: (tournament) => {
@@ -97,49 +320,100 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
   // This function works as-is, correctly pulling the fresh inventory from the store.
   resetSession: () => {
-    const { players } = get();
+    const { players, sessionId: previousSessionId, confirmed } = get();
     const { packs: inventory } = useInventoryStore.getState();
     const resetPlayers = players.map((p) => ({ ...p, selectedPacks: [] }));
 
+    // The abandoned session was never confirmed, so its document can simply go
+    if (previousSessionId && !confirmed) {
+      deleteDoc(doc(db, 'drafts', previousSessionId)).catch((error) =>
+        console.error('Failed to discard chaos session:', error)
+      );
+    }
+
     set({
       sessionId: crypto.randomUUID(),
       players: resetPlayers,
       packsSelectedOrder: [],
-      tempInventory: inventory.map((p) => ({ ...p })),
+      pickSeeds: [],
+      pickOrderSeed: randomSeed(),
+      rerolledPicks: [],
+      sessionInventory: inventory.map((p) => ({ ...p })),
+      tempInventory: wheelInventory(inventory),
       confirmed: false,
       pendingTournament: null,
+      currentSpin: null,
     });
+    persistSession(get(), true);
   },
 
   confirmSession: async () => {
-    const { packsSelectedOrder, players, sessionId } = get();
+    const {
+      packsSelectedOrder,
+      pickSeeds,
+      pickOrder,
+      pickOrderSeed,
+      rerolledPicks,
+      sessionInventory,
+      players,
+      sessionId,
+      numPacks,
+      pendingTournament,
+    } = get();
     const { confirmSessionPicks } = useInventoryStore.getState();
-    const { saveDraft } = useDraftHistoryStore.getState();
+    const { loadDrafts } = useDraftHistoryStore.getState();
     const uid = auth.currentUser?.uid;
 
     if (packsSelectedOrder.length === 0 || !uid) return;
 
-    try {
-      await confirmSessionPicks(packsSelectedOrder);
+    const draftPlayers = players.map(p => ({ id: p.id, name: p.name, userId: p.userId }));
+    const draftPacks = packsSelectedOrder.map(p => ({ id: p.id, name: p.name, imageUrl: p.imageUrl }));
+    const drawPool = toChaosPool(sessionInventory);
+    const { profile, publicProfiles } = useUserStore.getState();
+    const settlement = chaosSettlement(
+      { players: draftPlayers, packsSelectedOrder: draftPacks, pickOrder, pickOrderSeed, drawPool },
+      (ownerId = uid) => ({
+        userId: ownerId,
+        name:
+          draftPlayers.find(p => p.userId === ownerId)?.name ??
+          (ownerId === uid ? profile?.name : undefined) ??
+          publicProfiles.find(p => p.uid === ownerId)?.name ??
+          'Owner',
+      })
+    );
 
-      await saveDraft({
-        type: 'chaos',
-        createdBy: uid,
-        status: 'finalized',
+    try {
+      // Deduct the picks and promote the in-progress session document to a
+      // finalized draft in one transaction
+      await confirmSessionPicks(
+        packsSelectedOrder,
         sessionId,
-        players: players.map(p => ({
-          id: p.id,
-          name: p.name,
-          userId: p.userId,
-        })),
-        packsSelectedOrder: packsSelectedOrder.map(p => ({
-          id: p.id,
-          name: p.name,
-          imageUrl: p.imageUrl,
-        })),
-        restockComplete: false,
-        tournament: get().pendingTournament ?? undefined,
-      });
+        {
+          type: 'chaos',
+          status: 'finalized',
+          sessionId,
+          players: draftPlayers,
+          packsSelectedOrder: draftPacks,
+          numPacks,
+          // Keep what an audit needs to replay the draws; the full snapshot can go
+          pickSeeds,
+          drawPool,
+          pickOrder,
+          pickOrderSeed,
+          rerolledPicks,
+          sessionInventory: deleteField(),
+          spin: deleteField(),
+          restockComplete: false,
+          // Only worth keeping once packs have costs recorded
+          ...(settlement.totalCents > 0 ? { settlement } : {}),
+          ...(pendingTournament ? { tournament: pendingTournament } : {}),
+        }
+      );
+      await loadDrafts();
+      if (pendingTournament) {
+        const title = draftTitle({ type: 'chaos', packsSelectedOrder: draftPacks });
+        useNotificationStore.getState().notify('rounds', roundPairingEmails(title, draftPlayers, pendingTournament.rounds[0]));
+      }
 
       set({ confirmed: true });
     } catch (error) {
@@ -149,14 +423,27 @@ export const useSessionStore = create<SessionState>((set, get) => ({
 
   // This function works as-is. All IDs are now strings, so `p.id === lastPackSelected.id` is correct.
   undoLastPick: () => {
-    const { packsSelectedOrder, players, tempInventory } = get();
+    const {
+      packsSelectedOrder,
+      pickSeeds,
+      pickOrder,
+      pickOrderSeed,
+      rerolledPicks,
+      players,
+      tempInventory,
+    } = get();
 
     if (packsSelectedOrder.length === 0) return;
 
     const lastPackSelected = packsSelectedOrder[packsSelectedOrder.length - 1];
     const newPacksSelectedOrder = packsSelectedOrder.slice(0, -1);
 
-    const playerIndex = (packsSelectedOrder.length - 1) % players.length;
+    const playerIndex = playerIndexForPick(
+      newPacksSelectedOrder.length,
+      players.length,
+      pickOrder,
+      pickOrderSeed
+    );
     const updatedPlayers = [...players];
     updatedPlayers[playerIndex].selectedPacks = updatedPlayers[
       playerIndex
@@ -178,8 +465,12 @@ export const useSessionStore = create<SessionState>((set, get) => ({
     set({
       players: updatedPlayers,
       packsSelectedOrder: newPacksSelectedOrder,
+      pickSeeds: pickSeeds.slice(0, newPacksSelectedOrder.length),
+      // The undone pick is replayed from scratch, so its re-roll is available again
+      rerolledPicks: rerolledPicks.filter((i) => i < newPacksSelectedOrder.length),
       tempInventory: newTempInventory,
       confirmed: false,
     });
+    persistSession(get());
   },
 }));
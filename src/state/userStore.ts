@@ -11,6 +11,8 @@ import {
   serverTimestamp,
 } from 'firebase/firestore';
 import { db } from '../firebase';
+import { useNotificationStore } from './notificationStore';
+import { accountStatusEmail } from '../utils/notifications';
 import type { UserProfile, PublicProfile } from '../types';
 
 interface UserStore {
@@ -22,7 +24,7 @@ interface UserStore {
   _unsubscribe: (() => void) | null;
   startListening: (uid: string) => void;
   stopListening: () => void;
-  createProfile: (uid: string, name: string, email: string) => Promise<void>;
+  createProfile: (uid: string, name: string, email: string, emailOnApproval?: boolean) => Promise<void>;
   loadAllUsers: () => Promise<void>;
   loadPublicProfiles: () => Promise<void>;
   updateUserStatus: (uid: string, status: UserProfile['status']) => Promise<void>;
@@ -61,7 +63,7 @@ export const useUserStore = create<UserStore>((set, get) => ({
     set({ _unsubscribe: null, profile: null });
   },
 
-  createProfile: async (uid, name, email) => {
+  createProfile: async (uid, name, email, emailOnApproval = false) => {
     try {
       const profilesSnap = await getDocs(collection(db, 'publicProfiles'));
       const nameLower = name.trim().toLowerCase();
@@ -84,6 +86,9 @@ export const useUserStore = create<UserStore>((set, get) => ({
     if (isAdmin) {
       await setDoc(doc(db, 'publicProfiles', uid), { name });
     }
+    if (emailOnApproval && !isAdmin) {
+      await setDoc(doc(db, 'notificationPrefs', uid), { account: true });
+    }
     if (!isAdmin) {
       await addDoc(collection(db, 'mail'), {
         to: adminEmail,
@@ -137,6 +142,9 @@ export const useUserStore = create<UserStore>((set, get) => ({
   updateUserStatus: async (uid, status) => {
     await updateDoc(doc(db, 'users', uid), { status });
     const user = get().allUsers.find(u => u.uid === uid);
+    if (user && user.status !== status && status !== 'pending') {
+      useNotificationStore.getState().notify('account', [{ userId: uid, message: accountStatusEmail(user.name, status) }]);
+    }
     if (status === 'approved' && user) {
       await setDoc(doc(db, 'publicProfiles', uid), { name: user.name });
       set(state => ({
@@ -28,10 +28,79 @@ export interface PrivateInventoryItem {
   name: string;
   imageUrl: string;
   count: number;
+  unitCost?: number; // what the owner paid per pack, in dollars
+  keep?: number;     // packs the owner wants held back from draft allocations
+}
+
+// Per-user limits the regular draft allocator respects (allocationPrefs/{uid})
+export interface AllocationPrefs {
+  maxPacksPerDraft?: number;
+}
+
+// Emails a user has opted in to (notificationPrefs/{uid}); anything unset is off
+export type NotificationKind = 'account' | 'allocation' | 'finalized' | 'rounds';
+export type NotificationPrefs = Partial<Record<NotificationKind, boolean>>;
+
+// Append-only record of one quantity change on a chaos pack or private inventory item
+export type LedgerInventory = 'chaos' | 'private';
+export type LedgerField = 'inPerson' | 'inTransit' | 'count';
+export type LedgerReason =
+  | 'added'            // added through the inventory form
+  | 'manual'           // +/- adjustment
+  | 'import'           // CSV/JSON import
+  | 'deleted'          // item removed or inventory cleared
+  | 'draft-pick'       // chaos session confirmed
+  | 'draft-allocation' // regular draft finalized
+  | 'draft-restore'    // draft deleted, packs returned
+  | 'order-placed'     // pack order recorded (in transit)
+  | 'order-received'   // shipment received, in transit → available
+  | 'order-cancelled'; // outstanding order quantity cancelled
+
+export interface InventoryLedgerEntry {
+  id: string;
+  inventory: LedgerInventory;
+  itemId: string;      // packs/{id} or privateInventory/{id}
+  catalogId: string;
+  name: string;
+  ownerId: string;
+  field: LedgerField;
+  delta: number;
+  before: number;
+  after: number;
+  reason: LedgerReason;
+  draftId?: string;
+  orderId?: string;
+  actorId: string;
+  createdAt: Timestamp;
+}
+
+// A purchase of chaos packs; outstanding quantities are counted in each pack's inTransit
+export type PackOrderStatus = 'open' | 'received' | 'cancelled';
+
+export interface PackOrderLine {
+  packId: string;      // packs/{id} the shipment lands in
+  catalogId: string;
+  name: string;
+  imageUrl: string;
+  quantity: number;
+  received: number;
+}
+
+export interface PackOrder {
+  id: string;
+  ownerId: string;
+  vendor: string;
+  expectedDate?: string; // yyyy-mm-dd
+  cost?: number;         // total paid for the order
+  lines: PackOrderLine[];
+  status: PackOrderStatus;
+  restockDraftIds?: string[]; // chaos drafts marked restocked when the order is fully received
+  createdAt: Timestamp;
+  closedAt?: Timestamp;
 }
 
 export type DraftType = 'chaos' | 'regular' | 'mobius' | 'sealed' | 'team-sealed';
-export type DraftStatus = 'preview' | 'finalized';
+export type DraftStatus = 'in-progress' | 'preview' | 'finalized';
 
 export type MtgColor = 'W' | 'U' | 'B' | 'R' | 'G';
 
@@ -49,6 +118,42 @@ export interface DraftPackRef {
   imageUrl: string;
 }
 
+// Snapshot of a chaos inventory pack taken when a session starts, so any device
+// can rebuild the remaining pool when the session is resumed
+export interface DraftSessionPack extends DraftPackRef {
+  inPerson: number;
+  inTransit: number;
+  ownerId: string;
+  catalogId: string;
+  weightMultiplier?: number;
+  excludeFromWheel?: boolean;
+  onePerPlayer?: boolean;
+  unitCost?: number;
+}
+
+// The host's current spin, shared so watching devices animate to the same pack
+export interface ChaosSpin {
+  seed: number;
+  packId: string;
+  pickIndex: number;  // packsSelectedOrder index this spin will fill
+  startedAt: number;  // epoch ms
+}
+
+// How chaos picks rotate through the table; see utils/pickOrder
+export type PickOrderMode = 'round-robin' | 'snake' | 'random' | 'player-choice';
+
+// One pack in the weighted pool a chaos session drew from (weight = in-person count
+// times the pack's multiplier when the session started), recorded so the picks can be
+// replayed and verified
+export interface ChaosPoolEntry {
+  id: string;
+  name: string;
+  weight: number;
+  capped?: boolean; // at most one capped pack per player
+  unitCost?: number; // price when the draft started, in dollars
+  ownerId?: string;  // who the pack's cost is owed to
+}
+
 export interface DraftSetRef {
   catalogId: string;
   name: string;
@@ -62,6 +167,33 @@ export interface DraftAllocationEntry {
   catalogId: string;
   name: string;
   count: number;
+  packId?: string; // set when the packs come from the chaos inventory rather than userId's private inventory
+  unitCost?: number; // the pack's price when the allocation was saved; missing if none was recorded
+}
+
+// Who owes what for a finalized draft's packs; see utils/settlement. Amounts are in cents.
+export interface SettlementLine {
+  key?: string;       // who the line is for; missing on settlements saved before lines were keyed
+  userId: string | null;
+  name: string;
+  owesCents: number;  // for the packs they opened
+  owedCents: number;  // for the packs they supplied
+}
+
+export interface SettlementTransfer {
+  fromKey?: string;   // the lines' keys; missing on settlements saved before lines were keyed
+  toKey?: string;
+  from: string;       // names, for display
+  to: string;
+  amountCents: number;
+}
+
+export interface DraftSettlement {
+  totalCents: number;
+  lines: SettlementLine[];
+  transfers: SettlementTransfer[];
+  missingCosts: string[]; // packs with no cost recorded, counted as free
+  computedAt: number;     // epoch ms
 }
 
 export interface Cube {
@@ -78,6 +210,7 @@ export type TournamentStatus = 'seating' | 'active' | 'finalized';
 export interface DraftSeat {
   playerId: string;
   seat: number;
+  pod?: number;    // multi-pod events number seats from 1 within each pod
 }
 
 export interface PairingResult {
@@ -88,6 +221,23 @@ export interface PairingResult {
   isPartial: boolean;
   submittedBy: string;
   submittedAt: Timestamp;
+  confirmedBy?: string;   // the opponent, or an admin
+  confirmedAt?: Timestamp;
+  disputedBy?: string;
+  disputeNote?: string;
+  endedOnTime?: boolean;  // time was called and the unfinished game counted as a draw
+}
+
+// reported: waiting on the opponent or an admin; disputed: the opponent says it's wrong.
+// Only complete pairings count towards standings and stats
+export type PairingStatus = 'pending' | 'reported' | 'disputed' | 'complete';
+
+// A result as the server keeps it, in DraftTournament.results. playerUids are the
+// accounts in the match when it was reported: the only ones the rules let report,
+// confirm or dispute it
+export interface StoredPairingResult extends PairingResult {
+  status: PairingStatus;
+  playerUids: string[];
 }
 
 export interface TournamentPairing {
@@ -95,25 +245,114 @@ export interface TournamentPairing {
   player1Id: string;
   player2Id: string | null;
   result?: PairingResult;
-  status: 'pending' | 'complete';
+  status: PairingStatus;
+}
+
+export type MatchScore = Pick<PairingResult, 'player1Wins' | 'player2Wins' | 'ties' | 'matchWinner'>;
+
+// An admin's change to a Swiss result after it was reported
+export interface TournamentCorrection {
+  roundNumber: number;
+  pairingId: string;
+  previous: MatchScore | null;
+  result: MatchScore;
+  correctedBy: string;
+  correctedAt: Timestamp;
+  atRound: number;          // the tournament's current round when it was corrected
+  repairedRound?: number;   // a later, unplayed round that was paired again from the new standings
+  playoff?: boolean;        // a top-cut match; roundNumber and repairedRound count bracket rounds
+}
+
+// Round clock shared by every device; times are server-time epoch ms, see utils/roundTimer
+export interface RoundTimer {
+  startedAt: number;           // when the round clock was first started
+  durationMs: number;
+  runningSince: number | null; // when the clock last started running; null while paused
+  elapsedMs: number;           // run time banked from before the last pause
 }
 
 export interface TournamentRound {
   roundNumber: number;
   pairings: TournamentPairing[];
   status: 'active' | 'complete';
+  timer?: RoundTimer;
+}
+
+// Single-elimination bracket played after the Swiss rounds
+export type TopCutSize = 2 | 4 | 8;
+
+export interface TournamentPlayoff {
+  size: TopCutSize;
+  seeds: string[];             // playerIds from the Swiss standings, first seed first
+  rounds: TournamentRound[];   // bracket rounds, numbered from 1
+}
+
+// A player who left the tournament; they're paired no more after `afterRound`
+export interface TournamentDrop {
+  playerId: string;
+  afterRound: number;
+  reason?: string;
+  droppedAt: Timestamp;
+}
+
+// A player added once the Swiss rounds were under way. They're kept here rather than
+// in the draft's players, whose order and count decide who opened which packs
+export interface TournamentLateEntry {
+  player: DraftPlayer;
+  joinedRound: number;            // first round they're paired in
+  missedRounds: 'loss' | 'bye';   // how the rounds before it count in the standings
+}
+
+export type TournamentFormat = 'swiss' | 'round-robin';
+
+// A pod drafts at its own table and is paired only within itself
+export interface TournamentPod {
+  podNumber: number;
+  playerIds: string[];   // in seat order; late entries join the end
+}
+
+export interface ScheduledPairing {
+  player1Id: string;
+  player2Id: string | null;   // null for a bye
+}
+
+// One round of a round-robin's fixed schedule, before anyone is dropped from it
+export interface ScheduledRound {
+  roundNumber: number;
+  pairings: ScheduledPairing[];
 }
 
 export interface DraftTournament {
+  format?: TournamentFormat;   // Swiss when unset
   seats: DraftSeat[];
-  rounds: TournamentRound[];
+  rounds: TournamentRound[];   // the rounds before any top cut
+  schedule?: ScheduledRound[]; // round-robin only: every round, fixed at the start
+  pods?: TournamentPod[];
+  podStandings?: 'shared' | 'per-pod';
   currentRound: number;
   totalRounds: number;
   status: TournamentStatus;
+  drops?: TournamentDrop[];
+  lateEntries?: TournamentLateEntry[];
+  corrections?: TournamentCorrection[];
+  playoff?: TournamentPlayoff;
+  // Swiss and playoff results by pairing id. The pairings themselves are stored
+  // without them; tournaments started before this existed keep results on the pairings
+  results?: Record<string, StoredPairingResult>;
   finalizedAt?: Timestamp;
   finalizedBy?: string;
 }
 
+// Admin-entered correction to a user's pool balance, e.g. for packs traded off-app
+export interface PoolAdjustment {
+  id: string;
+  userId: string;
+  packs: number;      // positive credits the user, negative debits them
+  note: string;
+  createdBy: string;
+  createdAt: Timestamp;
+}
+
 export interface Draft {
   id: string;
   type: DraftType;
@@ -125,14 +364,25 @@ export interface Draft {
   sessionId?: string;
   restockComplete?: boolean;
   packsSelectedOrder?: DraftPackRef[];
+  numPacks?: number;
+  sessionInventory?: DraftSessionPack[]; // in-progress sessions only
+  hostId?: string;
+  spin?: ChaosSpin;
+  pickSeeds?: number[];          // draw seed per packsSelectedOrder entry
+  drawPool?: ChaosPoolEntry[];   // pool snapshot the seeds are drawn against
+  pickOrder?: PickOrderMode;     // absent on older drafts = round-robin
+  pickOrderSeed?: number;        // shuffles each lap in 'random' mode
+  rerolledPicks?: number[];      // pick indexes where the player used their re-roll
   // Regular/Sealed/Mobius/Team Sealed
   sets?: DraftSetRef[];
   packsPerPerson?: number;
   finalizedAt?: Timestamp | null;
   finalizedBy?: string | null;
   allocation?: DraftAllocationEntry[];
+  settlement?: DraftSettlement;
   // Tournament
   tournament?: DraftTournament;
+  resultPairingId?: string;      // the tournament result the last write changed, for the rules
   // Cube
   cubeId?: string;
   cubeName?: string;
@@ -142,6 +392,42 @@ export interface Draft {
 
 export type DraftFormat = 'Regular Draft' | 'Mobius Draft' | 'Sealed' | 'Team Sealed';
 
+// Scheduled draft nights that players RSVP to (events collection)
+export type EventFormat = 'Chaos Draft' | DraftFormat;
+export type DraftEventStatus = 'scheduled' | 'started' | 'cancelled';
+export type RsvpStatus = 'going' | 'waitlist';
+
+// Stored per player at rsvps.<uid>, so each player only ever writes their own entry
+export interface EventRsvpEntry {
+  name: string;
+  respondedAt: Timestamp; // server time; orders the seats and the waitlist
+}
+
+// A response with its seat worked out from the event's seat cap (see utils/eventRsvp)
+export interface EventRsvp {
+  userId: string;
+  name: string;
+  status: RsvpStatus;
+  respondedAt: number; // ms
+}
+
+export interface DraftEvent {
+  id: string;
+  title: string;
+  startsAt: string; // local date and time, 'YYYY-MM-DDTHH:mm'
+  format: EventFormat;
+  sets: { id: string; name: string; imageUrl: string }[];
+  cubeId?: string;
+  cubeName?: string;
+  cubeImageUrl?: string;
+  cubeExternalUrl?: string;
+  seatCap: number;
+  rsvps: Record<string, EventRsvpEntry>;
+  status: DraftEventStatus;
+  createdBy: string;
+  createdAt: Timestamp;
+}
+
 export const DEFAULT_PACKS_PER_PERSON: Record<DraftFormat, number> = {
   'Regular Draft': 3,
   'Mobius Draft': 6,
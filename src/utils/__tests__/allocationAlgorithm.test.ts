@@ -1,71 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import {
-  allocateFromPool,
   distributePacksAcrossSets,
-  allocateRegularDraft,
+  solveAllocation,
+  type SolverContributor,
 } from '../allocationAlgorithm';
 
-describe('allocateFromPool', () => {
-  it('allocates evenly when contributors have equal stock', () => {
-    const pool = [
-      { userId: 'ben', userName: 'Ben', available: 6 },
-      { userId: 'markus', userName: 'Markus', available: 6 },
-    ];
-    const { contributions, shortfall } = allocateFromPool(pool, 12);
-    expect(shortfall).toBe(0);
-    expect(contributions.find(c => c.userId === 'ben')?.count).toBe(6);
-    expect(contributions.find(c => c.userId === 'markus')?.count).toBe(6);
-  });
-
-  it('uses more from contributors with larger stock after equalising smaller ones', () => {
-    const pool = [
-      { userId: 'ben', userName: 'Ben', available: 6 },
-      { userId: 'markus', userName: 'Markus', available: 6 },
-      { userId: 'spencer', userName: 'Spencer', available: 12 },
-    ];
-    const { contributions, shortfall } = allocateFromPool(pool, 24);
-    expect(shortfall).toBe(0);
-    const total = contributions.reduce((s, c) => s + c.count, 0);
-    expect(total).toBe(24);
-    expect(contributions.find(c => c.userId === 'ben')?.count).toBe(6);
-    expect(contributions.find(c => c.userId === 'markus')?.count).toBe(6);
-    expect(contributions.find(c => c.userId === 'spencer')?.count).toBe(12);
-  });
-
-  it('reports shortfall when pool is insufficient', () => {
-    const pool = [{ userId: 'ben', userName: 'Ben', available: 6 }];
-    const { contributions, shortfall } = allocateFromPool(pool, 10);
-    expect(shortfall).toBe(4);
-    expect(contributions.find(c => c.userId === 'ben')?.count).toBe(6);
-  });
-
-  it('returns no contributions when needed is 0', () => {
-    const { contributions, shortfall } = allocateFromPool(
-      [{ userId: 'ben', userName: 'Ben', available: 6 }],
-      0
-    );
-    expect(contributions).toHaveLength(0);
-    expect(shortfall).toBe(0);
-  });
-
-  it('handles empty pool', () => {
-    const { contributions, shortfall } = allocateFromPool([], 10);
-    expect(contributions).toHaveLength(0);
-    expect(shortfall).toBe(10);
-  });
-
-  it('never exceeds needed even when pool has surplus', () => {
-    const pool = [
-      { userId: 'a', userName: 'A', available: 10 },
-      { userId: 'b', userName: 'B', available: 10 },
-    ];
-    const { contributions, shortfall } = allocateFromPool(pool, 7);
-    expect(shortfall).toBe(0);
-    const total = contributions.reduce((s, c) => s + c.count, 0);
-    expect(total).toBe(7);
-  });
-});
-
 describe('distributePacksAcrossSets', () => {
   it('distributes evenly when divisible', () => {
     const { counts, wasRounded } = distributePacksAcrossSets(12, 3);
@@ -93,68 +32,82 @@ describe('distributePacksAcrossSets', () => {
   });
 });
 
-describe('allocateRegularDraft', () => {
-  it('uses participants before non-participants', () => {
-    const result = allocateRegularDraft([{
-      catalogId: 'avatar',
-      name: 'Avatar',
-      totalNeeded: 24,
-      participants: [
-        { userId: 'ben', userName: 'Ben', available: 6 },
-        { userId: 'markus', userName: 'Markus', available: 6 },
-        { userId: 'spencer', userName: 'Spencer', available: 12 },
-      ],
-      nonParticipants: [{ userId: 'elijah', userName: 'Elijah', available: 6 }],
-    }]);
-    const set = result[0];
-    expect(set.shortfall).toBe(0);
-    expect(set.contributions.find(c => c.userId === 'elijah')).toBeUndefined();
-    expect(set.contributions.reduce((s, c) => s + c.count, 0)).toBe(24);
+describe('solveAllocation', () => {
+  const sets = [
+    { catalogId: 'a', name: 'Set A', totalNeeded: 6 },
+    { catalogId: 'b', name: 'Set B', totalNeeded: 6 },
+  ];
+  const person = (userId: string, stock: Record<string, number>, extra: Partial<SolverContributor> = {}): SolverContributor => ({
+    userId, userName: userId.toUpperCase(), participant: true, stock, ...extra,
+  });
+  const totals = (result: ReturnType<typeof solveAllocation>) =>
+    Object.fromEntries(result.explanations.map(e => [e.userId, e.given]));
+
+  it('levels the total each person gives across all sets', () => {
+    // Per set, ben would cover most of A and markus most of B; globally they should match dana
+    const result = solveAllocation(sets, [
+      person('ben', { a: 6 }),
+      person('markus', { b: 6 }),
+      person('dana', { a: 6, b: 6 }),
+    ]);
+    expect(totals(result)).toEqual({ ben: 4, markus: 4, dana: 4 });
+    expect(result.allocations.every(a => a.shortfall === 0)).toBe(true);
+  });
+
+  it('re-routes earlier picks so a set only one person stocks still fills', () => {
+    const result = solveAllocation(
+      [{ catalogId: 'a', name: 'Set A', totalNeeded: 2 }, { catalogId: 'b', name: 'Set B', totalNeeded: 2 }],
+      [person('ben', { a: 2, b: 2 }), person('markus', { a: 2 })]
+    );
+    expect(result.allocations[0].contributions).toEqual([{ userId: 'markus', userName: 'MARKUS', count: 2 }]);
+    expect(result.allocations[1].contributions).toEqual([{ userId: 'ben', userName: 'BEN', count: 2 }]);
+  });
+
+  it('honours caps and explains them, leaving a shortfall when nobody else can give', () => {
+    const result = solveAllocation(sets, [person('ben', { a: 6, b: 6 }, { cap: 3 }), person('markus', { a: 6 })]);
+    expect(totals(result)).toEqual({ ben: 3, markus: 6 });
+    expect(result.allocations.map(a => a.shortfall)).toEqual([0, 3]);
+    expect(result.explanations[0].reasons).toContain('Reached their limit of 3 packs per draft');
+  });
+
+  it('only draws on non-players for what the players cannot cover', () => {
+    const result = solveAllocation(sets, [
+      person('ben', { a: 4, b: 4 }),
+      person('guest', { a: 6, b: 6 }, { participant: false }),
+    ]);
+    expect(totals(result)).toEqual({ ben: 8, guest: 4 });
+  });
+
+  it('draws on reserve contributors after everyone else', () => {
+    const result = solveAllocation(sets, [
+      person('ben', { a: 4, b: 4 }),
+      person('chaos', { a: 6, b: 6 }, { participant: false, reserve: true }),
+      person('guest', { a: 1, b: 1 }, { participant: false }),
+    ]);
+    expect(totals(result)).toEqual({ ben: 8, chaos: 2, guest: 2 });
   });
 
-  it('falls back to non-participants when participants are insufficient', () => {
-    const result = allocateRegularDraft([{
-      catalogId: 'avatar',
-      name: 'Avatar',
-      totalNeeded: 24,
-      participants: [
-        { userId: 'ben', userName: 'Ben', available: 6 },
-        { userId: 'markus', userName: 'Markus', available: 6 },
-      ],
-      nonParticipants: [{ userId: 'elijah', userName: 'Elijah', available: 12 }],
-    }]);
-    const set = result[0];
-    expect(set.shortfall).toBe(0);
-    expect(set.contributions.find(c => c.userId === 'elijah')?.count).toBe(12);
-    expect(set.contributions.reduce((s, c) => s + c.count, 0)).toBe(24);
+  it('mentions packs held back with a keep reservation', () => {
+    const result = solveAllocation(sets, [person('ben', { a: 4, b: 6 }, { kept: { a: 2 } })]);
+    expect(result.explanations[0].reasons).toContain('Keeping 2 × Set A');
   });
 
-  it('reports shortfall when all inventories are insufficient', () => {
-    const result = allocateRegularDraft([{
-      catalogId: 'avatar',
-      name: 'Avatar',
-      totalNeeded: 24,
-      participants: [{ userId: 'ben', userName: 'Ben', available: 6 }],
-      nonParticipants: [],
-    }]);
-    expect(result[0].shortfall).toBe(18);
+  it('mentions packs on hold for other drafts', () => {
+    const result = solveAllocation(sets, [person('ben', { a: 0 }, { held: { a: 3 } })]);
+    expect(result.explanations[0].reasons).toEqual(['3 × Set A on hold for another draft']);
   });
 
-  it('handles multiple sets independently', () => {
-    const result = allocateRegularDraft([
-      {
-        catalogId: 'set-a', name: 'Set A', totalNeeded: 6,
-        participants: [{ userId: 'ben', userName: 'Ben', available: 6 }],
-        nonParticipants: [],
-      },
-      {
-        catalogId: 'set-b', name: 'Set B', totalNeeded: 6,
-        participants: [{ userId: 'markus', userName: 'Markus', available: 6 }],
-        nonParticipants: [],
-      },
+  it('pulls more from people in deficit to the pool when balances are weighted', () => {
+    const people = [
+      person('ben', { a: 6, b: 6 }, { balance: 1 }),
+      person('markus', { a: 6, b: 6 }, { balance: -3 }),
+    ];
+    expect(totals(solveAllocation(sets, people))).toEqual({ ben: 6, markus: 6 });
+    const weighted = solveAllocation(sets, people, { balanceWeight: 1 });
+    expect(totals(weighted)).toEqual({ ben: 4, markus: 8 });
+    expect(weighted.explanations.map(e => e.reasons)).toEqual([
+      ['Pool balance +1 — asked for up to 4 fewer packs'],
+      ['Pool balance -3 — asked first'],
     ]);
-    expect(result).toHaveLength(2);
-    expect(result[0].shortfall).toBe(0);
-    expect(result[1].shortfall).toBe(0);
   });
 });
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  drawChaosPick,
+  effectiveWeight,
+  pickProbabilities,
+  remainingPool,
+  toChaosPool,
+  verifyChaosPicks,
+} from '../chaosDraw';
+import type { ChaosPoolEntry, DraftPackRef } from '../../types';
+
+const pool: ChaosPoolEntry[] = [
+  { id: 'a', name: 'Alpha', weight: 3 },
+  { id: 'b', name: 'Beta', weight: 1 },
+  { id: 'c', name: 'Gamma', weight: 0 },
+  { id: 'd', name: 'Delta', weight: 2 },
+];
+
+// Two players alternating
+const rr = (i: number) => i % 2;
+
+function ref(id: string): DraftPackRef {
+  return { id, name: id, imageUrl: '' };
+}
+
+// Replays a session the way the wheel does: each pick drawn against the picks before it
+function simulate(seeds: number[]): DraftPackRef[] {
+  const picks: DraftPackRef[] = [];
+  for (const seed of seeds) {
+    const entry = drawChaosPick(pool, picks.map(p => p.id), seed, rr);
+    if (entry) picks.push(ref(entry.id));
+  }
+  return picks;
+}
+
+describe('effectiveWeight', () => {
+  it('defaults to the in-person count', () => {
+    expect(effectiveWeight({ id: 'x', name: 'X', inPerson: 4 })).toBe(4);
+  });
+
+  it('applies boost and dampen multipliers', () => {
+    expect(effectiveWeight({ id: 'x', name: 'X', inPerson: 4, weightMultiplier: 2 })).toBe(8);
+    expect(effectiveWeight({ id: 'x', name: 'X', inPerson: 4, weightMultiplier: 0.25 })).toBe(1);
+  });
+
+  it('is zero for excluded packs and negative multipliers', () => {
+    expect(effectiveWeight({ id: 'x', name: 'X', inPerson: 4, excludeFromWheel: true })).toBe(0);
+    expect(effectiveWeight({ id: 'x', name: 'X', inPerson: 4, weightMultiplier: -1 })).toBe(0);
+  });
+});
+
+describe('toChaosPool', () => {
+  it('weights packs by in-person count', () => {
+    expect(toChaosPool([{ id: 'x', name: 'X', inPerson: 4 }])).toEqual([{ id: 'x', name: 'X', weight: 4 }]);
+  });
+
+  it('only writes the capped flag when set', () => {
+    const [entry] = toChaosPool([{ id: 'x', name: 'X', inPerson: 1, onePerPlayer: true }]);
+    expect(entry).toEqual({ id: 'x', name: 'X', weight: 1, capped: true });
+  });
+});
+
+describe('remainingPool', () => {
+  it('drops picked and zero-weight packs, keeping pool order', () => {
+    expect(remainingPool(pool, ['a'], rr).map(e => e.id)).toEqual(['b', 'd']);
+  });
+});
+
+describe('capped packs', () => {
+  const cappedPool: ChaosPoolEntry[] = [
+    { id: 'c1', name: 'Collector 1', weight: 1, capped: true },
+    { id: 'c2', name: 'Collector 2', weight: 1, capped: true },
+    { id: 'n', name: 'Normal', weight: 1 },
+  ];
+
+  it('blocks a second capped pack for the same player only', () => {
+    // pick 0 went to player 0; pick 1 is player 1, pick 2 is player 0 again
+    expect(remainingPool(cappedPool, ['c1'], rr).map(e => e.id)).toEqual(['c2', 'n']);
+    expect(remainingPool(cappedPool, ['c1', 'n'], rr).map(e => e.id)).toEqual([]);
+  });
+
+  it('never hands one player two capped packs', () => {
+    for (let seed = 0; seed < 100; seed++) {
+      expect(drawChaosPick(cappedPool, ['c1', 'n'], seed, rr)).toBeNull();
+    }
+  });
+});
+
+describe('pickProbabilities', () => {
+  it('normalises remaining weights', () => {
+    const probs = pickProbabilities(pool, [], rr);
+    expect(probs.map(p => [p.entry.id, p.probability])).toEqual([['a', 0.5], ['b', 1 / 6], ['d', 1 / 3]]);
+  });
+});
+
+describe('drawChaosPick', () => {
+  it('is deterministic for the same seed and prior picks', () => {
+    expect(drawChaosPick(pool, ['b'], 12345, rr)).toEqual(drawChaosPick(pool, ['b'], 12345, rr));
+  });
+
+  it('never draws a picked or zero-weight pack', () => {
+    for (let seed = 0; seed < 200; seed++) {
+      const entry = drawChaosPick(pool, ['a'], seed, rr);
+      expect(['b', 'd']).toContain(entry?.id);
+    }
+  });
+
+  it('returns null when the pool is exhausted', () => {
+    expect(drawChaosPick(pool, ['a', 'b', 'd'], 1, rr)).toBeNull();
+  });
+
+  it('favours heavier packs', () => {
+    let alpha = 0;
+    for (let seed = 0; seed < 600; seed++) {
+      if (drawChaosPick(pool, [], seed, rr)?.id === 'a') alpha++;
+    }
+    // weight 3 of 6 → about half the draws
+    expect(alpha).toBeGreaterThan(240);
+    expect(alpha).toBeLessThan(360);
+  });
+});
+
+describe('verifyChaosPicks', () => {
+  it('verifies picks replayed from their seeds', () => {
+    const seeds = [11, 22, 33];
+    const picks = simulate(seeds);
+    const result = verifyChaosPicks(pool, picks, seeds, rr);
+    expect(result.map(r => r.status)).toEqual(['verified', 'verified', 'verified']);
+  });
+
+  it('flags a pick that does not match its draw', () => {
+    const seeds = [11, 22];
+    const picks = simulate(seeds);
+    const swapped = pool.find(e => e.weight > 0 && !picks.some(p => p.id === e.id))!;
+    const tampered = [picks[0], ref(swapped.id)];
+    const result = verifyChaosPicks(pool, tampered, seeds, rr);
+    expect(result[0].status).toBe('verified');
+    expect(result[1].status).toBe('mismatch');
+    expect(result[1].expected?.id).toBe(picks[1].id);
+  });
+
+  it('marks picks without a seed or pool as unverifiable', () => {
+    const picks = [ref('a'), ref('b')];
+    expect(verifyChaosPicks(undefined, picks, [1, 2], rr).every(r => r.status === 'unverifiable')).toBe(true);
+    expect(verifyChaosPicks(pool, picks, [1], rr).map(r => r.status)[1]).toBe('unverifiable');
+  });
+});
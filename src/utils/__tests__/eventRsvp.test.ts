@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import { eventPlayers, eventRsvps, waitlistRsvps } from '../eventRsvp';
+import type { DraftEvent } from '../../types';
+
+const at = (ms: number) => ({ toMillis: () => ms }) as unknown as Timestamp;
+
+// Each id responds one millisecond after the one before it
+const fill = (ids: string[]): DraftEvent['rsvps'] =>
+  Object.fromEntries(ids.map((id, i) => [id, { name: id.toUpperCase(), respondedAt: at(i + 1) }]));
+
+const statuses = (event: Pick<DraftEvent, 'rsvps' | 'seatCap'>) =>
+  Object.fromEntries(eventRsvps(event).map(r => [r.userId, r.status]));
+
+describe('event RSVPs', () => {
+  it('seats players up to the cap and waitlists the rest in order', () => {
+    const event = { rsvps: fill(['a', 'b', 'c', 'd']), seatCap: 2 };
+    expect(statuses(event)).toEqual({ a: 'going', b: 'going', c: 'waitlist', d: 'waitlist' });
+    expect(waitlistRsvps(eventRsvps(event)).map(r => r.userId)).toEqual(['c', 'd']);
+  });
+
+  it('orders by response time, not by when the entry was read', () => {
+    const rsvps = { late: { name: 'Late', respondedAt: at(50) }, early: { name: 'Early', respondedAt: at(10) } };
+    expect(eventRsvps({ rsvps, seatCap: 1 }).map(r => [r.userId, r.status])).toEqual([
+      ['early', 'going'],
+      ['late', 'waitlist'],
+    ]);
+  });
+
+  it('promotes the first waitlisted player when someone withdraws', () => {
+    const rsvps = fill(['a', 'b', 'c', 'd']);
+    delete rsvps.a;
+    expect(statuses({ rsvps, seatCap: 2 })).toEqual({ b: 'going', c: 'going', d: 'waitlist' });
+  });
+
+  it('moves the latest seated players back when the cap drops', () => {
+    expect(statuses({ rsvps: fill(['a', 'b', 'c']), seatCap: 1 })).toEqual({ a: 'going', b: 'waitlist', c: 'waitlist' });
+  });
+
+  it('turns seated players into linked draft players', () => {
+    expect(eventPlayers({ rsvps: fill(['a', 'b', 'c']), seatCap: 2 })).toEqual([
+      { id: 'player-1', name: 'A', userId: 'a' },
+      { id: 'player-2', name: 'B', userId: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchCatalogEntry,
+  nameSimilarity,
+  normalizePackName,
+  parseInventoryCsv,
+  planInventoryImport,
+} from '../inventoryImport';
+import type { Timestamp } from 'firebase/firestore';
+import type { PackCatalogEntry } from '../../types';
+
+const fakeTs = { seconds: 0, nanoseconds: 0, toDate: () => new Date(), toMillis: () => 0 } as unknown as Timestamp;
+
+function entry(id: string, name: string): PackCatalogEntry {
+  return { id, name, imageUrl: '', createdAt: fakeTs };
+}
+
+const catalog = [
+  entry('mkm', 'Murders at Karlov Manor Play Booster'),
+  entry('otj', 'Outlaws of Thunder Junction Play Booster'),
+  entry('mh3', 'Modern Horizons 3 Collector Booster'),
+];
+
+describe('normalizePackName', () => {
+  it('ignores case, punctuation and ampersands', () => {
+    expect(normalizePackName('  Dungeons & Dragons: AFR – Set ')).toBe('dungeons and dragons afr set');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('is 1 for names equal after normalization', () => {
+    expect(nameSimilarity('Modern Horizons 3 Collector Booster', 'modern horizons 3 collector booster!')).toBe(1);
+  });
+
+  it('scores typos highly and unrelated names low', () => {
+    expect(nameSimilarity('Murders at Karlov Manor Play Boster', catalog[0].name)).toBeGreaterThan(0.9);
+    expect(nameSimilarity('Foundations Jumpstart', catalog[0].name)).toBeLessThan(0.5);
+  });
+});
+
+describe('matchCatalogEntry', () => {
+  it('returns exact matches with score 1', () => {
+    expect(matchCatalogEntry('outlaws of thunder junction play booster', catalog)).toMatchObject({
+      entry: { id: 'otj' },
+      score: 1,
+    });
+  });
+
+  it('picks the closest fuzzy match', () => {
+    expect(matchCatalogEntry('Murders at Karlov Manner Play Booster', catalog)?.entry.id).toBe('mkm');
+  });
+
+  it('returns null below the threshold', () => {
+    expect(matchCatalogEntry('Totally Unknown Pack', catalog)).toBeNull();
+  });
+});
+
+describe('parseInventoryCsv', () => {
+  it('reads the export format and ignores the Firestore ID column', () => {
+    const csv = [
+      'Firestore ID,Pack Name,Image URL,Available,In Transit',
+      'abc,Modern Horizons 3 Collector Booster,http://img,2,1',
+      ',Outlaws of Thunder Junction Play Booster,,4,',
+    ].join('\n');
+    const { rows, errors } = parseInventoryCsv(csv);
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([
+      { line: 2, name: 'Modern Horizons 3 Collector Booster', imageUrl: 'http://img', inPerson: 2, inTransit: 1 },
+      { line: 3, name: 'Outlaws of Thunder Junction Play Booster', imageUrl: '', inPerson: 4, inTransit: 0 },
+    ]);
+  });
+
+  it('reports rows with missing names or bad counts', () => {
+    const csv = 'Pack Name,Available,In Transit\n,1,0\nFoo,-1,0\nBar,1.5,0\nBaz,1,0';
+    const { rows, errors } = parseInventoryCsv(csv);
+    expect(rows.map(r => r.name)).toEqual(['Baz']);
+    expect(errors).toEqual([
+      'Line 2: missing pack name',
+      'Line 3: counts must be whole numbers',
+      'Line 4: counts must be whole numbers',
+    ]);
+  });
+
+  it('rejects files without a Pack Name column', () => {
+    expect(parseInventoryCsv('Name,Count\nFoo,1').errors).toEqual(['Missing "Pack Name" column']);
+  });
+});
+
+describe('planInventoryImport', () => {
+  const inventory = [
+    { id: 'p1', catalogId: 'mkm', inPerson: 3, inTransit: 0 },
+    { id: 'p2', catalogId: 'otj', inPerson: 1, inTransit: 2 },
+  ];
+
+  it('classifies adds, updates, unchanged rows and unknowns', () => {
+    const { rows } = parseInventoryCsv([
+      'Pack Name,Image URL,Available,In Transit',
+      'Murders at Karlov Manor Play Booster,,5,0',
+      'Outlaws of Thunder Junction Play Booster,,1,2',
+      'Modern Horizons 3 Collector Booster,,1,0',
+      'Mystery Pack,,1,0',
+    ].join('\n'));
+    const plan = planInventoryImport(rows, catalog, inventory);
+    expect(plan.map(c => [c.kind, c.match?.entry.id ?? null])).toEqual([
+      ['update', 'mkm'],
+      ['unchanged', 'otj'],
+      ['add', 'mh3'],
+      ['unknown', null],
+    ]);
+    expect(plan[0].existing?.id).toBe('p1');
+  });
+
+  it('sums rows that match the same catalog entry', () => {
+    const { rows } = parseInventoryCsv([
+      'Pack Name,Available,In Transit',
+      'Modern Horizons 3 Collector Booster,1,0',
+      'modern horizons 3 collector booster,2,1',
+    ].join('\n'));
+    const [change] = planInventoryImport(rows, catalog, inventory);
+    expect(change).toMatchObject({ kind: 'add', inPerson: 3, inTransit: 1 });
+    expect(change.rows).toHaveLength(2);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import { ledgerTimeline, quantityChanges, type LedgerItem } from '../inventoryLedger';
+import type { InventoryLedgerEntry } from '../../types';
+
+const item: LedgerItem = { inventory: 'chaos', itemId: 'p1', catalogId: 'blb', name: 'Bloomburrow', ownerId: 'u1' };
+
+const at = (ms: number) => ({ toMillis: () => ms, toDate: () => new Date(ms) }) as unknown as Timestamp;
+
+const entry = (id: string, ms: number, before: number, after: number, field: InventoryLedgerEntry['field'] = 'inPerson'): InventoryLedgerEntry => ({
+  ...item,
+  id,
+  field,
+  delta: after - before,
+  before,
+  after,
+  reason: 'manual',
+  actorId: 'u1',
+  createdAt: at(ms),
+});
+
+describe('quantityChanges', () => {
+  it('records one change per moved field and skips unchanged ones', () => {
+    const changes = quantityChanges(item, { inPerson: 4, inTransit: 2 }, { inPerson: 3, inTransit: 2 }, 'draft-pick', { draftId: 'd1' });
+    expect(changes).toEqual([
+      { ...item, field: 'inPerson', delta: -1, before: 4, after: 3, reason: 'draft-pick', draftId: 'd1' },
+    ]);
+  });
+
+  it('treats missing before-values as zero and omits an absent draftId', () => {
+    const [change] = quantityChanges(item, {}, { count: 5 }, 'added');
+    expect(change).toMatchObject({ field: 'count', delta: 5, before: 0, after: 5 });
+    expect('draftId' in change).toBe(false);
+  });
+});
+
+describe('ledgerTimeline', () => {
+  it('sorts entries chronologically and keeps only the requested field', () => {
+    const { rows } = ledgerTimeline(
+      [entry('b', 20, 5, 3), entry('t', 15, 0, 2, 'inTransit'), entry('a', 10, 0, 5)],
+      'inPerson',
+      3
+    );
+    expect(rows.map(r => r.entry.id)).toEqual(['a', 'b']);
+  });
+
+  it('flags drift between entries and against the current value', () => {
+    const { rows, untrackedAtEnd } = ledgerTimeline([entry('a', 10, 2, 5), entry('b', 20, 4, 3)], 'inPerson', 6);
+    expect(rows.map(r => r.untrackedBefore)).toEqual([2, -1]);
+    expect(untrackedAtEnd).toBe(3);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  accountStatusEmail,
+  allocationEmails,
+  contributionsByUser,
+  escapeHtml,
+  finalizedEmails,
+  roundPairingEmails,
+  wantsEmail,
+} from '../notifications';
+import type { DraftAllocationEntry, DraftPlayer, DraftSettlement, TournamentRound } from '../../types';
+
+const allocation: DraftAllocationEntry[] = [
+  { userId: 'u1', userName: 'Alice', catalogId: 'blb', name: 'Bloomburrow', count: 2 },
+  { userId: 'u1', userName: 'Alice', catalogId: 'dsk', name: 'Duskmourn', count: 1 },
+  { userId: 'u2', userName: 'Bob', catalogId: 'blb', name: 'Bloomburrow', count: 1 },
+  { userId: 'u3', userName: 'Host', catalogId: 'dsk', name: 'Duskmourn', count: 3, packId: 'pack-dsk' },
+];
+
+describe('wantsEmail', () => {
+  it('only sends what was opted in to', () => {
+    expect(wantsEmail(undefined, 'rounds')).toBe(false);
+    expect(wantsEmail({ rounds: false }, 'rounds')).toBe(false);
+    expect(wantsEmail({ rounds: true }, 'rounds')).toBe(true);
+  });
+});
+
+describe('contributionsByUser', () => {
+  it('groups private-inventory packs per contributor and skips chaos inventory', () => {
+    expect([...contributionsByUser(allocation)]).toEqual([
+      ['u1', [{ name: 'Bloomburrow', count: 2 }, { name: 'Duskmourn', count: 1 }]],
+      ['u2', [{ name: 'Bloomburrow', count: 1 }]],
+    ]);
+  });
+});
+
+describe('emails', () => {
+  it('escapes names in the html body', () => {
+    expect(escapeHtml(`<b>"Tom" & Jerry's</b>`)).toBe('&lt;b&gt;&quot;Tom&quot; &amp; Jerry&#39;s&lt;/b&gt;');
+    expect(accountStatusEmail('<Al>', 'approved').html).toContain('Hi &lt;Al&gt;');
+  });
+
+  it('tells each contributor how many packs a preview draft holds', () => {
+    const emails = allocationEmails('Bloomburrow Draft', allocation);
+    expect(emails.map(e => [e.userId, e.message.subject])).toEqual([
+      ['u1', '3 packs allocated to Bloomburrow Draft'],
+      ['u2', '1 pack allocated to Bloomburrow Draft'],
+    ]);
+    expect(emails[0].message.html).toContain('<li>2 × Bloomburrow</li><li>1 × Duskmourn</li>');
+  });
+
+  it('adds what a contributor is owed once the draft is settled', () => {
+    const settlement: DraftSettlement = {
+      totalCents: 1500,
+      lines: [
+        { userId: 'u1', name: 'Alice', owesCents: 500, owedCents: 1500 },
+        { userId: 'u2', name: 'Bob', owesCents: 500, owedCents: 0 },
+      ],
+      transfers: [],
+      missingCosts: [],
+      computedAt: 0,
+    };
+    const [alice, bob] = finalizedEmails('Bloomburrow Draft', allocation, settlement);
+    expect(alice.message.html).toContain("you're owed $10.00");
+    expect(bob.message.html).not.toContain('owed');
+  });
+
+  it('names each linked player\'s opponent and skips guests', () => {
+    const players: DraftPlayer[] = [
+      { id: 'p1', name: 'Alice', userId: 'u1' },
+      { id: 'p2', name: 'Guest', userId: null },
+      { id: 'p3', name: 'Bob', userId: 'u2' },
+    ];
+    const round: TournamentRound = {
+      roundNumber: 2,
+      status: 'active',
+      pairings: [
+        { id: 'a', player1Id: 'p1', player2Id: 'p2', status: 'pending' },
+        { id: 'b', player1Id: 'p3', player2Id: null, status: 'pending' },
+      ],
+    };
+    const emails = roundPairingEmails('Chaos Draft', players, round);
+    expect(emails.map(e => e.userId)).toEqual(['u1', 'u2']);
+    expect(emails[0].message.subject).toBe('Chaos Draft: round 2 is paired');
+    expect(emails[0].message.html).toContain('<strong>Guest</strong>');
+    expect(emails[1].message.html).toContain('bye');
+  });
+});
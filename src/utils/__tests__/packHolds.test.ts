@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import { activeHolds, HoldConflictError, holdConflicts, heldCounts, holdKey, HOLD_DAYS, overridingHolds } from '../packHolds';
+import type { Draft, DraftAllocationEntry } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+const at = (ms: number) => ({ toMillis: () => ms }) as unknown as Timestamp;
+
+const entry = (userId: string, catalogId: string, count: number, packId?: string): DraftAllocationEntry => ({
+  userId, userName: userId, catalogId, name: catalogId, count, ...(packId ? { packId } : {}),
+});
+
+const draft = (id: string, status: Draft['status'], createdAt: Timestamp | null, allocation: DraftAllocationEntry[]) =>
+  ({ id, status, createdAt, allocation }) as Pick<Draft, 'id' | 'status' | 'createdAt' | 'allocation'>;
+
+describe('activeHolds', () => {
+  const drafts = [
+    draft('d1', 'preview', at(NOW - DAY), [entry('ben', 'blb', 2), entry('host', 'blb', 1, 'chaos-pack')]),
+    draft('d2', 'preview', at(NOW - HOLD_DAYS * DAY), [entry('ben', 'blb', 5)]),
+    draft('d3', 'finalized', at(NOW - DAY), [entry('ben', 'blb', 4)]),
+    draft('d4', 'preview', null, [entry('ben', 'blb', 1), entry('dana', 'dsk', 3)]),
+  ];
+
+  it('holds private packs from unexpired preview drafts only', () => {
+    const holds = activeHolds(drafts, NOW);
+    expect(holds.map(h => [h.draftId, h.userId, h.count])).toEqual([
+      ['d1', 'ben', 2],
+      ['d4', 'ben', 1],
+      ['d4', 'dana', 3],
+    ]);
+    expect(holds[0].expiresAt).toBe(NOW - DAY + HOLD_DAYS * DAY);
+  });
+
+  it('can leave out one draft, and sums holds per item', () => {
+    const counts = heldCounts(activeHolds(drafts, NOW, 'd4'));
+    expect([...counts]).toEqual([[holdKey('ben', 'blb'), 2]]);
+    expect(heldCounts(activeHolds(drafts, NOW)).get(holdKey('ben', 'blb'))).toBe(3);
+  });
+});
+
+describe('holdConflicts', () => {
+  const held = new Map([[holdKey('ben', 'blb'), 3]]);
+  const change = (before: number, count: number) => ({ ownerId: 'ben', catalogId: 'blb', name: 'Bloomburrow', before, count });
+
+  it('flags lowering a count below what is held', () => {
+    expect(holdConflicts([change(5, 3), change(5, 2)], held)).toEqual([{ name: 'Bloomburrow', count: 2, held: 3 }]);
+  });
+
+  it('lets a count that is already short go up', () => {
+    expect(holdConflicts([change(1, 2)], held)).toEqual([]);
+  });
+});
+
+describe('overridingHolds', () => {
+  const held = new Map([[holdKey('ben', 'blb'), 3]]);
+  const conflict = new HoldConflictError([{ name: 'Bloomburrow', count: 1, held: 3 }]);
+  // Refuses while holds are passed, like the store
+  const write = async (h?: Map<string, number>) => {
+    if (h) throw conflict;
+    return 'written';
+  };
+
+  it('writes without the holds once the user agrees', async () => {
+    const asked: string[] = [];
+    expect(await overridingHolds(held, write, message => { asked.push(message); return true; })).toBe('written');
+    expect(asked[0]).toContain('3 × Bloomburrow are reserved for an upcoming draft; this leaves 1.');
+  });
+
+  it('writes nothing when the user declines', async () => {
+    expect(await overridingHolds(held, write, () => false)).toBeUndefined();
+  });
+});
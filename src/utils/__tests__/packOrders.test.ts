@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import { isOverdue, mergeOrderLines, onOrderByPack, orderOutstanding, outstandingByPack, planReceipt } from '../packOrders';
+import type { PackOrder, PackOrderLine } from '../../types';
+
+const line = (packId: string, quantity: number, received = 0): PackOrderLine => ({
+  packId,
+  catalogId: `cat-${packId}`,
+  name: packId,
+  imageUrl: '',
+  quantity,
+  received,
+});
+
+const order = (lines: PackOrderLine[], extra: Partial<PackOrder> = {}): PackOrder => ({
+  id: 'o1',
+  ownerId: 'u1',
+  vendor: 'Local Game Store',
+  lines,
+  status: 'open',
+  createdAt: { toMillis: () => 0 } as unknown as Timestamp,
+  ...extra,
+});
+
+describe('planReceipt', () => {
+  it('receives a partial shipment and keeps the order open', () => {
+    const plan = planReceipt(order([line('a', 6), line('b', 2)]), { a: 4 });
+    expect(plan.lines.map(l => l.received)).toEqual([4, 0]);
+    expect([...plan.moves]).toEqual([['a', 4]]);
+    expect(plan.status).toBe('open');
+  });
+
+  it('clamps to what is outstanding and closes a fully received order', () => {
+    const o = order([line('a', 6, 4), line('b', 2)]);
+    const plan = planReceipt(o, { a: 10, b: 2, stray: 3 });
+    expect([...plan.moves]).toEqual([['a', 2], ['b', 2]]);
+    expect(plan.status).toBe('received');
+  });
+
+  it('ignores negative and fractional quantities', () => {
+    const plan = planReceipt(order([line('a', 3)]), { a: -2 });
+    expect(plan.moves.size).toBe(0);
+    expect(planReceipt(order([line('a', 3)]), { a: 1.7 }).moves.get('a')).toBe(1);
+  });
+});
+
+describe('outstanding quantities', () => {
+  it('totals the unreceived remainder per order and per pack', () => {
+    const o = order([line('a', 6, 4), line('b', 2, 2)]);
+    expect(orderOutstanding(o)).toBe(2);
+    expect(outstandingByPack(o)).toEqual({ a: 2, b: 0 });
+  });
+});
+
+describe('onOrderByPack', () => {
+  it('sums open orders and keeps the earliest expected date', () => {
+    const onOrder = onOrderByPack([
+      order([line('a', 3)], { expectedDate: '2026-11-10' }),
+      order([line('a', 2, 1), line('b', 1)], { expectedDate: '2026-11-01' }),
+      order([line('a', 5)], { status: 'cancelled' }),
+    ]);
+    expect(onOrder.get('a')).toEqual({ count: 4, expectedDate: '2026-11-01' });
+    expect(onOrder.get('b')).toEqual({ count: 1, expectedDate: '2026-11-01' });
+  });
+
+  it('leaves expectedDate off when no order has one', () => {
+    expect(onOrderByPack([order([line('a', 1)])]).get('a')).toEqual({ count: 1 });
+  });
+});
+
+describe('isOverdue', () => {
+  it('flags open orders past their expected date', () => {
+    expect(isOverdue(order([], { expectedDate: '2026-10-01' }), '2026-10-19')).toBe(true);
+    expect(isOverdue(order([], { expectedDate: '2026-10-19' }), '2026-10-19')).toBe(false);
+    expect(isOverdue(order([], { expectedDate: '2026-10-01', status: 'received' }), '2026-10-19')).toBe(false);
+  });
+});
+
+describe('mergeOrderLines', () => {
+  it('adds up repeated catalog entries into one line', () => {
+    const merged = mergeOrderLines([
+      { catalogId: 'c1', name: 'MH3', quantity: 2 },
+      { catalogId: 'c2', name: 'OTJ', quantity: 1 },
+      { catalogId: 'c1', name: 'MH3', quantity: 3 },
+    ]);
+    expect(merged).toEqual([
+      { catalogId: 'c1', name: 'MH3', quantity: 5 },
+      { catalogId: 'c2', name: 'OTJ', quantity: 1 },
+    ]);
+  });
+});
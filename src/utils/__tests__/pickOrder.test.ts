@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { groupPicksByPlayer, lapOrder, playerIndexForPick } from '../pickOrder';
+
+function sequence(mode: Parameters<typeof playerIndexForPick>[2], picks: number, players: number, seed = 0) {
+  return Array.from({ length: picks }, (_, i) => playerIndexForPick(i, players, mode, seed));
+}
+
+describe('playerIndexForPick', () => {
+  it('round-robin repeats seat order', () => {
+    expect(sequence('round-robin', 7, 3)).toEqual([0, 1, 2, 0, 1, 2, 0]);
+  });
+
+  it('defaults to round-robin', () => {
+    expect(playerIndexForPick(4, 3)).toBe(1);
+  });
+
+  it('snake reverses every other lap', () => {
+    expect(sequence('snake', 9, 3)).toEqual([0, 1, 2, 2, 1, 0, 0, 1, 2]);
+  });
+
+  it('player-choice rotates like round-robin', () => {
+    expect(sequence('player-choice', 6, 3)).toEqual(sequence('round-robin', 6, 3));
+  });
+
+  it('random gives every player exactly one pick per lap', () => {
+    const picks = sequence('random', 20, 4, 987);
+    for (let lap = 0; lap < 5; lap++) {
+      expect([...picks.slice(lap * 4, lap * 4 + 4)].sort()).toEqual([0, 1, 2, 3]);
+    }
+  });
+
+  it('random is reproducible from its seed', () => {
+    expect(sequence('random', 12, 4, 42)).toEqual(sequence('random', 12, 4, 42));
+  });
+
+  it('handles an empty table', () => {
+    expect(playerIndexForPick(3, 0, 'snake')).toBe(0);
+  });
+});
+
+describe('lapOrder', () => {
+  it('random laps differ between laps for the same seed', () => {
+    const laps = Array.from({ length: 6 }, (_, lap) => lapOrder(lap, 6, 'random', 7).join());
+    expect(new Set(laps).size).toBeGreaterThan(1);
+  });
+});
+
+describe('groupPicksByPlayer', () => {
+  it('groups snake picks per player in pick order', () => {
+    expect(groupPicksByPlayer(['a', 'b', 'c', 'd', 'e', 'f'], 3, 'snake')).toEqual([
+      ['a', 'f'],
+      ['b', 'e'],
+      ['c', 'd'],
+    ]);
+  });
+});
@@ -134,6 +134,22 @@ describe('computePlayerAggregates', () => {
     expect(alice.tournamentsPlayed).toBe(2);
   });
 
+  it('counts playoff results and tournament wins apart from the Swiss record', () => {
+    const draft = makeDraft('d1', [{ id: 'a', name: 'Alice' }, { id: 'b', name: 'Bob' }, { id: 'c', name: 'Cara' }], [
+      makeRound(1, [{ p1: 'a', p2: 'b', winner: 'player1' }, { p1: 'c', p2: null }]),
+    ]);
+    draft.tournament!.playoff = {
+      size: 2,
+      seeds: ['a', 'c'],
+      rounds: [makeRound(1, [{ p1: 'a', p2: 'c', winner: 'player2' }])],
+    };
+    const byName = Object.fromEntries(computePlayerAggregates([draft]).map(a => [a.displayName, a]));
+    expect(byName.Cara).toMatchObject({ matchWins: 0, playoffWins: 1, playoffLosses: 0, topCuts: 1, tournamentWins: 1 });
+    expect(byName.Alice).toMatchObject({ matchWins: 1, playoffWins: 0, playoffLosses: 1, topCuts: 1, tournamentWins: 0 });
+    expect(byName.Bob).toMatchObject({ topCuts: 0, tournamentWins: 0 });
+    expect(computePlayerDraftHistory('Cara', [draft])[0]).toMatchObject({ madeTopCut: true, wonTournament: true });
+  });
+
   it('sorts by matchWins descending, then matchWinRate descending', () => {
     const draft = makeDraft(
       'd1',
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import {
+  bracketOrder,
+  nextPlayoffRound,
+  playoffChampionId,
+  playoffRoundName,
+  seedPlayoff,
+  tournamentWinnerId,
+} from '../playoffBracket';
+import type { DraftPlayer, DraftTournament, TournamentPlayoff, TournamentRound } from '../../types';
+
+const players: DraftPlayer[] = ['A', 'B', 'C', 'D', 'E', 'F'].map(id => ({ id, name: id, userId: null }));
+
+const won = (winner: 'player1' | 'player2') => ({
+  player1Wins: winner === 'player1' ? 2 : 0,
+  player2Wins: winner === 'player2' ? 2 : 0,
+  ties: 0,
+  matchWinner: winner,
+  isPartial: false,
+  submittedBy: 'u1',
+  submittedAt: { toMillis: () => 0 } as unknown as Timestamp,
+});
+
+// One Swiss round: A, C, E win
+const swiss: TournamentRound[] = [{
+  roundNumber: 1,
+  status: 'complete',
+  pairings: [
+    { id: 's1', player1Id: 'A', player2Id: 'B', status: 'complete', result: won('player1') },
+    { id: 's2', player1Id: 'C', player2Id: 'D', status: 'complete', result: won('player1') },
+    { id: 's3', player1Id: 'E', player2Id: 'F', status: 'complete', result: won('player1') },
+  ],
+}];
+
+const decide = (round: TournamentRound, winners: ('player1' | 'player2')[]): TournamentRound => ({
+  ...round,
+  status: 'complete',
+  pairings: round.pairings.map((p, i) => ({ ...p, status: 'complete', result: won(winners[i]) })),
+});
+
+describe('bracketOrder', () => {
+  it('keeps the top seeds apart until the final', () => {
+    expect(bracketOrder(2)).toEqual([1, 2]);
+    expect(bracketOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe('seedPlayoff', () => {
+  it('seeds from the Swiss standings and pairs 1v4, 2v3', () => {
+    const playoff = seedPlayoff(players, swiss, 4);
+    expect(playoff.seeds).toHaveLength(4);
+    expect(playoff.seeds.slice(0, 3).sort()).toEqual(['A', 'C', 'E']);
+    const [first, second] = playoff.rounds[0].pairings;
+    expect([first.player1Id, first.player2Id]).toEqual([playoff.seeds[0], playoff.seeds[3]]);
+    expect([second.player1Id, second.player2Id]).toEqual([playoff.seeds[1], playoff.seeds[2]]);
+  });
+
+  it('skips players who dropped', () => {
+    const playoff = seedPlayoff(players, swiss, 2, {
+      drops: [{ playerId: 'A', afterRound: 1, droppedAt: { toMillis: () => 0 } as unknown as Timestamp }],
+    });
+    expect(playoff.seeds).not.toContain('A');
+    expect(playoff.seeds.every(id => ['C', 'E'].includes(id))).toBe(true);
+  });
+
+  it("seeds each pod's winner ahead of any runner-up with per-pod standings", () => {
+    const playoff = seedPlayoff(players, swiss, 2, {
+      pods: [{ podNumber: 1, playerIds: ['A', 'B', 'C', 'D'] }, { podNumber: 2, playerIds: ['E', 'F'] }],
+      podStandings: 'per-pod',
+    });
+    expect(playoff.seeds).toContain('E');
+    expect(playoff.seeds.filter(id => ['A', 'C'].includes(id))).toHaveLength(1);
+  });
+
+  it('refuses a cut bigger than the field', () => {
+    expect(() => seedPlayoff(players, swiss, 8)).toThrow();
+  });
+});
+
+describe('bracket progression', () => {
+  it('pairs the winners of neighbouring matches, then crowns the final winner', () => {
+    const seeded = seedPlayoff(players, swiss, 4);
+    expect(nextPlayoffRound(seeded)).toBeNull();
+
+    const semis = decide(seeded.rounds[0], ['player1', 'player2']);
+    const afterSemis: TournamentPlayoff = { ...seeded, rounds: [semis] };
+    const final = nextPlayoffRound(afterSemis)!;
+    expect(playoffRoundName(semis)).toBe('Semifinals');
+    expect(playoffRoundName(final)).toBe('Final');
+    expect(final.roundNumber).toBe(2);
+    expect([final.pairings[0].player1Id, final.pairings[0].player2Id]).toEqual([seeded.seeds[0], seeded.seeds[2]]);
+    expect(playoffChampionId(afterSemis)).toBeNull();
+
+    const done: TournamentPlayoff = { ...seeded, rounds: [semis, decide(final, ['player2'])] };
+    expect(nextPlayoffRound(done)).toBeNull();
+    expect(playoffChampionId(done)).toBe(seeded.seeds[2]);
+  });
+});
+
+describe('tournamentWinnerId', () => {
+  const tournament: DraftTournament = {
+    seats: [], rounds: swiss, currentRound: 1, totalRounds: 1, status: 'finalized',
+  };
+
+  it('is the Swiss leader without a cut, and only once finalized', () => {
+    expect(['A', 'C', 'E']).toContain(tournamentWinnerId(players, tournament));
+    expect(tournamentWinnerId(players, { ...tournament, status: 'active' })).toBeNull();
+  });
+
+  it('is the playoff champion after a cut', () => {
+    const seeded = seedPlayoff(players, swiss, 2);
+    const playoff = { ...seeded, rounds: [decide(seeded.rounds[0], ['player2'])] };
+    expect(tournamentWinnerId(players, { ...tournament, playoff })).toBe(seeded.seeds[1]);
+  });
+});
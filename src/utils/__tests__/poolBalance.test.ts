@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import { poolBalances } from '../poolBalance';
+import type { Draft } from '../../types';
+
+const fakeTs = { toMillis: () => 0 } as unknown as Timestamp;
+
+const draft = (extra: Partial<Draft>): Draft => ({
+  id: 'd',
+  type: 'regular',
+  status: 'finalized',
+  createdBy: 'admin',
+  createdAt: fakeTs,
+  players: [],
+  ...extra,
+});
+
+const players = [
+  { id: 'p1', name: 'Ben', userId: 'ben' },
+  { id: 'p2', name: 'Markus', userId: 'markus' },
+  { id: 'p3', name: 'Guest', userId: null },
+];
+
+describe('poolBalances', () => {
+  it('nets packs supplied against packs opened, deficits first', () => {
+    const balances = poolBalances([
+      draft({
+        players,
+        packsPerPerson: 3,
+        allocation: [
+          { userId: 'ben', userName: 'Ben', catalogId: 'a', name: 'A', count: 6 },
+          { userId: 'dana', userName: 'Dana', catalogId: 'a', name: 'A', count: 3 },
+        ],
+      }),
+    ], []);
+    expect(balances.map(b => [b.name, b.contributed, b.opened, b.balance])).toEqual([
+      ['Markus', 0, 3, -3],
+      ['Ben', 6, 3, 3],
+      ['Dana', 3, 0, 3],
+    ]);
+  });
+
+  it('skips chaos, cube and unfinalized drafts', () => {
+    const balances = poolBalances([
+      draft({ type: 'chaos', players, packsPerPerson: 3 }),
+      draft({ players, packsPerPerson: 3, cubeId: 'cube' }),
+      draft({ status: 'preview', players, packsPerPerson: 3 }),
+    ], []);
+    expect(balances).toEqual([]);
+  });
+
+  it('applies admin adjustments and prefers profile names', () => {
+    const balances = poolBalances(
+      [draft({ players: players.slice(0, 1), packsPerPerson: 3 })],
+      [{ userId: 'ben', packs: 2 }, { userId: 'zoe', packs: -1 }],
+      { ben: 'Benjamin' }
+    );
+    expect(balances).toEqual([
+      { userId: 'ben', name: 'Benjamin', contributed: 0, opened: 3, adjusted: 2, balance: -1 },
+      { userId: 'zoe', name: 'zoe', contributed: 0, opened: 0, adjusted: -1, balance: -1 },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import {
+  parsePrivateInventoryFile,
+  privateInventoryToCsv,
+  privateInventoryToJson,
+  resolvePrivateInventoryRows,
+} from '../privateInventoryTransfer';
+import type { PackCatalogEntry, PrivateInventoryItem } from '../../types';
+
+const fakeTs = { seconds: 0, nanoseconds: 0, toDate: () => new Date(), toMillis: () => 0 } as unknown as Timestamp;
+
+const catalog: PackCatalogEntry[] = [
+  { id: 'blb', name: 'Bloomburrow Play Booster', imageUrl: 'blb.png', createdAt: fakeTs },
+  { id: 'dsk', name: 'Duskmourn Play Booster', imageUrl: 'dsk.png', createdAt: fakeTs },
+];
+
+const items: PrivateInventoryItem[] = [
+  { id: '1', ownerId: 'u', catalogId: 'dsk', name: 'Duskmourn Play Booster', imageUrl: 'dsk.png', count: 2 },
+  { id: '2', ownerId: 'u', catalogId: 'blb', name: 'Bloomburrow Play Booster', imageUrl: 'blb.png', count: 5 },
+];
+
+describe('export', () => {
+  it('writes CSV sorted by name', () => {
+    expect(privateInventoryToCsv(items).split('\r\n')).toEqual([
+      'Catalog ID,Pack Name,Image URL,Count',
+      'blb,Bloomburrow Play Booster,blb.png,5',
+      'dsk,Duskmourn Play Booster,dsk.png,2',
+    ]);
+  });
+
+  it('writes versioned JSON without Firestore ids or owners', () => {
+    const data = JSON.parse(privateInventoryToJson(items, new Date('2025-01-01T00:00:00Z')));
+    expect(data).toEqual({
+      version: 1,
+      exportedAt: '2025-01-01T00:00:00.000Z',
+      items: [
+        { catalogId: 'blb', name: 'Bloomburrow Play Booster', imageUrl: 'blb.png', count: 5 },
+        { catalogId: 'dsk', name: 'Duskmourn Play Booster', imageUrl: 'dsk.png', count: 2 },
+      ],
+    });
+  });
+});
+
+describe('parsePrivateInventoryFile', () => {
+  it('round-trips both export formats', () => {
+    const expected = [
+      { catalogId: 'blb', name: 'Bloomburrow Play Booster', count: 5 },
+      { catalogId: 'dsk', name: 'Duskmourn Play Booster', count: 2 },
+    ];
+    expect(parsePrivateInventoryFile(privateInventoryToCsv(items)).rows).toMatchObject(expected);
+    expect(parsePrivateInventoryFile(privateInventoryToJson(items)).rows).toMatchObject(expected);
+  });
+
+  it('accepts a bare JSON array', () => {
+    const { rows } = parsePrivateInventoryFile('[{"name":"Bloomburrow","count":1}]');
+    expect(rows).toEqual([{ line: 1, catalogId: '', name: 'Bloomburrow', count: 1 }]);
+  });
+
+  it('reports bad rows and malformed files', () => {
+    const { rows, errors } = parsePrivateInventoryFile('Pack Name,Count\nFoo,x\n,3\nBar,2');
+    expect(rows.map(r => r.name)).toEqual(['Bar']);
+    expect(errors).toEqual(['Line 2: count must be a whole number', 'Line 3: needs a catalog ID or pack name']);
+    expect(parsePrivateInventoryFile('{oops').errors).toEqual(['File is not valid JSON']);
+    expect(parsePrivateInventoryFile('Name\nFoo').errors).toHaveLength(1);
+  });
+});
+
+describe('resolvePrivateInventoryRows', () => {
+  it('prefers catalog ids, falls back to fuzzy names, and sums duplicates', () => {
+    const { rows } = parsePrivateInventoryFile(
+      'Catalog ID,Pack Name,Count\nblb,whatever,2\n,bloomburrow play boosters,1\n,Mystery Box,4'
+    );
+    const { resolved, unresolved } = resolvePrivateInventoryRows(rows, catalog);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0]).toMatchObject({ catalogId: 'blb', name: 'Bloomburrow Play Booster', imageUrl: 'blb.png', count: 3 });
+    expect(unresolved.map(r => r.name)).toEqual(['Mystery Box']);
+  });
+
+  it('treats an unknown catalog id as unresolved when the name does not match either', () => {
+    const { rows } = parsePrivateInventoryFile('Catalog ID,Count\ngone,1');
+    expect(resolvePrivateInventoryRows(rows, catalog).unresolved).toHaveLength(1);
+  });
+});
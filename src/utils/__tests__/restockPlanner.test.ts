@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import { pendingRestockDrafts, planRestock, restockedDraftIds, shoppingListText, type StockedPack } from '../restockPlanner';
+import type { Draft, PackOrder } from '../../types';
+
+const fakeTs = { toMillis: () => 0 } as unknown as Timestamp;
+
+const pack = (id: string, inPerson: number, inTransit = 0, targetStock?: number): StockedPack => ({
+  id,
+  catalogId: `cat-${id}`,
+  name: `Pack ${id.toUpperCase()}`,
+  imageUrl: '',
+  inPerson,
+  inTransit,
+  ...(targetStock !== undefined ? { targetStock } : {}),
+});
+
+const draft = (id: string, packIds: string[], extra: Partial<Draft> = {}): Draft => ({
+  id,
+  type: 'chaos',
+  status: 'finalized',
+  players: [],
+  packsSelectedOrder: packIds.map(p => ({ id: p, name: `Pack ${p.toUpperCase()}`, imageUrl: '' })),
+  createdAt: fakeTs,
+  ...extra,
+} as Draft);
+
+const order = (lines: [string, number][], restockDraftIds?: string[]): PackOrder => ({
+  id: 'o1',
+  ownerId: 'u1',
+  vendor: 'Store',
+  lines: lines.map(([packId, quantity]) => ({ packId, catalogId: `cat-${packId}`, name: packId, imageUrl: '', quantity, received: 0 })),
+  status: 'open',
+  createdAt: fakeTs,
+  ...(restockDraftIds ? { restockDraftIds } : {}),
+});
+
+describe('pendingRestockDrafts', () => {
+  it('keeps finalized chaos drafts that are neither restocked nor covered by an open order', () => {
+    const drafts = [
+      draft('d1', ['a']),
+      draft('d2', ['a'], { restockComplete: true }),
+      draft('d3', ['a'], { status: 'in-progress' }),
+      draft('d4', ['a']),
+      draft('d5', [], { type: 'regular' }),
+    ];
+    expect(pendingRestockDrafts(drafts, [order([['a', 1]], ['d4'])]).map(d => d.id)).toEqual(['d1']);
+  });
+});
+
+describe('planRestock', () => {
+  it('consolidates consumption across drafts and nets off what is in transit', () => {
+    const plan = planRestock(
+      [draft('d1', ['a', 'b', 'a']), draft('d2', ['a'])],
+      [pack('a', 0, 1), pack('b', 4)],
+      []
+    );
+    expect(plan.draftIds).toEqual(['d1', 'd2']);
+    expect(plan.lines.map(l => [l.name, l.consumed, l.need, l.draftIds])).toEqual([
+      ['Pack A', 3, 2, ['d1', 'd2']],
+      ['Pack B', 1, 1, ['d1']],
+    ]);
+  });
+
+  it('tops packs up to their target stock even without consumption', () => {
+    const plan = planRestock([draft('d1', ['a'])], [pack('a', 2, 0, 3), pack('c', 1, 1, 5)], []);
+    expect(plan.lines.map(l => [l.key, l.need])).toEqual([['cat-a', 1], ['cat-c', 3]]);
+  });
+
+  it("doesn't let stock earmarked for an earlier restock order offset new consumption", () => {
+    const plan = planRestock(
+      [draft('d1', ['a']), draft('d2', ['a', 'a'])],
+      [pack('a', 0, 2)],
+      [order([['a', 1]], ['d1'])]
+    );
+    expect(plan.draftIds).toEqual(['d2']);
+    expect(plan.lines[0]).toMatchObject({ consumed: 2, inTransit: 1, need: 1 });
+  });
+
+  it('lists deleted packs under their draft name without a catalog id', () => {
+    const plan = planRestock([draft('d1', ['gone'])], [], []);
+    expect(plan.lines).toEqual([expect.objectContaining({ key: 'gone', catalogId: '', name: 'Pack GONE', need: 1 })]);
+  });
+});
+
+describe('restockedDraftIds', () => {
+  const plan = planRestock(
+    [draft('d1', ['a', 'b']), draft('d2', ['a']), draft('d3', ['gone'])],
+    [pack('a', 0), pack('b', 0)],
+    []
+  );
+
+  it('covers only drafts whose every pack to buy is on the order in full', () => {
+    expect(restockedDraftIds(plan, [{ catalogId: 'cat-a', quantity: 2 }, { catalogId: 'cat-b', quantity: 1 }])).toEqual(['d1', 'd2']);
+    expect(restockedDraftIds(plan, [{ catalogId: 'cat-a', quantity: 2 }])).toEqual(['d2']);
+    expect(restockedDraftIds(plan, [{ catalogId: 'cat-a', quantity: 1 }, { catalogId: 'cat-b', quantity: 1 }])).toEqual([]);
+  });
+});
+
+describe('shoppingListText', () => {
+  it('writes one line per pack to buy', () => {
+    expect(shoppingListText([{ name: 'Pack A', need: 2 }, { name: 'Pack B', need: 0 }])).toBe('2 × Pack A');
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import {
+  canConfirmResult,
+  canCorrectPlayoffResult,
+  canDisputeResult,
+  correctionWarning,
+  repairLaterRound,
+  toStoredResults,
+  withPairing,
+  withPlayoffPairing,
+  withStoredResults,
+} from '../resultConfirmation';
+import type {
+  DraftPlayer,
+  DraftTournament,
+  PairingResult,
+  TournamentPairing,
+  TournamentPlayoff,
+  TournamentRound,
+} from '../../types';
+
+const ts = { toMillis: () => 0 } as unknown as Timestamp;
+
+const players: DraftPlayer[] = [
+  { id: 'A', name: 'Alice', userId: 'uA' },
+  { id: 'B', name: 'Bob', userId: 'uB' },
+  { id: 'C', name: 'Cara', userId: 'uC' },
+  { id: 'D', name: 'Dan', userId: null },
+];
+
+const result = (submittedBy: string, winner: 'player1' | 'player2' = 'player1'): PairingResult => ({
+  player1Wins: winner === 'player1' ? 2 : 0,
+  player2Wins: winner === 'player2' ? 2 : 0,
+  ties: 0,
+  matchWinner: winner,
+  isPartial: false,
+  submittedBy,
+  submittedAt: ts,
+});
+
+const pairing = (
+  id: string,
+  player1Id: string,
+  player2Id: string | null,
+  status: TournamentPairing['status'] = 'pending',
+  res?: PairingResult
+): TournamentPairing => ({ id, player1Id, player2Id, status, ...(res ? { result: res } : {}) });
+
+describe('canConfirmResult / canDisputeResult', () => {
+  const reported = pairing('m1', 'A', 'B', 'reported', result('uA'));
+
+  it("lets the reporter's opponent confirm or dispute, but not the reporter", () => {
+    expect(canConfirmResult(reported, players, 'uB', false)).toBe(true);
+    expect(canDisputeResult(reported, players, 'uB')).toBe(true);
+    expect(canConfirmResult(reported, players, 'uA', false)).toBe(false);
+    expect(canDisputeResult(reported, players, 'uA')).toBe(false);
+  });
+
+  it('keeps players outside the match out, but not admins', () => {
+    expect(canConfirmResult(reported, players, 'uC', false)).toBe(false);
+    expect(canDisputeResult(reported, players, 'uC')).toBe(false);
+    expect(canConfirmResult(reported, players, 'uC', true)).toBe(true);
+  });
+
+  it('leaves disputed results to an admin', () => {
+    const disputed = { ...reported, status: 'disputed' as const };
+    expect(canConfirmResult(disputed, players, 'uB', false)).toBe(false);
+    expect(canConfirmResult(disputed, players, 'uC', true)).toBe(true);
+    expect(canDisputeResult(disputed, players, 'uB')).toBe(false);
+  });
+
+  it('needs an admin when the opponent is a guest', () => {
+    const vsGuest = pairing('m2', 'C', 'D', 'reported', result('uC'));
+    expect(canConfirmResult(vsGuest, players, 'uC', false)).toBe(false);
+    expect(canConfirmResult(vsGuest, players, 'uA', true)).toBe(true);
+  });
+});
+
+describe('withPairing', () => {
+  it('completes the round only once every match is confirmed', () => {
+    const round: TournamentRound = {
+      roundNumber: 1,
+      status: 'active',
+      pairings: [pairing('m1', 'A', 'B'), pairing('m2', 'C', 'D', 'complete', result('uC')), pairing('bye', 'E', null)],
+    };
+    const reported = withPairing(round, 'm1', p => ({ ...p, status: 'reported', result: result('uA') }));
+    expect(reported.status).toBe('active');
+    const confirmed = withPairing(reported, 'm1', p => ({ ...p, status: 'complete' }));
+    expect(confirmed.status).toBe('complete');
+  });
+});
+
+describe('repairLaterRound', () => {
+  const r1: TournamentRound = {
+    roundNumber: 1,
+    status: 'complete',
+    pairings: [
+      pairing('m1', 'A', 'B', 'complete', result('uA')),
+      pairing('m2', 'C', 'D', 'complete', result('uC')),
+    ],
+  };
+  const r2: TournamentRound = {
+    roundNumber: 2,
+    status: 'active',
+    pairings: [pairing('m3', 'A', 'C'), pairing('m4', 'B', 'D')],
+  };
+  const tournament: DraftTournament = {
+    seats: [], rounds: [r1, r2], currentRound: 2, totalRounds: 3, status: 'active',
+  };
+
+  it('re-pairs a later round nobody has reported in, from the corrected standings', () => {
+    // B now beat A, so B and C lead
+    const corrected = { ...tournament, rounds: [withPairing(r1, 'm1', p => ({ ...p, result: result('uX', 'player2') })), r2] };
+    const repaired = repairLaterRound(players, corrected, 1);
+    expect(repaired?.roundNumber).toBe(2);
+    const matches = repaired!.pairings.map(p => [p.player1Id, p.player2Id].sort().join(':')).sort();
+    expect(matches).toEqual(['A:D', 'B:C']);
+  });
+
+  it('keeps a later round once a result is in', () => {
+    const started = {
+      ...tournament,
+      rounds: [r1, withPairing(r2, 'm3', p => ({ ...p, status: 'reported' as const, result: result('uA') }))],
+    };
+    expect(repairLaterRound(players, started, 1)).toBeNull();
+  });
+
+  it('has nothing to do for a result in the latest round', () => {
+    expect(repairLaterRound(players, tournament, 2)).toBeNull();
+  });
+});
+
+describe('withPlayoffPairing', () => {
+  const semis: TournamentRound = {
+    roundNumber: 1,
+    status: 'active',
+    pairings: [pairing('s1', 'A', 'D'), pairing('s2', 'B', 'C')],
+  };
+  const playoff: TournamentPlayoff = { size: 4, seeds: ['A', 'B', 'C', 'D'], rounds: [semis] };
+  const settle = (status: TournamentPairing['status'], winner: 'player1' | 'player2' = 'player1') =>
+    (p: TournamentPairing) => ({ ...p, status, result: result('uX', winner) });
+
+  it('waits for every result in the round to be confirmed before pairing the next', () => {
+    const reported = withPlayoffPairing(playoff, 1, 's1', settle('complete'))!;
+    const both = withPlayoffPairing(reported.playoff, 1, 's2', settle('reported'))!;
+    expect(both.next).toBeNull();
+    expect(both.playoff.rounds).toHaveLength(1);
+
+    const confirmed = withPlayoffPairing(both.playoff, 1, 's2', settle('complete'))!;
+    expect(confirmed.next?.pairings.map(p => [p.player1Id, p.player2Id])).toEqual([['A', 'B']]);
+    expect(confirmed.playoff.rounds).toHaveLength(2);
+  });
+
+  it('re-pairs an unplayed later round when a correction changes who advanced', () => {
+    let bracket = withPlayoffPairing(playoff, 1, 's1', settle('complete'))!.playoff;
+    bracket = withPlayoffPairing(bracket, 1, 's2', settle('complete'))!.playoff;
+    const final = bracket.rounds[1];
+
+    const sameWinner = withPlayoffPairing(bracket, 1, 's1', settle('complete'))!;
+    expect(sameWinner.next).toBeNull();
+    expect(sameWinner.playoff.rounds[1]).toBe(final);
+
+    const upset = withPlayoffPairing(bracket, 1, 's1', settle('complete', 'player2'))!;
+    expect(upset.next?.pairings.map(p => [p.player1Id, p.player2Id])).toEqual([['D', 'B']]);
+  });
+
+  it('refuses to change a round once the round after it has results', () => {
+    let bracket = withPlayoffPairing(playoff, 1, 's1', settle('complete'))!.playoff;
+    bracket = withPlayoffPairing(bracket, 1, 's2', settle('complete'))!.playoff;
+    expect(canCorrectPlayoffResult(bracket, 1)).toBe(true);
+
+    const finalId = bracket.rounds[1].pairings[0].id;
+    bracket = withPlayoffPairing(bracket, 2, finalId, settle('reported'))!.playoff;
+    expect(canCorrectPlayoffResult(bracket, 1)).toBe(false);
+    expect(withPlayoffPairing(bracket, 1, 's1', settle('complete', 'player2'))).toBeNull();
+    expect(canCorrectPlayoffResult(bracket, 2)).toBe(true);
+  });
+});
+
+describe('correctionWarning', () => {
+  const tournament: DraftTournament = {
+    seats: [],
+    rounds: [
+      { roundNumber: 1, status: 'complete', pairings: [pairing('m1', 'A', 'B', 'complete', result('uA', 'player2'))] },
+      { roundNumber: 2, status: 'complete', pairings: [] },
+      { roundNumber: 3, status: 'active', pairings: [] },
+    ],
+    currentRound: 3,
+    totalRounds: 3,
+    status: 'active',
+  };
+
+  it('describes the change and which rounds were kept or re-paired', () => {
+    const warning = correctionWarning({
+      roundNumber: 1,
+      pairingId: 'm1',
+      previous: { player1Wins: 2, player2Wins: 0, ties: 0, matchWinner: 'player1' },
+      result: { player1Wins: 0, player2Wins: 2, ties: 0, matchWinner: 'player2' },
+      correctedBy: 'admin',
+      correctedAt: ts,
+      atRound: 3,
+      repairedRound: 3,
+    }, tournament, players);
+    expect(warning).toBe(
+      'Round 1: Alice vs Bob was corrected from 2–0 to 0–2. ' +
+      'Round 3 was paired again from the new standings. ' +
+      'Round 2 had already started and kept its pairings.'
+    );
+  });
+
+  it('names the bracket round for a playoff correction', () => {
+    const final: TournamentRound = { roundNumber: 2, status: 'active', pairings: [pairing('f1', 'B', 'C')] };
+    const semis: TournamentRound = {
+      roundNumber: 1,
+      status: 'complete',
+      pairings: [pairing('s1', 'A', 'B', 'complete', result('uA', 'player2')), pairing('s2', 'C', 'D')],
+    };
+    const warning = correctionWarning({
+      roundNumber: 1,
+      pairingId: 's1',
+      previous: { player1Wins: 2, player2Wins: 0, ties: 0, matchWinner: 'player1' },
+      result: { player1Wins: 0, player2Wins: 2, ties: 0, matchWinner: 'player2' },
+      correctedBy: 'admin',
+      correctedAt: ts,
+      atRound: 3,
+      repairedRound: 2,
+      playoff: true,
+    }, { ...tournament, playoff: { size: 4, seeds: ['A', 'B', 'C', 'D'], rounds: [semis, final] } }, players);
+    expect(warning).toBe('Semifinals: Alice vs Bob was corrected from 2–0 to 0–2. The Final was paired again.');
+  });
+});
+
+describe('toStoredResults / withStoredResults', () => {
+  const base: DraftTournament = {
+    seats: [],
+    rounds: [{
+      roundNumber: 1,
+      status: 'active',
+      pairings: [pairing('m1', 'A', 'B', 'reported', result('uA')), pairing('m2', 'C', 'D')],
+    }],
+    currentRound: 1,
+    totalRounds: 3,
+    status: 'active',
+    results: {},
+  };
+
+  it('moves results off the pairings and back again', () => {
+    const stored = toStoredResults(base, players);
+    expect(stored.rounds[0].pairings).toEqual([pairing('m1', 'A', 'B'), pairing('m2', 'C', 'D')]);
+    expect(stored.results).toEqual({ m1: { ...result('uA'), status: 'reported', playerUids: ['uA', 'uB'] } });
+    expect(withStoredResults(stored).rounds[0].pairings).toEqual(base.rounds[0].pairings);
+  });
+
+  it('keeps the players a result was reported with', () => {
+    const stored = toStoredResults(base, players);
+    const relinked = players.map(p => (p.id === 'B' ? { ...p, userId: 'uX' } : p));
+    expect(toStoredResults(withStoredResults(stored), relinked).results?.m1.playerUids).toEqual(['uA', 'uB']);
+  });
+
+  it('ignores results written onto the pairings of a tournament with a results map', () => {
+    const forged = { ...base, rounds: [{ ...base.rounds[0], pairings: [pairing('m1', 'A', 'B', 'complete', result('uA'))] }] };
+    expect(withStoredResults(forged).rounds[0].pairings).toEqual([pairing('m1', 'A', 'B')]);
+  });
+
+  it('leaves older tournaments without a results map alone', () => {
+    const legacy = { ...base, results: undefined };
+    expect(withStoredResults(legacy)).toBe(legacy);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { roundRobinRounds, roundRobinSchedule, scheduledPairings } from '../roundRobin';
+import { generateRound1Pairings } from '../tournamentPairings';
+import type { DraftPlayer, ScheduledRound, TournamentRound } from '../../types';
+
+const field = (n: number): DraftPlayer[] =>
+  Array.from({ length: n }, (_, i) => ({ id: `p${i + 1}`, name: `P${i + 1}`, userId: null }));
+
+const matchKey = (a: string, b: string | null) => [a, b ?? 'bye'].sort().join(':');
+
+describe('roundRobinSchedule', () => {
+  it.each([4, 5, 6, 7, 8])('has %i players meet everyone exactly once', n => {
+    const schedule = roundRobinSchedule(field(n));
+    expect(schedule).toHaveLength(roundRobinRounds(n));
+
+    const matches = schedule.flatMap(r => r.pairings.filter(p => p.player2Id !== null).map(p => matchKey(p.player1Id, p.player2Id)));
+    expect(new Set(matches).size).toBe(matches.length);
+    expect(matches).toHaveLength((n * (n - 1)) / 2);
+
+    for (const round of schedule) {
+      const seated = round.pairings.flatMap(p => [p.player1Id, p.player2Id]).filter(id => id !== null);
+      expect(new Set(seated).size).toBe(n);
+    }
+  });
+
+  it('gives each player in an odd field one bye', () => {
+    const byes = roundRobinSchedule(field(5)).flatMap(r => r.pairings.filter(p => p.player2Id === null).map(p => p.player1Id));
+    expect(byes.sort()).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+  });
+
+  it('starts with the same round 1 as the seating', () => {
+    for (const n of [6, 7]) {
+      const players = field(n);
+      const scheduled = roundRobinSchedule(players)[0].pairings.map(p => matchKey(p.player1Id, p.player2Id));
+      const seated = generateRound1Pairings(players).map(p => matchKey(p.player1Id, p.player2Id));
+      expect(scheduled).toEqual(seated);
+    }
+  });
+});
+
+describe('scheduledPairings', () => {
+  const round: ScheduledRound = {
+    roundNumber: 2,
+    pairings: [
+      { player1Id: 'A', player2Id: 'B' },
+      { player1Id: 'C', player2Id: 'D' },
+      { player1Id: 'E', player2Id: null },
+    ],
+  };
+
+  it('plays the round as scheduled when nobody is out', () => {
+    expect(scheduledPairings(round, new Set()).map(p => [p.player1Id, p.player2Id])).toEqual([
+      ['A', 'B'], ['C', 'D'], ['E', null],
+    ]);
+  });
+
+  it("pairs up players whose opponent dropped, and gives the odd one out the bye", () => {
+    expect(scheduledPairings(round, new Set(['B'])).map(p => [p.player1Id, p.player2Id])).toEqual([
+      ['C', 'D'], ['A', 'E'],
+    ]);
+    expect(scheduledPairings(round, new Set(['B', 'D'])).map(p => [p.player1Id, p.player2Id])).toEqual([
+      ['A', 'C'], ['E', null],
+    ]);
+  });
+
+  it('never pairs players who already met, giving a bye instead', () => {
+    const earlier = (...matches: [string, string][]): TournamentRound[] => [{
+      roundNumber: 1,
+      status: 'complete',
+      pairings: matches.map(([player1Id, player2Id], i) => ({ id: `m${i}`, player1Id, player2Id, status: 'pending' })),
+    }];
+    expect(scheduledPairings(round, new Set(['B']), earlier(['A', 'E'])).map(p => [p.player1Id, p.player2Id])).toEqual([
+      ['C', 'D'], ['A', null], ['E', null],
+    ]);
+    // C and D already met as replacements, so their scheduled match is broken up too
+    expect(scheduledPairings(round, new Set(['B']), earlier(['A', 'E'], ['C', 'D'])).map(p => [p.player1Id, p.player2Id])).toEqual([
+      ['A', 'C'], ['D', 'E'],
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { applyTimerAction, clockOffsetMs, formatClock, inAdditionalTurns, isTimeUp, remainingMs, scoreMatch } from '../roundTimer';
+import type { TournamentRound } from '../../types';
+
+const MIN = 60_000;
+
+describe('applyTimerAction', () => {
+  it('counts down from the start, banking run time across a pause', () => {
+    const started = applyTimerAction(undefined, { type: 'start', minutes: 50 }, 0)!;
+    expect(remainingMs(started, 10 * MIN)).toBe(40 * MIN);
+
+    const paused = applyTimerAction(started, { type: 'pause' }, 10 * MIN)!;
+    // The clock stands still however long the pause lasts
+    expect(remainingMs(paused, 30 * MIN)).toBe(40 * MIN);
+
+    const resumed = applyTimerAction(paused, { type: 'resume' }, 30 * MIN)!;
+    expect(remainingMs(resumed, 35 * MIN)).toBe(35 * MIN);
+    expect(resumed.startedAt).toBe(0);
+  });
+
+  it('adds time when extended, running or paused', () => {
+    const started = applyTimerAction(undefined, { type: 'start', minutes: 50 }, 0)!;
+    const extended = applyTimerAction(started, { type: 'extend', minutes: 5 }, 20 * MIN)!;
+    expect(remainingMs(extended, 20 * MIN)).toBe(35 * MIN);
+  });
+
+  it('ignores pause, resume and extend before the clock is started', () => {
+    expect(applyTimerAction(undefined, { type: 'pause' }, 0)).toBeUndefined();
+    expect(applyTimerAction(undefined, { type: 'extend', minutes: 5 }, 0)).toBeUndefined();
+  });
+
+  it('does not double-count a repeated pause or resume', () => {
+    const started = applyTimerAction(undefined, { type: 'start', minutes: 50 }, 0)!;
+    const paused = applyTimerAction(started, { type: 'pause' }, 10 * MIN)!;
+    expect(applyTimerAction(paused, { type: 'pause' }, 20 * MIN)).toEqual(paused);
+    expect(applyTimerAction(started, { type: 'resume' }, 20 * MIN)).toEqual(started);
+  });
+});
+
+describe('additional turns', () => {
+  const round: TournamentRound = {
+    roundNumber: 1,
+    status: 'active',
+    timer: { startedAt: 0, durationMs: 50 * MIN, runningSince: 0, elapsedMs: 0 },
+    pairings: [
+      { id: 'm1', player1Id: 'A', player2Id: 'B', status: 'pending' },
+      { id: 'm2', player1Id: 'C', player2Id: 'D', status: 'reported' },
+      { id: 'bye', player1Id: 'E', player2Id: null, status: 'pending' },
+    ],
+  };
+
+  it('applies to unreported matches once time is up', () => {
+    expect(isTimeUp(round, 49 * MIN)).toBe(false);
+    expect(isTimeUp(round, 50 * MIN)).toBe(true);
+    expect(round.pairings.map(p => inAdditionalTurns(p, round, 51 * MIN))).toEqual([true, false, false]);
+    expect(inAdditionalTurns(round.pairings[0], round, 10 * MIN)).toBe(false);
+  });
+
+  it('never applies to a round without a clock', () => {
+    const untimed = { ...round, timer: undefined };
+    expect(inAdditionalTurns(untimed.pairings[0], untimed, 999 * MIN)).toBe(false);
+  });
+});
+
+describe('scoreMatch', () => {
+  it('gives the match to whoever won more games', () => {
+    expect(scoreMatch(2, 1, 0)).toEqual({ player1Wins: 2, player2Wins: 1, ties: 0, matchWinner: 'player1', isPartial: false });
+    expect(scoreMatch(1, 1, 1).matchWinner).toBe('tie');
+  });
+
+  it('adds the unfinished game as a draw when time is called, without drawing a match someone leads', () => {
+    expect(scoreMatch(1, 0, 0, true)).toEqual({
+      player1Wins: 1, player2Wins: 0, ties: 1, matchWinner: 'player1', isPartial: false, endedOnTime: true,
+    });
+    expect(scoreMatch(1, 1, 0, true)).toMatchObject({ ties: 1, matchWinner: 'tie' });
+  });
+});
+
+describe('clockOffsetMs', () => {
+  it('places the server timestamp halfway through the round trip', () => {
+    // Device sent at 1000 and heard back at 1400; the server stamped 61_200
+    expect(clockOffsetMs(1000, 61_200, 1400)).toBe(60_000);
+    expect(clockOffsetMs(5000, 4000, 5000)).toBe(-1000);
+  });
+});
+
+describe('formatClock', () => {
+  it('shows minutes and seconds, rounding up, and stops at zero', () => {
+    expect(formatClock(50 * MIN)).toBe('50:00');
+    expect(formatClock(61_500)).toBe('1:02');
+    expect(formatClock(75 * MIN)).toBe('1:15:00');
+    expect(formatClock(-5000)).toBe('0:00');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, randomSeed } from '../seededRandom';
+
+describe('createSeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom(12345);
+    const b = createSeededRandom(12345);
+    const seqA = Array.from({ length: 10 }, () => a());
+    const seqB = Array.from({ length: 10 }, () => b());
+    expect(seqA).toEqual(seqB);
+  });
+
+  it('produces different sequences for different seeds', () => {
+    const a = createSeededRandom(1);
+    const b = createSeededRandom(2);
+    expect(a()).not.toBe(b());
+  });
+
+  it('yields values in [0, 1)', () => {
+    const rng = createSeededRandom(987654321);
+    for (let i = 0; i < 1000; i++) {
+      const v = rng();
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+
+  it('treats seeds as unsigned 32-bit integers', () => {
+    const a = createSeededRandom(-1);
+    const b = createSeededRandom(0xffffffff);
+    expect(a()).toBe(b());
+  });
+});
+
+describe('randomSeed', () => {
+  it('returns an unsigned 32-bit integer', () => {
+    const seed = randomSeed();
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(0xffffffff);
+  });
+});
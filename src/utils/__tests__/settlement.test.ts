@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allocationSettlement,
+  chaosSettlement,
+  formatCents,
+  netCents,
+  settleTransfers,
+  settlementToCsv,
+} from '../settlement';
+import type { ChaosPoolEntry, DraftAllocationEntry, DraftPlayer, SettlementLine } from '../../types';
+
+const players: DraftPlayer[] = [
+  { id: 'p1', name: 'Alice', userId: 'u1' },
+  { id: 'p2', name: 'Bob', userId: 'u2' },
+  { id: 'p3', name: 'Guest', userId: null },
+];
+
+const ref = (id: string) => ({ id, name: id.toUpperCase(), imageUrl: '' });
+
+const byName = (lines: SettlementLine[]) =>
+  Object.fromEntries(lines.map(l => [l.name, [l.owesCents, l.owedCents]]));
+
+describe('chaosSettlement', () => {
+  const pool = (costs: Record<string, number | undefined>, ownerId?: string): ChaosPoolEntry[] =>
+    Object.entries(costs).map(([id, unitCost]) => ({
+      id,
+      name: id.toUpperCase(),
+      weight: 1,
+      ...(unitCost !== undefined ? { unitCost } : {}),
+      ...(ownerId ? { ownerId } : {}),
+    }));
+  const party = (ownerId = 'host') => ({ userId: ownerId, name: players.find(p => p.userId === ownerId)?.name ?? 'Host' });
+
+  it('charges each player for their own picks and credits the owner', () => {
+    const s = chaosSettlement(
+      { players, packsSelectedOrder: ['a', 'b', 'c', 'a'].map(ref), drawPool: pool({ a: 5, b: 4.5, c: 6 }, 'u1') },
+      party,
+      1
+    );
+    expect(s.totalCents).toBe(2050);
+    // Alice owns the packs and opened a + a, so her net is what the others owe her
+    expect(byName(s.lines)).toEqual({ Alice: [1000, 2050], Bob: [450, 0], Guest: [600, 0] });
+    expect(s.transfers).toEqual([
+      { fromKey: 'player:p3', toKey: 'u1', from: 'Guest', to: 'Alice', amountCents: 600 },
+      { fromKey: 'u2', toKey: 'u1', from: 'Bob', to: 'Alice', amountCents: 450 },
+    ]);
+    expect(s.missingCosts).toEqual([]);
+  });
+
+  it('credits each pack to its own owner', () => {
+    const s = chaosSettlement(
+      {
+        players: players.slice(0, 2),
+        packsSelectedOrder: ['a', 'b'].map(ref),
+        drawPool: [...pool({ a: 3 }, 'u2'), ...pool({ b: 4 }, 'u1')],
+      },
+      party
+    );
+    // Alice opened Bob's pack a and Bob opened Alice's pack b
+    expect(byName(s.lines)).toEqual({ Alice: [300, 400], Bob: [400, 300] });
+    expect(s.transfers).toEqual([{ fromKey: 'u2', toKey: 'u1', from: 'Bob', to: 'Alice', amountCents: 100 }]);
+  });
+
+  it('credits the fallback party when the pool has no owners', () => {
+    const s = chaosSettlement(
+      { players: players.slice(1, 2), packsSelectedOrder: [ref('a')], drawPool: pool({ a: 2 }) },
+      party
+    );
+    expect(byName(s.lines)).toEqual({ Bob: [200, 0], Host: [0, 200] });
+  });
+
+  it('follows the pick order when dealing picks to players', () => {
+    const s = chaosSettlement(
+      {
+        players: players.slice(0, 2),
+        packsSelectedOrder: ['a', 'b', 'c', 'd'].map(ref),
+        pickOrder: 'snake',
+        drawPool: pool({ a: 1, b: 1, c: 1, d: 10 }),
+      },
+      party
+    );
+    // snake: Alice gets picks 1 and 4 (a, d), Bob gets b and c
+    expect(byName(s.lines)).toMatchObject({ Alice: [1100, 0], Bob: [200, 0] });
+  });
+
+  it('counts packs without a cost as free and reports them', () => {
+    const s = chaosSettlement(
+      { players: players.slice(0, 1), packsSelectedOrder: ['a', 'b', 'b'].map(ref), drawPool: pool({ a: 3, b: undefined }) },
+      party
+    );
+    expect(s.totalCents).toBe(300);
+    expect(s.missingCosts).toEqual(['B']);
+  });
+});
+
+describe('allocationSettlement', () => {
+  const allocation: DraftAllocationEntry[] = [
+    { userId: 'u1', userName: 'Alice', catalogId: 'blb', name: 'Bloomburrow', count: 2 },
+    { userId: 'u4', userName: 'Dana', catalogId: 'dsk', name: 'Duskmourn', count: 1 },
+  ];
+
+  it('splits the supplied packs evenly and credits each contributor', () => {
+    const costs: Record<string, number> = { 'u1:blb': 5, 'u4:dsk': 5.01 };
+    const s = allocationSettlement({ players, allocation }, e => costs[`${e.userId}:${e.catalogId}`]);
+    expect(s.totalCents).toBe(1501);
+    // 1501 / 3 = 500 r1 — the first seat picks up the extra cent
+    expect(byName(s.lines)).toEqual({ Alice: [501, 1000], Bob: [500, 0], Guest: [500, 0], Dana: [0, 501] });
+    expect(s.lines.reduce((sum, l) => sum + netCents(l), 0)).toBe(0);
+  });
+
+  it('lists contributors whose packs have no cost', () => {
+    const s = allocationSettlement({ players, allocation }, () => undefined);
+    expect(s.missingCosts).toEqual(['Bloomburrow (Alice)', 'Duskmourn (Dana)']);
+    expect(s.transfers).toEqual([]);
+  });
+});
+
+describe('settleTransfers', () => {
+  it('needs no more payments than debtors plus creditors minus one', () => {
+    const lines: SettlementLine[] = [
+      { userId: 'a', name: 'A', owesCents: 700, owedCents: 0 },
+      { userId: 'b', name: 'B', owesCents: 300, owedCents: 0 },
+      { userId: 'c', name: 'C', owesCents: 0, owedCents: 500 },
+      { userId: 'd', name: 'D', owesCents: 0, owedCents: 500 },
+    ];
+    expect(settleTransfers(lines)).toEqual([
+      { fromKey: 'a', toKey: 'c', from: 'A', to: 'C', amountCents: 500 },
+      { fromKey: 'a', toKey: 'd', from: 'A', to: 'D', amountCents: 200 },
+      { fromKey: 'b', toKey: 'd', from: 'B', to: 'D', amountCents: 300 },
+    ]);
+  });
+
+  it('keeps players who share a name apart', () => {
+    const guests: DraftPlayer[] = [
+      { id: 'p1', name: 'Alex', userId: null },
+      { id: 'p2', name: 'Alex', userId: null },
+    ];
+    const s = allocationSettlement(
+      { players: guests, allocation: [{ userId: 'u1', userName: 'Alice', catalogId: 'blb', name: 'Bloomburrow', count: 2 }] },
+      () => 5
+    );
+    expect(s.lines.map(l => [l.key, l.name, l.owesCents])).toEqual([
+      ['player:p1', 'Alex', 500],
+      ['player:p2', 'Alex', 500],
+      ['u1', 'Alice', 0],
+    ]);
+    expect(s.transfers.map(t => [t.fromKey, t.toKey, t.amountCents])).toEqual([
+      ['player:p1', 'u1', 500],
+      ['player:p2', 'u1', 500],
+    ]);
+  });
+});
+
+describe('formatting', () => {
+  it('formats cents as dollars', () => {
+    expect(formatCents(1501)).toBe('$15.01');
+    expect(formatCents(-5)).toBe('-$0.05');
+  });
+
+  it('exports balances and payments as CSV', () => {
+    const s = chaosSettlement(
+      { players: players.slice(1, 2), packsSelectedOrder: [ref('a')], drawPool: [{ id: 'a', name: 'A', weight: 1, unitCost: 4, ownerId: 'u1' }] },
+      () => ({ userId: 'u1', name: 'Alice' })
+    );
+    expect(settlementToCsv(s).split('\r\n')).toEqual([
+      'Name,Owes,Is Owed,Net',
+      'Bob,4.00,0.00,4.00',
+      'Alice,0.00,4.00,-4.00',
+      '',
+      'From,To,Amount',
+      'Bob,Alice,4.00',
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { solveAllocation } from '../allocationAlgorithm';
+import { proposeShortfallFixes, type ShortfallScenario } from '../shortfallFixes';
+
+type Set = { id: string; name: string };
+
+const catalog: Record<string, Set> = {
+  mh2: { id: 'mh2', name: 'Modern Horizons 2' },
+  mh3: { id: 'mh3', name: 'Modern Horizons 3' },
+  blb: { id: 'blb', name: 'Bloomburrow' },
+  dsk: { id: 'dsk', name: 'Duskmourn' },
+};
+
+// Two players; ben has 2 MH2 and 6 Bloomburrow, markus has 6 MH3 and 3 Duskmourn
+const stock = {
+  ben: { mh2: 2, blb: 6 },
+  markus: { mh3: 6, dsk: 3 },
+};
+const chaosStock = { mh2: 10 };
+
+const evaluate = (scenario: ShortfallScenario<Set>) =>
+  solveAllocation(
+    scenario.sets.map((s, i) => ({ catalogId: s.id, name: s.name, totalNeeded: scenario.setCounts[i] })),
+    [
+      { userId: 'ben', userName: 'Ben', participant: true, stock: stock.ben },
+      { userId: 'markus', userName: 'Markus', participant: true, stock: stock.markus },
+      ...(scenario.useChaos
+        ? [{ userId: 'chaos', userName: 'Chaos', participant: false, reserve: true, stock: chaosStock }]
+        : []),
+    ]
+  ).allocations;
+
+const current: ShortfallScenario<Set> = {
+  sets: [catalog.mh2, catalog.blb],
+  setCounts: [3, 3],
+  packsPerPerson: 3,
+  useChaos: false,
+};
+
+const fixes = proposeShortfallFixes(current, {
+  playerCount: 2,
+  candidates: Object.values(catalog),
+  chaosAvailable: true,
+  evaluate,
+});
+const byKind = (kind: string) => fixes.filter(f => f.kind === kind);
+
+describe('proposeShortfallFixes', () => {
+  it('returns nothing when the draft is already covered', () => {
+    expect(proposeShortfallFixes({ ...current, setCounts: [2, 4] }, {
+      playerCount: 2, candidates: [], chaosAvailable: true, evaluate,
+    })).toEqual([]);
+  });
+
+  it('suggests the most similar owned set first', () => {
+    expect(byKind('substitute').map(f => f.label)).toEqual([
+      'Swap Modern Horizons 2 for Modern Horizons 3',
+      'Swap Modern Horizons 2 for Duskmourn',
+    ]);
+    expect(byKind('substitute')[0].shortfall).toBe(0);
+  });
+
+  it('moves packs from a short set onto one with stock to spare', () => {
+    const [fix] = byKind('redistribute');
+    expect(fix.scenario.setCounts).toEqual([2, 4]);
+    expect(fix.label).toBe('Rebalance sets: Modern Horizons 2 3 → 2, Bloomburrow 3 → 4');
+  });
+
+  it('finds the largest packs per person that is fully covered', () => {
+    const [fix] = byKind('fewer-packs');
+    expect(fix.scenario).toMatchObject({ packsPerPerson: 2, setCounts: [2, 2] });
+    expect(fix.shortfall).toBe(0);
+  });
+
+  it('offers the chaos inventory and shows the resulting allocation', () => {
+    const [fix] = byKind('chaos');
+    expect(fix.allocations[0].contributions).toEqual([
+      { userId: 'ben', userName: 'Ben', count: 2 },
+      { userId: 'chaos', userName: 'Chaos', count: 1 },
+    ]);
+  });
+});
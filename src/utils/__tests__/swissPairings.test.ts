@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { computeStandings, generateSwissPairings } from '../swissPairings';
+import { computeStandings, generateSwissPairings, suggestedSwissRounds, tournamentPlayers } from '../swissPairings';
 import type { DraftPlayer, TournamentRound } from '../../types';
 
 function p(id: string): DraftPlayer {
@@ -39,7 +39,8 @@ describe('computeStandings', () => {
     const standings = computeStandings([p('A'), p('B')], []);
     expect(standings).toHaveLength(2);
     expect(standings.find(s => s.playerId === 'A')).toEqual({
-      playerId: 'A', matchWins: 0, matchLosses: 0, matchTies: 0, gameWins: 0, gameLosses: 0,
+      playerId: 'A', matchWins: 0, matchLosses: 0, matchTies: 0, gameWins: 0, gameLosses: 0, gameTies: 0,
+      byes: 0, matchPoints: 0, matchWinPct: 0, opponentMatchWinPct: 0, gameWinPct: 0, opponentGameWinPct: 0,
     });
   });
 
@@ -81,6 +82,92 @@ describe('computeStandings', () => {
     expect(a.matchWins).toBe(0);
     expect(a.matchLosses).toBe(0);
   });
+
+  it('scores 3 points for a win or bye and 1 for a draw', () => {
+    const r1 = makeRound(1, [{ p1: 'A', p2: 'B', winner: 'tie', p1w: 1, p2w: 1 }, { p1: 'C', p2: null }]);
+    const r2 = makeRound(2, [{ p1: 'C', p2: 'A', winner: 'player1' }, { p1: 'B', p2: null }]);
+    const points = Object.fromEntries(
+      computeStandings([p('A'), p('B'), p('C')], [r1, r2]).map(s => [s.playerId, s.matchPoints])
+    );
+    expect(points).toEqual({ A: 1, B: 4, C: 6 });
+  });
+
+  it('floors match- and game-win percentages at 33% and leaves byes out of opponent averages', () => {
+    // B loses to A and then C; D loses to C; A has the round 2 bye
+    const r1 = makeRound(1, [{ p1: 'A', p2: 'B' }, { p1: 'C', p2: 'D' }]);
+    const r2 = makeRound(2, [{ p1: 'C', p2: 'B' }, { p1: 'A', p2: null }]);
+    const standings = computeStandings([p('A'), p('B'), p('C'), p('D')], [r1, r2]);
+    const byId = Object.fromEntries(standings.map(s => [s.playerId, s]));
+    expect(byId.B.matchWinPct).toBe(0.33);
+    expect(byId.B.gameWinPct).toBe(0.33);
+    // A's only opponent is B (the bye isn't one), so OMW% is B's floored 33%
+    expect(byId.A.opponentMatchWinPct).toBe(0.33);
+    expect(byId.A.gameWinPct).toBe(1);
+    // C played D and B, both floored at 33%
+    expect(byId.C.opponentMatchWinPct).toBeCloseTo(0.33);
+  });
+
+  it('breaks ties on match points by OMW%', () => {
+    // After R2: A 6, C 3, D 3, B 0 — C's opponents (D, A) did better than D's (C, B)
+    const r1 = makeRound(1, [{ p1: 'A', p2: 'B' }, { p1: 'C', p2: 'D' }]);
+    const r2 = makeRound(2, [{ p1: 'A', p2: 'C' }, { p1: 'D', p2: 'B' }]);
+    const order = computeStandings([p('D'), p('C'), p('B'), p('A')], [r1, r2]).map(s => s.playerId);
+    expect(order).toEqual(['A', 'C', 'D', 'B']);
+  });
+
+  it('falls back to GW% when OMW% is level', () => {
+    // A and C both won against a 0-1 opponent, but A won 2-0 and C 2-1;
+    // D's one game win lifts it just over B's 33% floor
+    const r1 = makeRound(1, [{ p1: 'A', p2: 'B' }, { p1: 'C', p2: 'D', p1w: 2, p2w: 1 }]);
+    const order = computeStandings([p('B'), p('D'), p('C'), p('A')], [r1]).map(s => s.playerId);
+    expect(order).toEqual(['A', 'C', 'D', 'B']);
+  });
+
+  it('ignores results until they are confirmed', () => {
+    const r1 = makeRound(1, [{ p1: 'A', p2: 'B' }, { p1: 'C', p2: 'D' }]);
+    r1.pairings[0] = { ...r1.pairings[0], status: 'reported' };
+    r1.pairings[1] = { ...r1.pairings[1], status: 'disputed' };
+    const standings = computeStandings([p('A'), p('B'), p('C'), p('D')], [r1]);
+    expect(standings.every(s => s.matchPoints === 0 && s.matchWins + s.matchLosses === 0)).toBe(true);
+  });
+
+  it('counts the rounds a late entry missed as 0–2 losses or byes', () => {
+    const r1 = makeRound(1, [{ p1: 'A', p2: 'B' }]);
+    const r2 = makeRound(2, [{ p1: 'A', p2: 'B' }]);
+    const players = [p('A'), p('B'), p('L'), p('Y')];
+    const standings = computeStandings(players, [r1, r2], {
+      lateEntries: [
+        { player: p('L'), joinedRound: 3, missedRounds: 'loss' },
+        { player: p('Y'), joinedRound: 2, missedRounds: 'bye' },
+      ],
+    });
+    const byId = Object.fromEntries(standings.map(s => [s.playerId, s]));
+    expect(byId.L).toMatchObject({ matchLosses: 2, gameLosses: 4, matchPoints: 0 });
+    expect(byId.Y).toMatchObject({ byes: 1, matchLosses: 0, matchPoints: 3 });
+  });
+});
+
+describe('suggestedSwissRounds', () => {
+  it('is log2 of the field, rounded up', () => {
+    expect(suggestedSwissRounds(2)).toBe(1);
+    expect(suggestedSwissRounds(4)).toBe(2);
+    expect(suggestedSwissRounds(5)).toBe(3);
+    expect(suggestedSwissRounds(8)).toBe(3);
+    expect(suggestedSwissRounds(9)).toBe(4);
+  });
+});
+
+describe('tournamentPlayers', () => {
+  it('appends late entries after the drafters', () => {
+    const players = tournamentPlayers({
+      players: [p('A'), p('B')],
+      tournament: {
+        seats: [], rounds: [], currentRound: 1, totalRounds: 3, status: 'active',
+        lateEntries: [{ player: p('L'), joinedRound: 2, missedRounds: 'loss' }],
+      },
+    });
+    expect(players.map(pl => pl.id)).toEqual(['A', 'B', 'L']);
+  });
 });
 
 describe('generateSwissPairings', () => {
@@ -188,4 +275,25 @@ describe('generateSwissPairings', () => {
     const ids = [pairings[0].player1Id, pairings[0].player2Id].sort().join(':');
     expect(ids).toBe('A:B');
   });
+
+  it('leaves dropped players out of later rounds', () => {
+    const players = [p('A'), p('B'), p('C'), p('D')];
+    const r1 = makeRound(1, [{ p1: 'A', p2: 'B' }, { p1: 'C', p2: 'D' }]);
+    const pairings = generateSwissPairings(players, [r1], {
+      drops: [{ playerId: 'B', afterRound: 1, droppedAt: fakeTs }],
+    });
+    const paired = pairings.flatMap(pr => [pr.player1Id, pr.player2Id]);
+    expect(paired).not.toContain('B');
+    expect(pairings.find(pr => pr.player2Id === null)?.player1Id).toBeDefined();
+    expect(pairings).toHaveLength(2);
+  });
+
+  it('pairs a late entry alongside everyone else', () => {
+    const players = [p('A'), p('B'), p('C'), p('D'), p('L')];
+    const r1 = makeRound(1, [{ p1: 'A', p2: 'B' }, { p1: 'C', p2: 'D' }]);
+    const pairings = generateSwissPairings(players, [r1], {
+      lateEntries: [{ player: p('L'), joinedRound: 2, missedRounds: 'loss' }],
+    });
+    expect(pairings.flatMap(pr => [pr.player1Id, pr.player2Id])).toContain('L');
+  });
 });
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import { tournamentReport, tournamentToCsv, tournamentToHtml, tournamentToJson } from '../tournamentExport';
+import type { DraftPlayer, DraftTournament, PairingResult } from '../../types';
+
+const players: DraftPlayer[] = [
+  { id: 'a', name: 'Alice', userId: 'u1' },
+  { id: 'b', name: 'Bob', userId: null },
+  { id: 'c', name: 'Cara <3', userId: null },
+];
+
+const result = (player1Wins: number, player2Wins: number, ties = 0): PairingResult => ({
+  player1Wins,
+  player2Wins,
+  ties,
+  matchWinner: player1Wins > player2Wins ? 'player1' : player2Wins > player1Wins ? 'player2' : 'tie',
+  isPartial: false,
+  submittedBy: 'u1',
+  submittedAt: { toMillis: () => 0 } as unknown as Timestamp,
+});
+
+const tournament: DraftTournament = {
+  seats: [],
+  currentRound: 2,
+  totalRounds: 2,
+  status: 'finalized',
+  rounds: [
+    {
+      roundNumber: 1,
+      status: 'complete',
+      pairings: [
+        { id: 'r1a', player1Id: 'a', player2Id: 'b', status: 'complete', result: result(2, 1) },
+        { id: 'r1b', player1Id: 'c', player2Id: null, status: 'pending' },
+      ],
+    },
+    {
+      roundNumber: 2,
+      status: 'complete',
+      pairings: [
+        { id: 'r2a', player1Id: 'a', player2Id: 'c', status: 'complete', result: result(1, 1, 1) },
+        { id: 'r2b', player1Id: 'b', player2Id: null, status: 'pending' },
+      ],
+    },
+  ],
+};
+
+const report = tournamentReport('Bloomburrow Draft', '10/19/2026', players, tournament);
+
+describe('tournamentReport', () => {
+  it('ranks players by points and tiebreakers, counting byes', () => {
+    // Cara and Alice both have 4 points; Cara's only opponent (Alice) has the better record
+    expect(report.standings).toHaveLength(1);
+    expect(report.standings[0].pod).toBeNull();
+    expect(report.standings[0].rows.map(s => [s.rank, s.name, s.matchPoints, s.byes])).toEqual([
+      [1, 'Cara <3', 4, 1],
+      [2, 'Alice', 4, 0],
+      [3, 'Bob', 3, 1],
+    ]);
+    expect(report.standings[0].rows[0].opponentMatchWinPct).toBeCloseTo(4 / 6);
+  });
+
+  it('ranks each pod on its own with per-pod standings, noting drops and late entries', () => {
+    const late: DraftPlayer = { id: 'e', name: 'Eve', userId: null };
+    const podded = tournamentReport('Pods', '10/19/2026', [...players, { id: 'd', name: 'Dan', userId: null }, late], {
+      ...tournament,
+      rounds: [{
+        roundNumber: 1,
+        status: 'complete',
+        pairings: [
+          { id: 'p1', player1Id: 'a', player2Id: 'b', status: 'complete', result: result(2, 0) },
+          { id: 'p2', player1Id: 'c', player2Id: 'd', status: 'complete', result: result(2, 1) },
+        ],
+      }],
+      pods: [{ podNumber: 1, playerIds: ['a', 'b'] }, { podNumber: 2, playerIds: ['c', 'd', 'e'] }],
+      podStandings: 'per-pod',
+      drops: [{ playerId: 'b', afterRound: 1, reason: 'Had to leave', droppedAt: result(0, 0).submittedAt }],
+      lateEntries: [{ player: late, joinedRound: 2, missedRounds: 'loss' }],
+    });
+
+    expect(podded.standings.map(t => [t.pod, t.rows.map(s => [s.rank, s.name])])).toEqual([
+      [1, [[1, 'Alice'], [2, 'Bob']]],
+      [2, [[1, 'Cara <3'], [2, 'Dan'], [3, 'Eve']]],
+    ]);
+    const bob = podded.standings[0].rows[1];
+    expect([bob.pod, bob.droppedAfterRound, bob.dropReason]).toEqual([1, 1, 'Had to leave']);
+    expect(podded.standings[1].rows[2].joinedRound).toBe(2);
+
+    const csv = tournamentToCsv(podded).split('\r\n');
+    expect(csv[0]).toBe('Rank,Player,Pod,Match Points,Record (W-L-D),Byes,OMW %,Game Wins,Game Losses,GW %,OGW %,Notes');
+    expect(csv[2]).toMatch(/^2,Bob,1,.*,Dropped after round 1 — Had to leave$/);
+    expect(csv[5]).toMatch(/^3,Eve,2,.*,Joined in round 2$/);
+    expect(tournamentToHtml(podded)).toContain('<h3>Pod 2</h3>');
+  });
+
+  it('lists every match with its score, including byes and draws', () => {
+    expect(report.rounds[1].matches).toEqual([
+      { player1: 'Alice', player2: 'Cara <3', score: '1-1-1', winner: 'Draw' },
+      { player1: 'Bob', player2: null, score: null, winner: null },
+    ]);
+  });
+});
+
+describe('formats', () => {
+  it('writes standings then pairings as CSV', () => {
+    expect(tournamentToCsv(report).split('\r\n')).toEqual([
+      'Rank,Player,Match Points,Record (W-L-D),Byes,OMW %,Game Wins,Game Losses,GW %,OGW %,Notes',
+      '1,Cara <3,4,0-0-1,1,66.7%,1,1,66.7%,55.6%,',
+      '2,Alice,4,1-0-1,0,58.3%,3,2,55.6%,63.3%,',
+      '3,Bob,3,0-1-0,1,66.7%,1,2,60.0%,55.6%,',
+      '',
+      'Round,Player 1,Player 2,Score,Winner',
+      '1,Alice,Bob,2-1,Alice',
+      '1,Cara <3,BYE,,Bye',
+      '2,Alice,Cara <3,1-1-1,Draw',
+      '2,Bob,BYE,,Bye',
+    ]);
+  });
+
+  it('round-trips as JSON', () => {
+    expect(JSON.parse(tournamentToJson(report))).toEqual(report);
+  });
+
+  it('escapes names in the printable page', () => {
+    const html = tournamentToHtml(report);
+    expect(html).toContain('<td>Cara &lt;3</td>');
+    expect(html).toContain('<h3>Round 2</h3>');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import type { Timestamp } from 'firebase/firestore';
+import {
+  firstRoundPairings,
+  joinSmallestPod,
+  newTournament,
+  nextRoundPairings,
+  podCountOptions,
+  splitIntoPods,
+  standingsTables,
+} from '../tournamentFormats';
+import type { DraftPlayer, DraftTournament, TournamentRound } from '../../types';
+
+const field = (n: number): DraftPlayer[] =>
+  Array.from({ length: n }, (_, i) => ({ id: `p${i + 1}`, name: `P${i + 1}`, userId: null }));
+
+const won = {
+  player1Wins: 2,
+  player2Wins: 0,
+  ties: 0,
+  matchWinner: 'player1' as const,
+  isPartial: false,
+  submittedBy: 'u1',
+  submittedAt: { toMillis: () => 0 } as unknown as Timestamp,
+};
+
+// Every match in the round goes to player 1
+const decided = (round: TournamentRound): TournamentRound => ({
+  ...round,
+  status: 'complete',
+  pairings: round.pairings.map(p => (p.player2Id === null ? p : { ...p, status: 'complete', result: won })),
+});
+
+describe('pods', () => {
+  it('offers a split only when every pod has at least six players', () => {
+    expect(podCountOptions(11)).toEqual([1]);
+    expect(podCountOptions(12)).toEqual([1, 2]);
+    expect(podCountOptions(16)).toEqual([1, 2]);
+    expect(podCountOptions(18)).toEqual([1, 2, 3]);
+  });
+
+  it('cuts the seating into pods of even size, larger first', () => {
+    expect(splitIntoPods(field(13), 2).map(pod => pod.length)).toEqual([7, 6]);
+    expect(splitIntoPods(field(13), 2)[1][0].id).toBe('p8');
+  });
+
+  it('adds a late entry to the smallest pod', () => {
+    const pods = [{ podNumber: 1, playerIds: ['a', 'b', 'c'] }, { podNumber: 2, playerIds: ['d', 'e'] }];
+    expect(joinSmallestPod(pods, 'x')[1].playerIds).toEqual(['d', 'e', 'x']);
+  });
+});
+
+describe('newTournament', () => {
+  it('numbers seats within each pod and pairs round 1 at each table', () => {
+    const pods = splitIntoPods(field(12), 2);
+    const tournament = newTournament(pods, firstRoundPairings(pods), { format: 'swiss', totalRounds: 3, podStandings: 'per-pod' });
+    expect(tournament.pods?.map(p => p.playerIds.length)).toEqual([6, 6]);
+    expect(tournament.seats.find(s => s.playerId === 'p7')).toEqual({ playerId: 'p7', seat: 1, pod: 2 });
+    expect(tournament.rounds[0].pairings.every(p => {
+      const pod = pods.find(pod => pod.some(pl => pl.id === p.player1Id))!;
+      return pod.some(pl => pl.id === p.player2Id);
+    })).toBe(true);
+  });
+
+  it('fixes a round-robin schedule for every round', () => {
+    const players = field(5);
+    const tournament = newTournament([players], firstRoundPairings([players]), { format: 'round-robin', totalRounds: 5 });
+    expect(tournament.schedule).toHaveLength(5);
+    expect(tournament.pods).toBeUndefined();
+  });
+});
+
+describe('nextRoundPairings', () => {
+  it('pairs Swiss within each pod', () => {
+    const players = field(12);
+    const pods = splitIntoPods(players, 2);
+    let tournament = newTournament(pods, firstRoundPairings(pods), { format: 'swiss', totalRounds: 3 });
+    tournament = { ...tournament, rounds: [decided(tournament.rounds[0])] };
+
+    const next = nextRoundPairings(players, tournament);
+    expect(next).toHaveLength(2);
+    next.forEach((group, i) => {
+      const ids = new Set(pods[i].map(p => p.id));
+      expect(group.every(p => ids.has(p.player1Id) && ids.has(p.player2Id!))).toBe(true);
+    });
+  });
+
+  it('follows the round-robin schedule, giving a dropped player\'s opponent a match or the bye', () => {
+    const players = field(4);
+    let tournament: DraftTournament = newTournament([players], firstRoundPairings([players]), { format: 'round-robin', totalRounds: 3 });
+    tournament = { ...tournament, rounds: [decided(tournament.rounds[0])] };
+
+    const [round2] = nextRoundPairings(players, tournament);
+    const key = (a: string, b: string | null) => [a, b].sort().join(':');
+    expect(round2.map(p => key(p.player1Id, p.player2Id))).toEqual(
+      tournament.schedule![1].pairings.map(p => key(p.player1Id, p.player2Id))
+    );
+
+    const withDrop = { ...tournament, drops: [{ playerId: 'p1', afterRound: 1, droppedAt: won.submittedAt }] };
+    const [dropped] = nextRoundPairings(players, withDrop);
+    expect(dropped.flatMap(p => [p.player1Id, p.player2Id])).not.toContain('p1');
+    expect(dropped.filter(p => p.player2Id === null)).toHaveLength(1);
+  });
+});
+
+describe('standingsTables', () => {
+  const players = field(12);
+  const pods = splitIntoPods(players, 2);
+  const base = newTournament(pods, firstRoundPairings(pods), { format: 'swiss', totalRounds: 3 });
+
+  it('ranks everyone together with shared standings', () => {
+    const tables = standingsTables(players, base);
+    expect(tables).toHaveLength(1);
+    expect(tables[0].podNumber).toBeNull();
+    expect(tables[0].standings).toHaveLength(12);
+  });
+
+  it('ranks each pod on its own with per-pod standings', () => {
+    const tables = standingsTables(players, { ...base, podStandings: 'per-pod' });
+    expect(tables.map(t => [t.podNumber, t.standings.length])).toEqual([[1, 6], [2, 6]]);
+  });
+});
@@ -1,23 +1,9 @@
-export interface Contributor {
-  userId: string;
-  userName: string;
-  available: number;
-}
-
 export interface ContributionEntry {
   userId: string;
   userName: string;
   count: number;
 }
 
-export interface SetInput {
-  catalogId: string;
-  name: string;
-  totalNeeded: number;
-  participants: Contributor[];
-  nonParticipants: Contributor[];
-}
-
 export interface SetAllocation {
   catalogId: string;
   name: string;
@@ -26,38 +12,6 @@ export interface SetAllocation {
   shortfall: number;
 }
 
-/**
- * Distributes `needed` packs among contributors as evenly as possible,
- * processing smallest-stock contributors first so those with more cover the remainder.
- */
-export function allocateFromPool(
-  contributors: Contributor[],
-  needed: number
-): { contributions: ContributionEntry[]; shortfall: number } {
-  if (needed <= 0) return { contributions: [], shortfall: 0 };
-
-  const sorted = [...contributors].sort((a, b) => a.available - b.available);
-  const contributions: ContributionEntry[] = [];
-  let remaining = needed;
-
-  for (let i = 0; i < sorted.length && remaining > 0; i++) {
-    const contributor = sorted[i];
-    const remainingContributors = sorted.length - i;
-    const fairShare = Math.ceil(remaining / remainingContributors);
-    const take = Math.min(contributor.available, fairShare);
-    if (take > 0) {
-      contributions.push({
-        userId: contributor.userId,
-        userName: contributor.userName,
-        count: take,
-      });
-      remaining -= take;
-    }
-  }
-
-  return { contributions, shortfall: Math.max(0, remaining) };
-}
-
 /**
  * Distributes totalPacks across numSets using the largest-remainder method,
  * guaranteeing the counts sum to exactly totalPacks.
@@ -78,21 +32,170 @@ export function distributePacksAcrossSets(
   return { counts: floors, wasRounded: remainder > 0 };
 }
 
+export interface SolverSet {
+  catalogId: string;
+  name: string;
+  totalNeeded: number;
+}
+
+export interface SolverContributor {
+  userId: string;
+  userName: string;
+  participant: boolean;
+  reserve?: boolean;              // last resort, drawn on only after every non-player
+  stock: Record<string, number>;  // catalogId → packs they can give (kept packs already excluded)
+  kept?: Record<string, number>;  // catalogId → packs held back, for the explanation
+  held?: Record<string, number>;  // catalogId → packs on hold for other drafts, for the explanation
+  cap?: number;                   // most packs they'll give across the whole draft
+  balance?: number;               // pool balance in packs (see poolBalances); higher gives less
+}
+
+export interface AllocationExplanation {
+  userId: string;
+  userName: string;
+  given: number;
+  reasons: string[];
+}
+
+export interface SolverResult {
+  allocations: SetAllocation[];
+  explanations: AllocationExplanation[];
+}
+
 /**
- * For each set, allocates packs from participants first, then non-participants.
+ * Allocates every set at once, keeping the packs each person gives across the whole
+ * draft as level as possible. Contributors are filled a level at a time — everyone
+ * up to 1 pack, then 2, and so on — and each pack is placed along an augmenting path,
+ * so earlier choices are re-routed between sets rather than stranding a set that
+ * only some people stock. Players are filled before non-players, who only cover
+ * what the table can't, and `reserve` contributors come last of all. `balance` starts a contributor that many levels up (scaled
+ * by `balanceWeight`, relative to whoever owes the pool most), so people in deficit
+ * are asked first; `cap` stops a contributor early.
  */
-export function allocateRegularDraft(sets: SetInput[]): SetAllocation[] {
-  return sets.map(set => {
-    const { contributions: participantContribs, shortfall: afterParticipants } =
-      allocateFromPool(set.participants, set.totalNeeded);
-    const { contributions: nonParticipantContribs, shortfall } =
-      allocateFromPool(set.nonParticipants, afterParticipants);
-    return {
-      catalogId: set.catalogId,
-      name: set.name,
-      totalNeeded: set.totalNeeded,
-      contributions: [...participantContribs, ...nonParticipantContribs],
-      shortfall,
-    };
+export function solveAllocation(
+  sets: SolverSet[],
+  contributors: SolverContributor[],
+  { balanceWeight = 0 }: { balanceWeight?: number } = {}
+): SolverResult {
+  const flow = contributors.map(() => sets.map(() => 0));
+  const given = contributors.map(() => 0);
+  const filled = sets.map(() => 0);
+  const stockOf = (i: number, j: number) => contributors[i].stock[sets[j].catalogId] ?? 0;
+  const deficit = (j: number) => sets[j].totalNeeded - filled[j];
+
+  const minBalance = Math.min(...contributors.map(c => c.balance ?? 0), Infinity);
+  const headStart = contributors.map(c =>
+    Math.round(balanceWeight * ((c.balance ?? 0) - (Number.isFinite(minBalance) ? minBalance : 0)))
+  );
+  const limit = contributors.map((c, i) => {
+    const total = sets.reduce((sum, _, j) => sum + stockOf(i, j), 0);
+    return Math.min(total, c.cap ?? Infinity);
+  });
+
+  // Breadth-first search for a chain: start gives to a set, whose existing giver
+  // moves a pack to another set, ... ending at a set that still needs packs
+  const augment = (start: number): boolean => {
+    const setParent = new Map<number, number>();   // set → contributor who reaches it
+    const contribParent = new Map<number, number>(); // contributor → set it was reached from
+    const queue = [start];
+    const seen = new Set([start]);
+    while (queue.length > 0) {
+      const i = queue.shift()!;
+      const order = sets
+        .map((_, j) => j)
+        .filter(j => !setParent.has(j) && stockOf(i, j) - flow[i][j] > 0)
+        .sort((a, b) => deficit(b) - deficit(a) || a - b);
+      for (const j of order) {
+        setParent.set(j, i);
+        if (deficit(j) > 0) {
+          // Walk back, adding along forward edges and removing along re-routed ones
+          let set = j;
+          for (;;) {
+            const giver = setParent.get(set)!;
+            flow[giver][set]++;
+            if (giver === start) break;
+            const from = contribParent.get(giver)!;
+            flow[giver][from]--;
+            set = from;
+          }
+          filled[j]++;
+          given[start]++;
+          return true;
+        }
+        contributors.forEach((_, v) => {
+          if (!seen.has(v) && flow[v][j] > 0) {
+            seen.add(v);
+            contribParent.set(v, j);
+            queue.push(v);
+          }
+        });
+      }
+    }
+    return false;
+  };
+
+  const totalDeficit = () => sets.reduce((sum, _, j) => sum + Math.max(0, deficit(j)), 0);
+  const tierOf = (c: SolverContributor) => (c.participant ? 0 : c.reserve ? 2 : 1);
+  for (const tier of [0, 1, 2]) {
+    const members = contributors.map((_, i) => i).filter(i => tierOf(contributors[i]) === tier);
+    const maxLevel = Math.max(0, ...members.map(i => headStart[i] + limit[i]));
+    for (let level = 1; level <= maxLevel && totalDeficit() > 0; level++) {
+      // Within a level, whoever has the most left to give goes first
+      const order = [...members].sort((a, b) =>
+        (limit[b] - given[b]) - (limit[a] - given[a]) ||
+        contributors[a].userName.localeCompare(contributors[b].userName)
+      );
+      for (const i of order) {
+        while (given[i] < Math.min(limit[i], level - headStart[i]) && augment(i)) { /* keep filling */ }
+      }
+    }
+  }
+
+  const allocations: SetAllocation[] = sets.map((set, j) => ({
+    catalogId: set.catalogId,
+    name: set.name,
+    totalNeeded: set.totalNeeded,
+    contributions: contributors
+      .map((c, i) => ({ userId: c.userId, userName: c.userName, count: flow[i][j] }))
+      .filter(c => c.count > 0),
+    shortfall: Math.max(0, deficit(j)),
+  }));
+
+  const explanations: AllocationExplanation[] = contributors.map((c, i) => {
+    const totalStock = sets.reduce((sum, _, j) => sum + stockOf(i, j), 0);
+    const reasons: string[] = [];
+    if (c.reserve) {
+      reasons.push(given[i] > 0
+        ? 'Reserve — only used for what nobody else could cover'
+        : 'Reserve — not needed');
+    } else if (!c.participant) {
+      reasons.push(given[i] > 0
+        ? 'Not playing — only asked to cover packs the players couldn\'t'
+        : 'Not playing — the players covered every set');
+    }
+    if (c.cap !== undefined && given[i] >= c.cap && totalStock > c.cap) {
+      reasons.push(`Reached their limit of ${c.cap} pack${c.cap === 1 ? '' : 's'} per draft`);
+    } else if (given[i] > 0 && given[i] === totalStock) {
+      reasons.push('Gave every pack they had available for these sets');
+    }
+    for (const set of sets) {
+      const kept = c.kept?.[set.catalogId] ?? 0;
+      if (kept > 0) reasons.push(`Keeping ${kept} × ${set.name}`);
+      const held = c.held?.[set.catalogId] ?? 0;
+      if (held > 0) reasons.push(`${held} × ${set.name} on hold for another draft`);
+    }
+    if (balanceWeight > 0 && c.balance !== undefined) {
+      const balance = `${c.balance > 0 ? '+' : ''}${c.balance}`;
+      reasons.push(headStart[i] > 0
+        ? `Pool balance ${balance} — asked for up to ${headStart[i]} fewer packs`
+        : `Pool balance ${balance} — asked first`);
+    }
+    const setAside = [c.kept, c.held].some(m => m && Object.values(m).some(n => n > 0));
+    if (totalStock === 0 && !setAside) {
+      reasons.push('Has none of these sets');
+    }
+    return { userId: c.userId, userName: c.userName, given: given[i], reasons };
   });
+
+  return { allocations, explanations };
 }
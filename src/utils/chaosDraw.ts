@@ -0,0 +1,125 @@
+import type { ChaosPoolEntry, DraftPackRef } from '../types';
+import { createSeededRandom } from './seededRandom';
+
+export type PickVerificationStatus = 'verified' | 'mismatch' | 'unverifiable';
+
+export interface PickVerification {
+  index: number;
+  pack: DraftPackRef;
+  seed: number | null;
+  expected: ChaosPoolEntry | null;
+  status: PickVerificationStatus;
+}
+
+export interface ChaosPackRules {
+  id: string;
+  name: string;
+  inPerson: number;
+  weightMultiplier?: number;
+  excludeFromWheel?: boolean;
+  onePerPlayer?: boolean;
+  ownerId?: string;
+  unitCost?: number;
+}
+
+/** Maps a pick index to the index of the player receiving it (see utils/pickOrder). */
+export type PlayerForPick = (pickIndex: number) => number;
+
+/** Wheel weight of a pack: in-person count times its multiplier, 0 when excluded. */
+export function effectiveWeight(pack: ChaosPackRules): number {
+  if (pack.excludeFromWheel) return 0;
+  return pack.inPerson * Math.max(0, pack.weightMultiplier ?? 1);
+}
+
+/** Snapshots inventory packs as a weighted pool, applying each pack's wheel rules. */
+export function toChaosPool(packs: ChaosPackRules[]): ChaosPoolEntry[] {
+  return packs.map(p => ({
+    id: p.id,
+    name: p.name,
+    weight: effectiveWeight(p),
+    // Firestore rejects undefined, so optional fields are only written when set
+    ...(p.onePerPlayer ? { capped: true } : {}),
+    // Settling up prices each pick from this snapshot, not whoever is viewing it later
+    ...(p.unitCost !== undefined ? { unitCost: p.unitCost } : {}),
+    ...(p.ownerId ? { ownerId: p.ownerId } : {}),
+  }));
+}
+
+/**
+ * The packs still eligible for the next pick: pool order is preserved, packs already
+ * picked (each pack can only be drawn once per session) and zero-weight packs are removed.
+ * Capped packs are removed too when the picking player already holds one.
+ */
+export function remainingPool(
+  pool: ChaosPoolEntry[],
+  pickedIds: string[],
+  playerForPick: PlayerForPick
+): ChaosPoolEntry[] {
+  const picked = new Set(pickedIds);
+  const cappedIds = new Set(pool.filter(e => e.capped).map(e => e.id));
+  const player = playerForPick(pickedIds.length);
+  const holdsCapped = pickedIds.some((id, i) => cappedIds.has(id) && playerForPick(i) === player);
+  return pool.filter(e => !picked.has(e.id) && e.weight > 0 && !(holdsCapped && e.capped));
+}
+
+/** Chance of each remaining pack landing on the next spin, in pool order. */
+export function pickProbabilities(
+  pool: ChaosPoolEntry[],
+  pickedIds: string[],
+  playerForPick: PlayerForPick
+): { entry: ChaosPoolEntry; probability: number }[] {
+  const candidates = remainingPool(pool, pickedIds, playerForPick);
+  const totalWeight = candidates.reduce((sum, e) => sum + e.weight, 0);
+  return candidates.map(entry => ({ entry, probability: entry.weight / totalWeight }));
+}
+
+/**
+ * Draws the next pick from the remaining pool using the first value of the seeded
+ * generator, weighted by `weight`. Pure: the same pool, prior picks and seed always
+ * return the same pack, which is what makes a draw auditable.
+ */
+export function drawChaosPick(
+  pool: ChaosPoolEntry[],
+  pickedIds: string[],
+  seed: number,
+  playerForPick: PlayerForPick
+): ChaosPoolEntry | null {
+  const candidates = remainingPool(pool, pickedIds, playerForPick);
+  if (candidates.length === 0) return null;
+
+  const totalWeight = candidates.reduce((sum, e) => sum + e.weight, 0);
+  let rand = createSeededRandom(seed)() * totalWeight;
+  for (const entry of candidates) {
+    if (rand < entry.weight) return entry;
+    rand -= entry.weight;
+  }
+
+  // Fallback in case of floating point issues
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * Replays every recorded draw in order and checks it against the pick that was saved.
+ * Picks without a recorded seed (or drafts without a pool snapshot) are 'unverifiable'.
+ */
+export function verifyChaosPicks(
+  pool: ChaosPoolEntry[] | undefined,
+  picks: DraftPackRef[],
+  seeds: number[] | undefined,
+  playerForPick: PlayerForPick
+): PickVerification[] {
+  return picks.map((pack, index) => {
+    const seed = seeds?.[index] ?? null;
+    if (!pool || seed === null) {
+      return { index, pack, seed, expected: null, status: 'unverifiable' };
+    }
+    const expected = drawChaosPick(pool, picks.slice(0, index).map(p => p.id), seed, playerForPick);
+    return {
+      index,
+      pack,
+      seed,
+      expected,
+      status: expected?.id === pack.id ? 'verified' : 'mismatch',
+    };
+  });
+}
@@ -8,7 +8,9 @@ function formatTypeLabel(type: string): string {
   return ` ${type.charAt(0).toUpperCase() + type.slice(1)}`;
 }
 
-export function draftTitle(draft: Draft): string {
+export function draftTitle(
+  draft: Pick<Draft, 'type' | 'cubeId' | 'cubeName' | 'packsSelectedOrder' | 'sets'>
+): string {
   if (draft.cubeId && draft.cubeName) {
     const typeLabel = formatTypeLabel(draft.type);
     return `${draft.cubeName}${typeLabel} Draft`;
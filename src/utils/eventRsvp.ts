@@ -0,0 +1,22 @@
+import type { DraftEvent, DraftPlayer, EventRsvp } from '../types';
+
+/**
+ * Every response in the order it arrived, with the earliest `seatCap` seated and the
+ * rest waitlisted. Seats are worked out on read rather than stored, so a withdrawal
+ * moves the first waitlisted player up and a cap change reshuffles nobody's entry.
+ */
+export function eventRsvps(event: Pick<DraftEvent, 'rsvps' | 'seatCap'>): EventRsvp[] {
+  return Object.entries(event.rsvps)
+    .map(([userId, r]) => ({ userId, name: r.name, respondedAt: r.respondedAt.toMillis() }))
+    .sort((a, b) => a.respondedAt - b.respondedAt || a.userId.localeCompare(b.userId))
+    .map((r, i) => ({ ...r, status: i < event.seatCap ? 'going' : 'waitlist' }));
+}
+
+export const goingRsvps = (rsvps: EventRsvp[]) => rsvps.filter(r => r.status === 'going');
+
+export const waitlistRsvps = (rsvps: EventRsvp[]) => rsvps.filter(r => r.status === 'waitlist');
+
+/** Seated players in RSVP order, linked to their accounts, ready for draft setup. */
+export function eventPlayers(event: Pick<DraftEvent, 'rsvps' | 'seatCap'>): DraftPlayer[] {
+  return goingRsvps(eventRsvps(event)).map((r, i) => ({ id: `player-${i + 1}`, name: r.name, userId: r.userId }));
+}
@@ -0,0 +1,167 @@
+import Papa from 'papaparse';
+import type { PackCatalogEntry } from '../types';
+
+export interface InventoryImportRow {
+  line: number;      // 1-based line in the file, header included
+  name: string;
+  imageUrl: string;
+  inPerson: number;
+  inTransit: number;
+}
+
+export interface CatalogMatch {
+  entry: PackCatalogEntry;
+  score: number;     // 1 = exact (normalized) name match
+}
+
+export type ImportChangeKind = 'add' | 'update' | 'unchanged' | 'unknown';
+
+export interface ImportChange<T> {
+  kind: ImportChangeKind;
+  rows: InventoryImportRow[];     // CSV rows folded into this change
+  match: CatalogMatch | null;
+  existing: T | null;             // current inventory record, for updates
+  inPerson: number;
+  inTransit: number;
+}
+
+// Below this a "match" is more likely a different product than a typo
+export const FUZZY_MATCH_THRESHOLD = 0.8;
+
+/** Lowercases and strips punctuation so "Murders at Karlov Manor – Play" ~ "murders at karlov manor play". */
+export function normalizePackName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function bigrams(s: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = s.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const g = compact.slice(i, i + 2);
+    grams.set(g, (grams.get(g) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/** Dice coefficient over character bigrams of the normalized names, in [0, 1]. */
+export function nameSimilarity(a: string, b: string): number {
+  const na = normalizePackName(a);
+  const nb = normalizePackName(b);
+  if (na === nb) return 1;
+  const ga = bigrams(na);
+  const gb = bigrams(nb);
+  let overlap = 0;
+  let total = 0;
+  for (const count of ga.values()) total += count;
+  for (const count of gb.values()) total += count;
+  for (const [g, count] of ga) overlap += Math.min(count, gb.get(g) ?? 0);
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+/** Best catalog entry for a pack name, or null when nothing clears the threshold. */
+export function matchCatalogEntry(
+  name: string,
+  catalog: PackCatalogEntry[],
+  threshold = FUZZY_MATCH_THRESHOLD
+): CatalogMatch | null {
+  let best: CatalogMatch | null = null;
+  for (const entry of catalog) {
+    const score = nameSimilarity(name, entry.name);
+    if (score === 1) return { entry, score };
+    if (score >= threshold && (!best || score > best.score)) best = { entry, score };
+  }
+  return best;
+}
+
+const toCount = (value: unknown): number | null => {
+  if (value === undefined || value === null || String(value).trim() === '') return 0;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : null;
+};
+
+/**
+ * Parses the chaos inventory export format (Pack Name, Image URL, Available, In Transit;
+ * the Firestore ID column is ignored). Rows with a missing name or bad count are reported
+ * in `errors` and skipped.
+ */
+export function parseInventoryCsv(text: string): { rows: InventoryImportRow[]; errors: string[] } {
+  const parsed = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: h => h.trim(),
+  });
+  const errors: string[] = [];
+  const rows: InventoryImportRow[] = [];
+
+  if (!parsed.meta.fields?.includes('Pack Name')) {
+    return { rows, errors: ['Missing "Pack Name" column'] };
+  }
+
+  parsed.data.forEach((record, i) => {
+    const line = i + 2;
+    const name = (record['Pack Name'] ?? '').trim();
+    const inPerson = toCount(record['Available']);
+    const inTransit = toCount(record['In Transit']);
+    if (!name) {
+      errors.push(`Line ${line}: missing pack name`);
+      return;
+    }
+    if (inPerson === null || inTransit === null) {
+      errors.push(`Line ${line}: counts must be whole numbers`);
+      return;
+    }
+    rows.push({ line, name, imageUrl: (record['Image URL'] ?? '').trim(), inPerson, inTransit });
+  });
+
+  return { rows, errors };
+}
+
+/**
+ * Turns parsed rows into a diff against the current inventory. Rows that match the same
+ * catalog entry are summed; matched entries already in the inventory are updated to the
+ * CSV counts (so re-importing an export changes nothing), others are added.
+ */
+export function planInventoryImport<T extends { catalogId: string; inPerson: number; inTransit: number }>(
+  rows: InventoryImportRow[],
+  catalog: PackCatalogEntry[],
+  inventory: T[]
+): ImportChange<T>[] {
+  const byCatalogId = new Map<string, ImportChange<T>>();
+  const unknown: ImportChange<T>[] = [];
+
+  for (const row of rows) {
+    const match = matchCatalogEntry(row.name, catalog);
+    if (!match) {
+      unknown.push({ kind: 'unknown', rows: [row], match: null, existing: null, inPerson: row.inPerson, inTransit: row.inTransit });
+      continue;
+    }
+    const change = byCatalogId.get(match.entry.id);
+    if (change) {
+      change.rows.push(row);
+      change.inPerson += row.inPerson;
+      change.inTransit += row.inTransit;
+      if (match.score < (change.match?.score ?? 1)) change.match = match;
+    } else {
+      byCatalogId.set(match.entry.id, {
+        kind: 'add',
+        rows: [row],
+        match,
+        existing: inventory.find(p => p.catalogId === match.entry.id) ?? null,
+        inPerson: row.inPerson,
+        inTransit: row.inTransit,
+      });
+    }
+  }
+
+  const matched = [...byCatalogId.values()].map(change => {
+    if (!change.existing) return change;
+    const same = change.existing.inPerson === change.inPerson && change.existing.inTransit === change.inTransit;
+    return { ...change, kind: same ? 'unchanged' as const : 'update' as const };
+  });
+
+  return [...matched, ...unknown];
+}
@@ -0,0 +1,96 @@
+import type {
+  InventoryLedgerEntry,
+  LedgerField,
+  LedgerInventory,
+  LedgerReason,
+} from '../types';
+
+export type LedgerChange = Omit<InventoryLedgerEntry, 'id' | 'actorId' | 'createdAt'>;
+
+export interface LedgerItem {
+  inventory: LedgerInventory;
+  itemId: string;
+  catalogId: string;
+  name: string;
+  ownerId: string;
+}
+
+export const LEDGER_REASON_LABELS: Record<LedgerReason, string> = {
+  added: 'Added',
+  manual: 'Manual adjustment',
+  import: 'Import',
+  deleted: 'Removed',
+  'draft-pick': 'Chaos draft pick',
+  'draft-allocation': 'Draft allocation',
+  'draft-restore': 'Draft deleted — returned',
+  'order-placed': 'Order placed',
+  'order-received': 'Order received',
+  'order-cancelled': 'Order cancelled',
+};
+
+// The draft or order a change belongs to, when there is one
+export type LedgerSource = Pick<InventoryLedgerEntry, 'draftId' | 'orderId'>;
+
+/**
+ * One ledger change per field whose value moved between `before` and `after`.
+ * Fields missing from `before` count as 0 (a new item); unchanged fields are skipped.
+ */
+export function quantityChanges(
+  item: LedgerItem,
+  before: Partial<Record<LedgerField, number>>,
+  after: Partial<Record<LedgerField, number>>,
+  reason: LedgerReason,
+  { draftId, orderId }: LedgerSource = {}
+): LedgerChange[] {
+  const changes: LedgerChange[] = [];
+  for (const field of Object.keys(after) as LedgerField[]) {
+    const from = before[field] ?? 0;
+    const to = after[field] ?? 0;
+    if (from === to) continue;
+    changes.push({
+      ...item,
+      field,
+      delta: to - from,
+      before: from,
+      after: to,
+      reason,
+      // Firestore rejects undefined, so ids are only present when known
+      ...(draftId ? { draftId } : {}),
+      ...(orderId ? { orderId } : {}),
+    });
+  }
+  return changes;
+}
+
+export interface LedgerTimelineRow {
+  entry: InventoryLedgerEntry;
+  untrackedBefore: number; // change that happened outside the ledger since the previous entry
+}
+
+export interface LedgerTimeline {
+  rows: LedgerTimelineRow[];
+  untrackedAtEnd: number;  // current value minus the last recorded value
+}
+
+/**
+ * Orders one field's entries chronologically and flags any drift between consecutive
+ * entries (or between the last entry and `current`), so a count can be explained end to end.
+ */
+export function ledgerTimeline(
+  entries: InventoryLedgerEntry[],
+  field: LedgerField,
+  current: number
+): LedgerTimeline {
+  const sorted = entries
+    .filter(e => e.field === field)
+    .sort((a, b) => (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0));
+
+  let last = 0;
+  const rows = sorted.map(entry => {
+    const row = { entry, untrackedBefore: entry.before - last };
+    last = entry.after;
+    return row;
+  });
+
+  return { rows, untrackedAtEnd: current - last };
+}
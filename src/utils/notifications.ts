@@ -0,0 +1,130 @@
+import { formatCents, netCents } from './settlement';
+import type {
+  DraftAllocationEntry,
+  DraftPlayer,
+  DraftSettlement,
+  NotificationKind,
+  NotificationPrefs,
+  TournamentRound,
+} from '../types';
+
+// The `message` field of a mail document, as the Trigger Email extension expects it
+export interface MailMessage {
+  subject: string;
+  html: string;
+}
+
+export interface Notification {
+  userId: string;
+  message: MailMessage;
+}
+
+export const NOTIFICATION_LABELS: Record<NotificationKind, string> = {
+  account: 'My account is approved or denied',
+  allocation: 'My packs are allocated to a draft',
+  finalized: 'A draft I supplied packs to is finalized',
+  rounds: 'A new tournament round is paired',
+};
+
+export const wantsEmail = (prefs: NotificationPrefs | undefined, kind: NotificationKind) =>
+  prefs?.[kind] === true;
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+export function accountStatusEmail(name: string, status: 'approved' | 'denied'): MailMessage {
+  return status === 'approved'
+    ? {
+        subject: 'Your account has been approved',
+        html: `<p>Hi ${escapeHtml(name)}, your account has been approved. You can now log in and join drafts.</p>`,
+      }
+    : {
+        subject: 'Your account request was denied',
+        html: `<p>Hi ${escapeHtml(name)}, your account request was not approved.</p>`,
+      };
+}
+
+/**
+ * Groups an allocation by contributor: userId → the sets and counts they supply.
+ * Chaos inventory entries (`packId`) aren't anyone's private packs, so they're left out.
+ */
+export function contributionsByUser(allocation: DraftAllocationEntry[]): Map<string, { name: string; count: number }[]> {
+  const byUser = new Map<string, { name: string; count: number }[]>();
+  for (const entry of allocation) {
+    if (entry.packId || entry.count <= 0) continue;
+    const lines = byUser.get(entry.userId) ?? [];
+    const line = lines.find(l => l.name === entry.name);
+    if (line) line.count += entry.count;
+    else lines.push({ name: entry.name, count: entry.count });
+    byUser.set(entry.userId, lines);
+  }
+  return byUser;
+}
+
+const packList = (lines: { name: string; count: number }[]) =>
+  `<ul>${lines.map(l => `<li>${l.count} × ${escapeHtml(l.name)}</li>`).join('')}</ul>`;
+
+const packTotal = (lines: { count: number }[]) => {
+  const total = lines.reduce((sum, l) => sum + l.count, 0);
+  return `${total} pack${total === 1 ? '' : 's'}`;
+};
+
+/** One email per contributor whose packs a newly saved preview draft will use. */
+export function allocationEmails(title: string, allocation: DraftAllocationEntry[]): Notification[] {
+  return [...contributionsByUser(allocation)].map(([userId, lines]) => ({
+    userId,
+    message: {
+      subject: `${packTotal(lines)} allocated to ${title}`,
+      html: `<p>These packs from your private inventory are on hold for <strong>${escapeHtml(title)}</strong>:</p>` +
+        packList(lines) +
+        '<p>They come out of your inventory when the draft is finalized.</p>',
+    },
+  }));
+}
+
+/** One email per contributor to a finalized draft, with what they're owed if it was settled. */
+export function finalizedEmails(
+  title: string,
+  allocation: DraftAllocationEntry[],
+  settlement?: DraftSettlement
+): Notification[] {
+  return [...contributionsByUser(allocation)].map(([userId, lines]) => {
+    const line = settlement?.lines.find(l => l.userId === userId);
+    const owed = line && netCents(line) < 0
+      ? `<p>Settle Up: you're owed ${formatCents(-netCents(line))}.</p>`
+      : '';
+    return {
+      userId,
+      message: {
+        subject: `${title} is finalized`,
+        html: `<p><strong>${escapeHtml(title)}</strong> has been finalized and these packs were taken from your private inventory:</p>` +
+          packList(lines) + owed,
+      },
+    };
+  });
+}
+
+/** One email per linked player in the round, naming their opponent (or the bye). */
+export function roundPairingEmails(title: string, players: DraftPlayer[], round: TournamentRound): Notification[] {
+  const byId = new Map(players.map(p => [p.id, p]));
+  const notifications: Notification[] = [];
+  for (const pairing of round.pairings) {
+    const sides = [pairing.player1Id, pairing.player2Id];
+    sides.forEach((id, side) => {
+      const player = id ? byId.get(id) : undefined;
+      if (!player?.userId) return;
+      const opponentId = sides[1 - side];
+      const opponent = opponentId ? byId.get(opponentId)?.name ?? 'Unknown' : null;
+      notifications.push({
+        userId: player.userId,
+        message: {
+          subject: `${title}: round ${round.roundNumber} is paired`,
+          html: opponent
+            ? `<p>Round ${round.roundNumber}: you're playing <strong>${escapeHtml(opponent)}</strong>.</p>`
+            : `<p>Round ${round.roundNumber}: you have the bye.</p>`,
+        },
+      });
+    });
+  }
+  return notifications;
+}
@@ -0,0 +1,102 @@
+import type { Draft } from '../types';
+
+// How long a preview draft keeps its allocated packs on hold
+export const HOLD_DAYS = 14;
+const HOLD_MS = HOLD_DAYS * 24 * 60 * 60 * 1000;
+
+export interface PackHold {
+  draftId: string;
+  userId: string;
+  catalogId: string;
+  count: number;
+  expiresAt: number;
+}
+
+export const holdKey = (userId: string, catalogId: string) => `${userId}::${catalogId}`;
+
+/**
+ * Soft holds placed by preview drafts on the private-inventory packs they were
+ * allocated. A hold lasts until the draft is finalized (the packs are deducted) or
+ * deleted, or HOLD_DAYS after the preview was saved. Chaos-inventory entries aren't held.
+ */
+export function activeHolds(
+  drafts: Pick<Draft, 'id' | 'status' | 'createdAt' | 'allocation'>[],
+  now: number,
+  excludeDraftId?: string
+): PackHold[] {
+  const holds: PackHold[] = [];
+  for (const draft of drafts) {
+    if (draft.status !== 'preview' || draft.id === excludeDraftId) continue;
+    // A just-saved draft has no server timestamp yet
+    const expiresAt = (draft.createdAt?.toMillis() ?? now) + HOLD_MS;
+    if (expiresAt <= now) continue;
+    for (const entry of draft.allocation ?? []) {
+      if (entry.packId || entry.count <= 0) continue;
+      holds.push({ draftId: draft.id, userId: entry.userId, catalogId: entry.catalogId, count: entry.count, expiresAt });
+    }
+  }
+  return holds;
+}
+
+/** Total held per owner + catalog entry, keyed by holdKey. */
+export function heldCounts(holds: PackHold[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const hold of holds) {
+    const key = holdKey(hold.userId, hold.catalogId);
+    counts.set(key, (counts.get(key) ?? 0) + hold.count);
+  }
+  return counts;
+}
+
+export interface HoldConflict {
+  name: string;
+  count: number;  // what the change would leave
+  held: number;
+}
+
+/**
+ * Changes that lower an item's count below what other drafts hold. Raising a count
+ * that is already short is never a conflict.
+ */
+export function holdConflicts(
+  changes: { ownerId: string; catalogId: string; name: string; before: number; count: number }[],
+  held: Map<string, number>
+): HoldConflict[] {
+  return changes.flatMap(({ ownerId, catalogId, name, before, count }) => {
+    const onHold = held.get(holdKey(ownerId, catalogId)) ?? 0;
+    return count < before && count < onHold ? [{ name, count, held: onHold }] : [];
+  });
+}
+
+/** Refused because it would leave an upcoming draft short; retried without holds once the user agrees. */
+export class HoldConflictError extends Error {
+  readonly conflicts: HoldConflict[];
+
+  constructor(conflicts: HoldConflict[]) {
+    super(
+      conflicts
+        .map(c => `${c.held} × ${c.name} ${c.held === 1 ? 'is' : 'are'} reserved for an upcoming draft; this leaves ${c.count}.`)
+        .join('\n')
+    );
+    this.name = 'HoldConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Runs a write that respects `held`; if it would leave a draft short, asks through
+ * `confirm` and, once agreed, runs it again without the holds. Undefined if declined.
+ */
+export async function overridingHolds<T>(
+  held: Map<string, number>,
+  write: (held?: Map<string, number>) => Promise<T>,
+  confirm: (message: string) => boolean
+): Promise<T | undefined> {
+  try {
+    return await write(held);
+  } catch (err) {
+    if (!(err instanceof HoldConflictError)) throw err;
+    if (!confirm(`${err.message}\nThat will leave the draft short. Continue?`)) return undefined;
+    return write();
+  }
+}
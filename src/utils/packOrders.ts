@@ -0,0 +1,80 @@
+import type { PackOrder, PackOrderLine, PackOrderStatus } from '../types';
+
+export interface OnOrder {
+  count: number;
+  expectedDate?: string; // earliest expected date among the open orders
+}
+
+export interface ReceiptPlan {
+  lines: PackOrderLine[];
+  moves: Map<string, number>; // packId → packs moving from in transit to available
+  status: PackOrderStatus;
+}
+
+export const outstandingQuantity = (line: PackOrderLine) => Math.max(0, line.quantity - line.received);
+
+export const orderOutstanding = (order: PackOrder) =>
+  order.lines.reduce((sum, line) => sum + outstandingQuantity(line), 0);
+
+/** One line per catalog entry, adding up the quantities of any repeats. */
+export function mergeOrderLines<T extends { catalogId: string; quantity: number }>(lines: T[]): T[] {
+  const merged = new Map<string, T>();
+  for (const line of lines) {
+    const existing = merged.get(line.catalogId);
+    merged.set(line.catalogId, existing ? { ...existing, quantity: existing.quantity + line.quantity } : line);
+  }
+  return [...merged.values()];
+}
+
+/** Default receive quantities: everything still outstanding on each line. */
+export function outstandingByPack(order: PackOrder): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const line of order.lines) {
+    result[line.packId] = (result[line.packId] ?? 0) + outstandingQuantity(line);
+  }
+  return result;
+}
+
+/**
+ * Applies a (possibly partial) shipment to an order. Quantities are per pack and are
+ * clamped to what is still outstanding, so over-receiving can't inflate the counts.
+ * The order closes as 'received' once nothing is outstanding.
+ */
+export function planReceipt(order: PackOrder, quantities: Record<string, number>): ReceiptPlan {
+  const remaining = new Map(Object.entries(quantities).map(([packId, n]) => [packId, Math.max(0, Math.floor(n))]));
+  const moves = new Map<string, number>();
+
+  const lines = order.lines.map(line => {
+    const n = Math.min(remaining.get(line.packId) ?? 0, outstandingQuantity(line));
+    if (n === 0) return line;
+    remaining.set(line.packId, (remaining.get(line.packId) ?? 0) - n);
+    moves.set(line.packId, (moves.get(line.packId) ?? 0) + n);
+    return { ...line, received: line.received + n };
+  });
+
+  const status = lines.every(line => outstandingQuantity(line) === 0) ? 'received' : order.status;
+  return { lines, moves, status };
+}
+
+/** Outstanding packs across open orders, keyed by pack id. */
+export function onOrderByPack(orders: PackOrder[]): Map<string, OnOrder> {
+  const result = new Map<string, OnOrder>();
+  for (const order of orders) {
+    if (order.status !== 'open') continue;
+    for (const line of order.lines) {
+      const count = outstandingQuantity(line);
+      if (count === 0) continue;
+      const existing = result.get(line.packId) ?? { count: 0 };
+      const expectedDate =
+        !existing.expectedDate || (order.expectedDate && order.expectedDate < existing.expectedDate)
+          ? order.expectedDate ?? existing.expectedDate
+          : existing.expectedDate;
+      result.set(line.packId, { count: existing.count + count, ...(expectedDate ? { expectedDate } : {}) });
+    }
+  }
+  return result;
+}
+
+/** True when an open order's expected date (yyyy-mm-dd) is before `today`. */
+export const isOverdue = (order: PackOrder, today = new Date().toISOString().slice(0, 10)) =>
+  order.status === 'open' && !!order.expectedDate && order.expectedDate < today;
@@ -0,0 +1,50 @@
+import type { PickOrderMode } from '../types';
+import { createSeededRandom } from './seededRandom';
+
+export const PICK_ORDER_MODES: { mode: PickOrderMode; label: string; description: string }[] = [
+  { mode: 'round-robin', label: 'Round Robin', description: 'Same seat order every lap' },
+  { mode: 'snake', label: 'Snake', description: 'Order reverses every lap' },
+  { mode: 'random', label: 'Random Laps', description: 'Seat order reshuffled each lap' },
+  { mode: 'player-choice', label: 'Player Choice', description: 'Round robin; each pick may reject one spin and re-roll' },
+];
+
+/** Seat order for one lap of the table. Random laps are seeded so every device agrees. */
+export function lapOrder(lap: number, numPlayers: number, mode: PickOrderMode, seed = 0): number[] {
+  const order = Array.from({ length: numPlayers }, (_, i) => i);
+  if (mode === 'snake' && lap % 2 === 1) return order.reverse();
+  if (mode === 'random') {
+    const rng = createSeededRandom(seed + lap);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  }
+  return order;
+}
+
+/**
+ * Index of the player who receives pick `pickIndex`. Purely positional, so undoing a
+ * pick is just a matter of looking up the same index again.
+ */
+export function playerIndexForPick(
+  pickIndex: number,
+  numPlayers: number,
+  mode: PickOrderMode = 'round-robin',
+  seed = 0
+): number {
+  if (numPlayers <= 0) return 0;
+  const lap = Math.floor(pickIndex / numPlayers);
+  return lapOrder(lap, numPlayers, mode, seed)[pickIndex % numPlayers];
+}
+
+/** Splits picks into one list per player, in pick order. */
+export function groupPicksByPlayer<T>(
+  picks: T[],
+  numPlayers: number,
+  mode: PickOrderMode = 'round-robin',
+  seed = 0
+): T[][] {
+  const groups: T[][] = Array.from({ length: numPlayers }, () => []);
+  picks.forEach((pick, i) => groups[playerIndexForPick(i, numPlayers, mode, seed)]?.push(pick));
+  return groups;
+}
@@ -1,4 +1,6 @@
-import type { Draft, DraftType } from '../types';
+import { pairingWinnerId, tournamentWinnerId } from './playoffBracket';
+import { tournamentPlayers } from './swissPairings';
+import type { Draft, DraftType, TournamentPlayoff } from '../types';
 
 export interface PlayerAggregate {
   displayName: string;
@@ -10,6 +12,11 @@ export interface PlayerAggregate {
   gameLosses: number;
   tournamentsPlayed: number;
   matchWinRate: number;
+  // Top-cut results, kept apart from the Swiss record above
+  playoffWins: number;
+  playoffLosses: number;
+  topCuts: number;
+  tournamentWins: number;
 }
 
 export interface HeadToHeadMatch {
@@ -36,20 +43,39 @@ export interface PlayerDraftResult {
   matchTies: number;
   gameWins: number;
   gameLosses: number;
+  playoffWins: number;
+  playoffLosses: number;
+  madeTopCut: boolean;
+  wonTournament: boolean;
 }
 
 function norm(name: string): string {
   return name.trim().toLowerCase();
 }
 
+// Playoff match wins and losses for one player
+function playoffRecord(playoff: TournamentPlayoff | undefined, playerId: string): { wins: number; losses: number } {
+  const record = { wins: 0, losses: 0 };
+  for (const round of playoff?.rounds ?? []) {
+    for (const pairing of round.pairings) {
+      if (pairing.player1Id !== playerId && pairing.player2Id !== playerId) continue;
+      const winner = pairingWinnerId(pairing);
+      if (winner === playerId) record.wins++;
+      else if (winner !== null) record.losses++;
+    }
+  }
+  return record;
+}
+
 export function computePlayerAggregates(drafts: Draft[]): PlayerAggregate[] {
   const map = new Map<string, PlayerAggregate>();
 
   for (const draft of drafts) {
     if (!draft.tournament) continue;
-    const playerById = new Map(draft.players.map(p => [p.id, p]));
+    const players = tournamentPlayers(draft);
+    const playerById = new Map(players.map(p => [p.id, p]));
 
-    for (const player of draft.players) {
+    for (const player of players) {
       const key = norm(player.name);
       if (!key) continue;
       if (!map.has(key)) {
@@ -60,14 +86,24 @@ export function computePlayerAggregates(drafts: Draft[]): PlayerAggregate[] {
           gameWins: 0, gameLosses: 0,
           tournamentsPlayed: 0,
           matchWinRate: 0,
+          playoffWins: 0, playoffLosses: 0, topCuts: 0, tournamentWins: 0,
         });
       }
-      map.get(key)!.tournamentsPlayed++;
+      const agg = map.get(key)!;
+      agg.tournamentsPlayed++;
+      const playoff = draft.tournament.playoff;
+      if (playoff?.seeds.includes(player.id)) {
+        const { wins, losses } = playoffRecord(playoff, player.id);
+        agg.topCuts++;
+        agg.playoffWins += wins;
+        agg.playoffLosses += losses;
+      }
+      if (tournamentWinnerId(players, draft.tournament) === player.id) agg.tournamentWins++;
     }
 
     for (const round of draft.tournament.rounds) {
       for (const pairing of round.pairings) {
-        if (pairing.player2Id === null || !pairing.result) continue;
+        if (pairing.player2Id === null || !pairing.result || pairing.status !== 'complete') continue;
         const p1 = playerById.get(pairing.player1Id);
         const p2 = playerById.get(pairing.player2Id);
         if (!p1 || !p2) continue;
@@ -107,11 +143,11 @@ export function computeHeadToHead(nameA: string, nameB: string, drafts: Draft[])
 
   for (const draft of drafts) {
     if (!draft.tournament) continue;
-    const playerById = new Map(draft.players.map(p => [p.id, p]));
+    const playerById = new Map(tournamentPlayers(draft).map(p => [p.id, p]));
 
     for (const round of draft.tournament.rounds) {
       for (const pairing of round.pairings) {
-        if (pairing.player2Id === null || !pairing.result) continue;
+        if (pairing.player2Id === null || !pairing.result || pairing.status !== 'complete') continue;
         const p1 = playerById.get(pairing.player1Id);
         const p2 = playerById.get(pairing.player2Id);
         if (!p1 || !p2) continue;
@@ -150,19 +186,25 @@ export function computePlayerDraftHistory(name: string, drafts: Draft[]): Player
 
   for (const draft of drafts) {
     if (!draft.tournament) continue;
-    const player = draft.players.find(p => norm(p.name) === key);
+    const players = tournamentPlayers(draft);
+    const player = players.find(p => norm(p.name) === key);
     if (!player) continue;
 
+    const playoff = playoffRecord(draft.tournament.playoff, player.id);
     const result: PlayerDraftResult = {
       draftId: draft.id,
       draftType: draft.type,
       matchWins: 0, matchLosses: 0, matchTies: 0,
       gameWins: 0, gameLosses: 0,
+      playoffWins: playoff.wins,
+      playoffLosses: playoff.losses,
+      madeTopCut: draft.tournament.playoff?.seeds.includes(player.id) ?? false,
+      wonTournament: tournamentWinnerId(players, draft.tournament) === player.id,
     };
 
     for (const round of draft.tournament.rounds) {
       for (const pairing of round.pairings) {
-        if (pairing.player2Id === null || !pairing.result) continue;
+        if (pairing.player2Id === null || !pairing.result || pairing.status !== 'complete') continue;
         if (pairing.player1Id !== player.id && pairing.player2Id !== player.id) continue;
 
         const isP1 = pairing.player1Id === player.id;
@@ -0,0 +1,108 @@
+import { computeStandings } from './swissPairings';
+import type {
+  DraftPlayer,
+  DraftTournament,
+  TopCutSize,
+  TournamentPairing,
+  TournamentPlayoff,
+  TournamentRound,
+} from '../types';
+
+export const TOP_CUT_SIZES: TopCutSize[] = [2, 4, 8];
+
+/**
+ * Seeds in bracket order, so the top two seeds can only meet in the final:
+ * 2 → [1, 2], 4 → [1, 4, 2, 3], 8 → [1, 8, 4, 5, 2, 7, 3, 6].
+ */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2 + 1;
+    order = order.flatMap(seed => [seed, n - seed]);
+  }
+  return order;
+}
+
+const newPairing = (player1Id: string, player2Id: string): TournamentPairing => ({
+  id: crypto.randomUUID(),
+  player1Id,
+  player2Id,
+  status: 'pending',
+});
+
+/**
+ * The top `size` of the final Swiss standings, paired into the first bracket round.
+ * Players who dropped keep their place in the standings but aren't cut to. With
+ * per-pod standings each pod's winners are seeded first, then its runners-up, and so on.
+ */
+export function seedPlayoff(
+  players: DraftPlayer[],
+  swissRounds: TournamentRound[],
+  size: TopCutSize,
+  { drops = [], lateEntries = [], pods, podStandings }:
+    Pick<DraftTournament, 'drops' | 'lateEntries' | 'pods' | 'podStandings'> = {}
+): TournamentPlayoff {
+  const dropped = new Set(drops.map(d => d.playerId));
+  let ranked = computeStandings(players, swissRounds, { lateEntries }).filter(s => !dropped.has(s.playerId));
+  if (pods && podStandings === 'per-pod') {
+    const podRank = new Map<string, number>();
+    for (const pod of pods) {
+      ranked.filter(s => pod.playerIds.includes(s.playerId)).forEach((s, i) => podRank.set(s.playerId, i));
+    }
+    // A stable sort keeps the overall standings order between pods
+    ranked = [...ranked].sort((a, b) => (podRank.get(a.playerId) ?? 0) - (podRank.get(b.playerId) ?? 0));
+  }
+  const seeds = ranked.slice(0, size).map(s => s.playerId);
+  if (seeds.length < size) throw new Error(`A top ${size} cut needs at least ${size} players`);
+  const order = bracketOrder(size);
+  const pairings: TournamentPairing[] = [];
+  for (let i = 0; i < order.length; i += 2) {
+    pairings.push(newPairing(seeds[order[i] - 1], seeds[order[i + 1] - 1]));
+  }
+  return { size, seeds, rounds: [{ roundNumber: 1, pairings, status: 'active' }] };
+}
+
+export function pairingWinnerId(pairing: TournamentPairing): string | null {
+  if (!pairing.result || pairing.status !== 'complete' || pairing.player2Id === null) return null;
+  if (pairing.result.matchWinner === 'player1') return pairing.player1Id;
+  if (pairing.result.matchWinner === 'player2') return pairing.player2Id;
+  return null;
+}
+
+/**
+ * The next bracket round once every match in the latest one has a winner: winners of
+ * neighbouring matches meet. Null while results are outstanding or after the final.
+ */
+export function nextPlayoffRound(playoff: TournamentPlayoff): TournamentRound | null {
+  const last = playoff.rounds[playoff.rounds.length - 1];
+  if (!last || last.pairings.length < 2) return null;
+  const winners = last.pairings.map(pairingWinnerId);
+  if (winners.some(w => w === null)) return null;
+  const pairings: TournamentPairing[] = [];
+  for (let i = 0; i < winners.length; i += 2) {
+    pairings.push(newPairing(winners[i]!, winners[i + 1]!));
+  }
+  return { roundNumber: last.roundNumber + 1, pairings, status: 'active' };
+}
+
+export function playoffChampionId(playoff: TournamentPlayoff): string | null {
+  const last = playoff.rounds[playoff.rounds.length - 1];
+  if (!last || last.pairings.length !== 1) return null;
+  return pairingWinnerId(last.pairings[0]);
+}
+
+/** Quarterfinals / Semifinals / Final, by how many matches the round has. */
+export function playoffRoundName(round: TournamentRound): string {
+  const matches = round.pairings.length;
+  return matches === 1 ? 'Final' : matches === 2 ? 'Semifinals' : matches === 4 ? 'Quarterfinals' : `Top ${matches * 2}`;
+}
+
+/**
+ * Who won a finalized tournament: the playoff champion when there was a cut,
+ * otherwise whoever tops the Swiss standings.
+ */
+export function tournamentWinnerId(players: DraftPlayer[], tournament: DraftTournament): string | null {
+  if (tournament.status !== 'finalized') return null;
+  if (tournament.playoff) return playoffChampionId(tournament.playoff);
+  return computeStandings(players, tournament.rounds, tournament)[0]?.playerId ?? null;
+}
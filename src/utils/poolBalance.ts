@@ -0,0 +1,54 @@
+import type { Draft, PoolAdjustment } from '../types';
+
+export interface PoolBalance {
+  userId: string;
+  name: string;
+  contributed: number; // packs supplied to drafts from their private inventory
+  opened: number;      // packs opened as a player
+  adjusted: number;    // net of admin adjustments
+  balance: number;     // contributed + adjusted − opened; below zero means they owe the pool
+}
+
+// Drafts supplied from private inventories; chaos packs and cubes don't come out of anyone's pool
+const countsTowardPool = (draft: Draft) =>
+  draft.status === 'finalized' && draft.type !== 'chaos' && !draft.cubeId;
+
+/**
+ * Per-user pack balance across every finalized regular/sealed draft: packs put into
+ * the pool through the draft's allocation against packs opened at the table, plus any
+ * admin adjustments. Only linked players are counted as having opened packs. Sorted
+ * with the largest deficit first.
+ */
+export function poolBalances(
+  drafts: Draft[],
+  adjustments: Pick<PoolAdjustment, 'userId' | 'packs'>[],
+  names: Record<string, string> = {}
+): PoolBalance[] {
+  const balances = new Map<string, PoolBalance>();
+  const balanceFor = (userId: string, fallbackName: string) => {
+    let balance = balances.get(userId);
+    if (!balance) {
+      balance = { userId, name: names[userId] ?? fallbackName, contributed: 0, opened: 0, adjusted: 0, balance: 0 };
+      balances.set(userId, balance);
+    }
+    return balance;
+  };
+
+  for (const draft of drafts) {
+    if (!countsTowardPool(draft)) continue;
+    for (const entry of draft.allocation ?? []) {
+      if (entry.packId) continue; // supplied from the chaos inventory, not anyone's pool
+      balanceFor(entry.userId, entry.userName).contributed += entry.count;
+    }
+    for (const player of draft.players) {
+      if (player.userId) balanceFor(player.userId, player.name).opened += draft.packsPerPerson ?? 0;
+    }
+  }
+  for (const adjustment of adjustments) {
+    balanceFor(adjustment.userId, adjustment.userId).adjusted += adjustment.packs;
+  }
+
+  const result = [...balances.values()];
+  for (const b of result) b.balance = b.contributed + b.adjusted - b.opened;
+  return result.sort((a, b) => a.balance - b.balance || a.name.localeCompare(b.name));
+}
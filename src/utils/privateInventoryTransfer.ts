@@ -0,0 +1,157 @@
+import Papa from 'papaparse';
+import type { PackCatalogEntry, PrivateInventoryItem } from '../types';
+import { matchCatalogEntry } from './inventoryImport';
+
+export interface PrivateImportRow {
+  line: number;          // CSV line (header = 1) or JSON item position (1-based)
+  catalogId: string;
+  name: string;
+  count: number;
+}
+
+export interface ResolvedPrivateItem {
+  catalogId: string;
+  name: string;
+  imageUrl: string;
+  count: number;
+  rows: PrivateImportRow[];
+}
+
+export interface PrivateInventoryExport {
+  version: 1;
+  exportedAt: string;
+  items: { catalogId: string; name: string; imageUrl: string; count: number }[];
+}
+
+const CSV_COLUMNS = ['Catalog ID', 'Pack Name', 'Image URL', 'Count'];
+
+const sortedItems = (items: PrivateInventoryItem[]) =>
+  [...items].sort((a, b) => a.name.localeCompare(b.name));
+
+export function privateInventoryToCsv(items: PrivateInventoryItem[]): string {
+  return Papa.unparse({
+    fields: CSV_COLUMNS,
+    data: sortedItems(items).map(i => [i.catalogId, i.name, i.imageUrl, i.count]),
+  });
+}
+
+export function privateInventoryToJson(items: PrivateInventoryItem[], exportedAt = new Date()): string {
+  const data: PrivateInventoryExport = {
+    version: 1,
+    exportedAt: exportedAt.toISOString(),
+    items: sortedItems(items).map(({ catalogId, name, imageUrl, count }) => ({ catalogId, name, imageUrl, count })),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+const toCount = (value: unknown): number | null => {
+  const n = Number(value);
+  return String(value ?? '').trim() !== '' && Number.isInteger(n) && n >= 0 ? n : null;
+};
+
+function readRow(
+  line: number,
+  catalogId: unknown,
+  name: unknown,
+  count: unknown,
+  errors: string[],
+  label: string
+): PrivateImportRow | null {
+  const id = String(catalogId ?? '').trim();
+  const packName = String(name ?? '').trim();
+  const n = toCount(count);
+  if (!id && !packName) {
+    errors.push(`${label} ${line}: needs a catalog ID or pack name`);
+    return null;
+  }
+  if (n === null) {
+    errors.push(`${label} ${line}: count must be a whole number`);
+    return null;
+  }
+  return { line, catalogId: id, name: packName, count: n };
+}
+
+/**
+ * Reads a private inventory file in either export format. JSON is detected by its
+ * leading brace/bracket and may be the full export object or a bare array of items.
+ */
+export function parsePrivateInventoryFile(text: string): { rows: PrivateImportRow[]; errors: string[] } {
+  const errors: string[] = [];
+  const rows: PrivateImportRow[] = [];
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let items: unknown;
+    try {
+      const parsed = JSON.parse(trimmed);
+      items = Array.isArray(parsed) ? parsed : parsed?.items;
+    } catch {
+      return { rows, errors: ['File is not valid JSON'] };
+    }
+    if (!Array.isArray(items)) return { rows, errors: ['JSON has no "items" list'] };
+    items.forEach((item, i) => {
+      const row = readRow(i + 1, item?.catalogId, item?.name, item?.count, errors, 'Item');
+      if (row) rows.push(row);
+    });
+    return { rows, errors };
+  }
+
+  const parsed = Papa.parse<Record<string, string>>(trimmed, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: h => h.trim(),
+  });
+  const fields = parsed.meta.fields ?? [];
+  if (!fields.includes('Count') || !(fields.includes('Pack Name') || fields.includes('Catalog ID'))) {
+    return { rows, errors: ['CSV needs a "Count" column and a "Pack Name" or "Catalog ID" column'] };
+  }
+  parsed.data.forEach((record, i) => {
+    const row = readRow(i + 2, record['Catalog ID'], record['Pack Name'], record['Count'], errors, 'Line');
+    if (row) rows.push(row);
+  });
+  return { rows, errors };
+}
+
+/**
+ * Resolves rows to catalog entries — by catalog ID when it exists, otherwise by fuzzy
+ * name match — and sums rows that land on the same entry. Rows that resolve to nothing
+ * are returned as `unresolved`.
+ */
+export function resolvePrivateInventoryRows(
+  rows: PrivateImportRow[],
+  catalog: PackCatalogEntry[]
+): { resolved: ResolvedPrivateItem[]; unresolved: PrivateImportRow[] } {
+  const byId = new Map(catalog.map(e => [e.id, e]));
+  const resolved = new Map<string, ResolvedPrivateItem>();
+  const unresolved: PrivateImportRow[] = [];
+
+  for (const row of rows) {
+    const entry = byId.get(row.catalogId) ?? (row.name ? matchCatalogEntry(row.name, catalog)?.entry : undefined);
+    if (!entry) {
+      unresolved.push(row);
+      continue;
+    }
+    const existing = resolved.get(entry.id);
+    if (existing) {
+      existing.count += row.count;
+      existing.rows.push(row);
+    } else {
+      resolved.set(entry.id, { catalogId: entry.id, name: entry.name, imageUrl: entry.imageUrl, count: row.count, rows: [row] });
+    }
+  }
+
+  return { resolved: [...resolved.values()], unresolved };
+}
+
+/** Triggers a browser download of `content`. */
+export function downloadTextFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8;` });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
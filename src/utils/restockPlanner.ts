@@ -0,0 +1,137 @@
+import type { Draft, PackOrder } from '../types';
+import { outstandingQuantity } from './packOrders';
+
+// The parts of a chaos inventory pack the planner reads
+export interface StockedPack {
+  id: string;
+  catalogId: string;
+  name: string;
+  imageUrl: string;
+  inPerson: number;
+  inTransit: number;
+  targetStock?: number;
+}
+
+export interface RestockLine {
+  key: string;          // catalog id, or the pack id when the pack has since been deleted
+  catalogId: string;    // '' when the pack is no longer in the inventory (can't be ordered)
+  name: string;
+  imageUrl: string;
+  consumed: number;     // picked in drafts still waiting on a restock
+  inPerson: number;
+  inTransit: number;    // on order and not already earmarked for an earlier restock
+  target: number;       // 0 = no target stock level
+  need: number;
+  draftIds: string[];
+}
+
+export interface RestockPlan {
+  lines: RestockLine[];   // only packs that need buying, sorted by name
+  draftIds: string[];     // every draft the plan restocks
+}
+
+/**
+ * Chaos drafts whose picks still need replacing: finalized, not marked restocked,
+ * and not already covered by an open restock order.
+ */
+export function pendingRestockDrafts(drafts: Draft[], orders: PackOrder[]): Draft[] {
+  const covered = new Set(
+    orders.filter(o => o.status === 'open').flatMap(o => o.restockDraftIds ?? [])
+  );
+  return drafts.filter(d =>
+    d.type === 'chaos' &&
+    d.status === 'finalized' &&
+    !d.restockComplete &&
+    !covered.has(d.id) &&
+    (d.packsSelectedOrder?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Consolidated shopping list per catalog entry. Each pack needs whichever is larger:
+ * its consumption across pending drafts minus what's already in transit, or the gap
+ * between its target stock and what's on hand plus in transit. Packs in transit on an
+ * earlier restock order are already spoken for, so they don't offset new consumption.
+ */
+export function planRestock(drafts: Draft[], packs: StockedPack[], orders: PackOrder[]): RestockPlan {
+  const pending = pendingRestockDrafts(drafts, orders);
+  const packsById = new Map(packs.map(p => [p.id, p]));
+
+  const earmarked = new Map<string, number>();
+  for (const order of orders) {
+    if (order.status !== 'open' || !order.restockDraftIds?.length) continue;
+    for (const line of order.lines) {
+      earmarked.set(line.packId, (earmarked.get(line.packId) ?? 0) + outstandingQuantity(line));
+    }
+  }
+
+  const lines = new Map<string, RestockLine>();
+  const lineFor = (key: string, init: () => Omit<RestockLine, 'key'>) => {
+    let line = lines.get(key);
+    if (!line) {
+      line = { key, ...init() };
+      lines.set(key, line);
+    }
+    return line;
+  };
+  const addPackStock = (line: RestockLine, pack: StockedPack) => {
+    line.inPerson += pack.inPerson;
+    line.inTransit += Math.max(0, pack.inTransit - (earmarked.get(pack.id) ?? 0));
+    line.target += pack.targetStock ?? 0;
+  };
+
+  for (const pack of packs) {
+    const line = lineFor(pack.catalogId || pack.id, () => ({
+      catalogId: pack.catalogId ?? '',
+      name: pack.name,
+      imageUrl: pack.imageUrl,
+      consumed: 0, inPerson: 0, inTransit: 0, target: 0, need: 0,
+      draftIds: [],
+    }));
+    addPackStock(line, pack);
+  }
+
+  for (const draft of pending) {
+    for (const ref of draft.packsSelectedOrder ?? []) {
+      const pack = packsById.get(ref.id);
+      const line = lineFor(pack?.catalogId || ref.id, () => ({
+        catalogId: '',
+        name: ref.name,
+        imageUrl: ref.imageUrl,
+        consumed: 0, inPerson: 0, inTransit: 0, target: 0, need: 0,
+        draftIds: [],
+      }));
+      line.consumed++;
+      if (!line.draftIds.includes(draft.id)) line.draftIds.push(draft.id);
+    }
+  }
+
+  const result: RestockLine[] = [];
+  for (const line of lines.values()) {
+    const replace = line.consumed - line.inTransit;
+    const toTarget = line.target > 0 ? line.target - line.inPerson - line.inTransit : 0;
+    line.need = Math.max(0, replace, toTarget);
+    if (line.need > 0) result.push(line);
+  }
+  result.sort((a, b) => a.name.localeCompare(b.name));
+
+  return { lines: result, draftIds: pending.map(d => d.id) };
+}
+
+/**
+ * The drafts an order of `ordered` restocks: those whose every pack still to buy is on
+ * it, at the planned quantity or more. A pack that can't be ordered, or was edited
+ * down or off the order, holds its drafts back for a later one.
+ */
+export function restockedDraftIds(plan: RestockPlan, ordered: { catalogId: string; quantity: number }[]): string[] {
+  const quantities = new Map<string, number>();
+  for (const line of ordered) quantities.set(line.catalogId, (quantities.get(line.catalogId) ?? 0) + line.quantity);
+  const short = new Set(plan.lines
+    .filter(line => !line.catalogId || (quantities.get(line.catalogId) ?? 0) < line.need)
+    .flatMap(line => line.draftIds));
+  return plan.draftIds.filter(id => !short.has(id));
+}
+
+/** Plain-text shopping list, one "quantity × name" per line. */
+export const shoppingListText = (lines: { name: string; need: number }[]) =>
+  lines.filter(l => l.need > 0).map(l => `${l.need} × ${l.name}`).join('\n');
@@ -0,0 +1,206 @@
+import { nextRoundPairings } from './tournamentFormats';
+import { nextPlayoffRound, playoffRoundName } from './playoffBracket';
+import type {
+  DraftPlayer,
+  DraftTournament,
+  MatchScore,
+  PairingResult,
+  PairingStatus,
+  StoredPairingResult,
+  TournamentCorrection,
+  TournamentPairing,
+  TournamentPlayoff,
+  TournamentRound,
+} from '../types';
+
+/** Account ids of the players on either side of a pairing; guests have none. */
+export function pairingUserIds(pairing: TournamentPairing, players: DraftPlayer[]): string[] {
+  return [pairing.player1Id, pairing.player2Id]
+    .map(id => players.find(p => p.id === id)?.userId)
+    .filter((uid): uid is string => !!uid);
+}
+
+/** A report from an admin stands on its own; anyone else's waits for a second opinion. */
+export const reportedStatus = (isAdmin: boolean): PairingStatus => (isAdmin ? 'complete' : 'reported');
+
+/**
+ * Whether `uid` can confirm a pairing's result: a player in the match other than the
+ * one who reported it, or an admin. Disputed results are an admin's call alone.
+ */
+export function canConfirmResult(
+  pairing: TournamentPairing,
+  players: DraftPlayer[],
+  uid: string | undefined,
+  isAdmin: boolean
+): boolean {
+  if (!pairing.result || !uid) return false;
+  if (pairing.status === 'disputed') return isAdmin;
+  if (pairing.status !== 'reported') return false;
+  return isAdmin || (uid !== pairing.result.submittedBy && pairingUserIds(pairing, players).includes(uid));
+}
+
+/** Only the reporter's opponent can dispute, and only before the result is settled. */
+export function canDisputeResult(pairing: TournamentPairing, players: DraftPlayer[], uid: string | undefined): boolean {
+  if (!pairing.result || !uid || pairing.status !== 'reported') return false;
+  return uid !== pairing.result.submittedBy && pairingUserIds(pairing, players).includes(uid);
+}
+
+/** Replaces one pairing in a round; the round is complete once every match is. */
+export function withPairing(
+  round: TournamentRound,
+  pairingId: string,
+  update: (pairing: TournamentPairing) => TournamentPairing
+): TournamentRound {
+  const pairings = round.pairings.map(p => (p.id === pairingId ? update(p) : p));
+  const matches = pairings.filter(p => p.player2Id !== null);
+  const complete = matches.length > 0 && matches.every(p => p.status === 'complete');
+  return { ...round, pairings, status: complete ? 'complete' : 'active' };
+}
+
+/**
+ * After a result in `roundNumber` changes, the latest Swiss round is paired again
+ * from the new standings — but only if it came later and nobody has reported a
+ * result in it yet. Returns the replacement round, or null when it has to stand.
+ */
+export function repairLaterRound(
+  players: DraftPlayer[],
+  tournament: DraftTournament,
+  roundNumber: number
+): TournamentRound | null {
+  const latest = tournament.rounds[tournament.rounds.length - 1];
+  if (!latest || latest.roundNumber <= roundNumber || tournament.playoff) return null;
+  if (latest.pairings.some(p => p.result)) return null;
+  // A round-robin's rounds don't depend on the standings
+  if (tournament.format === 'round-robin') return null;
+  const earlier = tournament.rounds.filter(r => r.roundNumber < latest.roundNumber);
+  // Players sat out of the round by hand stay out
+  const seated = new Set(latest.pairings.flatMap(p => [p.player1Id, p.player2Id]));
+  const pairings = nextRoundPairings(
+    players,
+    { ...tournament, rounds: earlier },
+    players.filter(p => !seated.has(p.id)).map(p => p.id)
+  ).flat();
+  return { ...latest, pairings, status: 'active' };
+}
+
+const matchups = (round: TournamentRound) => round.pairings.map(p => `${p.player1Id}:${p.player2Id}`).join(',');
+
+/** A playoff result can change until someone reports a result in a later bracket round. */
+export function canCorrectPlayoffResult(playoff: TournamentPlayoff, roundNumber: number): boolean {
+  return playoff.rounds.every(r => r.roundNumber <= roundNumber || r.pairings.every(p => !p.result));
+}
+
+/**
+ * Replaces one playoff match. Later bracket rounds were paired from the old winners,
+ * so they're dropped, and the next round is paired once every match in the latest
+ * round is confirmed. Returns the updated bracket with the round it paired, if any,
+ * or null when the match is missing or a later round already has results.
+ */
+export function withPlayoffPairing(
+  playoff: TournamentPlayoff,
+  roundNumber: number,
+  pairingId: string,
+  update: (pairing: TournamentPairing) => TournamentPairing
+): { playoff: TournamentPlayoff; next: TournamentRound | null } | null {
+  const round = playoff.rounds.find(r => r.roundNumber === roundNumber);
+  if (!round?.pairings.some(p => p.id === pairingId) || !canCorrectPlayoffResult(playoff, roundNumber)) return null;
+  const rounds = playoff.rounds
+    .filter(r => r.roundNumber <= roundNumber)
+    .map(r => (r === round ? withPairing(r, pairingId, update) : r));
+  const next = nextPlayoffRound({ ...playoff, rounds });
+  const paired = playoff.rounds.find(r => r.roundNumber === roundNumber + 1);
+  // Same winners, same matches: the round already paired stands
+  if (next && paired && matchups(next) === matchups(paired)) {
+    return { playoff: { ...playoff, rounds: [...rounds, paired] }, next: null };
+  }
+  return { playoff: { ...playoff, rounds: next ? [...rounds, next] : rounds }, next };
+}
+
+export const matchScore = ({ player1Wins, player2Wins, ties, matchWinner }: PairingResult): MatchScore =>
+  ({ player1Wins, player2Wins, ties, matchWinner });
+
+const formatScore = (s: MatchScore) => [s.player1Wins, s.player2Wins, ...(s.ties > 0 ? [s.ties] : [])].join('–');
+
+/** What changed in a correction and which later rounds it did or didn't re-pair. */
+export function correctionWarning(
+  correction: TournamentCorrection,
+  tournament: DraftTournament,
+  players: DraftPlayer[]
+): string {
+  const nameOf = (id: string | null) => players.find(p => p.id === id)?.name ?? 'Unknown';
+  const rounds = correction.playoff ? tournament.playoff?.rounds ?? [] : tournament.rounds;
+  const round = rounds.find(r => r.roundNumber === correction.roundNumber);
+  const pairing = round?.pairings.find(p => p.id === correction.pairingId);
+  const match = pairing ? `${nameOf(pairing.player1Id)} vs ${nameOf(pairing.player2Id)}` : 'A match';
+  const from = correction.previous ? ` from ${formatScore(correction.previous)}` : '';
+
+  if (correction.playoff) {
+    const label = round ? playoffRoundName(round) : `Playoff round ${correction.roundNumber}`;
+    const repaired = rounds.find(r => r.roundNumber === correction.repairedRound);
+    return [
+      `${label}: ${match} was corrected${from} to ${formatScore(correction.result)}.`,
+      ...(repaired ? [`The ${playoffRoundName(repaired)} was paired again.`] : []),
+    ].join(' ');
+  }
+
+  const parts = [`Round ${correction.roundNumber}: ${match} was corrected${from} to ${formatScore(correction.result)}.`];
+
+  if (correction.repairedRound !== undefined) {
+    parts.push(`Round ${correction.repairedRound} was paired again from the new standings.`);
+  }
+  const kept: number[] = [];
+  for (let n = correction.roundNumber + 1; n <= correction.atRound; n++) {
+    if (n !== correction.repairedRound) kept.push(n);
+  }
+  if (kept.length > 0) {
+    parts.push(`Round${kept.length === 1 ? '' : 's'} ${kept.join(', ')} had already started and kept ${kept.length === 1 ? 'its' : 'their'} pairings.`);
+  }
+  return parts.join(' ');
+}
+
+const mapPairings = (tournament: DraftTournament, update: (pairing: TournamentPairing) => TournamentPairing) => {
+  const mapRounds = (rounds: TournamentRound[]) => rounds.map(r => ({ ...r, pairings: r.pairings.map(update) }));
+  return {
+    rounds: mapRounds(tournament.rounds),
+    ...(tournament.playoff ? { playoff: { ...tournament.playoff, rounds: mapRounds(tournament.playoff.rounds) } } : {}),
+  };
+};
+
+/**
+ * Puts the stored results back on their pairings, so a tournament read from the server
+ * looks the way the rest of the app expects. A result left on a pairing itself is
+ * ignored — the rules don't check it. Older tournaments without a results map are
+ * returned as they are.
+ */
+export function withStoredResults(tournament: DraftTournament): DraftTournament {
+  const { results } = tournament;
+  if (!results) return tournament;
+  return {
+    ...tournament,
+    ...mapPairings(tournament, ({ id, player1Id, player2Id }) => {
+      const stored = results[id];
+      if (!stored) return { id, player1Id, player2Id, status: 'pending' };
+      const result = Object.fromEntries(
+        Object.entries(stored).filter(([key]) => key !== 'status' && key !== 'playerUids')
+      ) as unknown as PairingResult;
+      return { id, player1Id, player2Id, result, status: stored.status };
+    }),
+  };
+}
+
+/**
+ * The reverse of withStoredResults: moves each result off its pairing into the results
+ * map for writing. A result already stored keeps the players it was reported with, so
+ * only the results that actually changed differ from what's on the server.
+ */
+export function toStoredResults(tournament: DraftTournament, players: DraftPlayer[]): DraftTournament {
+  const results: Record<string, StoredPairingResult> = {};
+  const stripped = mapPairings(tournament, ({ result, ...pairing }) => {
+    if (result) {
+      const playerUids = tournament.results?.[pairing.id]?.playerUids ?? pairingUserIds(pairing, players);
+      results[pairing.id] = { ...result, status: pairing.status, playerUids };
+    }
+    return { ...pairing, status: 'pending' };
+  });
+  return { ...tournament, ...stripped, results };
+}
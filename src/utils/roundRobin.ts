@@ -0,0 +1,75 @@
+import { playedMatchups } from './swissPairings';
+import type { DraftPlayer, ScheduledPairing, ScheduledRound, TournamentPairing, TournamentRound } from '../types';
+
+/** Everyone plays everyone once; an odd field adds a round so each player sits out once. */
+export function roundRobinRounds(playerCount: number): number {
+  return Math.max(1, playerCount % 2 === 0 ? playerCount - 1 : playerCount);
+}
+
+/**
+ * Every round of a round-robin by the circle method: one seat stays put and the rest
+ * rotate a place each round. The rows start out so round 1 matches
+ * generateRound1Pairings — seat i plays seat i + half, and the last player of an odd
+ * field takes the bye.
+ */
+export function roundRobinSchedule(orderedPlayers: DraftPlayer[]): ScheduledRound[] {
+  if (orderedPlayers.length === 0) return [];
+  const isOdd = orderedPlayers.length % 2 !== 0;
+  const active = (isOdd ? orderedPlayers.slice(0, -1) : orderedPlayers).map(p => p.id);
+  const half = active.length / 2;
+  const top: (string | null)[] = [...active.slice(0, half), ...(isOdd ? [orderedPlayers[orderedPlayers.length - 1].id] : [])];
+  const bottom: (string | null)[] = [...active.slice(half), ...(isOdd ? [null] : [])];
+
+  // Around the circle: across the top, then back along the bottom
+  let circle = [...top, ...bottom.reverse()];
+  const rounds: ScheduledRound[] = [];
+  for (let r = 1; r < circle.length; r++) {
+    const matches: ScheduledPairing[] = [];
+    const byes: ScheduledPairing[] = [];
+    for (let i = 0; i < circle.length / 2; i++) {
+      const a = circle[i];
+      const b = circle[circle.length - 1 - i];
+      if (a === null || b === null) byes.push({ player1Id: (a ?? b)!, player2Id: null });
+      else matches.push({ player1Id: a, player2Id: b });
+    }
+    rounds.push({ roundNumber: r, pairings: [...matches, ...byes] });
+    circle = [circle[0], circle[circle.length - 1], ...circle.slice(1, -1)];
+  }
+  return rounds;
+}
+
+/**
+ * A scheduled round's pairings, leaving out dropped players and any `sittingOut`.
+ * Players whose opponent is out play each other instead, as long as they haven't met
+ * in `completedRounds`; anyone left without a new opponent gets a bye. A scheduled
+ * match that one of those replacements already played is broken up the same way.
+ */
+export function scheduledPairings(
+  round: ScheduledRound,
+  out: Set<string>,
+  completedRounds: TournamentRound[] = []
+): TournamentPairing[] {
+  const played = playedMatchups(completedRounds);
+  const pairings: TournamentPairing[] = [];
+  const unmatched: string[] = [];
+  for (const { player1Id, player2Id } of round.pairings) {
+    const seated = [player1Id, player2Id].filter((id): id is string => id !== null && !out.has(id));
+    if (seated.length === 2 && !played.has(`${seated[0]}:${seated[1]}`)) {
+      pairings.push({ id: crypto.randomUUID(), player1Id: seated[0], player2Id: seated[1], status: 'pending' });
+    } else {
+      unmatched.push(...seated);
+    }
+  }
+  const byes: TournamentPairing[] = [];
+  while (unmatched.length > 0) {
+    const player1Id = unmatched.shift()!;
+    const i = unmatched.findIndex(id => !played.has(`${player1Id}:${id}`));
+    if (i === -1) {
+      byes.push({ id: crypto.randomUUID(), player1Id, player2Id: null, status: 'pending' });
+    } else {
+      const [player2Id] = unmatched.splice(i, 1);
+      pairings.push({ id: crypto.randomUUID(), player1Id, player2Id, status: 'pending' });
+    }
+  }
+  return [...pairings, ...byes];
+}
@@ -0,0 +1,88 @@
+import type { PairingResult, RoundTimer, TournamentPairing, TournamentRound } from '../types';
+
+// MTR 2.5: a limited round is 50 minutes, then five additional turns
+export const DEFAULT_ROUND_MINUTES = 50;
+export const ADDITIONAL_TURNS = 5;
+
+export type RoundTimerAction =
+  | { type: 'start'; minutes: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'extend'; minutes: number };
+
+const MINUTE = 60_000;
+
+/**
+ * The timer after an admin's action at `now` (server time, epoch ms). Time run before
+ * a pause is banked in `elapsedMs`, so every device works out the remaining time from
+ * the shared fields and its estimate of server time (see clockOffsetMs).
+ */
+export function applyTimerAction(timer: RoundTimer | undefined, action: RoundTimerAction, now: number): RoundTimer | undefined {
+  if (action.type === 'start') {
+    return { startedAt: now, durationMs: action.minutes * MINUTE, runningSince: now, elapsedMs: 0 };
+  }
+  if (!timer) return timer;
+  switch (action.type) {
+    case 'pause':
+      return timer.runningSince === null ? timer
+        : { ...timer, runningSince: null, elapsedMs: timer.elapsedMs + (now - timer.runningSince) };
+    case 'resume':
+      return timer.runningSince !== null ? timer : { ...timer, runningSince: now };
+    case 'extend':
+      return { ...timer, durationMs: timer.durationMs + action.minutes * MINUTE };
+  }
+}
+
+/** Milliseconds left on the clock; negative once time is up. */
+export function remainingMs(timer: RoundTimer, now: number): number {
+  const running = timer.runningSince === null ? 0 : now - timer.runningSince;
+  return timer.durationMs - timer.elapsedMs - running;
+}
+
+export function isTimeUp(round: TournamentRound, now: number): boolean {
+  return round.timer !== undefined && remainingMs(round.timer, now) <= 0;
+}
+
+/** A match still unreported when time is called goes to additional turns. */
+export function inAdditionalTurns(pairing: TournamentPairing, round: TournamentRound, now: number): boolean {
+  return pairing.player2Id !== null && pairing.status === 'pending' && isTimeUp(round, now);
+}
+
+/**
+ * A reported result from the games each player won. When time is called (MTR 2.5) the
+ * unfinished game is added as a drawn game; the match still goes to whoever won more
+ * games, so a 1–0 at time is a win and only level games make a drawn match.
+ */
+export function scoreMatch(
+  player1Wins: number,
+  player2Wins: number,
+  ties: number,
+  timeCalled = false
+): Omit<PairingResult, 'submittedBy' | 'submittedAt'> {
+  return {
+    player1Wins,
+    player2Wins,
+    ties: ties + (timeCalled ? 1 : 0),
+    matchWinner: player1Wins > player2Wins ? 'player1' : player2Wins > player1Wins ? 'player2' : 'tie',
+    isPartial: false,
+    ...(timeCalled ? { endedOnTime: true } : {}),
+  };
+}
+
+/**
+ * How far the server's clock runs ahead of this device's, from a server timestamp
+ * written between `sentAt` and `ackAt` (device time). Taking it as halfway between
+ * keeps the estimate within half a round trip of the truth.
+ */
+export function clockOffsetMs(sentAt: number, serverAt: number, ackAt: number): number {
+  return Math.round(serverAt - (sentAt + ackAt) / 2);
+}
+
+/** m:ss, or h:mm:ss for an hour or more. Time up reads 0:00. */
+export function formatClock(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
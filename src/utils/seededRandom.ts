@@ -0,0 +1,19 @@
+/**
+ * Returns a deterministic pseudo-random generator (mulberry32) yielding floats in [0, 1).
+ * The same seed always produces the same sequence, so every device can replay a spin.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh unsigned 32-bit seed from the platform's cryptographic RNG. */
+export function randomSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
@@ -0,0 +1,161 @@
+import Papa from 'papaparse';
+import type { Draft, DraftAllocationEntry, DraftSettlement, SettlementLine, SettlementTransfer } from '../types';
+import { groupPicksByPlayer } from './pickOrder';
+
+export interface SettlementParty {
+  userId: string | null;
+  name: string;
+  playerId?: string;  // the seat, for players without an account
+}
+
+interface Charge extends SettlementParty {
+  cents: number;
+}
+
+export const toCents = (dollars: number) => Math.round(dollars * 100);
+
+export const formatCents = (cents: number) =>
+  `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+export const netCents = (line: SettlementLine) => line.owesCents - line.owedCents;
+
+// Accounts match on userId and unlinked players on their seat, so two guests with the
+// same name stay apart. Only a party with neither falls back to its name.
+const partyKey = (p: SettlementParty) =>
+  p.userId ?? (p.playerId ? `player:${p.playerId}` : `name:${p.name.trim().toLowerCase()}`);
+
+/**
+ * Pairs debtors with creditors, largest first, so each person makes at most a few
+ * payments. Every transfer moves money from someone whose net is positive (owes) to
+ * someone whose net is negative (is owed).
+ */
+export function settleTransfers(lines: SettlementLine[]): SettlementTransfer[] {
+  const party = (l: SettlementLine, left: number) => ({ key: l.key ?? partyKey(l), name: l.name, left });
+  const byAmount = (a: { key: string; name: string; left: number }, b: typeof a) =>
+    b.left - a.left || a.name.localeCompare(b.name) || a.key.localeCompare(b.key);
+  const debtors = lines.filter(l => netCents(l) > 0).map(l => party(l, netCents(l))).sort(byAmount);
+  const creditors = lines.filter(l => netCents(l) < 0).map(l => party(l, -netCents(l))).sort(byAmount);
+
+  const transfers: SettlementTransfer[] = [];
+  let d = 0;
+  let c = 0;
+  while (d < debtors.length && c < creditors.length) {
+    const amountCents = Math.min(debtors[d].left, creditors[c].left);
+    transfers.push({
+      fromKey: debtors[d].key,
+      toKey: creditors[c].key,
+      from: debtors[d].name,
+      to: creditors[c].name,
+      amountCents,
+    });
+    debtors[d].left -= amountCents;
+    creditors[c].left -= amountCents;
+    if (debtors[d].left === 0) d++;
+    if (creditors[c].left === 0) c++;
+  }
+  return transfers;
+}
+
+function buildSettlement(owes: Charge[], owed: Charge[], missingCosts: string[], computedAt: number): DraftSettlement {
+  const lines = new Map<string, SettlementLine>();
+  const lineFor = (p: SettlementParty) => {
+    const key = partyKey(p);
+    let line = lines.get(key);
+    if (!line) {
+      line = { key, userId: p.userId, name: p.name, owesCents: 0, owedCents: 0 };
+      lines.set(key, line);
+    }
+    return line;
+  };
+  for (const charge of owes) lineFor(charge).owesCents += charge.cents;
+  for (const credit of owed) lineFor(credit).owedCents += credit.cents;
+
+  const result = [...lines.values()];
+  return {
+    totalCents: owes.reduce((sum, c) => sum + c.cents, 0),
+    lines: result,
+    transfers: settleTransfers(result),
+    missingCosts: [...new Set(missingCosts)].sort(),
+    computedAt,
+  };
+}
+
+/**
+ * Chaos drafts: each player pays for the packs they were dealt, and each pack's cost
+ * is owed to the pack's owner. Costs and owners come from the draw pool recorded when
+ * the draft started; `owner` names the party for an owner id (undefined on drafts
+ * saved before owners were recorded). Packs with no cost count as free and are listed
+ * in `missingCosts`.
+ */
+export function chaosSettlement(
+  draft: Pick<Draft, 'players' | 'packsSelectedOrder' | 'pickOrder' | 'pickOrderSeed' | 'drawPool'>,
+  owner: (ownerId: string | undefined) => SettlementParty,
+  computedAt = Date.now()
+): DraftSettlement {
+  const picks = groupPicksByPlayer(
+    draft.packsSelectedOrder ?? [],
+    draft.players.length,
+    draft.pickOrder,
+    draft.pickOrderSeed
+  );
+  const pool = new Map((draft.drawPool ?? []).map(entry => [entry.id, entry]));
+  const missing: string[] = [];
+  const owed: Charge[] = [];
+  const owes = draft.players.map((player, i) => ({
+    userId: player.userId,
+    name: player.name,
+    playerId: player.id,
+    cents: picks[i].reduce((sum, pack) => {
+      const entry = pool.get(pack.id);
+      if (entry?.unitCost === undefined) {
+        missing.push(pack.name);
+        return sum;
+      }
+      const cents = toCents(entry.unitCost);
+      owed.push({ ...owner(entry.ownerId), cents });
+      return sum + cents;
+    }, 0),
+  }));
+  return buildSettlement(owes, owed, missing, computedAt);
+}
+
+/**
+ * Regular drafts: each contributor in the allocation is owed for the packs they
+ * supplied, and the total is split evenly across the table (leftover cents go to the
+ * first players in seat order).
+ */
+export function allocationSettlement(
+  draft: Pick<Draft, 'players' | 'allocation'>,
+  unitCost: (entry: DraftAllocationEntry) => number | undefined,
+  computedAt = Date.now()
+): DraftSettlement {
+  const missing: string[] = [];
+  const owed = (draft.allocation ?? []).map(entry => {
+    const cost = unitCost(entry);
+    if (cost === undefined) missing.push(`${entry.name} (${entry.userName})`);
+    return { userId: entry.userId, name: entry.userName, cents: toCents(cost ?? 0) * entry.count };
+  });
+  const total = owed.reduce((sum, c) => sum + c.cents, 0);
+  const n = draft.players.length;
+  const share = n > 0 ? Math.floor(total / n) : 0;
+  const owes = draft.players.map((player, i) => ({
+    userId: player.userId,
+    name: player.name,
+    playerId: player.id,
+    cents: share + (i < total - share * n ? 1 : 0),
+  }));
+  return buildSettlement(owes, owed, missing, computedAt);
+}
+
+export function settlementToCsv(settlement: DraftSettlement): string {
+  const dollars = (cents: number) => (cents / 100).toFixed(2);
+  const summary = Papa.unparse({
+    fields: ['Name', 'Owes', 'Is Owed', 'Net'],
+    data: settlement.lines.map(l => [l.name, dollars(l.owesCents), dollars(l.owedCents), dollars(netCents(l))]),
+  });
+  const transfers = Papa.unparse({
+    fields: ['From', 'To', 'Amount'],
+    data: settlement.transfers.map(t => [t.from, t.to, dollars(t.amountCents)]),
+  });
+  return `${summary}\r\n\r\n${transfers}`;
+}
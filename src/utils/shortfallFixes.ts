@@ -0,0 +1,134 @@
+import { distributePacksAcrossSets, type SetAllocation } from './allocationAlgorithm';
+import { nameSimilarity } from './inventoryImport';
+
+// The parts of a regular draft config a fix can change
+export interface ShortfallScenario<S extends { id: string; name: string }> {
+  sets: S[];
+  setCounts: number[];
+  packsPerPerson: number;
+  useChaos: boolean;
+}
+
+export type ShortfallFixKind = 'substitute' | 'redistribute' | 'fewer-packs' | 'chaos';
+
+export interface ShortfallFix<S extends { id: string; name: string }> {
+  kind: ShortfallFixKind;
+  label: string;
+  scenario: ShortfallScenario<S>;
+  allocations: SetAllocation[];
+  shortfall: number;
+}
+
+interface FixContext<S extends { id: string; name: string }> {
+  playerCount: number;
+  candidates: S[];        // sets the group owns packs of, to substitute in
+  chaosAvailable: boolean;
+  evaluate: (scenario: ShortfallScenario<S>) => SetAllocation[];
+}
+
+const totalShortfall = (allocations: SetAllocation[]) =>
+  allocations.reduce((sum, a) => sum + a.shortfall, 0);
+
+/**
+ * Proposes ways to cover a regular draft's shortfall, each re-run through `evaluate`
+ * so the resulting allocation can be shown before it's applied. Only options that
+ * leave a smaller shortfall are returned, best first:
+ * - swap a short set for one the group owns (two per short set, most similar name first)
+ * - move packs from short sets onto sets with stock to spare, keeping the total
+ * - the largest packs-per-person that needs nothing extra
+ * - draw on the chaos inventory as a last resort
+ */
+export function proposeShortfallFixes<S extends { id: string; name: string }>(
+  current: ShortfallScenario<S>,
+  { playerCount, candidates, chaosAvailable, evaluate }: FixContext<S>
+): ShortfallFix<S>[] {
+  const base = evaluate(current);
+  const baseShortfall = totalShortfall(base);
+  if (baseShortfall === 0) return [];
+
+  const fixes: ShortfallFix<S>[] = [];
+  const consider = (kind: ShortfallFixKind, label: string, scenario: ShortfallScenario<S>) => {
+    const allocations = evaluate(scenario);
+    const shortfall = totalShortfall(allocations);
+    if (shortfall < baseShortfall) fixes.push({ kind, label, scenario, allocations, shortfall });
+  };
+
+  // Substitute
+  const chosen = new Set(current.sets.map(s => s.id));
+  const others = candidates.filter(c => !chosen.has(c.id));
+  base.forEach((allocation, k) => {
+    if (allocation.shortfall === 0) return;
+    const short = current.sets[k];
+    const options: ShortfallFix<S>[] = [];
+    for (const candidate of others) {
+      const sets = current.sets.map((s, i) => (i === k ? candidate : s));
+      const allocations = evaluate({ ...current, sets });
+      const shortfall = totalShortfall(allocations);
+      if (shortfall < baseShortfall) {
+        options.push({
+          kind: 'substitute',
+          label: `Swap ${short.name} for ${candidate.name}`,
+          scenario: { ...current, sets },
+          allocations,
+          shortfall,
+        });
+      }
+    }
+    options.sort((a, b) =>
+      a.shortfall - b.shortfall ||
+      nameSimilarity(short.name, b.scenario.sets[k].name) - nameSimilarity(short.name, a.scenario.sets[k].name) ||
+      a.scenario.sets[k].name.localeCompare(b.scenario.sets[k].name)
+    );
+    fixes.push(...options.slice(0, 2));
+  });
+
+  // Redistribute: pull each short set down to what it can fill, then hand the packs
+  // one at a time to whichever other set can still take one without falling short
+  if (current.sets.length > 1) {
+    const counts = base.map(a => a.totalNeeded - a.shortfall);
+    let toPlace = baseShortfall;
+    const shortIdx = new Set(base.flatMap((a, i) => (a.shortfall > 0 ? [i] : [])));
+    while (toPlace > 0) {
+      const order = counts
+        .map((_, i) => i)
+        .filter(i => !shortIdx.has(i))
+        .sort((a, b) => counts[a] - counts[b] || a - b);
+      const target = order.find(i => {
+        const trial = counts.map((c, j) => (j === i ? c + 1 : c));
+        return totalShortfall(evaluate({ ...current, setCounts: trial })) === 0;
+      });
+      if (target === undefined) break;
+      counts[target]++;
+      toPlace--;
+    }
+    // Whatever couldn't move stays with the sets it came from
+    base.forEach((a, i) => {
+      if (toPlace > 0 && a.shortfall > 0) {
+        const back = Math.min(a.shortfall, toPlace);
+        counts[i] += back;
+        toPlace -= back;
+      }
+    });
+    if (counts.some((c, i) => c !== current.setCounts[i])) {
+      const moves = current.sets.map((s, i) => `${s.name} ${current.setCounts[i]} → ${counts[i]}`).join(', ');
+      consider('redistribute', `Rebalance sets: ${moves}`, { ...current, setCounts: counts });
+    }
+  }
+
+  // Fewer packs per person
+  for (let packs = current.packsPerPerson - 1; packs >= 1; packs--) {
+    const { counts } = distributePacksAcrossSets(playerCount * packs, current.sets.length);
+    const scenario = { ...current, packsPerPerson: packs, setCounts: counts };
+    if (totalShortfall(evaluate(scenario)) === 0) {
+      consider('fewer-packs', `Lower to ${packs} pack${packs === 1 ? '' : 's'} per person`, scenario);
+      break;
+    }
+  }
+
+  // Chaos inventory
+  if (chaosAvailable && !current.useChaos) {
+    consider('chaos', 'Fill from the chaos inventory', { ...current, useChaos: true });
+  }
+
+  return fixes.sort((a, b) => a.shortfall - b.shortfall);
+}
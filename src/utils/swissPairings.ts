@@ -1,62 +1,133 @@
-import type { DraftPlayer, TournamentPairing, TournamentRound } from '../types';
+import type { Draft, DraftPlayer, DraftTournament, TournamentPairing, TournamentRound } from '../types';
 
 export interface PlayerStanding {
   playerId: string;
-  matchWins: number;
+  matchWins: number;     // matches won over the board; byes are only in `byes`
   matchLosses: number;
   matchTies: number;
   gameWins: number;
   gameLosses: number;
+  gameTies: number;
+  byes: number;
+  matchPoints: number;          // 3 per win or bye, 1 per draw
+  matchWinPct: number;          // MWP
+  opponentMatchWinPct: number;  // OMW%
+  gameWinPct: number;           // GW%
+  opponentGameWinPct: number;   // OGW%
 }
 
-function headToHead(aId: string, bId: string, rounds: TournamentRound[]): number {
-  for (const round of rounds) {
-    for (const p of round.pairings) {
-      if (p.player2Id === null || !p.result) continue;
-      if (p.player1Id === aId && p.player2Id === bId) {
-        if (p.result.matchWinner === 'player1') return -1;
-        if (p.result.matchWinner === 'player2') return 1;
-      }
-      if (p.player1Id === bId && p.player2Id === aId) {
-        if (p.result.matchWinner === 'player1') return 1;
-        if (p.result.matchWinner === 'player2') return -1;
-      }
-    }
-  }
-  return 0;
+// MTR appendix C: no player's match- or game-win percentage counts as lower than this
+export const TIEBREAKER_FLOOR = 0.33;
+
+const floored = (points: number, played: number) =>
+  played > 0 ? Math.max(TIEBREAKER_FLOOR, points / (3 * played)) : 0;
+
+/** Everyone in a draft's tournament: the drafters, then any late entries. */
+export function tournamentPlayers(draft: Pick<Draft, 'players' | 'tournament'>): DraftPlayer[] {
+  return [...draft.players, ...(draft.tournament?.lateEntries ?? []).map(e => e.player)];
 }
 
+/** Enough Swiss rounds for one undefeated player to emerge: log2 of the field, rounded up. */
+export function suggestedSwissRounds(playerCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(1, playerCount))));
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+/**
+ * Standings in Magic Tournament Rules order: match points, then opponents' match-win
+ * percentage, game-win percentage and opponents' game-win percentage. A bye is worth a
+ * 2–0 match win, and bye "opponents" are left out of the opponent averages. Late
+ * entries are credited a 0–2 loss or a bye for each round they missed.
+ */
 export function computeStandings(
   players: DraftPlayer[],
-  completedRounds: TournamentRound[]
+  completedRounds: TournamentRound[],
+  { lateEntries = [] }: Pick<DraftTournament, 'lateEntries'> = {}
 ): PlayerStanding[] {
   const standings = new Map<string, PlayerStanding>(
-    players.map(p => [p.id, { playerId: p.id, matchWins: 0, matchLosses: 0, matchTies: 0, gameWins: 0, gameLosses: 0 }])
+    players.map(p => [p.id, {
+      playerId: p.id,
+      matchWins: 0, matchLosses: 0, matchTies: 0,
+      gameWins: 0, gameLosses: 0, gameTies: 0,
+      byes: 0,
+      matchPoints: 0, matchWinPct: 0, opponentMatchWinPct: 0, gameWinPct: 0, opponentGameWinPct: 0,
+    }])
   );
+  const opponents = new Map<string, string[]>(players.map(p => [p.id, []]));
 
   for (const round of completedRounds) {
     for (const pairing of round.pairings) {
-      if (pairing.player2Id === null || !pairing.result) continue;
-      const { matchWinner, player1Wins, player2Wins } = pairing.result;
+      if (pairing.player2Id === null) {
+        const s = standings.get(pairing.player1Id);
+        if (s) s.byes++;
+        continue;
+      }
+      if (!pairing.result || pairing.status !== 'complete') continue;
+      const { matchWinner, player1Wins, player2Wins, ties } = pairing.result;
       const s1 = standings.get(pairing.player1Id);
       const s2 = standings.get(pairing.player2Id);
       if (!s1 || !s2) continue;
+      opponents.get(s1.playerId)!.push(s2.playerId);
+      opponents.get(s2.playerId)!.push(s1.playerId);
       s1.gameWins += player1Wins;
       s1.gameLosses += player2Wins;
       s2.gameWins += player2Wins;
       s2.gameLosses += player1Wins;
+      s1.gameTies += ties;
+      s2.gameTies += ties;
       if (matchWinner === 'player1') { s1.matchWins++; s2.matchLosses++; }
       else if (matchWinner === 'player2') { s2.matchWins++; s1.matchLosses++; }
       else { s1.matchTies++; s2.matchTies++; }
     }
   }
 
-  return [...standings.values()].sort((a, b) => {
-    if (b.matchWins !== a.matchWins) return b.matchWins - a.matchWins;
-    const h2h = headToHead(a.playerId, b.playerId, completedRounds);
-    if (h2h !== 0) return h2h;
-    return a.gameLosses - b.gameLosses;
-  });
+  for (const entry of lateEntries) {
+    const s = standings.get(entry.player.id);
+    if (!s) continue;
+    const missed = entry.joinedRound - 1;
+    if (entry.missedRounds === 'bye') {
+      s.byes += missed;
+    } else {
+      s.matchLosses += missed;
+      s.gameLosses += 2 * missed;
+    }
+  }
+
+  for (const s of standings.values()) {
+    s.matchPoints = 3 * (s.matchWins + s.byes) + s.matchTies;
+    s.matchWinPct = floored(s.matchPoints, s.matchWins + s.matchLosses + s.matchTies + s.byes);
+    // A bye counts as two game wins
+    const gamesPlayed = s.gameWins + s.gameLosses + s.gameTies + 2 * s.byes;
+    s.gameWinPct = floored(3 * (s.gameWins + 2 * s.byes) + s.gameTies, gamesPlayed);
+  }
+  for (const s of standings.values()) {
+    const opps = opponents.get(s.playerId)!.map(id => standings.get(id)!);
+    s.opponentMatchWinPct = average(opps.map(o => o.matchWinPct));
+    s.opponentGameWinPct = average(opps.map(o => o.gameWinPct));
+  }
+
+  return [...standings.values()].sort((a, b) =>
+    b.matchPoints - a.matchPoints ||
+    b.opponentMatchWinPct - a.opponentMatchWinPct ||
+    b.gameWinPct - a.gameWinPct ||
+    b.opponentGameWinPct - a.opponentGameWinPct
+  );
+}
+
+/** Every pair that has already met, as "a:b" keys in both orders. */
+export function playedMatchups(rounds: TournamentRound[]): Set<string> {
+  const played = new Set<string>();
+  for (const round of rounds) {
+    for (const pairing of round.pairings) {
+      if (pairing.player2Id !== null) {
+        played.add(`${pairing.player1Id}:${pairing.player2Id}`);
+        played.add(`${pairing.player2Id}:${pairing.player1Id}`);
+      }
+    }
+  }
+  return played;
 }
 
 function canPairWithoutRematch(playerIds: string[], played: Set<string>): boolean {
@@ -72,11 +143,18 @@ function canPairWithoutRematch(playerIds: string[], played: Set<string>): boolea
   return false;
 }
 
+/**
+ * Pairings for the next Swiss round. Dropped players are left out, as are any
+ * `sittingOut` this round only.
+ */
 export function generateSwissPairings(
   players: DraftPlayer[],
-  completedRounds: TournamentRound[]
+  completedRounds: TournamentRound[],
+  { drops = [], lateEntries = [], sittingOut = [] }:
+    Pick<DraftTournament, 'drops' | 'lateEntries'> & { sittingOut?: string[] } = {}
 ): TournamentPairing[] {
-  const standings = computeStandings(players, completedRounds);
+  const standings = computeStandings(players, completedRounds, { lateEntries });
+  const dropped = new Set([...drops.map(d => d.playerId), ...sittingOut]);
 
   const byeHistory = new Set<string>();
   for (const round of completedRounds) {
@@ -85,20 +163,11 @@ export function generateSwissPairings(
     }
   }
 
-  const played = new Set<string>();
-  for (const round of completedRounds) {
-    for (const pairing of round.pairings) {
-      if (pairing.player2Id !== null) {
-        played.add(`${pairing.player1Id}:${pairing.player2Id}`);
-        played.add(`${pairing.player2Id}:${pairing.player1Id}`);
-      }
-    }
-  }
+  const played = playedMatchups(completedRounds);
 
-  const sorted = [...standings].sort(
-    (a, b) => b.matchWins - a.matchWins || b.gameWins - a.gameWins
-  );
-  const unpaired = sorted
+  // Pair down the standings, so players on the same match points meet
+  const unpaired = standings
+    .filter(s => !dropped.has(s.playerId))
     .map(s => players.find(p => p.id === s.playerId))
     .filter((p): p is DraftPlayer => p !== undefined);
 
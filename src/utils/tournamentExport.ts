@@ -0,0 +1,231 @@
+import Papa from 'papaparse';
+import { escapeHtml } from './notifications';
+import { playoffChampionId, playoffRoundName } from './playoffBracket';
+import { podNumberOf, standingsTables } from './tournamentFormats';
+import type { DraftPlayer, DraftTournament, TournamentPairing } from '../types';
+
+export interface StandingRow {
+  rank: number;
+  name: string;
+  matchWins: number;
+  matchLosses: number;
+  matchTies: number;
+  matchPoints: number;          // 3 per win or bye, 1 per draw
+  byes: number;
+  opponentMatchWinPct: number;  // the tiebreakers are 0–1, see computeStandings
+  gameWins: number;
+  gameLosses: number;
+  gameWinPct: number;
+  opponentGameWinPct: number;
+  pod?: number;                 // set when the field is split into pods
+  droppedAfterRound?: number;
+  dropReason?: string;
+  joinedRound?: number;         // set for late entries
+}
+
+export interface StandingsSection {
+  pod: number | null;  // null for standings across the whole field
+  rows: StandingRow[];
+}
+
+export interface MatchRow {
+  player1: string;
+  player2: string | null;  // null for a bye
+  score: string | null;    // "2-1" or "1-1-1"; null while unreported
+  winner: string | null;   // a player's name, 'Draw', or null for a bye or unreported match
+}
+
+export interface TournamentReport {
+  title: string;
+  date: string;
+  status: DraftTournament['status'];
+  standings: StandingsSection[];  // one per pod with per-pod standings
+  rounds: { roundNumber: number; matches: MatchRow[] }[];
+  playoff: {
+    size: number;
+    champion: string | null;
+    rounds: { name: string; matches: MatchRow[] }[];  // "Semifinals", "Final", …
+  } | null;
+}
+
+/** Final standings and every round's pairings, with names resolved, ready to export. */
+export function tournamentReport(
+  title: string,
+  date: string,
+  players: DraftPlayer[],
+  tournament: DraftTournament
+): TournamentReport {
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name ?? 'Unknown';
+
+  const multiPod = (tournament.pods?.length ?? 0) > 1;
+
+  const standings = standingsTables(players, tournament).map(({ podNumber, standings }) => ({
+    pod: podNumber,
+    rows: standings.map((s, i): StandingRow => {
+      const pod = multiPod ? podNumberOf(tournament, s.playerId) : null;
+      const drop = tournament.drops?.find(d => d.playerId === s.playerId);
+      const late = tournament.lateEntries?.find(e => e.player.id === s.playerId);
+      return {
+        rank: i + 1,
+        name: nameOf(s.playerId),
+        matchWins: s.matchWins,
+        matchLosses: s.matchLosses,
+        matchTies: s.matchTies,
+        matchPoints: s.matchPoints,
+        byes: s.byes,
+        opponentMatchWinPct: s.opponentMatchWinPct,
+        gameWins: s.gameWins,
+        gameLosses: s.gameLosses,
+        gameWinPct: s.gameWinPct,
+        opponentGameWinPct: s.opponentGameWinPct,
+        ...(pod !== null && { pod }),
+        ...(drop && { droppedAfterRound: drop.afterRound }),
+        ...(drop?.reason && { dropReason: drop.reason }),
+        ...(late && { joinedRound: late.joinedRound }),
+      };
+    }),
+  }));
+
+  const matchRow = (p: TournamentPairing): MatchRow => {
+    if (p.player2Id === null) {
+      return { player1: nameOf(p.player1Id), player2: null, score: null, winner: null };
+    }
+    // Unconfirmed and disputed results don't count yet
+    const r = p.status === 'complete' ? p.result : undefined;
+    return {
+      player1: nameOf(p.player1Id),
+      player2: nameOf(p.player2Id),
+      score: r ? [r.player1Wins, r.player2Wins, ...(r.ties > 0 ? [r.ties] : [])].join('-') : null,
+      winner: !r ? null
+        : r.matchWinner === 'player1' ? nameOf(p.player1Id)
+        : r.matchWinner === 'player2' ? nameOf(p.player2Id)
+        : 'Draw',
+    };
+  };
+
+  const rounds = tournament.rounds.map(round => ({
+    roundNumber: round.roundNumber,
+    matches: round.pairings.map(matchRow),
+  }));
+
+  const { playoff: bracket } = tournament;
+  const champion = bracket && playoffChampionId(bracket);
+  const playoff = bracket
+    ? {
+        size: bracket.size,
+        champion: champion ? nameOf(champion) : null,
+        rounds: bracket.rounds.map(round => ({ name: playoffRoundName(round), matches: round.pairings.map(matchRow) })),
+      }
+    : null;
+
+  return { title, date, status: tournament.status, standings, rounds, playoff };
+}
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+const matchRecord = (s: StandingRow) => `${s.matchWins}-${s.matchLosses}-${s.matchTies}`;
+const opponent = (m: MatchRow) => m.player2 ?? 'BYE';
+const outcome = (m: MatchRow) => (m.player2 === null ? 'Bye' : m.winner ?? 'Not reported');
+// The same notes the standings table shows under a player's name
+const notes = (s: StandingRow) => [
+  ...(s.droppedAfterRound !== undefined
+    ? [`Dropped after round ${s.droppedAfterRound}${s.dropReason ? ` — ${s.dropReason}` : ''}`]
+    : []),
+  ...(s.joinedRound !== undefined ? [`Joined in round ${s.joinedRound}`] : []),
+].join('; ');
+const hasPods = (report: TournamentReport) => report.standings.some(t => t.rows.some(s => s.pod !== undefined));
+
+/** With per-pod standings, ranks restart in each pod and the Pod column tells the tables apart. */
+export function tournamentToCsv(report: TournamentReport): string {
+  const podded = hasPods(report);
+  const standings = Papa.unparse({
+    fields: [
+      'Rank', 'Player', ...(podded ? ['Pod'] : []), 'Match Points', 'Record (W-L-D)', 'Byes', 'OMW %',
+      'Game Wins', 'Game Losses', 'GW %', 'OGW %', 'Notes',
+    ],
+    data: report.standings.flatMap(t => t.rows.map(s => [
+      s.rank, s.name, ...(podded ? [s.pod ?? ''] : []), s.matchPoints, matchRecord(s), s.byes,
+      percent(s.opponentMatchWinPct), s.gameWins, s.gameLosses, percent(s.gameWinPct),
+      percent(s.opponentGameWinPct), notes(s),
+    ])),
+  });
+  const pairings = Papa.unparse({
+    fields: ['Round', 'Player 1', 'Player 2', 'Score', 'Winner'],
+    data: [
+      ...report.rounds.flatMap(r =>
+        r.matches.map(m => [r.roundNumber, m.player1, opponent(m), m.score ?? '', outcome(m)])
+      ),
+      ...(report.playoff?.rounds ?? []).flatMap(r =>
+        r.matches.map(m => [r.name, m.player1, opponent(m), m.score ?? '', outcome(m)])
+      ),
+    ],
+  });
+  return `${standings}\r\n\r\n${pairings}`;
+}
+
+export function tournamentToJson(report: TournamentReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/** A standalone page laid out for printing or saving as PDF. */
+export function tournamentToHtml(report: TournamentReport): string {
+  const row = (cells: (string | number)[], tag = 'td') =>
+    `<tr>${cells.map(c => `<${tag}>${escapeHtml(String(c))}</${tag}>`).join('')}</tr>`;
+
+  // A shared table across several pods says which pod each player is in
+  const podColumn = (t: StandingsSection) => t.pod === null && hasPods(report);
+  const standings = report.standings.map(t => `
+    ${t.pod !== null ? `<h3>Pod ${t.pod}</h3>` : ''}
+    <table>
+      ${row([
+        'Rank', 'Player', ...(podColumn(t) ? ['Pod'] : []), 'Points', 'Record (W-L-D)', 'Byes', 'OMW %',
+        'Games', 'GW %', 'OGW %', 'Notes',
+      ], 'th')}
+      ${t.rows.map(s => row([
+        s.rank, s.name, ...(podColumn(t) ? [s.pod ?? ''] : []), s.matchPoints, matchRecord(s), s.byes,
+        percent(s.opponentMatchWinPct), `${s.gameWins}-${s.gameLosses}`, percent(s.gameWinPct),
+        percent(s.opponentGameWinPct), notes(s),
+      ])).join('')}
+    </table>`).join('');
+  const matchTable = (heading: string, matches: MatchRow[]) => `
+    <h3>${escapeHtml(heading)}</h3>
+    <table>
+      ${row(['Player 1', 'Player 2', 'Score', 'Winner'], 'th')}
+      ${matches.map(m => row([m.player1, opponent(m), m.score ?? '—', outcome(m)])).join('')}
+    </table>`;
+  const rounds = report.rounds.map(r => matchTable(`Round ${r.roundNumber}`, r.matches)).join('');
+  const playoff = report.playoff
+    ? `<h2>Top ${report.playoff.size} Playoff</h2>` +
+      (report.playoff.champion ? `<p>Champion: <strong>${escapeHtml(report.playoff.champion)}</strong></p>` : '') +
+      report.playoff.rounds.map(r => matchTable(r.name, r.matches)).join('')
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)} — Results</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; max-width: 760px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #555; margin-top: 0; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; }
+  th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #ddd; font-size: 0.9rem; }
+  th { background: #f3f4f6; }
+  h3 { break-after: avoid; }
+  table { break-inside: avoid; }
+  @media print { button { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<button onclick="window.print()">Print / Save as PDF</button>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">${escapeHtml(report.date)} · ${report.status === 'finalized' ? 'Final results' : 'In progress'}</p>
+<h2>Standings</h2>
+${standings}
+<h2>Pairings</h2>
+${rounds}
+${playoff}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,124 @@
+import { computeStandings, generateSwissPairings, type PlayerStanding } from './swissPairings';
+import { roundRobinSchedule, scheduledPairings } from './roundRobin';
+import { generateRound1Pairings, playersToSeats } from './tournamentPairings';
+import type { DraftPlayer, DraftTournament, TournamentFormat, TournamentPairing, TournamentPod } from '../types';
+
+// Smallest table worth drafting at on its own
+export const MIN_POD_SIZE = 6;
+// Seven rounds is as long as a round-robin can reasonably run in one evening
+export const MAX_ROUND_ROBIN_PLAYERS = 8;
+
+/** How many pods a field can split into, each of at least MIN_POD_SIZE; 1 is always an option. */
+export function podCountOptions(playerCount: number): number[] {
+  const options = [1];
+  for (let count = 2; Math.floor(playerCount / count) >= MIN_POD_SIZE; count++) options.push(count);
+  return options;
+}
+
+/** Seat order cut into `count` pods of as even a size as possible, larger pods first. */
+export function splitIntoPods(orderedPlayers: DraftPlayer[], count: number): DraftPlayer[][] {
+  const pods: DraftPlayer[][] = [];
+  let start = 0;
+  for (let i = 0; i < count; i++) {
+    const size = Math.ceil((orderedPlayers.length - start) / (count - i));
+    pods.push(orderedPlayers.slice(start, start + size));
+    start += size;
+  }
+  return pods;
+}
+
+/** Round 1 across each pod's table. */
+export function firstRoundPairings(pods: DraftPlayer[][]): TournamentPairing[] {
+  return pods.flatMap(generateRound1Pairings);
+}
+
+/**
+ * A new tournament with round 1 under way. A round-robin fixes every round now, with
+ * each pod's schedule running side by side; a smaller pod just finishes early.
+ */
+export function newTournament(
+  pods: DraftPlayer[][],
+  round1: TournamentPairing[],
+  { format, totalRounds, podStandings = 'shared' }:
+    { format: TournamentFormat; totalRounds: number; podStandings?: DraftTournament['podStandings'] }
+): DraftTournament {
+  const multiPod = pods.length > 1;
+  const schedules = format === 'round-robin' ? pods.map(roundRobinSchedule) : [];
+  return {
+    format,
+    seats: multiPod
+      ? pods.flatMap((pod, i) => playersToSeats(pod).map(seat => ({ ...seat, pod: i + 1 })))
+      : playersToSeats(pods[0] ?? []),
+    rounds: [{ roundNumber: 1, pairings: round1, status: 'active' }],
+    ...(format === 'round-robin' ? {
+      schedule: Array.from({ length: totalRounds }, (_, i) => ({
+        roundNumber: i + 1,
+        pairings: schedules.flatMap(s => s[i]?.pairings ?? []),
+      })),
+    } : {}),
+    ...(multiPod ? {
+      pods: pods.map((pod, i) => ({ podNumber: i + 1, playerIds: pod.map(p => p.id) })),
+      podStandings,
+    } : {}),
+    currentRound: 1,
+    totalRounds,
+    status: 'active',
+    results: {},
+  };
+}
+
+/** Each pod's players in seat order, or the whole field as one group without pods. */
+export function tournamentGroups(players: DraftPlayer[], { pods }: Pick<DraftTournament, 'pods'>): DraftPlayer[][] {
+  if (!pods) return [players];
+  return pods.map(pod => pod.playerIds.flatMap(id => players.find(p => p.id === id) ?? []));
+}
+
+export function podNumberOf({ pods }: Pick<DraftTournament, 'pods'>, playerId: string): number | null {
+  return pods?.find(pod => pod.playerIds.includes(playerId))?.podNumber ?? null;
+}
+
+/** A late entry joins whichever pod is smallest. */
+export function joinSmallestPod(pods: TournamentPod[], playerId: string): TournamentPod[] {
+  const smallest = pods.reduce((min, pod) => (pod.playerIds.length < min.playerIds.length ? pod : min));
+  return pods.map(pod => pod === smallest ? { ...pod, playerIds: [...pod.playerIds, playerId] } : pod);
+}
+
+/**
+ * Pairings for the round after the tournament's latest, one list per pod: the next
+ * scheduled round of a round-robin, or Swiss within each pod. Dropped players are left
+ * out, as are any `sittingOut` this round only.
+ */
+export function nextRoundPairings(
+  players: DraftPlayer[],
+  tournament: DraftTournament,
+  sittingOut: string[] = []
+): TournamentPairing[][] {
+  const groups = tournamentGroups(players, tournament);
+  if (tournament.format === 'round-robin') {
+    const roundNumber = tournament.rounds.length + 1;
+    const scheduled = tournament.schedule?.find(r => r.roundNumber === roundNumber);
+    if (!scheduled) return groups.map(() => []);
+    const out = new Set([...(tournament.drops ?? []).map(d => d.playerId), ...sittingOut]);
+    return groups.map(group => {
+      const ids = new Set(group.map(p => p.id));
+      return scheduledPairings({ ...scheduled, pairings: scheduled.pairings.filter(p => ids.has(p.player1Id)) }, out, tournament.rounds);
+    });
+  }
+  return groups.map(group => generateSwissPairings(group, tournament.rounds, { ...tournament, sittingOut }));
+}
+
+export interface StandingsTable {
+  podNumber: number | null;   // null for standings across the whole field
+  standings: PlayerStanding[];
+}
+
+/** One table per pod with per-pod standings, otherwise one for everyone. */
+export function standingsTables(players: DraftPlayer[], tournament: DraftTournament): StandingsTable[] {
+  if (!tournament.pods || tournament.podStandings !== 'per-pod') {
+    return [{ podNumber: null, standings: computeStandings(players, tournament.rounds, tournament) }];
+  }
+  return tournamentGroups(players, tournament).map((group, i) => ({
+    podNumber: tournament.pods![i].podNumber,
+    standings: computeStandings(group, tournament.rounds, tournament),
+  }));
+}